@@ -0,0 +1,23 @@
+import { purgeExpiredTrashForAllUsers } from "@/lib/trash-purge";
+import { logError } from "@/lib/utils/logger";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Scheduled job: permanently deletes trash past its retention period for all
+ * users. Called daily by the cron in vercel.json; any scheduler that sends
+ * `Authorization: Bearer $CRON_SECRET` works.
+ */
+export async function GET(request: Request): Promise<Response> {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return Response.json(await purgeExpiredTrashForAllUsers());
+  } catch (error) {
+    logError("Scheduled trash purge failed", error);
+    return Response.json({ error: "Trash purge failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { AlertTriangle, RefreshCw } from "lucide-react";
+import clsx from "clsx";
+
+import { Button } from "@/components/Button";
+import type { AllergenViolationGroup } from "@/lib/utils/allergen-check";
+
+interface AllergenWarningProps {
+  groups: AllergenViolationGroup[];
+  isSaveBlocked: boolean;
+  onRegenerate: () => void;
+}
+
+function formatGroup({ restriction, matchedTerms }: AllergenViolationGroup): string {
+  const synonyms = matchedTerms.filter(
+    (term) => term !== restriction.trim().toLowerCase()
+  );
+  return synonyms.length > 0 ? `${restriction} (${synonyms.join(", ")})` : restriction;
+}
+
+/**
+ * Lists allergies and disliked ingredients found in a generated recipe, with
+ * a one-click regenerate that asks the model to leave them out.
+ */
+export function AllergenWarning({
+  groups,
+  isSaveBlocked,
+  onRegenerate,
+}: AllergenWarningProps) {
+  if (groups.length === 0) return null;
+
+  const allergies = groups.filter((group) => group.kind === "allergy");
+  const dislikes = groups.filter((group) => group.kind === "dislike");
+  const hasAllergies = allergies.length > 0;
+
+  return (
+    <div
+      className={clsx(
+        "no-print mt-4 rounded-lg border p-4 text-sm",
+        hasAllergies
+          ? "border-red-200 bg-red-50 text-red-800"
+          : "border-amber-200 bg-amber-50 text-amber-800"
+      )}
+      role="alert"
+    >
+      <div className="flex items-start gap-2">
+        <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" aria-hidden="true" />
+        <div className="space-y-1">
+          {hasAllergies && (
+            <p>
+              <span className="font-medium">Contains your allergies:</span>{" "}
+              {allergies.map(formatGroup).join(", ")}
+            </p>
+          )}
+          {dislikes.length > 0 && (
+            <p>
+              <span className="font-medium">Contains ingredients you dislike:</span>{" "}
+              {dislikes.map(formatGroup).join(", ")}
+            </p>
+          )}
+          {isSaveBlocked && (
+            <p>Saving is turned off until the recipe is regenerated without them.</p>
+          )}
+        </div>
+      </div>
+      <Button
+        type="button"
+        variant="secondary"
+        size="sm"
+        onClick={onRegenerate}
+        className="mt-3"
+      >
+        <RefreshCw className="mr-2 h-4 w-4 shrink-0" aria-hidden="true" />
+        Regenerate without these
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { ChipSelect } from "@/components/ui/ChipSelect";
+import type { HouseholdMember } from "@/lib/schemas/user";
+
+interface HouseholdPickerProps {
+  members: HouseholdMember[];
+  eatingMemberIds: string[];
+  onToggleMember: (memberId: string) => void;
+}
+
+/**
+ * Picks which household members a generation is for. Hidden until the
+ * profile has members.
+ */
+export function HouseholdPicker({
+  members,
+  eatingMemberIds,
+  onToggleMember,
+}: HouseholdPickerProps) {
+  if (members.length === 0) return null;
+
+  return (
+    <div className="no-print rounded-lg border border-surface-200 bg-white p-4 shadow-sm">
+      <ChipSelect
+        label="Who's eating?"
+        options={members.map((member) => member.name)}
+        selected={members
+          .filter((member) => eatingMemberIds.includes(member.id))
+          .map((member) => member.name)}
+        onChange={(name) => {
+          const member = members.find((item) => item.name === name);
+          if (member) onToggleMember(member.id);
+        }}
+      />
+      <p className="mt-2 text-sm text-gray-600">
+        Recipes avoid everyone&apos;s allergies, follow every diet, and serve the whole
+        group. Your own preferences always apply.
+      </p>
+    </div>
+  );
+}
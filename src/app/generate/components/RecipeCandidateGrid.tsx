@@ -0,0 +1,153 @@
+"use client";
+
+import { memo } from "react";
+import { AlertTriangle, Columns3 } from "lucide-react";
+import clsx from "clsx";
+
+import { Button } from "@/components/Button";
+import type { RecipeCandidate } from "@/lib/store/recipe-store";
+import type { AllergenViolationGroup } from "@/lib/utils/allergen-check";
+import { summarizeRecipeCandidate } from "@/lib/utils/recipe-candidates";
+
+interface RecipeCandidateGridProps {
+  candidates: RecipeCandidate[];
+  /** Allergies and dislikes found in each candidate, in candidate order. */
+  violationGroups: AllergenViolationGroup[][];
+  isGenerating: boolean;
+  onSelectCandidate: (index: number) => void;
+}
+
+interface CandidateCardProps {
+  candidate: RecipeCandidate;
+  violationGroups: AllergenViolationGroup[];
+  index: number;
+  isGenerating: boolean;
+  onSelect: () => void;
+}
+
+function CandidateAllergenFlags({ groups }: { groups: AllergenViolationGroup[] }) {
+  if (groups.length === 0) return null;
+
+  const allergies = groups.filter((group) => group.kind === "allergy");
+  const dislikes = groups.filter((group) => group.kind === "dislike");
+
+  return (
+    <div
+      className={clsx(
+        "mt-3 flex items-start gap-2 rounded-md border p-2 text-xs",
+        allergies.length > 0
+          ? "border-red-200 bg-red-50 text-red-800"
+          : "border-amber-200 bg-amber-50 text-amber-800"
+      )}
+    >
+      <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" aria-hidden="true" />
+      <div className="space-y-0.5">
+        {allergies.length > 0 && (
+          <p>
+            <span className="font-medium">Allergies:</span>{" "}
+            {allergies.map((group) => group.restriction).join(", ")}
+          </p>
+        )}
+        {dislikes.length > 0 && (
+          <p>
+            <span className="font-medium">Dislikes:</span>{" "}
+            {dislikes.map((group) => group.restriction).join(", ")}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CandidateCard({
+  candidate,
+  violationGroups,
+  index,
+  isGenerating,
+  onSelect,
+}: CandidateCardProps) {
+  const summary = candidate.recipe ? summarizeRecipeCandidate(candidate.recipe) : null;
+  const meta = [
+    summary?.totalTime,
+    summary?.difficulty,
+    summary?.calories != null ? `${summary.calories} kcal` : null,
+  ].filter(Boolean);
+
+  return (
+    <li className="flex flex-col rounded-lg border border-surface-200 bg-white p-4 shadow-sm">
+      <h3 className="font-medium text-gray-900 break-words">
+        {summary?.title ?? `Recipe ${index + 1}`}
+      </h3>
+      {candidate.error ? (
+        <p className="mt-2 text-sm text-red-600" role="alert">
+          {candidate.error}
+        </p>
+      ) : (
+        <>
+          <p className="mt-1 text-sm text-gray-600">
+            {meta.length > 0 ? meta.join(" / ") : "Writing recipe..."}
+          </p>
+          {summary && summary.keyIngredients.length > 0 && (
+            <ul className="mt-3 flex-1 list-disc pl-5 text-sm text-gray-700">
+              {summary.keyIngredients.map((item, itemIndex) => (
+                <li key={`${item}-${itemIndex}`}>{item}</li>
+              ))}
+            </ul>
+          )}
+          <CandidateAllergenFlags groups={violationGroups} />
+        </>
+      )}
+      <Button
+        type="button"
+        variant="secondary"
+        size="sm"
+        onClick={onSelect}
+        disabled={isGenerating || !candidate.recipe || Boolean(candidate.error)}
+        className="mt-4 w-full"
+      >
+        Continue with this
+      </Button>
+    </li>
+  );
+}
+
+/**
+ * Side-by-side comparison of recipes generated together. Cards fill in as
+ * each candidate streams; one can be picked once they have all finished,
+ * when each is also flagged for allergies and dislikes.
+ */
+export const RecipeCandidateGrid = memo(function RecipeCandidateGrid({
+  candidates,
+  violationGroups,
+  isGenerating,
+  onSelectCandidate,
+}: RecipeCandidateGridProps) {
+  if (candidates.length === 0) return null;
+
+  return (
+    <section
+      className="no-print"
+      aria-labelledby="recipe-candidates-title"
+      aria-busy={isGenerating}
+    >
+      <div className="mb-3 flex items-center gap-2">
+        <Columns3 className="h-4 w-4 text-primary-600" aria-hidden="true" />
+        <h2 id="recipe-candidates-title" className="text-base font-semibold text-gray-900">
+          Pick a recipe
+        </h2>
+      </div>
+      <ul className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        {candidates.map((candidate, index) => (
+          <CandidateCard
+            key={index}
+            candidate={candidate}
+            violationGroups={violationGroups[index] ?? []}
+            index={index}
+            isGenerating={isGenerating}
+            onSelect={() => onSelectCandidate(index)}
+          />
+        ))}
+      </ul>
+    </section>
+  );
+});
@@ -5,14 +5,21 @@ import { RecipeDisplayProps } from "../types";
 import { Button } from "@/components/Button";
 import { Input } from "@/components/ui/Input";
 import { NumberInput } from "@/components/ui/NumberInput";
+import { UnitSystemSelect } from "@/components/ui/UnitSystemSelect";
 import { RecipeContent } from "@/components/RecipeContent";
 import { RecipeExportActions } from "@/components/RecipeExportActions";
+import { CookModeButton } from "@/components/cook-mode/CookModeButton";
 import { FORM_VALIDATION, NUMBER_INPUT } from "@/lib/constants/ui";
+import { getCookRecipeKey } from "@/lib/utils/cook-progress";
 import { extractNutritionSummary } from "@/lib/utils/nutrition";
+import { calculateRecipeNutrition } from "@/lib/utils/nutrition-calculator";
 import { CARD_STYLES } from "../constants";
+import { AllergenWarning } from "./AllergenWarning";
+import { RecipeRefinementChat } from "./RecipeRefinementChat";
 
 /**
- * Recipe display component with save, print, and regenerate functionality.
+ * Recipe display component with save, print, regenerate, and refinement functionality.
+ * `parsedRecipe` is already converted to the selected unit system.
  */
 export const RecipeDisplay = memo(function RecipeDisplay({
   parsedRecipe,
@@ -25,12 +32,28 @@ export const RecipeDisplay = memo(function RecipeDisplay({
   onApplyServingScale,
   canScaleServings,
   isServingScalePending,
+  unitSystem,
+  onUnitSystemChange,
+  nutritionTargets,
+  pantryItemsUsed,
+  allergenViolations,
+  isSaveBlocked,
+  onRegenerateWithoutAllergens,
+  refinementThread,
+  refinementRequest,
+  onRefinementRequestChange,
+  onSendRefinement,
+  pendingRefinement,
+  refinementError,
   isSaving,
   saved,
   isGenerating,
   saveError,
 }: RecipeDisplayProps) {
   const nutrition = extractNutritionSummary(parsedRecipe.structuredData);
+  const calculatedNutrition = isGenerating
+    ? null
+    : calculateRecipeNutrition(parsedRecipe.structuredData);
 
   return (
     <div
@@ -44,31 +67,49 @@ export const RecipeDisplay = memo(function RecipeDisplay({
         title={parsedRecipe.title}
         content={parsedRecipe.content}
         nutrition={nutrition}
+        calculatedNutrition={calculatedNutrition}
+        nutritionTargets={nutritionTargets}
         titleId="recipe-title"
       />
+      {pantryItemsUsed.length > 0 && (
+        <p className="mt-4 text-sm text-gray-700">
+          <span className="font-medium">From your pantry:</span>{" "}
+          {pantryItemsUsed.join(", ")}
+        </p>
+      )}
+      {!isGenerating && (
+        <AllergenWarning
+          groups={allergenViolations}
+          isSaveBlocked={isSaveBlocked}
+          onRegenerate={onRegenerateWithoutAllergens}
+        />
+      )}
       {!isGenerating && (
         <div className="no-print mt-4 space-y-4">
-          {canScaleServings && (
-            <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
-              <NumberInput
-                label="Servings"
-                value={targetServings}
-                onChange={onTargetServingsChange}
-                min={NUMBER_INPUT.SERVING_SIZE_MIN}
-                max={NUMBER_INPUT.SERVING_SIZE_MAX}
-                className="w-full sm:w-32"
-              />
-              <Button
-                type="button"
-                variant="secondary"
-                onClick={onApplyServingScale}
-                disabled={!isServingScalePending}
-                className="w-full sm:w-auto"
-              >
-                Update servings
-              </Button>
-            </div>
-          )}
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+            <UnitSystemSelect value={unitSystem} onChange={onUnitSystemChange} />
+            {canScaleServings && (
+              <>
+                <NumberInput
+                  label="Servings"
+                  value={targetServings}
+                  onChange={onTargetServingsChange}
+                  min={NUMBER_INPUT.SERVING_SIZE_MIN}
+                  max={NUMBER_INPUT.SERVING_SIZE_MAX}
+                  className="w-full sm:w-32"
+                />
+                <Button
+                  type="button"
+                  variant="secondary"
+                  onClick={onApplyServingScale}
+                  disabled={!isServingScalePending}
+                  className="w-full sm:w-auto"
+                >
+                  Update servings
+                </Button>
+              </>
+            )}
+          </div>
           <Input
             label="Tweak this recipe (optional)"
             placeholder="e.g., make it spicier, serve 2..."
@@ -88,16 +129,23 @@ export const RecipeDisplay = memo(function RecipeDisplay({
             </Button>
             <Button
               onClick={onSave}
-              disabled={isSaving || saved}
+              disabled={isSaving || saved || isSaveBlocked || pendingRefinement !== null}
               className="min-w-[120px]"
               aria-describedby={saveError ? "save-error" : undefined}
             >
               {saved ? "Saved!" : isSaving ? "Saving..." : "Save Recipe"}
             </Button>
+            {parsedRecipe.structuredData && (
+              <CookModeButton
+                recipe={parsedRecipe.structuredData}
+                recipeKey={getCookRecipeKey(parsedRecipe.structuredData)}
+              />
+            )}
             <RecipeExportActions
               title={parsedRecipe.title}
               content={parsedRecipe.content}
               nutrition={nutrition}
+              structuredRecipe={parsedRecipe.structuredData}
             />
             {saveError && (
               <p id="save-error" className="text-sm text-red-600" role="alert">
@@ -105,6 +153,14 @@ export const RecipeDisplay = memo(function RecipeDisplay({
               </p>
             )}
           </div>
+          <RecipeRefinementChat
+            thread={refinementThread}
+            request={refinementRequest}
+            onRequestChange={onRefinementRequestChange}
+            onSend={onSendRefinement}
+            pendingRequest={pendingRefinement}
+            error={refinementError}
+          />
         </div>
       )}
     </div>
@@ -1,9 +1,21 @@
 import { memo } from "react";
+import Link from "next/link";
 import { RecipeFormProps } from "../types";
 import { Button } from "@/components/Button";
+import { ChipSelect } from "@/components/ui/ChipSelect";
+import { RECIPE_CANDIDATES } from "@/lib/constants/domain";
 import { FormInput } from "./FormInput";
 import { CARD_STYLES } from "../constants";
 
+function getCandidateCountLabel(count: number): string {
+  return count === 1 ? "Just one" : `Compare ${count}`;
+}
+
+const CANDIDATE_COUNT_OPTIONS = RECIPE_CANDIDATES.OPTIONS.map((count) => ({
+  count,
+  label: getCandidateCountLabel(count),
+}));
+
 /**
  * Recipe generation form component.
  * Adapts input fields based on selected mode (specific dish vs ingredients).
@@ -22,6 +34,13 @@ export const RecipeForm = memo(function RecipeForm({
   onInputChange,
   ingredients,
   onIngredientsChange,
+  quotaMessage,
+  pantryItemCount,
+  expiringPantryItemCount,
+  onUsePantry,
+  onUseExpiringPantry,
+  candidateCount,
+  onCandidateCountChange,
 }: RecipeFormProps) {
   return (
     <div className="space-y-4">
@@ -43,14 +62,57 @@ export const RecipeForm = memo(function RecipeForm({
               onChange={onInputChange}
             />
           ) : (
-            <FormInput
-              label="What ingredients do you have?"
-              placeholder="e.g., chicken breast, rice, onions, garlic..."
-              value={ingredients}
-              onChange={onIngredientsChange}
-              isTextArea
-            />
+            <>
+              <FormInput
+                label="What ingredients do you have?"
+                placeholder="e.g., chicken breast, rice, onions, garlic..."
+                value={ingredients}
+                onChange={onIngredientsChange}
+                isTextArea
+              />
+              {pantryItemCount > 0 ? (
+                <div className="mt-3 flex flex-wrap gap-2">
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="sm"
+                    onClick={onUsePantry}
+                  >
+                    Use my pantry
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="sm"
+                    onClick={onUseExpiringPantry}
+                    disabled={expiringPantryItemCount === 0}
+                  >
+                    Use items expiring soon
+                    {expiringPantryItemCount > 0 && ` (${expiringPantryItemCount})`}
+                  </Button>
+                </div>
+              ) : (
+                <p className="mt-3 text-sm text-gray-500">
+                  Tip: add what you have to your{" "}
+                  <Link href="/pantry" className="text-blue-600 hover:underline">
+                    pantry
+                  </Link>{" "}
+                  to fill this in with one click.
+                </p>
+              )}
+            </>
           )}
+          <div className="mt-4">
+            <ChipSelect
+              label="How many recipes?"
+              options={CANDIDATE_COUNT_OPTIONS.map((option) => option.label)}
+              selected={[getCandidateCountLabel(candidateCount)]}
+              onChange={(label) => {
+                const option = CANDIDATE_COUNT_OPTIONS.find((item) => item.label === label);
+                if (option) onCandidateCountChange(option.count);
+              }}
+            />
+          </div>
         </div>
 
         <Button
@@ -59,8 +121,17 @@ export const RecipeForm = memo(function RecipeForm({
           size="lg"
           className="w-full"
         >
-          {isLoading ? "Generating..." : "Generate Recipe"}
+          {isLoading
+            ? "Generating..."
+            : candidateCount > 1
+              ? `Generate ${candidateCount} Recipes`
+              : "Generate Recipe"}
         </Button>
+        {quotaMessage && (
+          <p className="text-center text-sm text-gray-600" role="status">
+            {quotaMessage}
+          </p>
+        )}
       </form>
     </div>
   );
@@ -0,0 +1,93 @@
+"use client";
+
+import type { FormEvent } from "react";
+import { MessageSquare } from "lucide-react";
+
+import { Button } from "@/components/Button";
+import { Input } from "@/components/ui/Input";
+import { RefinementThreadList } from "@/components/RefinementThreadList";
+import { RECIPE_REFINEMENT } from "@/lib/constants/domain";
+import { FORM_VALIDATION } from "@/lib/constants/ui";
+import type { RefinementTurn } from "@/lib/schemas/recipe";
+
+interface RecipeRefinementChatProps {
+  thread: RefinementTurn[];
+  request: string;
+  onRequestChange: (request: string) => void;
+  onSend: () => void;
+  pendingRequest: string | null;
+  error: string | null;
+}
+
+/**
+ * Refines the current recipe one request at a time ("make it spicier",
+ * "swap the chicken for tofu") and shows what each turn changed.
+ */
+export function RecipeRefinementChat({
+  thread,
+  request,
+  onRequestChange,
+  onSend,
+  pendingRequest,
+  error,
+}: RecipeRefinementChatProps) {
+  const isRefining = pendingRequest !== null;
+  const isAtLimit = thread.length >= RECIPE_REFINEMENT.MAX_TURNS;
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSend();
+  };
+
+  return (
+    <section
+      className="no-print rounded-lg border border-surface-200 bg-surface-50 p-4"
+      aria-labelledby="recipe-refinement-title"
+    >
+      <h3
+        id="recipe-refinement-title"
+        className="mb-3 flex items-center gap-2 text-base font-semibold"
+      >
+        <MessageSquare className="h-4 w-4 shrink-0" aria-hidden="true" />
+        Refine this recipe
+      </h3>
+      <div aria-live="polite" className="space-y-3">
+        <RefinementThreadList thread={thread} />
+        {pendingRequest && (
+          <p className="text-sm text-gray-600">
+            Applying &ldquo;{pendingRequest}&rdquo;&hellip;
+          </p>
+        )}
+      </div>
+      <form
+        onSubmit={handleSubmit}
+        className="mt-3 flex flex-col gap-2 sm:flex-row sm:items-start"
+      >
+        <div className="flex-1">
+          <Input
+            aria-label="Change request"
+            placeholder="e.g., swap the chicken for tofu, halve the butter..."
+            value={request}
+            onChange={(e) => onRequestChange(e.target.value)}
+            maxLength={FORM_VALIDATION.INPUT_MAX_LENGTH}
+            disabled={isRefining || isAtLimit}
+            error={error ?? undefined}
+          />
+        </div>
+        <Button
+          type="submit"
+          variant="secondary"
+          isLoading={isRefining}
+          disabled={isAtLimit || !request.trim()}
+          className="min-w-[120px]"
+        >
+          Send
+        </Button>
+      </form>
+      <p className="mt-2 text-xs text-gray-500">
+        {thread.length} of {RECIPE_REFINEMENT.MAX_TURNS} changes used. The conversation is
+        saved with the recipe.
+      </p>
+    </section>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
-import { useCallback } from "react";
+import { useCallback, useMemo } from "react";
+import type { FormEvent } from "react";
 import { useRouter } from "next/navigation";
 
 import { PageLayout } from "@/components/PageLayout";
@@ -11,14 +12,29 @@ import { useAuthStore } from "@/lib/store/auth-store";
 import { useUserProfile } from "@/hooks/useUserProfile";
 import { useProfileOnboarding } from "@/hooks/useProfileOnboarding";
 import { useRecipeGeneration } from "@/hooks/useRecipeGeneration";
+import { useHouseholdEaters } from "@/hooks/useHouseholdEaters";
+import { useAllergenCheck } from "@/hooks/useAllergenCheck";
+import { useRecipeRefinement } from "@/hooks/useRecipeRefinement";
 import { useRecipeServingScale } from "@/hooks/useRecipeServingScale";
 import { useRecipeSave } from "@/hooks/useRecipeSave";
+import { useUnitSystem } from "@/hooks/useUnitSystem";
+import { useGenerationQuota } from "@/hooks/useGenerationQuota";
+import { usePantry } from "@/hooks/usePantry";
+import { FORM_VALIDATION } from "@/lib/constants/ui";
+import {
+  buildPantryIngredientsText,
+  findPantryItemsUsed,
+} from "@/lib/utils/pantry";
+import { formatQuotaRemaining } from "@/lib/utils/rate-limit";
+import { convertRecipeUnits } from "@/lib/utils/unit-conversion";
 import type { RecipeStructure } from "@/lib/schemas/recipe";
 
 import { ModeSelector } from "./components/ModeSelector";
 import { RecipeForm } from "./components/RecipeForm";
 import { RecipeDisplay } from "./components/RecipeDisplay";
 import { GenerationHistory } from "./components/GenerationHistory";
+import { RecipeCandidateGrid } from "./components/RecipeCandidateGrid";
+import { HouseholdPicker } from "./components/HouseholdPicker";
 import { ErrorMessage } from "./components/ErrorMessage";
 
 export default function Generate() {
@@ -37,16 +53,21 @@ export default function Generate() {
     error: profileError,
   });
 
+  const { members, eatingMemberIds, toggleMember, generationProfile } =
+    useHouseholdEaters(userProfile);
+
   const {
     structuredRecipe,
     generationHistory,
     mode,
     setMode,
     setStructuredRecipe,
+    setCandidates,
     setGenerationError,
     resetRecipe,
     resetSaveState,
     clearGenerationHistory,
+    clearRefinementThread,
   } = useRecipeStore();
 
   // Custom hook for generation logic
@@ -57,12 +78,67 @@ export default function Generate() {
     input,
     ingredients,
     tweak,
+    candidateCount,
+    candidates,
     setInput,
     setIngredients,
     setTweak,
+    setCandidateCount,
+    selectCandidate,
     handleGenerate,
     handleRegenerate,
-  } = useRecipeGeneration(userProfile);
+    regenerateWithTweak,
+  } = useRecipeGeneration(generationProfile);
+
+  const {
+    violationGroups,
+    candidateViolationGroups,
+    isSaveBlocked,
+    regenerateWithoutViolations,
+    resetAutoRegeneration,
+    handleCandidateSelected,
+  } = useAllergenCheck({
+    structuredRecipe,
+    candidates,
+    userProfile: generationProfile,
+    isGenerating,
+    regenerateWithTweak,
+  });
+
+  const handleSelectCandidate = useCallback(
+    (index: number) => {
+      selectCandidate(index);
+      handleCandidateSelected(index);
+    },
+    [handleCandidateSelected, selectCandidate]
+  );
+
+  const {
+    refinementThread,
+    refinementRequest,
+    setRefinementRequest,
+    pendingRequest: pendingRefinement,
+    isRefining,
+    refinementError,
+    sendRefinement,
+  } = useRecipeRefinement({
+    structuredRecipe,
+    userProfile: generationProfile,
+    isGenerating,
+  });
+
+  const handleSubmit = useCallback(
+    (e: FormEvent) => {
+      resetAutoRegeneration();
+      return handleGenerate(e);
+    },
+    [handleGenerate, resetAutoRegeneration]
+  );
+
+  const handleRegenerateClick = useCallback(() => {
+    resetAutoRegeneration();
+    handleRegenerate();
+  }, [handleRegenerate, resetAutoRegeneration]);
 
   const {
     targetServings,
@@ -72,16 +148,42 @@ export default function Generate() {
     isScaled,
   } = useRecipeServingScale({ structuredRecipe, isGenerating });
 
+  const { unitSystem, setUnitSystem } = useUnitSystem(userProfile?.unitSystem);
+
+  const quota = useGenerationQuota(userId, isGenerating);
+
+  const { items: pantryItems, expiringItems } = usePantry({ userId });
+
+  const handleUsePantry = useCallback(() => {
+    setIngredients(
+      buildPantryIngredientsText(pantryItems, FORM_VALIDATION.TEXTAREA_MAX_LENGTH)
+    );
+  }, [pantryItems, setIngredients]);
+
+  const handleUseExpiringPantry = useCallback(() => {
+    setIngredients(
+      buildPantryIngredientsText(expiringItems, FORM_VALIDATION.TEXTAREA_MAX_LENGTH)
+    );
+  }, [expiringItems, setIngredients]);
+
+  const pantryItemsUsed = useMemo(
+    () =>
+      findPantryItemsUsed(structuredRecipe?.ingredients ?? [], pantryItems).map(
+        (item) => item.name
+      ),
+    [pantryItems, structuredRecipe?.ingredients]
+  );
+
   // Custom hook for save logic
   const { saveRecipe, isSaving, saveError, saved } = useRecipeSave();
 
   const handleSave = useCallback(async () => {
-    if (userId) {
+    if (userId && !isSaveBlocked && !isRefining) {
       await saveRecipe(userId);
       // Refresh the router cache to ensure saved recipes are updated
       router.refresh();
     }
-  }, [saveRecipe, userId, router]);
+  }, [isRefining, isSaveBlocked, saveRecipe, userId, router]);
 
   const handleBack = useCallback(() => {
     setMode(null);
@@ -91,14 +193,26 @@ export default function Generate() {
   const handleSelectHistoryRecipe = useCallback(
     (recipe: RecipeStructure) => {
       setStructuredRecipe(recipe);
+      setCandidates([]);
+      clearRefinementThread();
       setGenerationError(null);
       resetSaveState();
     },
-    [setStructuredRecipe, setGenerationError, resetSaveState]
+    [
+      setStructuredRecipe,
+      setCandidates,
+      clearRefinementThread,
+      setGenerationError,
+      resetSaveState,
+    ]
   );
 
-  // Select display recipe - no memoization needed as selector is pure and cheap
-  const displayRecipe = selectDisplayRecipe(structuredRecipe);
+  // Select display recipe - no memoization needed as selector and unit
+  // conversion are pure and cheap. Conversion is display-only; saves use the
+  // recipe as generated.
+  const displayRecipe = selectDisplayRecipe(
+    structuredRecipe && convertRecipeUnits(structuredRecipe, unitSystem)
+  );
 
   return (
     <PageLayout title="Generate Recipe">
@@ -113,22 +227,42 @@ export default function Generate() {
           </ErrorBoundary>
         ) : (
           <>
+            <HouseholdPicker
+              members={members}
+              eatingMemberIds={eatingMemberIds}
+              onToggleMember={toggleMember}
+            />
+
             <ErrorBoundary variant="feature" featureName="Recipe Form">
               <RecipeForm
                 mode={mode}
                 onBack={handleBack}
-                onSubmit={handleGenerate}
+                onSubmit={handleSubmit}
                 isLoading={isGenerating}
                 input={input}
                 onInputChange={setInput}
                 ingredients={ingredients}
                 onIngredientsChange={setIngredients}
+                quotaMessage={quota ? formatQuotaRemaining(quota) : null}
+                pantryItemCount={pantryItems.length}
+                expiringPantryItemCount={expiringItems.length}
+                onUsePantry={handleUsePantry}
+                onUseExpiringPantry={handleUseExpiringPantry}
+                candidateCount={candidateCount}
+                onCandidateCountChange={setCandidateCount}
               />
             </ErrorBoundary>
 
             {validationError && <ErrorMessage message={validationError} />}
             {generationError && <ErrorMessage message={generationError} />}
 
+            <RecipeCandidateGrid
+              candidates={candidates}
+              violationGroups={candidateViolationGroups}
+              isGenerating={isGenerating}
+              onSelectCandidate={handleSelectCandidate}
+            />
+
             <GenerationHistory
               recipes={generationHistory}
               selectedRecipe={structuredRecipe}
@@ -141,7 +275,7 @@ export default function Generate() {
                 <RecipeDisplay
                   parsedRecipe={displayRecipe}
                   onSave={handleSave}
-                  onRegenerate={handleRegenerate}
+                  onRegenerate={handleRegenerateClick}
                   tweak={tweak}
                   onTweakChange={setTweak}
                   targetServings={targetServings}
@@ -149,6 +283,19 @@ export default function Generate() {
                   onApplyServingScale={applyServingScale}
                   canScaleServings={canScale}
                   isServingScalePending={isScaled}
+                  unitSystem={unitSystem}
+                  onUnitSystemChange={setUnitSystem}
+                  nutritionTargets={userProfile?.nutritionTargets ?? null}
+                  pantryItemsUsed={pantryItemsUsed}
+                  allergenViolations={violationGroups}
+                  isSaveBlocked={isSaveBlocked}
+                  onRegenerateWithoutAllergens={regenerateWithoutViolations}
+                  refinementThread={refinementThread}
+                  refinementRequest={refinementRequest}
+                  onRefinementRequestChange={setRefinementRequest}
+                  onSendRefinement={sendRefinement}
+                  pendingRefinement={pendingRefinement}
+                  refinementError={refinementError}
                   isSaving={isSaving}
                   saved={saved}
                   isGenerating={isGenerating}
@@ -1,5 +1,8 @@
 import type { FormEvent } from "react";
-import type { ParsedRecipe, RecipeMode } from "@/lib/schemas/recipe";
+import type { ParsedRecipe, RecipeMode, RefinementTurn } from "@/lib/schemas/recipe";
+import type { UnitSystem } from "@/lib/constants/domain";
+import type { NutritionTargets } from "@/lib/schemas/user";
+import type { AllergenViolationGroup } from "@/lib/utils/allergen-check";
 
 /**
  * Type aliases for backwards compatibility with local naming conventions.
@@ -34,6 +37,17 @@ export interface RecipeFormProps {
   onInputChange: (value: string) => void;
   ingredients: string;
   onIngredientsChange: (value: string) => void;
+  /** Remaining generation quota, e.g. "3 of 20 generations left today". */
+  quotaMessage: string | null;
+  pantryItemCount: number;
+  expiringPantryItemCount: number;
+  /** Fills the ingredients field from the whole pantry. */
+  onUsePantry: () => void;
+  /** Fills the ingredients field with pantry items expiring soon. */
+  onUseExpiringPantry: () => void;
+  /** Recipes generated per request; above 1 they are compared side by side. */
+  candidateCount: number;
+  onCandidateCountChange: (candidateCount: number) => void;
 }
 
 export interface RecipeDisplayProps {
@@ -47,6 +61,25 @@ export interface RecipeDisplayProps {
   onApplyServingScale: () => void;
   canScaleServings: boolean;
   isServingScalePending: boolean;
+  unitSystem: UnitSystem | null;
+  onUnitSystemChange: (system: UnitSystem | null) => void;
+  /** Daily targets from the profile for the nutrition panel. */
+  nutritionTargets: NutritionTargets | null;
+  /** Names of pantry items the recipe uses. */
+  pantryItemsUsed: string[];
+  /** Allergies and dislikes found in the recipe after generation. */
+  allergenViolations: AllergenViolationGroup[];
+  /** Disables saving while the recipe contains an allergy. */
+  isSaveBlocked: boolean;
+  onRegenerateWithoutAllergens: () => void;
+  /** Refinement turns applied to the current recipe, oldest first. */
+  refinementThread: RefinementTurn[];
+  refinementRequest: string;
+  onRefinementRequestChange: (request: string) => void;
+  onSendRefinement: () => void;
+  /** The refinement request being applied; null when idle. */
+  pendingRefinement: string | null;
+  refinementError: string | null;
   isSaving: boolean;
   saved: boolean;
   isGenerating: boolean;
@@ -0,0 +1,38 @@
+import clsx from "clsx";
+
+import { PANTRY } from "@/lib/constants/domain";
+import { getDaysUntilExpiry } from "@/lib/utils/pantry";
+
+interface ExpiryBadgeProps {
+  expiresOn: string | null;
+}
+
+function getExpiryLabel(days: number): string {
+  if (days < 0) return "Expired";
+  if (days === 0) return "Expires today";
+  if (days === 1) return "Expires tomorrow";
+  return `Expires in ${days} days`;
+}
+
+/**
+ * Expiry status pill; highlights items expired or expiring soon.
+ */
+export function ExpiryBadge({ expiresOn }: ExpiryBadgeProps) {
+  const days = getDaysUntilExpiry(expiresOn);
+  if (days == null) return null;
+
+  return (
+    <span
+      className={clsx(
+        "inline-block px-2 py-0.5 rounded-full text-xs font-medium",
+        days < 0
+          ? "bg-red-100 text-red-700"
+          : days <= PANTRY.EXPIRING_SOON_DAYS
+            ? "bg-amber-100 text-amber-800"
+            : "bg-gray-100 text-gray-600"
+      )}
+    >
+      {getExpiryLabel(days)}
+    </span>
+  );
+}
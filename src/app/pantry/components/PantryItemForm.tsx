@@ -0,0 +1,114 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+
+import { Button } from "@/components/Button";
+import { Input } from "@/components/ui/Input";
+import { PANTRY } from "@/lib/constants/domain";
+import type { PantryItem, PantryItemInput } from "@/lib/schemas/pantry";
+
+interface PantryItemFormProps {
+  /** Item being edited; omitted when adding. */
+  item?: PantryItem;
+  submitLabel: string;
+  /** Returns a validation message, or null when the item was accepted. */
+  onSubmit: (input: PantryItemInput) => string | null;
+  onCancel?: () => void;
+}
+
+/**
+ * Add/edit form for a pantry item: name, optional quantity and unit, and an
+ * optional expiry date.
+ */
+export function PantryItemForm({
+  item,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: PantryItemFormProps) {
+  const [name, setName] = useState(item?.name ?? "");
+  const [quantity, setQuantity] = useState(item?.quantity?.toString() ?? "");
+  const [unit, setUnit] = useState(item?.unit ?? "");
+  const [expiresOn, setExpiresOn] = useState(item?.expiresOn ?? "");
+  const [error, setError] = useState<string | null>(null);
+
+  const idPrefix = item ? `pantry-${item.id}` : "pantry-new";
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const parsedQuantity = quantity.trim() ? Number(quantity) : null;
+    const message = onSubmit({
+      name,
+      quantity: parsedQuantity,
+      unit: unit.trim() || null,
+      expiresOn: expiresOn || null,
+    });
+
+    setError(message);
+    if (!message && !item) {
+      setName("");
+      setQuantity("");
+      setUnit("");
+      setExpiresOn("");
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="grid grid-cols-2 sm:grid-cols-6 gap-3 items-end">
+        <div className="col-span-2 sm:col-span-2">
+          <Input
+            id={`${idPrefix}-name`}
+            label="Item"
+            placeholder="e.g., jasmine rice"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={PANTRY.MAX_NAME_LENGTH}
+          />
+        </div>
+        <Input
+          id={`${idPrefix}-quantity`}
+          label="Quantity"
+          type="number"
+          min={0}
+          step="any"
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+        />
+        <Input
+          id={`${idPrefix}-unit`}
+          label="Unit"
+          placeholder="e.g., cups"
+          value={unit}
+          onChange={(e) => setUnit(e.target.value)}
+          maxLength={20}
+        />
+        <div className="col-span-2 sm:col-span-2">
+          <Input
+            id={`${idPrefix}-expires`}
+            label="Expires (optional)"
+            type="date"
+            value={expiresOn}
+            onChange={(e) => setExpiresOn(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="submit" size="sm">
+          {submitLabel}
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
+      {error && (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+}
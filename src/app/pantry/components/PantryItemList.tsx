@@ -0,0 +1,81 @@
+"use client";
+
+import { useState } from "react";
+import { Pencil, Trash2 } from "lucide-react";
+
+import type { PantryItem, PantryItemInput } from "@/lib/schemas/pantry";
+import { formatPantryItem } from "@/lib/utils/pantry";
+
+import { ExpiryBadge } from "./ExpiryBadge";
+import { PantryItemForm } from "./PantryItemForm";
+
+interface PantryItemListProps {
+  items: PantryItem[];
+  onUpdateItem: (itemId: string, input: PantryItemInput) => string | null;
+  onRemoveItem: (itemId: string) => void;
+}
+
+/**
+ * Pantry items with inline editing and removal.
+ */
+export function PantryItemList({
+  items,
+  onUpdateItem,
+  onRemoveItem,
+}: PantryItemListProps) {
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
+
+  if (items.length === 0) {
+    return (
+      <p className="text-gray-500 text-center py-8">
+        Your pantry is empty. Add what you have on hand above.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200 bg-white rounded-lg border border-gray-200">
+      {items.map((item) => (
+        <li key={item.id} className="p-3 sm:p-4">
+          {editingItemId === item.id ? (
+            <PantryItemForm
+              item={item}
+              submitLabel="Save"
+              onSubmit={(input) => {
+                const error = onUpdateItem(item.id, input);
+                if (!error) setEditingItemId(null);
+                return error;
+              }}
+              onCancel={() => setEditingItemId(null)}
+            />
+          ) : (
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex flex-wrap items-center gap-2 min-w-0">
+                <span className="break-words">{formatPantryItem(item)}</span>
+                <ExpiryBadge expiresOn={item.expiresOn} />
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <button
+                  type="button"
+                  onClick={() => setEditingItemId(item.id)}
+                  className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                  aria-label={`Edit ${item.name}`}
+                >
+                  <Pencil className="w-4 h-4" aria-hidden="true" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onRemoveItem(item.id)}
+                  className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                  aria-label={`Remove ${item.name}`}
+                >
+                  <Trash2 className="w-4 h-4" aria-hidden="true" />
+                </button>
+              </div>
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { PageLayout } from "@/components/PageLayout";
+import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { ErrorMessage } from "@/components/ui/ErrorMessage";
+import { CardSkeleton } from "@/components/ui/PageSkeleton";
+import { useAuthStore } from "@/lib/store/auth-store";
+import { usePantry } from "@/hooks/usePantry";
+
+import { PantryItemForm } from "./components/PantryItemForm";
+import { PantryItemList } from "./components/PantryItemList";
+
+export default function Pantry() {
+  const { user } = useAuthStore();
+  const {
+    items,
+    expiringItems,
+    isLoading,
+    loadError,
+    saveError,
+    addItem,
+    updateItem,
+    removeItem,
+  } = usePantry({ userId: user?.uid });
+
+  if (!user) {
+    return (
+      <PageLayout title="Pantry">
+        <p className="text-gray-600">Please sign in to manage your pantry.</p>
+      </PageLayout>
+    );
+  }
+
+  return (
+    <PageLayout
+      title="Pantry"
+      subtitle={
+        expiringItems.length > 0
+          ? `${expiringItems.length} item${expiringItems.length !== 1 ? "s" : ""} expiring soon`
+          : "Keep track of what you have so recipes can use it"
+      }
+    >
+      <div className="space-y-6">
+        {loadError && <ErrorMessage message={loadError} />}
+        {saveError && <ErrorMessage message={saveError} />}
+
+        <section className="bg-white rounded-lg border border-gray-200 p-4 sm:p-6">
+          <h2 className="text-lg font-semibold mb-3">Add an item</h2>
+          <PantryItemForm submitLabel="Add to pantry" onSubmit={addItem} />
+        </section>
+
+        {isLoading ? (
+          <CardSkeleton count={3} />
+        ) : (
+          <ErrorBoundary variant="feature" featureName="Pantry Items">
+            <PantryItemList
+              items={items}
+              onUpdateItem={updateItem}
+              onRemoveItem={removeItem}
+            />
+          </ErrorBoundary>
+        )}
+      </div>
+    </PageLayout>
+  );
+}
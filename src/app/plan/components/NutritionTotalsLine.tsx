@@ -0,0 +1,42 @@
+import type { NutritionTotals } from "@/lib/utils/meal-plan";
+
+interface NutritionTotalsLineProps {
+  totals: NutritionTotals;
+  /** Larger layout for the weekly summary. */
+  isSummary?: boolean;
+}
+
+/**
+ * Per-person calories and macros for a day or week of planned meals.
+ */
+export function NutritionTotalsLine({
+  totals,
+  isSummary = false,
+}: NutritionTotalsLineProps) {
+  const hasMeals = totals.calories > 0 || totals.missingCount > 0;
+  if (!hasMeals) return null;
+
+  return (
+    <div
+      className={
+        isSummary
+          ? "flex flex-wrap gap-x-6 gap-y-1 text-sm"
+          : "text-xs text-gray-600 text-center space-y-0.5"
+      }
+    >
+      <p>
+        <span className="font-semibold">{Math.round(totals.calories)}</span> kcal
+      </p>
+      <p>
+        P {Math.round(totals.protein)}g · C {Math.round(totals.carbs)}g · F{" "}
+        {Math.round(totals.fat)}g
+      </p>
+      {totals.missingCount > 0 && (
+        <p className="text-gray-400">
+          {totals.missingCount} meal{totals.missingCount !== 1 ? "s" : ""} without
+          nutrition
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { memo } from "react";
+import { GripVertical } from "lucide-react";
+
+import type { Recipe } from "@/lib/schemas/recipe";
+
+import { RECIPE_DRAG_TYPE } from "../constants";
+
+interface RecipeShelfProps {
+  recipes: Recipe[];
+}
+
+/**
+ * Saved recipes that can be dragged onto meal slots.
+ */
+export const RecipeShelf = memo(function RecipeShelf({ recipes }: RecipeShelfProps) {
+  return (
+    <section className="space-y-3" aria-labelledby="recipe-shelf-heading">
+      <h2 id="recipe-shelf-heading" className="text-lg font-semibold">
+        Saved recipes
+      </h2>
+      <p className="text-sm text-gray-500">
+        Drag a recipe onto a meal, or use the add menu in each slot.
+      </p>
+      <ul className="space-y-2 max-h-[60vh] overflow-y-auto">
+        {recipes.map((recipe) => (
+          <li
+            key={recipe.id}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.setData(RECIPE_DRAG_TYPE, recipe.id);
+              e.dataTransfer.effectAllowed = "copy";
+            }}
+            className="flex items-center gap-2 p-3 rounded-lg border border-gray-200 bg-white cursor-grab hover:border-blue-300 transition-colors"
+          >
+            <GripVertical className="w-4 h-4 text-gray-400 shrink-0" aria-hidden="true" />
+            <span className="break-words">{recipe.title}</span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+});
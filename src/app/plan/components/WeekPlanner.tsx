@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import { X } from "lucide-react";
+import clsx from "clsx";
+
+import { MEAL_SLOTS, type MealSlot } from "@/lib/constants/domain";
+import { NUMBER_INPUT } from "@/lib/constants/ui";
+import type { MealPlanEntry } from "@/lib/schemas/meal-plan";
+import type { Recipe } from "@/lib/schemas/recipe";
+import type { NutritionTotals, WeekDay } from "@/lib/utils/meal-plan";
+
+import { RECIPE_DRAG_TYPE } from "../constants";
+import { NutritionTotalsLine } from "./NutritionTotalsLine";
+
+interface WeekPlannerProps {
+  days: WeekDay[];
+  entries: MealPlanEntry[];
+  recipes: Recipe[];
+  dailyTotals: NutritionTotals[];
+  onAddEntry: (day: number, slot: MealSlot, recipeId: string) => void;
+  onRemoveEntry: (entryId: string) => void;
+  onServingsChange: (entryId: string, servings: number) => void;
+}
+
+interface MealSlotCellProps {
+  day: number;
+  slot: MealSlot;
+  slotLabel: string;
+  dayLabel: string;
+  entries: MealPlanEntry[];
+  recipes: Recipe[];
+  onAddEntry: WeekPlannerProps["onAddEntry"];
+  onRemoveEntry: WeekPlannerProps["onRemoveEntry"];
+  onServingsChange: WeekPlannerProps["onServingsChange"];
+}
+
+function MealSlotCell({
+  day,
+  slot,
+  slotLabel,
+  dayLabel,
+  entries,
+  recipes,
+  onAddEntry,
+  onRemoveEntry,
+  onServingsChange,
+}: MealSlotCellProps) {
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  return (
+    <div
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes(RECIPE_DRAG_TYPE)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = "copy";
+        setIsDragOver(true);
+      }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragOver(false);
+        const recipeId = e.dataTransfer.getData(RECIPE_DRAG_TYPE);
+        if (recipeId) onAddEntry(day, slot, recipeId);
+      }}
+      className={clsx(
+        "min-h-24 p-2 rounded-lg border border-dashed space-y-2 transition-colors",
+        isDragOver ? "border-blue-500 bg-blue-50" : "border-gray-300 bg-gray-50"
+      )}
+    >
+      <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+        {slotLabel}
+      </p>
+
+      {entries.map((entry) => (
+        <div
+          key={entry.id}
+          className="p-2 rounded-md bg-white border border-gray-200 text-sm space-y-1"
+        >
+          <div className="flex items-start justify-between gap-1">
+            <span className="break-words">{entry.recipeTitle}</span>
+            <button
+              type="button"
+              onClick={() => onRemoveEntry(entry.id)}
+              className="text-gray-400 hover:text-red-600 transition-colors"
+              aria-label={`Remove ${entry.recipeTitle} from ${dayLabel} ${slotLabel}`}
+            >
+              <X className="w-4 h-4" aria-hidden="true" />
+            </button>
+          </div>
+          <label className="flex items-center gap-1 text-xs text-gray-500">
+            Servings
+            <input
+              type="number"
+              min={NUMBER_INPUT.SERVING_SIZE_MIN}
+              max={NUMBER_INPUT.SERVING_SIZE_MAX}
+              value={entry.servings}
+              onChange={(e) =>
+                onServingsChange(
+                  entry.id,
+                  parseInt(e.target.value) || NUMBER_INPUT.SERVING_SIZE_MIN
+                )
+              }
+              className="w-12 p-0.5 border rounded focus:ring-2 focus:ring-primary-500 outline-none"
+            />
+          </label>
+        </div>
+      ))}
+
+      <select
+        value=""
+        onChange={(e) => {
+          if (e.target.value) onAddEntry(day, slot, e.target.value);
+        }}
+        aria-label={`Add a recipe to ${dayLabel} ${slotLabel}`}
+        className="w-full text-xs p-1 border rounded bg-white text-gray-500"
+      >
+        <option value="">+ Add</option>
+        {recipes.map((recipe) => (
+          <option key={recipe.id} value={recipe.id}>
+            {recipe.title}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+/**
+ * Seven-day grid of breakfast, lunch, and dinner slots with daily totals.
+ */
+export function WeekPlanner({
+  days,
+  entries,
+  recipes,
+  dailyTotals,
+  onAddEntry,
+  onRemoveEntry,
+  onServingsChange,
+}: WeekPlannerProps) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-7 gap-3">
+      {days.map(({ day, label }) => (
+        <section
+          key={day}
+          className="space-y-2"
+          aria-label={label}
+        >
+          <h3 className="font-semibold text-center">{label}</h3>
+          {MEAL_SLOTS.map(({ value: slot, label: slotLabel }) => (
+            <MealSlotCell
+              key={slot}
+              day={day}
+              slot={slot}
+              slotLabel={slotLabel}
+              dayLabel={label}
+              entries={entries.filter(
+                (entry) => entry.day === day && entry.slot === slot
+              )}
+              recipes={recipes}
+              onAddEntry={onAddEntry}
+              onRemoveEntry={onRemoveEntry}
+              onServingsChange={onServingsChange}
+            />
+          ))}
+          <NutritionTotalsLine totals={dailyTotals[day]} />
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+/**
+ * Plan page constants
+ * 
+ * Organization:
+ * - RECIPE_DRAG_TYPE: Drag-and-drop data type for saved recipes
+ */
+
+/**
+ * Data transfer type used when dragging a saved recipe onto a meal slot.
+ * The payload is the recipe id.
+ */
+export const RECIPE_DRAG_TYPE = "application/x-bakeme-recipe-id";
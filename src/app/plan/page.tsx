@@ -0,0 +1,149 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ChevronLeft, ChevronRight, ShoppingCart } from "lucide-react";
+
+import { PageLayout } from "@/components/PageLayout";
+import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { Button } from "@/components/Button";
+import { ErrorMessage } from "@/components/ui/ErrorMessage";
+import { CardSkeleton } from "@/components/ui/PageSkeleton";
+import { useAuthStore } from "@/lib/store/auth-store";
+import { formatWeekRange, getWeekDays } from "@/lib/utils/meal-plan";
+import { useMealPlan } from "@/hooks/useMealPlan";
+
+import { RecipeShelf } from "./components/RecipeShelf";
+import { WeekPlanner } from "./components/WeekPlanner";
+import { NutritionTotalsLine } from "./components/NutritionTotalsLine";
+
+export default function Plan() {
+  const router = useRouter();
+  const { user } = useAuthStore();
+  const {
+    recipes,
+    isLoading,
+    loadError,
+    actionError,
+    weekStart,
+    showPreviousWeek,
+    showNextWeek,
+    showCurrentWeek,
+    entries,
+    addEntry,
+    removeEntry,
+    setEntryServings,
+    dailyTotals,
+    weeklyTotals,
+    isBuildingShoppingList,
+    buildShoppingList,
+  } = useMealPlan({ userId: user?.uid });
+
+  const days = useMemo(() => getWeekDays(weekStart), [weekStart]);
+
+  const handleBuildShoppingList = useCallback(async (): Promise<void> => {
+    if (await buildShoppingList()) router.push("/shopping-list");
+  }, [buildShoppingList, router]);
+
+  if (!user) {
+    return (
+      <PageLayout title="Meal Plan">
+        <p className="text-gray-600">Please sign in to plan your meals.</p>
+      </PageLayout>
+    );
+  }
+
+  return (
+    <PageLayout title="Meal Plan" subtitle={formatWeekRange(weekStart)}>
+      {loadError && <ErrorMessage message={loadError} />}
+      {actionError && <ErrorMessage message={actionError} />}
+
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-2">
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            onClick={showPreviousWeek}
+            aria-label="Previous week"
+          >
+            <ChevronLeft className="w-4 h-4" aria-hidden="true" />
+          </Button>
+          <Button type="button" variant="secondary" size="sm" onClick={showCurrentWeek}>
+            This week
+          </Button>
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            onClick={showNextWeek}
+            aria-label="Next week"
+          >
+            <ChevronRight className="w-4 h-4" aria-hidden="true" />
+          </Button>
+        </div>
+
+        <Button
+          type="button"
+          onClick={handleBuildShoppingList}
+          isLoading={isBuildingShoppingList}
+          disabled={entries.length === 0 || isBuildingShoppingList}
+        >
+          <ShoppingCart className="mr-2 h-4 w-4" aria-hidden="true" />
+          Build shopping list
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <CardSkeleton count={3} />
+      ) : !recipes || recipes.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <p className="text-lg">No saved recipes yet.</p>
+          <p className="mt-2">
+            <Link href="/generate" className="text-blue-600 hover:underline">
+              Generate and save a recipe
+            </Link>{" "}
+            to start planning.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+          <div className="lg:col-span-1">
+            <ErrorBoundary variant="feature" featureName="Recipe Shelf">
+              <RecipeShelf recipes={recipes} />
+            </ErrorBoundary>
+          </div>
+
+          <div className="lg:col-span-4 space-y-4">
+            <ErrorBoundary variant="feature" featureName="Week Planner">
+              <WeekPlanner
+                days={days}
+                entries={entries}
+                recipes={recipes}
+                dailyTotals={dailyTotals}
+                onAddEntry={addEntry}
+                onRemoveEntry={removeEntry}
+                onServingsChange={setEntryServings}
+              />
+            </ErrorBoundary>
+
+            <section
+              className="bg-white rounded-lg border border-gray-200 p-4"
+              aria-labelledby="weekly-totals-heading"
+            >
+              <h2 id="weekly-totals-heading" className="font-semibold mb-2">
+                Weekly totals (per person)
+              </h2>
+              {entries.length > 0 ? (
+                <NutritionTotalsLine totals={weeklyTotals} isSummary />
+              ) : (
+                <p className="text-sm text-gray-500">No meals planned this week.</p>
+              )}
+            </section>
+          </div>
+        </div>
+      )}
+    </PageLayout>
+  );
+}
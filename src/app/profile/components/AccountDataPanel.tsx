@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import { Download, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/Button";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { ErrorMessage } from "@/components/ui/ErrorMessage";
+import { useAccountData } from "@/hooks/useAccountData";
+
+interface AccountDataPanelProps {
+  userId: string;
+}
+
+/**
+ * Account controls on the profile page: download a zip of the profile and
+ * saved recipes, or permanently delete the account and everything in it.
+ */
+export function AccountDataPanel({ userId }: AccountDataPanelProps) {
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const {
+    downloadData,
+    isExporting,
+    exportError,
+    deleteAccount,
+    isDeleting,
+    deleteError,
+    requiresSignIn,
+    signInAgain,
+  } = useAccountData({ userId });
+
+  return (
+    <section
+      className="bg-white rounded-lg shadow-xs p-4 sm:p-6 border border-surface-200 space-y-6"
+      aria-labelledby="account-data-heading"
+    >
+      <h2 id="account-data-heading" className="text-lg font-semibold text-gray-900">
+        Your data
+      </h2>
+
+      <div className="space-y-2">
+        <p className="text-sm text-gray-600">
+          Download your profile and saved recipes as a zip of JSON and markdown files.
+        </p>
+        <Button
+          type="button"
+          variant="secondary"
+          onClick={downloadData}
+          isLoading={isExporting}
+          disabled={isExporting || isDeleting}
+        >
+          <Download className="mr-2 h-4 w-4 shrink-0" aria-hidden="true" />
+          Download my data
+        </Button>
+        {exportError && <ErrorMessage message={exportError} />}
+      </div>
+
+      <div className="space-y-2 border-t border-gray-200 pt-6">
+        <p className="text-sm text-gray-600">
+          Permanently delete your account, profile, saved recipes, photos, share links,
+          shopping lists, meal plans, and pantry. This cannot be undone. Recipe
+          generation usage counts (your account id and a number) are kept until they
+          expire at the end of the month.
+        </p>
+        <Button
+          type="button"
+          variant="secondary"
+          onClick={() => setIsConfirmingDelete(true)}
+          isLoading={isDeleting}
+          disabled={isDeleting || isExporting}
+          className="text-red-600"
+        >
+          <Trash2 className="mr-2 h-4 w-4 shrink-0" aria-hidden="true" />
+          Delete my account
+        </Button>
+        {deleteError && <ErrorMessage message={deleteError} />}
+        {requiresSignIn && (
+          <Button type="button" variant="ghost" onClick={signInAgain}>
+            Sign in again
+          </Button>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={isConfirmingDelete}
+        onClose={() => setIsConfirmingDelete(false)}
+        onConfirm={deleteAccount}
+        title="Delete your account?"
+        message="Your account and all of your data will be permanently deleted, except recipe generation usage counts, which expire at the end of the month. Consider downloading your data first."
+        confirmLabel="Delete account"
+        variant="danger"
+      />
+    </section>
+  );
+}
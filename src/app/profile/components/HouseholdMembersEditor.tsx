@@ -0,0 +1,128 @@
+"use client";
+
+import { Trash2, UserPlus } from "lucide-react";
+
+import { Button } from "@/components/Button";
+import { ChipSelect } from "@/components/ui/ChipSelect";
+import { Input } from "@/components/ui/Input";
+import { NumberInput } from "@/components/ui/NumberInput";
+import { TagInput } from "@/components/ui/TagInput";
+import { DIETARY_OPTIONS, HOUSEHOLD } from "@/lib/constants/domain";
+import type { HouseholdMember } from "@/lib/schemas/user";
+
+interface HouseholdMembersEditorProps {
+  members: HouseholdMember[];
+  onChange: (members: HouseholdMember[]) => void;
+}
+
+function createHouseholdMember(): HouseholdMember {
+  return {
+    id: crypto.randomUUID(),
+    name: "",
+    dietary: [],
+    allergies: [],
+    dislikedIngredients: [],
+    servings: 1,
+  };
+}
+
+/**
+ * Household members on the profile page. Each member has their own diets,
+ * allergies, and dislikes; members are picked per generation on /generate.
+ */
+export function HouseholdMembersEditor({ members, onChange }: HouseholdMembersEditorProps) {
+  const updateMember = (id: string, patch: Partial<HouseholdMember>): void => {
+    onChange(members.map((member) => (member.id === id ? { ...member, ...patch } : member)));
+  };
+
+  const toggleDiet = (member: HouseholdMember, diet: string): void => {
+    updateMember(member.id, {
+      dietary: member.dietary.includes(diet)
+        ? member.dietary.filter((item) => item !== diet)
+        : [...member.dietary, diet],
+    });
+  };
+
+  return (
+    <fieldset className="space-y-4">
+      <legend className="block text-base sm:text-lg font-medium mb-1">Household</legend>
+      <p className="text-sm text-gray-600">
+        Add the people you cook for. When generating, pick who is eating and their
+        restrictions are combined with yours.
+      </p>
+
+      {members.map((member, index) => (
+        <div
+          key={member.id}
+          className="space-y-4 rounded-lg border border-gray-200 p-4"
+          aria-label={member.name || `Household member ${index + 1}`}
+          role="group"
+        >
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+            <div className="flex-1">
+              <Input
+                id={`household-${member.id}-name`}
+                label="Name"
+                value={member.name}
+                onChange={(e) => updateMember(member.id, { name: e.target.value })}
+                maxLength={HOUSEHOLD.MAX_NAME_LENGTH}
+                placeholder="e.g., Sam"
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => onChange(members.filter((item) => item.id !== member.id))}
+              className="text-red-600"
+              aria-label={`Remove household member: ${member.name || index + 1}`}
+            >
+              <Trash2 className="mr-2 h-4 w-4 shrink-0" aria-hidden="true" />
+              Remove
+            </Button>
+          </div>
+
+          <ChipSelect
+            label="Dietary Preferences"
+            options={[...DIETARY_OPTIONS]}
+            selected={member.dietary}
+            onChange={(diet) => toggleDiet(member, diet)}
+          />
+
+          <TagInput
+            label="Allergies"
+            value={member.allergies}
+            onChange={(allergies) => updateMember(member.id, { allergies })}
+            placeholder="e.g., tree nuts (comma separated)"
+          />
+
+          <TagInput
+            label="Ingredients They Dislike"
+            value={member.dislikedIngredients}
+            onChange={(dislikedIngredients) =>
+              updateMember(member.id, { dislikedIngredients })
+            }
+            placeholder="e.g., mushrooms (comma separated)"
+          />
+
+          <NumberInput
+            label="Servings"
+            value={member.servings}
+            onChange={(servings) => updateMember(member.id, { servings })}
+            min={1}
+            max={HOUSEHOLD.MAX_MEMBER_SERVINGS}
+          />
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="secondary"
+        onClick={() => onChange([...members, createHouseholdMember()])}
+        disabled={members.length >= HOUSEHOLD.MAX_MEMBERS}
+      >
+        <UserPlus className="mr-2 h-4 w-4 shrink-0" aria-hidden="true" />
+        Add household member
+      </Button>
+    </fieldset>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { Input } from "@/components/ui/Input";
+import { NUTRITION_TARGETS } from "@/lib/constants/domain";
+import type { NutritionTargets } from "@/lib/schemas/user";
+
+interface NutritionTargetsFieldsProps {
+  targets: NutritionTargets;
+  onChange: (targets: NutritionTargets) => void;
+}
+
+const TARGET_FIELDS: ReadonlyArray<{
+  key: keyof NutritionTargets;
+  label: string;
+  max: number;
+}> = [
+  { key: "calories", label: "Calories (kcal)", max: NUTRITION_TARGETS.MAX_CALORIES },
+  { key: "protein", label: "Protein (g)", max: NUTRITION_TARGETS.MAX_MACRO_GRAMS },
+  { key: "carbs", label: "Carbs (g)", max: NUTRITION_TARGETS.MAX_MACRO_GRAMS },
+  { key: "fat", label: "Fat (g)", max: NUTRITION_TARGETS.MAX_MACRO_GRAMS },
+  { key: "sodium", label: "Sodium (mg)", max: NUTRITION_TARGETS.MAX_SODIUM_MG },
+];
+
+/** Parses a target field; blank or invalid input clears the target. */
+function parseTarget(value: string, max: number): number | null {
+  const parsed = parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) return null;
+  return Math.min(parsed, max);
+}
+
+/**
+ * Optional daily nutrition targets on the profile page. Blank fields are not
+ * tracked; generation aims each serving at a share of the rest.
+ */
+export function NutritionTargetsFields({ targets, onChange }: NutritionTargetsFieldsProps) {
+  return (
+    <fieldset>
+      <legend className="block text-base sm:text-lg font-medium mb-1">
+        Daily Nutrition Targets
+      </legend>
+      <p className="mb-3 text-sm text-gray-600">
+        Optional. Recipes aim each serving at about a third of these, and show how
+        much of each target a serving uses.
+      </p>
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-5">
+        {TARGET_FIELDS.map(({ key, label, max }) => (
+          <Input
+            key={key}
+            id={`nutrition-target-${key}`}
+            label={label}
+            type="number"
+            inputMode="numeric"
+            min={1}
+            max={max}
+            value={targets[key] ?? ""}
+            onChange={(e) =>
+              onChange({ ...targets, [key]: parseTarget(e.target.value, max) })
+            }
+          />
+        ))}
+      </div>
+    </fieldset>
+  );
+}
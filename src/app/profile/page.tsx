@@ -14,14 +14,21 @@ import { ProfileOnboardingBanner } from "@/components/ProfileOnboardingBanner";
 import { useAuthStore } from "@/lib/store/auth-store";
 import { useProfileForm } from "@/hooks/useProfileForm";
 import {
+  ALLERGEN_ACTIONS,
   DIETARY_OPTIONS,
   CUISINE_OPTIONS,
   EXPERIENCE_LEVELS,
+  UNIT_SYSTEMS,
+  UNITS_AS_WRITTEN_LABEL,
 } from "@/lib/constants/domain";
 import { PROFILE_WELCOME_QUERY } from "@/lib/constants/onboarding";
 import { NUMBER_INPUT } from "@/lib/constants/ui";
 import { isProfileWelcomeSearchParam } from "@/lib/utils/onboarding";
 
+import { AccountDataPanel } from "./components/AccountDataPanel";
+import { HouseholdMembersEditor } from "./components/HouseholdMembersEditor";
+import { NutritionTargetsFields } from "./components/NutritionTargetsFields";
+
 function ProfilePageContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -93,6 +100,23 @@ function ProfilePageContent() {
               placeholder="e.g., peanuts, shellfish (comma separated)"
             />
 
+            <ChipSelect
+              label="When a Recipe Contains an Allergen"
+              options={ALLERGEN_ACTIONS.map((action) => action.label)}
+              selected={[
+                ALLERGEN_ACTIONS.find(
+                  (action) => action.value === profile.allergenAction
+                )?.label ?? ALLERGEN_ACTIONS[1].label,
+              ]}
+              onChange={(label) => {
+                const action = ALLERGEN_ACTIONS.find((a) => a.label === label);
+                if (action) {
+                  setProfileField("allergenAction", action.value);
+                }
+              }}
+              variant="rounded"
+            />
+
             <TagInput
               label="Ingredients You Dislike"
               value={profile.dislikedIngredients}
@@ -128,6 +152,24 @@ function ProfilePageContent() {
               variant="rounded"
             />
 
+            <ChipSelect
+              label="Measurement Units"
+              options={[
+                UNITS_AS_WRITTEN_LABEL,
+                ...UNIT_SYSTEMS.map((system) => system.label),
+              ]}
+              selected={[
+                UNIT_SYSTEMS.find(
+                  (system) => system.value === profile.unitSystem
+                )?.label ?? UNITS_AS_WRITTEN_LABEL,
+              ]}
+              onChange={(label) => {
+                const system = UNIT_SYSTEMS.find((s) => s.label === label);
+                setProfileField("unitSystem", system?.value ?? null);
+              }}
+              variant="rounded"
+            />
+
             <NumberInput
               label="Default Serving Size"
               value={profile.servingSize}
@@ -138,11 +180,27 @@ function ProfilePageContent() {
               max={NUMBER_INPUT.SERVING_SIZE_MAX}
             />
 
+            <NutritionTargetsFields
+              targets={profile.nutritionTargets}
+              onChange={(nutritionTargets) =>
+                setProfileField("nutritionTargets", nutritionTargets)
+              }
+            />
+
+            <HouseholdMembersEditor
+              members={profile.householdMembers}
+              onChange={(householdMembers) =>
+                setProfileField("householdMembers", householdMembers)
+              }
+            />
+
             <Button type="submit" isLoading={saving} className="w-full">
               {isWelcomeFlow ? "Save and start cooking" : "Save Preferences"}
             </Button>
           </form>
         </div>
+
+        {user && !isWelcomeFlow && <AccountDataPanel userId={user.uid} />}
       </div>
     </PageLayout>
   );
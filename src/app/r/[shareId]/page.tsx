@@ -0,0 +1,98 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+
+import { PageLayout } from "@/components/PageLayout";
+import { PrintRecipeButton } from "@/components/PrintRecipeButton";
+import { RecipeContent } from "@/components/RecipeContent";
+import { getSharedRecipe } from "@/lib/db";
+import { stripLeadingTitleHeading } from "@/lib/utils/markdown";
+import { extractNutritionSummary } from "@/lib/utils/nutrition";
+import { calculateRecipeNutrition } from "@/lib/utils/nutrition-calculator";
+import { buildRecipeJsonLd } from "@/lib/utils/recipe-json-ld";
+import {
+  getSharedRecipeDescription,
+  getSharedRecipeStructure,
+  isValidShareId,
+} from "@/lib/utils/shared-recipe";
+
+// Revoked links must stop working immediately, so never cache this page
+export const dynamic = "force-dynamic";
+
+interface SharedRecipePageProps {
+  params: Promise<{ shareId: string }>;
+}
+
+/** Shared between generateMetadata and the page so Firestore is read once. */
+const loadSharedRecipe = cache(async (shareId: string) =>
+  isValidShareId(shareId) ? getSharedRecipe(shareId) : null
+);
+
+export async function generateMetadata({
+  params,
+}: SharedRecipePageProps): Promise<Metadata> {
+  const { shareId } = await params;
+  const shared = await loadSharedRecipe(shareId).catch(() => null);
+  if (!shared) {
+    return { title: "Recipe not found · Bake.me", robots: { index: false } };
+  }
+
+  const description = getSharedRecipeDescription(shared);
+  return {
+    title: `${shared.title} · Bake.me`,
+    description,
+    openGraph: {
+      title: shared.title,
+      description,
+      type: "article",
+      siteName: "Bake.me",
+    },
+    twitter: {
+      card: "summary",
+      title: shared.title,
+      description,
+    },
+  };
+}
+
+/**
+ * Public, read-only view of a shared recipe. No sign-in required.
+ */
+export default async function SharedRecipePage({ params }: SharedRecipePageProps) {
+  const { shareId } = await params;
+  const shared = await loadSharedRecipe(shareId);
+  if (!shared) notFound();
+
+  const jsonLd = buildRecipeJsonLd(getSharedRecipeStructure(shared), {
+    cuisine: shared.cuisine,
+  });
+
+  return (
+    <PageLayout>
+      <script
+        type="application/ld+json"
+        // Escape "<" so recipe text cannot close the script element
+        dangerouslySetInnerHTML={{
+          __html: JSON.stringify(jsonLd).replace(/</g, "\\u003c"),
+        }}
+      />
+      <article className="max-w-3xl mx-auto p-4 sm:p-6 bg-white rounded-lg shadow-sm border border-surface-200">
+        <RecipeContent
+          title={shared.title}
+          content={stripLeadingTitleHeading(shared.content, shared.title)}
+          nutrition={extractNutritionSummary(shared)}
+          calculatedNutrition={calculateRecipeNutrition(shared)}
+          titleClassName="text-2xl sm:text-3xl font-bold mb-4 sm:mb-6 break-words"
+          contentClassName=""
+        />
+        <div className="no-print mt-6 flex flex-wrap items-center justify-between gap-3">
+          <PrintRecipeButton ariaLabel={`Print ${shared.title}`} />
+          <Link href="/signup" className="text-sm text-blue-600 hover:underline">
+            Create your own recipes with Bake.me
+          </Link>
+        </div>
+      </article>
+    </PageLayout>
+  );
+}
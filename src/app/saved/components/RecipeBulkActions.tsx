@@ -0,0 +1,168 @@
+"use client";
+
+import { useState } from "react";
+import { CheckSquare, FileJson, FileText, Minus, Plus, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/Button";
+import { CopyRecipeButton } from "@/components/CopyRecipeButton";
+import { Input } from "@/components/ui/Input";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { ErrorMessage } from "@/components/ui/ErrorMessage";
+import type { UseRecipeBulkActionsReturn } from "@/hooks/useRecipeBulkActions";
+import { RECIPE_TRASH } from "@/lib/constants/domain";
+import type { Recipe } from "@/lib/schemas/recipe";
+import type { BulkLabelChange } from "@/lib/utils/recipe-bulk";
+
+interface RecipeBulkActionsProps {
+  bulk: UseRecipeBulkActionsReturn;
+  /** Recipes currently shown after search and filters, for "Select all shown". */
+  visibleRecipes: Recipe[];
+}
+
+/**
+ * Toolbar for bulk selection in the saved library: delete, add or remove a
+ * tag or collection, export, and copy the combined ingredients.
+ */
+export function RecipeBulkActions({ bulk, visibleRecipes }: RecipeBulkActionsProps) {
+  const [labelField, setLabelField] = useState<BulkLabelChange["field"]>("tags");
+  const [label, setLabel] = useState("");
+
+  if (!bulk.isSelecting) {
+    return (
+      <div className="no-print mb-6 flex justify-end">
+        <Button type="button" variant="secondary" onClick={bulk.startSelecting}>
+          <CheckSquare className="mr-2 h-4 w-4 shrink-0" aria-hidden="true" />
+          Select
+        </Button>
+      </div>
+    );
+  }
+
+  const checkedCount = bulk.checkedRecipes.length;
+  const hasChecked = checkedCount > 0;
+  const canChangeLabel = hasChecked && label.trim() !== "" && !bulk.isWorking;
+
+  const handleLabelChange = (action: BulkLabelChange["action"]): void => {
+    void bulk.applyLabelChange({ field: labelField, label, action });
+  };
+
+  return (
+    <section
+      className="no-print mb-6 space-y-3 rounded-lg border border-blue-200 bg-blue-50 p-3 sm:p-4"
+      aria-label="Bulk actions"
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <p className="mr-auto text-sm font-medium text-gray-900" aria-live="polite">
+          {checkedCount} selected
+        </p>
+        <Button type="button" variant="ghost" onClick={() => bulk.checkAll(visibleRecipes)}>
+          Select all shown
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={bulk.clearChecked}
+          disabled={!hasChecked}
+        >
+          Clear
+        </Button>
+        <Button type="button" variant="secondary" onClick={bulk.stopSelecting}>
+          Done
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <label className="block">
+          <span className="mb-1 block text-sm font-medium text-gray-700">Label type</span>
+          <select
+            value={labelField}
+            onChange={(e) => setLabelField(e.target.value as BulkLabelChange["field"])}
+            className="rounded-lg border bg-white p-2 outline-none focus:border-primary-500 focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="tags">Tag</option>
+            <option value="collections">Collection</option>
+          </select>
+        </label>
+        <div className="min-w-40 flex-1">
+          <Input
+            id="bulk-label"
+            label={labelField === "tags" ? "Tag" : "Collection"}
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder={labelField === "tags" ? "e.g. weeknight" : "e.g. Holidays"}
+          />
+        </div>
+        <Button
+          type="button"
+          variant="secondary"
+          onClick={() => handleLabelChange("add")}
+          disabled={!canChangeLabel}
+        >
+          <Plus className="mr-1 h-4 w-4 shrink-0" aria-hidden="true" />
+          Add
+        </Button>
+        <Button
+          type="button"
+          variant="secondary"
+          onClick={() => handleLabelChange("remove")}
+          disabled={!canChangeLabel}
+        >
+          <Minus className="mr-1 h-4 w-4 shrink-0" aria-hidden="true" />
+          Remove
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          type="button"
+          variant="secondary"
+          onClick={() => bulk.exportChecked("markdown")}
+          disabled={!hasChecked}
+        >
+          <FileText className="mr-2 h-4 w-4 shrink-0" aria-hidden="true" />
+          Export Markdown
+        </Button>
+        <Button
+          type="button"
+          variant="secondary"
+          onClick={() => bulk.exportChecked("json")}
+          disabled={!hasChecked}
+        >
+          <FileJson className="mr-2 h-4 w-4 shrink-0" aria-hidden="true" />
+          Export JSON
+        </Button>
+        {hasChecked && (
+          <CopyRecipeButton
+            getText={bulk.getCombinedIngredientsText}
+            label="Copy ingredients"
+            ariaLabel="Copy combined ingredients of the selected recipes"
+          />
+        )}
+        <Button
+          type="button"
+          variant="secondary"
+          onClick={bulk.requestDelete}
+          isLoading={bulk.isWorking}
+          disabled={!hasChecked || bulk.isWorking}
+          className="text-red-600 sm:ml-auto"
+        >
+          <Trash2 className="mr-2 h-4 w-4 shrink-0" aria-hidden="true" />
+          Delete
+        </Button>
+      </div>
+
+      {bulk.error && <ErrorMessage message={bulk.error} />}
+
+      <ConfirmDialog
+        isOpen={bulk.isConfirmingDelete}
+        onClose={bulk.cancelDelete}
+        onConfirm={bulk.confirmDelete}
+        title="Move to Trash"
+        message={`Move ${checkedCount} recipe${checkedCount !== 1 ? "s" : ""} to Trash? You can restore them from Trash for ${RECIPE_TRASH.RETENTION_DAYS} days.`}
+        confirmLabel="Move to Trash"
+        cancelLabel="Cancel"
+        variant="danger"
+      />
+    </section>
+  );
+}
@@ -1,21 +1,42 @@
 "use client";
 
-import { memo } from "react";
-import { RefreshCw } from "lucide-react";
+import { memo, useEffect, useState } from "react";
+import { History, Pencil, RefreshCw } from "lucide-react";
 
+import type { RecipeOrganizationUpdate } from "@/lib/db";
 import type { Recipe } from "@/lib/schemas/recipe";
+import type { NutritionTargets } from "@/lib/schemas/user";
 import { Button } from "@/components/Button";
 import { RecipeContent } from "@/components/RecipeContent";
 import { RecipeExportActions } from "@/components/RecipeExportActions";
+import { RefinementThreadList } from "@/components/RefinementThreadList";
+import { CookModeButton } from "@/components/cook-mode/CookModeButton";
 import { NumberInput } from "@/components/ui/NumberInput";
+import { UnitSystemSelect } from "@/components/ui/UnitSystemSelect";
+import { useRecipeEditor } from "@/hooks/useRecipeEditor";
 import { useSavedRecipeServingScale } from "@/hooks/useSavedRecipeServingScale";
+import { useUnitSystem } from "@/hooks/useUnitSystem";
+import type { UnitSystem } from "@/lib/constants/domain";
 import { NUMBER_INPUT } from "@/lib/constants/ui";
+import { getCookRecipeKey } from "@/lib/utils/cook-progress";
+import { calculateRecipeNutrition } from "@/lib/utils/nutrition-calculator";
+
+import { RecipeEditForm } from "./RecipeEditForm";
+import { RecipeOrganizer } from "./RecipeOrganizer";
+import { RecipePhotoGallery } from "./RecipePhotoGallery";
+import { RecipeSharePanel } from "./RecipeSharePanel";
+import { RecipeVersionHistory } from "./RecipeVersionHistory";
 
 interface RecipeDetailProps {
   recipe: Recipe | null;
   userId?: string;
+  preferredUnitSystem?: UnitSystem | null;
+  nutritionTargets?: NutritionTargets | null;
   onScaledCopySaved?: () => Promise<void> | void;
   onRefineRecipe?: (recipe: Recipe) => void;
+  onRecipeUpdated?: (recipe: Recipe) => void;
+  collectionOptions?: string[];
+  onOrganize?: (recipe: Recipe, updates: RecipeOrganizationUpdate) => Promise<void>;
 }
 
 /**
@@ -31,12 +52,21 @@ interface RecipeDetailProps {
 export const RecipeDetail = memo(function RecipeDetail({
   recipe,
   userId,
+  preferredUnitSystem,
+  nutritionTargets,
   onScaledCopySaved,
   onRefineRecipe,
+  onRecipeUpdated,
+  collectionOptions = [],
+  onOrganize,
 }: RecipeDetailProps) {
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const editor = useRecipeEditor({ recipe, onRecipeUpdated });
+  const { unitSystem, setUnitSystem } = useUnitSystem(preferredUnitSystem);
   const {
     body,
     copyContent,
+    displayStructure,
     nutrition,
     targetServings,
     setTargetServings,
@@ -49,9 +79,14 @@ export const RecipeDetail = memo(function RecipeDetail({
   } = useSavedRecipeServingScale({
     recipe,
     userId,
+    unitSystem,
     onScaledCopySaved,
   });
 
+  useEffect(() => {
+    setIsHistoryOpen(false);
+  }, [recipe?.id]);
+
   if (!recipe) {
     return (
       <div className="h-full flex items-center justify-center text-gray-500 bg-gray-50 rounded-lg border border-dashed border-gray-300">
@@ -60,38 +95,67 @@ export const RecipeDetail = memo(function RecipeDetail({
     );
   }
 
+  if (editor.isEditing && editor.draft) {
+    return (
+      <div className="p-4 sm:p-6 bg-white rounded-lg shadow-sm border border-surface-200">
+        <h2 className="text-xl sm:text-2xl font-bold mb-4 break-words">
+          Edit {recipe.title}
+        </h2>
+        <RecipeEditForm
+          draft={editor.draft}
+          onChange={editor.setDraftField}
+          onSave={editor.saveEdits}
+          onCancel={editor.cancelEditing}
+          isSaving={editor.isSaving}
+          error={editor.error}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="p-4 sm:p-6 bg-white rounded-lg shadow-sm border border-surface-200">
       <RecipeContent
         title={recipe.title}
         content={body}
         nutrition={nutrition}
+        calculatedNutrition={calculateRecipeNutrition(displayStructure)}
+        nutritionTargets={nutritionTargets}
         titleClassName="text-xl sm:text-2xl font-bold mb-4 sm:mb-6 break-words"
         contentClassName=""
       />
-      {canScale && (
-        <div className="no-print mt-4 flex flex-col gap-3 sm:flex-row sm:items-end">
-          <NumberInput
-            label="Servings"
-            value={targetServings}
-            onChange={setTargetServings}
-            min={NUMBER_INPUT.SERVING_SIZE_MIN}
-            max={NUMBER_INPUT.SERVING_SIZE_MAX}
-            className="w-full sm:w-32"
-          />
-          <Button
-            type="button"
-            variant="secondary"
-            onClick={saveScaledCopy}
-            disabled={!isScaled || isSavingScaledCopy}
-            isLoading={isSavingScaledCopy}
-            className="w-full sm:w-auto"
-          >
-            Save scaled copy
-          </Button>
-        </div>
-      )}
+      <div className="no-print mt-4 flex flex-col gap-3 sm:flex-row sm:items-end">
+        <UnitSystemSelect value={unitSystem} onChange={setUnitSystem} />
+        {canScale && (
+          <>
+            <NumberInput
+              label="Servings"
+              value={targetServings}
+              onChange={setTargetServings}
+              min={NUMBER_INPUT.SERVING_SIZE_MIN}
+              max={NUMBER_INPUT.SERVING_SIZE_MAX}
+              className="w-full sm:w-32"
+            />
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={saveScaledCopy}
+              disabled={!isScaled || isSavingScaledCopy}
+              isLoading={isSavingScaledCopy}
+              className="w-full sm:w-auto"
+            >
+              Save scaled copy
+            </Button>
+          </>
+        )}
+      </div>
       <div className="no-print mt-4 flex flex-wrap items-center gap-2">
+        {displayStructure && (
+          <CookModeButton
+            recipe={displayStructure}
+            recipeKey={getCookRecipeKey(recipe)}
+          />
+        )}
         {onRefineRecipe && (
           <Button
             type="button"
@@ -102,12 +166,40 @@ export const RecipeDetail = memo(function RecipeDetail({
             Refine
           </Button>
         )}
+        {onRecipeUpdated && (
+          <>
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => {
+                setIsHistoryOpen(false);
+                editor.startEditing();
+              }}
+              disabled={!editor.canEdit}
+              title={editor.canEdit ? undefined : "Older recipes cannot be edited"}
+            >
+              <Pencil className="mr-2 h-4 w-4 shrink-0" aria-hidden="true" />
+              Edit
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => setIsHistoryOpen((open) => !open)}
+              aria-expanded={isHistoryOpen}
+            >
+              <History className="mr-2 h-4 w-4 shrink-0" aria-hidden="true" />
+              History
+            </Button>
+          </>
+        )}
         <RecipeExportActions
           title={recipe.title}
           content={copyContent}
           nutrition={nutrition}
           printAriaLabel={`Print ${recipe.title}`}
           copyAriaLabel={`Copy ${recipe.title} to clipboard`}
+          structuredRecipe={displayStructure}
+          cuisine={recipe.cuisine}
         />
       </div>
       {saveScaledCopyError && (
@@ -120,6 +212,36 @@ export const RecipeDetail = memo(function RecipeDetail({
           Scaled copy saved.
         </p>
       )}
+      {recipe.refinementThread && recipe.refinementThread.length > 0 && (
+        <section
+          className="mt-6 border-t border-gray-200 pt-4"
+          aria-labelledby="refinement-thread-title"
+        >
+          <h3 id="refinement-thread-title" className="mb-3 text-base font-semibold">
+            How this recipe was refined
+          </h3>
+          <RefinementThreadList thread={recipe.refinementThread} />
+        </section>
+      )}
+      {onRecipeUpdated && (
+        <RecipePhotoGallery recipe={recipe} onRecipeUpdated={onRecipeUpdated} />
+      )}
+      {onOrganize && (
+        <RecipeOrganizer
+          key={recipe.id}
+          recipe={recipe}
+          collectionOptions={collectionOptions}
+          onOrganize={onOrganize}
+        />
+      )}
+      {onRecipeUpdated && (
+        <RecipeSharePanel recipe={recipe} onRecipeUpdated={onRecipeUpdated} />
+      )}
+      {isHistoryOpen && onRecipeUpdated && (
+        <div className="no-print mt-4 border-t border-gray-200 pt-4">
+          <RecipeVersionHistory recipe={recipe} onRecipeUpdated={onRecipeUpdated} />
+        </div>
+      )}
     </div>
   );
 });
@@ -0,0 +1,106 @@
+"use client";
+
+import type { FormEvent } from "react";
+
+import { Button } from "@/components/Button";
+import { Input, Textarea } from "@/components/ui/Input";
+import type { RecipeEditDraft } from "@/lib/utils/recipe-edit";
+
+interface RecipeEditFormProps {
+  draft: RecipeEditDraft;
+  onChange: (field: keyof RecipeEditDraft, value: string) => void;
+  onSave: () => void;
+  onCancel: () => void;
+  isSaving: boolean;
+  error: string | null;
+}
+
+/**
+ * In-place editor for a saved recipe's title, times, cuisine, and lists.
+ * List fields take one entry per line.
+ */
+export function RecipeEditForm({
+  draft,
+  onChange,
+  onSave,
+  onCancel,
+  isSaving,
+  error,
+}: RecipeEditFormProps) {
+  const handleSubmit = (event: FormEvent<HTMLFormElement>): void => {
+    event.preventDefault();
+    onSave();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4" aria-label="Edit recipe">
+      <Input
+        label="Title"
+        id="edit-recipe-title"
+        value={draft.title}
+        onChange={(event) => onChange("title", event.target.value)}
+        required
+      />
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Input
+          label="Prep time"
+          id="edit-recipe-prep-time"
+          value={draft.preparationTime}
+          onChange={(event) => onChange("preparationTime", event.target.value)}
+        />
+        <Input
+          label="Cook time"
+          id="edit-recipe-cook-time"
+          value={draft.cookingTime}
+          onChange={(event) => onChange("cookingTime", event.target.value)}
+        />
+        <Input
+          label="Cuisine"
+          id="edit-recipe-cuisine"
+          value={draft.cuisine}
+          onChange={(event) => onChange("cuisine", event.target.value)}
+        />
+      </div>
+      <div>
+        <Textarea
+          label="Ingredients"
+          id="edit-recipe-ingredients"
+          value={draft.ingredients}
+          onChange={(event) => onChange("ingredients", event.target.value)}
+          rows={8}
+          aria-describedby="edit-recipe-ingredients-hint"
+        />
+        <p id="edit-recipe-ingredients-hint" className="mt-1 text-xs text-gray-500">
+          One per line. End a line with &quot;:&quot; to start a group, e.g. &quot;For the sauce:&quot;.
+        </p>
+      </div>
+      <Textarea
+        label="Instructions"
+        id="edit-recipe-instructions"
+        value={draft.instructions}
+        onChange={(event) => onChange("instructions", event.target.value)}
+        rows={8}
+      />
+      <Textarea
+        label="Tips"
+        id="edit-recipe-tips"
+        value={draft.tips}
+        onChange={(event) => onChange("tips", event.target.value)}
+        rows={3}
+      />
+      {error && (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+      <div className="flex flex-wrap gap-2">
+        <Button type="submit" isLoading={isSaving} disabled={isSaving}>
+          Save changes
+        </Button>
+        <Button type="button" variant="secondary" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useRef } from "react";
+import type { ChangeEvent } from "react";
+import { Upload } from "lucide-react";
+
+import { Button } from "@/components/Button";
+import { useRecipeImport } from "@/hooks/useRecipeImport";
+
+interface RecipeImportProps {
+  userId: string;
+  onImported: () => Promise<void> | void;
+}
+
+/**
+ * Imports a schema.org Recipe JSON-LD file and reports any problems in it.
+ */
+export function RecipeImport({ userId, onImported }: RecipeImportProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { importFile, isImporting, errors, importedTitle } = useRecipeImport({
+    userId,
+    onImported,
+  });
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>): void => {
+    const file = event.target.files?.[0];
+    // Reset so choosing the same file again still triggers a change
+    event.target.value = "";
+    if (file) void importFile(file);
+  };
+
+  return (
+    <div className="mb-6 space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,.jsonld,application/json,application/ld+json"
+        onChange={handleFileChange}
+        className="hidden"
+        aria-hidden="true"
+        tabIndex={-1}
+      />
+      <Button
+        type="button"
+        variant="secondary"
+        onClick={() => inputRef.current?.click()}
+        isLoading={isImporting}
+        disabled={isImporting}
+      >
+        <Upload className="mr-2 h-4 w-4 shrink-0" aria-hidden="true" />
+        Import JSON-LD
+      </Button>
+      {errors.length > 0 && (
+        <div className="text-sm text-red-600" role="alert">
+          <p className="font-medium">The recipe could not be imported:</p>
+          <ul className="list-disc pl-5">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {importedTitle && (
+        <p className="text-sm text-green-700" role="status">
+          Imported &quot;{importedTitle}&quot;.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,29 @@
-import { memo } from "react";
+import { memo, useEffect, useRef } from "react";
 import type { Recipe } from "@/lib/schemas/recipe";
 import { RecipeCard } from "@/components/RecipeCard";
+import { Button } from "@/components/Button";
 
 interface RecipeListProps {
   recipes: Recipe[];
   selectedRecipeId: string | null;
+  /** Enables bulk selection mode: card clicks toggle these instead of opening. */
+  checkedRecipeIds?: ReadonlySet<string>;
+  onToggleChecked?: (recipe: Recipe) => void;
+  highlightTerms?: ReadonlySet<string>;
   onSelectRecipe: (recipe: Recipe) => void;
   onDeleteRecipe: (recipe: Recipe) => void;
+  onToggleFavorite?: (recipe: Recipe) => void;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
 /**
  * List of recipe cards displayed in the left panel.
- * Handles recipe selection and deletion actions.
+ * Handles recipe selection and deletion actions; search matches are highlighted.
+ * In bulk selection mode, clicking a card checks it instead of opening it.
+ * Older recipes load when the end of the list scrolls into view, with a
+ * button fallback (also shown when filters hide every loaded recipe).
  * 
  * Memoization rationale:
  * - Renders entire recipe collection (could be 100+ items)
@@ -23,14 +35,54 @@ interface RecipeListProps {
 export const RecipeList = memo(function RecipeList({
   recipes,
   selectedRecipeId,
+  checkedRecipeIds,
+  onToggleChecked,
+  highlightTerms,
   onSelectRecipe,
   onDeleteRecipe,
+  onToggleFavorite,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
 }: RecipeListProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Re-observing after each page fires again if the sentinel is still visible.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || !onLoadMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onLoadMore();
+      },
+      { root: sentinel.parentElement, rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, onLoadMore, recipes.length]);
+
+  const loadMoreButton = hasMore && onLoadMore && (
+    <Button
+      type="button"
+      variant="secondary"
+      onClick={onLoadMore}
+      isLoading={isLoadingMore}
+      disabled={isLoadingMore}
+      className="w-full"
+    >
+      Load older recipes
+    </Button>
+  );
+
   if (recipes.length === 0) {
     return (
-      <p className="text-gray-500 text-center py-4">
-        No recipes match your filters.
-      </p>
+      <div className="space-y-3">
+        <p className="text-gray-500 text-center py-4">
+          No recipes match your filters.
+        </p>
+        {loadMoreButton}
+      </div>
     );
   }
 
@@ -41,10 +93,21 @@ export const RecipeList = memo(function RecipeList({
           key={recipe.id}
           recipe={recipe}
           isSelected={selectedRecipeId === recipe.id}
-          onSelect={() => onSelectRecipe(recipe)}
+          isChecked={checkedRecipeIds?.has(recipe.id)}
+          highlightTerms={highlightTerms}
+          onSelect={() =>
+            checkedRecipeIds && onToggleChecked
+              ? onToggleChecked(recipe)
+              : onSelectRecipe(recipe)
+          }
           onDelete={() => onDeleteRecipe(recipe)}
+          onToggleFavorite={
+            onToggleFavorite ? () => onToggleFavorite(recipe) : undefined
+          }
         />
       ))}
+      {hasMore && <div ref={sentinelRef} aria-hidden="true" />}
+      {loadMoreButton}
     </div>
   );
 });
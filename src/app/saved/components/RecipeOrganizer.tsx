@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import { Star } from "lucide-react";
+import clsx from "clsx";
+
+import { Button } from "@/components/Button";
+import { ChipSelect } from "@/components/ui/ChipSelect";
+import { TagInput } from "@/components/ui/TagInput";
+import { RECIPE_ORGANIZATION } from "@/lib/constants/domain";
+import type { RecipeOrganizationUpdate } from "@/lib/db";
+import type { Recipe } from "@/lib/schemas/recipe";
+
+interface RecipeOrganizerProps {
+  recipe: Recipe;
+  collectionOptions: string[];
+  onOrganize: (recipe: Recipe, updates: RecipeOrganizationUpdate) => Promise<void>;
+}
+
+function sameLabels(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((label, index) => label === b[index]);
+}
+
+/**
+ * Favorite toggle plus tag and collection editing for a saved recipe.
+ * Tags and collections are edited as a local draft and saved together;
+ * the parent should key this component by recipe id to reset the draft.
+ */
+export function RecipeOrganizer({
+  recipe,
+  collectionOptions,
+  onOrganize,
+}: RecipeOrganizerProps) {
+  const savedTags = recipe.tags ?? [];
+  const savedCollections = recipe.collections ?? [];
+  const [tags, setTags] = useState<string[]>(savedTags);
+  const [collections, setCollections] = useState<string[]>(savedCollections);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isDirty =
+    !sameLabels(tags, savedTags) || !sameLabels(collections, savedCollections);
+
+  const toggleCollection = (collection: string) => {
+    setCollections((current) =>
+      current.includes(collection)
+        ? current.filter((item) => item !== collection)
+        : [...current, collection]
+    );
+  };
+
+  const saveLabels = async () => {
+    setIsSaving(true);
+    try {
+      await onOrganize(recipe, { tags, collections });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="no-print mt-4 space-y-4 border-t border-gray-200 pt-4">
+      <Button
+        type="button"
+        variant="secondary"
+        onClick={() => void onOrganize(recipe, { favorite: !recipe.favorite })}
+        aria-pressed={recipe.favorite === true}
+      >
+        <Star
+          className={clsx(
+            "mr-2 h-4 w-4 shrink-0",
+            recipe.favorite && "fill-yellow-400 text-yellow-500"
+          )}
+          aria-hidden="true"
+        />
+        {recipe.favorite ? "Favorited" : "Add to favorites"}
+      </Button>
+      <TagInput
+        label="Tags"
+        value={tags}
+        onChange={setTags}
+        placeholder="weeknight, spicy, make-ahead"
+        maxItemLength={RECIPE_ORGANIZATION.MAX_LABEL_LENGTH}
+      />
+      {collectionOptions.length > 0 && (
+        <ChipSelect
+          label="Existing collections"
+          options={collectionOptions}
+          selected={collections}
+          onChange={toggleCollection}
+        />
+      )}
+      <TagInput
+        label="Collections"
+        value={collections}
+        onChange={setCollections}
+        placeholder="Holiday baking, Lunchbox"
+        maxItemLength={RECIPE_ORGANIZATION.MAX_LABEL_LENGTH}
+      />
+      <Button
+        type="button"
+        onClick={saveLabels}
+        disabled={!isDirty || isSaving}
+        isLoading={isSaving}
+      >
+        Save labels
+      </Button>
+    </div>
+  );
+}
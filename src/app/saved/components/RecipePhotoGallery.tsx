@@ -0,0 +1,154 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { ChangeEvent } from "react";
+import Image from "next/image";
+import clsx from "clsx";
+import { Camera, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/Button";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { useRecipePhotos } from "@/hooks/useRecipePhotos";
+import { RECIPE_PHOTOS } from "@/lib/constants/domain";
+import type { Recipe, RecipePhoto } from "@/lib/schemas/recipe";
+
+interface RecipePhotoGalleryProps {
+  recipe: Recipe;
+  onRecipeUpdated: (recipe: Recipe) => void;
+}
+
+/**
+ * Photos of the finished dish: a large view of the selected photo, a row of
+ * thumbnails, and controls to add or remove photos. The first photo is the
+ * recipe's cover image in the saved list.
+ */
+export function RecipePhotoGallery({ recipe, onRecipeUpdated }: RecipePhotoGalleryProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [selectedPhotoId, setSelectedPhotoId] = useState<string | null>(null);
+  const [photoToRemove, setPhotoToRemove] = useState<RecipePhoto | null>(null);
+  const { addPhotos, removePhoto, uploadingIndex, uploadCount, removingPhotoId, error } =
+    useRecipePhotos({ recipe, onRecipeUpdated });
+
+  useEffect(() => {
+    setSelectedPhotoId(null);
+    setPhotoToRemove(null);
+  }, [recipe.id]);
+
+  const photos = recipe.photos ?? [];
+  const selectedPhoto = photos.find((photo) => photo.id === selectedPhotoId) ?? photos[0];
+  const isUploading = uploadingIndex !== null;
+  const isFull = photos.length >= RECIPE_PHOTOS.MAX_PER_RECIPE;
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>): void => {
+    const files = Array.from(event.target.files ?? []);
+    // Reset so choosing the same file again still triggers a change
+    event.target.value = "";
+    if (files.length > 0) void addPhotos(files);
+  };
+
+  return (
+    <div className="no-print mt-4 space-y-3 border-t border-gray-200 pt-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-sm font-medium text-gray-700">
+          Photos{" "}
+          <span className="font-normal text-gray-500">
+            ({photos.length}/{RECIPE_PHOTOS.MAX_PER_RECIPE})
+          </span>
+        </h3>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          onChange={handleFileChange}
+          className="hidden"
+          aria-hidden="true"
+          tabIndex={-1}
+        />
+        <Button
+          type="button"
+          variant="secondary"
+          onClick={() => inputRef.current?.click()}
+          isLoading={isUploading}
+          disabled={isUploading || isFull}
+          title={isFull ? "Remove a photo to add another" : undefined}
+        >
+          <Camera className="mr-2 h-4 w-4 shrink-0" aria-hidden="true" />
+          Add photos
+        </Button>
+      </div>
+
+      {selectedPhoto && (
+        <Image
+          src={selectedPhoto.url}
+          alt={`Photo of ${recipe.title}`}
+          width={selectedPhoto.width}
+          height={selectedPhoto.height}
+          sizes="(min-width: 1024px) 40vw, 100vw"
+          className="max-h-96 w-full rounded-lg bg-gray-100 object-contain"
+        />
+      )}
+
+      {photos.length > 1 && (
+        <ul className="flex flex-wrap gap-2" aria-label="Recipe photos">
+          {photos.map((photo, index) => (
+            <li key={photo.id}>
+              <button
+                type="button"
+                onClick={() => setSelectedPhotoId(photo.id)}
+                aria-label={`Show photo ${index + 1}`}
+                aria-pressed={photo.id === selectedPhoto?.id}
+                className={clsx(
+                  "block overflow-hidden rounded-md border-2",
+                  photo.id === selectedPhoto?.id ? "border-blue-500" : "border-transparent"
+                )}
+              >
+                <Image
+                  src={photo.url}
+                  alt=""
+                  width={64}
+                  height={64}
+                  className="h-16 w-16 object-cover"
+                />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selectedPhoto && (
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={() => setPhotoToRemove(selectedPhoto)}
+          isLoading={removingPhotoId === selectedPhoto.id}
+          disabled={removingPhotoId !== null || isUploading}
+        >
+          <Trash2 className="mr-2 h-4 w-4 shrink-0" aria-hidden="true" />
+          Remove photo
+        </Button>
+      )}
+
+      {isUploading && (
+        <p className="text-sm text-gray-600" role="status">
+          Uploading {uploadingIndex} of {uploadCount}…
+        </p>
+      )}
+      {error && (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+
+      <ConfirmDialog
+        isOpen={photoToRemove !== null}
+        onClose={() => setPhotoToRemove(null)}
+        onConfirm={() => (photoToRemove ? removePhoto(photoToRemove) : undefined)}
+        title="Remove photo?"
+        message="This photo will be permanently deleted."
+        confirmLabel="Remove"
+        variant="danger"
+      />
+    </div>
+  );
+}
@@ -1,8 +1,15 @@
 import { memo } from "react";
-import { X } from "lucide-react";
+import { Star, X } from "lucide-react";
+import clsx from "clsx";
 
 import { Button } from "@/components/Button";
 import { Input } from "@/components/ui/Input";
+import {
+  RECIPE_RANGE_FILTERS,
+  RECIPE_SORT_OPTIONS,
+  type RecipeSortOption,
+} from "@/lib/constants/domain";
+import { formatDurationText } from "@/lib/utils/duration";
 
 interface RecipeSearchProps {
   searchTerm: string;
@@ -11,13 +18,104 @@ interface RecipeSearchProps {
   onDifficultyChange: (value: string) => void;
   cuisineFilter: string;
   onCuisineChange: (value: string) => void;
+  collectionFilter: string;
+  onCollectionChange: (value: string) => void;
+  tagFilter: string;
+  onTagChange: (value: string) => void;
+  favoritesOnly: boolean;
+  onFavoritesOnlyChange: (value: boolean) => void;
+  maxTotalMinutes: number | null;
+  onMaxTotalMinutesChange: (value: number | null) => void;
+  maxCalories: number | null;
+  onMaxCaloriesChange: (value: number | null) => void;
+  minServings: number | null;
+  onMinServingsChange: (value: number | null) => void;
+  sortOption: RecipeSortOption | "";
+  onSortChange: (value: RecipeSortOption | "") => void;
   difficultyOptions: string[];
   cuisineOptions: string[];
+  collectionOptions: string[];
+  tagOptions: string[];
   onClearFilters: () => void;
+  /** Recipes loaded so far; options and results cover only these. */
+  loadedRecipeCount: number;
+  hasMoreRecipes: boolean;
+  isLoadingAllRecipes: boolean;
+  hasPartialResults: boolean;
+}
+
+interface FilterSelectProps {
+  label: string;
+  anyLabel: string;
+  value: string;
+  options: readonly string[];
+  onChange: (value: string) => void;
+  formatOption?: (option: string) => string;
+}
+
+interface RangeSelectProps {
+  label: string;
+  anyLabel: string;
+  value: number | null;
+  presets: readonly number[];
+  onChange: (value: number | null) => void;
+  formatOption: (value: number) => string;
+}
+
+const SORT_LABELS = new Map<string, string>(
+  RECIPE_SORT_OPTIONS.map((option) => [option.value, option.label])
+);
+
+function FilterSelect({
+  label,
+  anyLabel,
+  value,
+  options,
+  onChange,
+  formatOption = (option) => option,
+}: FilterSelectProps) {
+  return (
+    <label className="block">
+      <span className="mb-2 block text-sm font-medium text-gray-700">{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full rounded-lg border p-2 outline-none focus:border-primary-500 focus:ring-2 focus:ring-primary-500"
+      >
+        <option value="">{anyLabel}</option>
+        {options.map((option) => (
+          <option key={option} value={option}>
+            {formatOption(option)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+function RangeSelect({
+  label,
+  anyLabel,
+  value,
+  presets,
+  onChange,
+  formatOption,
+}: RangeSelectProps) {
+  return (
+    <FilterSelect
+      label={label}
+      anyLabel={anyLabel}
+      value={value === null ? "" : String(value)}
+      options={presets.map(String)}
+      onChange={(option) => onChange(option ? Number(option) : null)}
+      formatOption={(option) => formatOption(Number(option))}
+    />
+  );
 }
 
 /**
- * Search controls for filtering saved recipes.
+ * Search, filter, and sort controls for the saved library.
+ * Collection and tag filters appear once any recipe has one.
  *
  * Memoization rationale:
  * - Parent re-renders frequently (selection changes, delete operations)
@@ -32,64 +130,164 @@ export const RecipeSearch = memo(function RecipeSearch({
   onDifficultyChange,
   cuisineFilter,
   onCuisineChange,
+  collectionFilter,
+  onCollectionChange,
+  tagFilter,
+  onTagChange,
+  favoritesOnly,
+  onFavoritesOnlyChange,
+  maxTotalMinutes,
+  onMaxTotalMinutesChange,
+  maxCalories,
+  onMaxCaloriesChange,
+  minServings,
+  onMinServingsChange,
+  sortOption,
+  onSortChange,
   difficultyOptions,
   cuisineOptions,
+  collectionOptions,
+  tagOptions,
   onClearFilters,
+  loadedRecipeCount,
+  hasMoreRecipes,
+  isLoadingAllRecipes,
+  hasPartialResults,
 }: RecipeSearchProps) {
-  const hasFilters = Boolean(searchTerm || difficultyFilter || cuisineFilter);
+  const hasFilters = Boolean(
+    searchTerm ||
+      difficultyFilter ||
+      cuisineFilter ||
+      collectionFilter ||
+      tagFilter ||
+      favoritesOnly ||
+      maxTotalMinutes !== null ||
+      maxCalories !== null ||
+      minServings !== null
+  );
+  const isSearching = searchTerm.trim().length > 0;
+  const coverageMessage = isLoadingAllRecipes
+    ? `Loading the rest of your library to cover every recipe (${loadedRecipeCount} so far)…`
+    : hasPartialResults
+      ? `Results cover only the ${loadedRecipeCount} recipes loaded so far.`
+      : `Options cover your ${loadedRecipeCount} most recent recipes. ` +
+        "Searching, filtering, or sorting loads the rest.";
+  // Without a search the natural order is already newest first.
+  const sortOptions = RECIPE_SORT_OPTIONS.map((option) => option.value).filter(
+    (value) => isSearching || value !== "newest"
+  );
 
   return (
-    <div className="mb-6 grid gap-3 md:grid-cols-[minmax(0,1fr)_12rem_12rem_auto] md:items-end">
-      <Input
-        type="text"
-        placeholder="Search recipes..."
-        value={searchTerm}
-        onChange={(e) => onSearchChange(e.target.value)}
-      />
-      <label className="block">
-        <span className="mb-2 block text-sm font-medium text-gray-700">
-          Difficulty
-        </span>
-        <select
-          value={difficultyFilter}
-          onChange={(e) => onDifficultyChange(e.target.value)}
-          className="w-full rounded-lg border p-2 outline-none focus:border-primary-500 focus:ring-2 focus:ring-primary-500"
-        >
-          <option value="">Any difficulty</option>
-          {difficultyOptions.map((difficulty) => (
-            <option key={difficulty} value={difficulty}>
-              {difficulty}
-            </option>
-          ))}
-        </select>
-      </label>
-      <label className="block">
-        <span className="mb-2 block text-sm font-medium text-gray-700">
-          Cuisine
-        </span>
-        <select
-          value={cuisineFilter}
-          onChange={(e) => onCuisineChange(e.target.value)}
-          className="w-full rounded-lg border p-2 outline-none focus:border-primary-500 focus:ring-2 focus:ring-primary-500"
-        >
-          <option value="">Any cuisine</option>
-          {cuisineOptions.map((cuisine) => (
-            <option key={cuisine} value={cuisine}>
-              {cuisine}
-            </option>
-          ))}
-        </select>
-      </label>
-      {hasFilters && (
+    <div className="mb-6 space-y-3">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+        <div className="flex-1">
+          <Input
+            type="text"
+            placeholder="Search recipes (try -mushroom or time:<30)"
+            value={searchTerm}
+            onChange={(e) => onSearchChange(e.target.value)}
+          />
+        </div>
         <Button
           type="button"
-          variant="ghost"
-          onClick={onClearFilters}
-          className="w-full md:w-auto"
+          variant="secondary"
+          onClick={() => onFavoritesOnlyChange(!favoritesOnly)}
+          aria-pressed={favoritesOnly}
         >
-          <X className="mr-2 h-4 w-4 shrink-0" aria-hidden="true" />
-          Clear
+          <Star
+            className={clsx(
+              "mr-2 h-4 w-4 shrink-0",
+              favoritesOnly && "fill-yellow-400 text-yellow-500"
+            )}
+            aria-hidden="true"
+          />
+          Favorites
         </Button>
+        {hasFilters && (
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={onClearFilters}
+            className="w-full sm:w-auto"
+          >
+            <X className="mr-2 h-4 w-4 shrink-0" aria-hidden="true" />
+            Clear
+          </Button>
+        )}
+      </div>
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        <FilterSelect
+          label="Sort by"
+          anyLabel={isSearching ? "Best match" : "Newest first"}
+          value={!isSearching && sortOption === "newest" ? "" : sortOption}
+          options={sortOptions}
+          onChange={(value) => onSortChange(value as RecipeSortOption | "")}
+          formatOption={(value) => SORT_LABELS.get(value) ?? value}
+        />
+        <RangeSelect
+          label="Total time"
+          anyLabel="Any time"
+          value={maxTotalMinutes}
+          presets={RECIPE_RANGE_FILTERS.MAX_TOTAL_MINUTES}
+          onChange={onMaxTotalMinutesChange}
+          formatOption={(minutes) => `Up to ${formatDurationText(minutes)}`}
+        />
+        <RangeSelect
+          label="Calories"
+          anyLabel="Any calories"
+          value={maxCalories}
+          presets={RECIPE_RANGE_FILTERS.MAX_CALORIES}
+          onChange={onMaxCaloriesChange}
+          formatOption={(calories) => `Up to ${calories} kcal`}
+        />
+        <RangeSelect
+          label="Servings"
+          anyLabel="Any servings"
+          value={minServings}
+          presets={RECIPE_RANGE_FILTERS.MIN_SERVINGS}
+          onChange={onMinServingsChange}
+          formatOption={(servings) => `Serves ${servings}+`}
+        />
+        <FilterSelect
+          label="Difficulty"
+          anyLabel="Any difficulty"
+          value={difficultyFilter}
+          options={difficultyOptions}
+          onChange={onDifficultyChange}
+        />
+        <FilterSelect
+          label="Cuisine"
+          anyLabel="Any cuisine"
+          value={cuisineFilter}
+          options={cuisineOptions}
+          onChange={onCuisineChange}
+        />
+        {collectionOptions.length > 0 && (
+          <FilterSelect
+            label="Collection"
+            anyLabel="All collections"
+            value={collectionFilter}
+            options={collectionOptions}
+            onChange={onCollectionChange}
+          />
+        )}
+        {tagOptions.length > 0 && (
+          <FilterSelect
+            label="Tag"
+            anyLabel="Any tag"
+            value={tagFilter}
+            options={tagOptions}
+            onChange={onTagChange}
+          />
+        )}
+      </div>
+      {hasMoreRecipes && (
+        <p
+          className={clsx("text-sm", hasPartialResults ? "text-amber-700" : "text-gray-600")}
+          role="status"
+        >
+          {coverageMessage}
+        </p>
       )}
     </div>
   );
@@ -0,0 +1,97 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { Link2 } from "lucide-react";
+
+import { Button } from "@/components/Button";
+import { CopyRecipeButton } from "@/components/CopyRecipeButton";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { useRecipeShare } from "@/hooks/useRecipeShare";
+import type { Recipe } from "@/lib/schemas/recipe";
+import { getSharedRecipePath } from "@/lib/utils/shared-recipe";
+
+interface RecipeSharePanelProps {
+  recipe: Recipe;
+  onRecipeUpdated: (recipe: Recipe) => void;
+}
+
+/**
+ * Share controls for a saved recipe: publish a read-only public link,
+ * copy it, refresh the published copy, or revoke it. Edits and version
+ * restores refresh it automatically.
+ */
+export function RecipeSharePanel({ recipe, onRecipeUpdated }: RecipeSharePanelProps) {
+  const [isConfirmingRevoke, setIsConfirmingRevoke] = useState(false);
+  const { shareId, publish, revoke, isPublishing, isRevoking, error } = useRecipeShare({
+    recipe,
+    onRecipeUpdated,
+  });
+
+  const getShareUrl = useCallback(
+    () => (shareId ? `${window.location.origin}${getSharedRecipePath(shareId)}` : ""),
+    [shareId]
+  );
+
+  return (
+    <div className="no-print mt-4 space-y-2">
+      {shareId ? (
+        <>
+          <p className="text-sm text-gray-700">
+            Anyone with the link can view this recipe. Saved edits and restored
+            versions update the shared copy too.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <CopyRecipeButton
+              getText={getShareUrl}
+              label="Copy link"
+              ariaLabel={`Copy share link for ${recipe.title}`}
+            />
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={publish}
+              isLoading={isPublishing}
+              disabled={isPublishing || isRevoking}
+            >
+              Update shared copy
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => setIsConfirmingRevoke(true)}
+              isLoading={isRevoking}
+              disabled={isPublishing || isRevoking}
+            >
+              Stop sharing
+            </Button>
+          </div>
+        </>
+      ) : (
+        <Button
+          type="button"
+          variant="secondary"
+          onClick={publish}
+          isLoading={isPublishing}
+          disabled={isPublishing}
+        >
+          <Link2 className="mr-2 h-4 w-4 shrink-0" aria-hidden="true" />
+          Share link
+        </Button>
+      )}
+      {error && (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+      <ConfirmDialog
+        isOpen={isConfirmingRevoke}
+        onClose={() => setIsConfirmingRevoke(false)}
+        onConfirm={revoke}
+        title="Stop sharing"
+        message={`The public link to "${recipe.title}" will stop working. You can share it again later with a new link.`}
+        confirmLabel="Stop sharing"
+        variant="danger"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useMemo } from "react";
+import clsx from "clsx";
+
+import { Button } from "@/components/Button";
+import { useRecipeVersions } from "@/hooks/useRecipeVersions";
+import type { Recipe } from "@/lib/schemas/recipe";
+import type { RecipeVersion } from "@/lib/schemas/recipe-version";
+import type { LineChange } from "@/lib/utils/recipe-diff";
+import { diffRecipeSnapshots } from "@/lib/utils/recipe-diff";
+import { getRecipeSnapshot } from "@/lib/utils/recipe-edit";
+
+interface RecipeVersionHistoryProps {
+  recipe: Recipe;
+  onRecipeUpdated?: (recipe: Recipe) => void;
+}
+
+const CHANGE_PREFIX: Record<LineChange["type"], string> = {
+  unchanged: " ",
+  removed: "-",
+  added: "+",
+};
+
+function formatVersionDate(version: RecipeVersion): string {
+  return version.createdAt.toDate().toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Prior versions of a saved recipe, newest first. Each version shows what
+ * changed between it and the current recipe and can be restored.
+ */
+export function RecipeVersionHistory({
+  recipe,
+  onRecipeUpdated,
+}: RecipeVersionHistoryProps) {
+  const {
+    versions,
+    isLoading,
+    loadError,
+    restoreVersion,
+    restoringVersionId,
+    restoreError,
+  } = useRecipeVersions({ recipe, onRecipeUpdated });
+
+  const currentSnapshot = useMemo(() => getRecipeSnapshot(recipe), [recipe]);
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading history…</p>;
+  }
+
+  if (loadError) {
+    return (
+      <p className="text-sm text-red-600" role="alert">
+        {loadError}
+      </p>
+    );
+  }
+
+  if (!versions || versions.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        No earlier versions yet. Edits you make will appear here.
+      </p>
+    );
+  }
+
+  return (
+    <section aria-label="Version history" className="space-y-3">
+      {restoreError && (
+        <p className="text-sm text-red-600" role="alert">
+          {restoreError}
+        </p>
+      )}
+      <ol className="space-y-3">
+        {versions.map((version) => {
+          const fieldDiffs = diffRecipeSnapshots(version, currentSnapshot);
+
+          return (
+            <li key={version.id} className="rounded-lg border border-gray-200 p-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-sm font-medium">
+                  {formatVersionDate(version)}
+                </span>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  onClick={() => restoreVersion(version)}
+                  disabled={restoringVersionId !== null || fieldDiffs.length === 0}
+                  isLoading={restoringVersionId === version.id}
+                >
+                  Restore
+                </Button>
+              </div>
+              {fieldDiffs.length === 0 ? (
+                <p className="mt-2 text-sm text-gray-500">Same as the current recipe.</p>
+              ) : (
+                <details className="mt-2">
+                  <summary className="cursor-pointer text-sm text-gray-600">
+                    Changed since: {fieldDiffs.map((diff) => diff.label).join(", ")}
+                  </summary>
+                  {fieldDiffs.map((diff) => (
+                    <div key={diff.label} className="mt-2">
+                      <p className="text-xs font-semibold uppercase text-gray-500">
+                        {diff.label}
+                      </p>
+                      <pre className="mt-1 whitespace-pre-wrap break-words text-sm">
+                        {diff.changes.map((change, index) => (
+                          <span
+                            key={index}
+                            className={clsx(
+                              "block",
+                              change.type === "removed" && "bg-red-50 text-red-700",
+                              change.type === "added" && "bg-green-50 text-green-700"
+                            )}
+                          >
+                            {CHANGE_PREFIX[change.type]} {change.text}
+                          </span>
+                        ))}
+                      </pre>
+                    </div>
+                  ))}
+                </details>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </section>
+  );
+}
@@ -1,21 +1,26 @@
 "use client";
 
 import { useCallback } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
+import { Trash2 } from "lucide-react";
 
 import { PageLayout } from "@/components/PageLayout";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { ErrorMessage } from "@/components/ui/ErrorMessage";
-import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { UndoToast } from "@/components/ui/UndoToast";
 import { useAuthStore } from "@/lib/store/auth-store";
 import { useRecipeStore } from "@/lib/store/recipe-store";
 import type { Recipe } from "@/lib/schemas/recipe";
 import { buildSavedRecipeRefinePrompt } from "@/lib/utils/saved-recipe-refine";
 import { useSavedRecipes } from "@/hooks/useSavedRecipes";
+import { useUserProfile } from "@/hooks/useUserProfile";
 
 import { RecipeSearch } from "./components/RecipeSearch";
 import { RecipeList } from "./components/RecipeList";
+import { RecipeBulkActions } from "./components/RecipeBulkActions";
 import { RecipeDetail } from "./components/RecipeDetail";
+import { RecipeImport } from "./components/RecipeImport";
 import { EmptyState } from "./components/EmptyState";
 import { LoadingSkeleton } from "./components/LoadingSkeleton";
 
@@ -26,29 +31,56 @@ export default function Saved() {
   const {
     recipes,
     filteredRecipes,
+    highlightTerms,
     isLoading,
+    isLoadingMore,
+    hasMore,
+    isLoadingAllRecipes,
+    hasPartialResults,
+    loadMore,
     loadError,
     deleteError,
+    organizeError,
     searchTerm,
     setSearchTerm,
     difficultyFilter,
     setDifficultyFilter,
     cuisineFilter,
     setCuisineFilter,
+    tagFilter,
+    setTagFilter,
+    collectionFilter,
+    setCollectionFilter,
+    favoritesOnly,
+    setFavoritesOnly,
+    maxTotalMinutes,
+    setMaxTotalMinutes,
+    maxCalories,
+    setMaxCalories,
+    minServings,
+    setMinServings,
+    sortOption,
+    setSortOption,
     difficultyOptions,
     cuisineOptions,
+    tagOptions,
+    collectionOptions,
     clearFilters,
     selectedRecipe,
     selectedRecipeId,
     selectRecipe,
-    recipeToDelete,
-    requestDeleteRecipe,
-    cancelDeleteRecipe,
-    confirmDeleteRecipe,
+    trashRecipe,
+    recentlyTrashed,
+    undoTrash,
+    dismissUndo,
     refreshRecipes,
+    replaceRecipe,
+    organizeRecipe,
+    bulk,
   } = useSavedRecipes({
     userId: user?.uid,
   });
+  const { userProfile } = useUserProfile(user?.uid);
 
   const handleRefineRecipe = useCallback(
     (recipe: Recipe): void => {
@@ -60,6 +92,13 @@ export default function Saved() {
     [router, setIngredients, setInput, setMode]
   );
 
+  const handleToggleFavorite = useCallback(
+    (recipe: Recipe): void => {
+      void organizeRecipe(recipe, { favorite: !recipe.favorite });
+    },
+    [organizeRecipe]
+  );
+
   if (!user) {
     return (
       <PageLayout title="Saved Recipes">
@@ -75,12 +114,23 @@ export default function Saved() {
       title="Saved Recipes"
       subtitle={
         recipes && recipes.length > 0
-          ? `${recipes.length} recipe${recipes.length !== 1 ? "s" : ""} saved`
+          ? `${recipes.length}${hasMore ? "+" : ""} recipe${recipes.length !== 1 ? "s" : ""} saved`
           : undefined
       }
     >
+      <div className="flex flex-wrap items-start justify-between gap-x-4">
+        <RecipeImport userId={user.uid} onImported={refreshRecipes} />
+        <Link
+          href="/saved/trash"
+          className="mb-6 inline-flex items-center text-sm text-gray-600 hover:text-gray-900 hover:underline"
+        >
+          <Trash2 className="mr-1 h-4 w-4 shrink-0" aria-hidden="true" />
+          Trash
+        </Link>
+      </div>
       {loadError && <ErrorMessage message={loadError} />}
       {deleteError && <ErrorMessage message={deleteError} />}
+      {organizeError && <ErrorMessage message={organizeError} />}
 
       {isLoading ? (
         <LoadingSkeleton />
@@ -96,19 +146,50 @@ export default function Saved() {
               onDifficultyChange={setDifficultyFilter}
               cuisineFilter={cuisineFilter}
               onCuisineChange={setCuisineFilter}
+              collectionFilter={collectionFilter}
+              onCollectionChange={setCollectionFilter}
+              tagFilter={tagFilter}
+              onTagChange={setTagFilter}
+              favoritesOnly={favoritesOnly}
+              onFavoritesOnlyChange={setFavoritesOnly}
+              maxTotalMinutes={maxTotalMinutes}
+              onMaxTotalMinutesChange={setMaxTotalMinutes}
+              maxCalories={maxCalories}
+              onMaxCaloriesChange={setMaxCalories}
+              minServings={minServings}
+              onMinServingsChange={setMinServings}
+              sortOption={sortOption}
+              onSortChange={setSortOption}
               difficultyOptions={difficultyOptions}
               cuisineOptions={cuisineOptions}
+              collectionOptions={collectionOptions}
+              tagOptions={tagOptions}
               onClearFilters={clearFilters}
+              loadedRecipeCount={recipes.length}
+              hasMoreRecipes={hasMore}
+              isLoadingAllRecipes={isLoadingAllRecipes}
+              hasPartialResults={hasPartialResults}
             />
           </ErrorBoundary>
 
+          <ErrorBoundary variant="feature" featureName="Bulk Actions">
+            <RecipeBulkActions bulk={bulk} visibleRecipes={filteredRecipes} />
+          </ErrorBoundary>
+
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             <ErrorBoundary variant="feature" featureName="Recipe List">
               <RecipeList
                 recipes={filteredRecipes}
                 selectedRecipeId={selectedRecipeId}
+                checkedRecipeIds={bulk.isSelecting ? bulk.checkedRecipeIds : undefined}
+                onToggleChecked={bulk.toggleChecked}
+                highlightTerms={highlightTerms}
                 onSelectRecipe={selectRecipe}
-                onDeleteRecipe={requestDeleteRecipe}
+                onDeleteRecipe={trashRecipe}
+                onToggleFavorite={handleToggleFavorite}
+                hasMore={hasMore}
+                isLoadingMore={isLoadingMore}
+                onLoadMore={loadMore}
               />
             </ErrorBoundary>
 
@@ -117,8 +198,13 @@ export default function Saved() {
                 <RecipeDetail
                   recipe={selectedRecipe}
                   userId={user.uid}
+                  preferredUnitSystem={userProfile?.unitSystem}
+                  nutritionTargets={userProfile?.nutritionTargets}
                   onScaledCopySaved={refreshRecipes}
                   onRefineRecipe={handleRefineRecipe}
+                  onRecipeUpdated={replaceRecipe}
+                  collectionOptions={collectionOptions}
+                  onOrganize={organizeRecipe}
                 />
               </ErrorBoundary>
             </div>
@@ -126,16 +212,18 @@ export default function Saved() {
         </>
       )}
 
-      <ConfirmDialog
-        isOpen={recipeToDelete !== null}
-        onClose={cancelDeleteRecipe}
-        onConfirm={confirmDeleteRecipe}
-        title="Delete Recipe"
-        message={`Are you sure you want to delete "${recipeToDelete?.title}"? This action cannot be undone.`}
-        confirmLabel="Delete"
-        cancelLabel="Cancel"
-        variant="danger"
-      />
+      {recentlyTrashed && (
+        <UndoToast
+          key={recentlyTrashed.map((recipe) => recipe.id).join()}
+          message={
+            recentlyTrashed.length === 1
+              ? `"${recentlyTrashed[0].title}" moved to Trash.`
+              : `${recentlyTrashed.length} recipes moved to Trash.`
+          }
+          onUndo={undoTrash}
+          onDismiss={dismissUndo}
+        />
+      )}
     </PageLayout>
   );
 }
@@ -0,0 +1,69 @@
+"use client";
+
+import { RotateCcw, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/Button";
+import type { Recipe } from "@/lib/schemas/recipe";
+import { getDaysUntilPurge } from "@/lib/utils/recipe-trash";
+
+interface TrashedRecipeListProps {
+  recipes: Recipe[];
+  onRestore: (recipe: Recipe) => void;
+  onDeleteForever: (recipe: Recipe) => void;
+}
+
+function formatPurgeNotice(days: number): string {
+  if (days <= 0) return "Deleted permanently soon";
+  return `Deleted permanently in ${days} day${days !== 1 ? "s" : ""}`;
+}
+
+/**
+ * Trashed recipes with restore and permanent-delete actions, each showing
+ * how long it has left before it is purged.
+ */
+export function TrashedRecipeList({
+  recipes,
+  onRestore,
+  onDeleteForever,
+}: TrashedRecipeListProps) {
+  const now = new Date();
+
+  return (
+    <ul className="divide-y divide-gray-200 rounded-lg border border-gray-200 bg-white">
+      {recipes.map((recipe) => (
+        <li
+          key={recipe.id}
+          className="flex flex-col gap-3 p-3 sm:flex-row sm:items-center sm:justify-between sm:p-4"
+        >
+          <div className="min-w-0">
+            <h2 className="truncate font-semibold text-gray-900">{recipe.title}</h2>
+            <p className="text-sm text-gray-500">
+              {formatPurgeNotice(getDaysUntilPurge(recipe, now))}
+            </p>
+          </div>
+          <div className="flex shrink-0 gap-2">
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => onRestore(recipe)}
+              aria-label={`Restore recipe: ${recipe.title}`}
+            >
+              <RotateCcw className="mr-2 h-4 w-4 shrink-0" aria-hidden="true" />
+              Restore
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => onDeleteForever(recipe)}
+              className="text-red-600"
+              aria-label={`Delete recipe permanently: ${recipe.title}`}
+            >
+              <Trash2 className="mr-2 h-4 w-4 shrink-0" aria-hidden="true" />
+              Delete forever
+            </Button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
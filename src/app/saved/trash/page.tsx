@@ -0,0 +1,80 @@
+"use client";
+
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+
+import { PageLayout } from "@/components/PageLayout";
+import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { ErrorMessage } from "@/components/ui/ErrorMessage";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { useAuthStore } from "@/lib/store/auth-store";
+import { RECIPE_TRASH } from "@/lib/constants/domain";
+import { useRecipeTrash } from "@/hooks/useRecipeTrash";
+
+import { LoadingSkeleton } from "../components/LoadingSkeleton";
+import { TrashedRecipeList } from "./components/TrashedRecipeList";
+
+export default function Trash() {
+  const { user } = useAuthStore();
+  const {
+    recipes,
+    isLoading,
+    loadError,
+    actionError,
+    restoreRecipe,
+    recipeToDelete,
+    requestDeleteRecipe,
+    cancelDeleteRecipe,
+    confirmDeleteRecipe,
+  } = useRecipeTrash({ userId: user?.uid });
+
+  if (!user) {
+    return (
+      <PageLayout title="Trash">
+        <p className="text-gray-600">Please sign in to view your trash.</p>
+      </PageLayout>
+    );
+  }
+
+  return (
+    <PageLayout
+      title="Trash"
+      subtitle={`Deleted recipes are kept for ${RECIPE_TRASH.RETENTION_DAYS} days, then removed permanently.`}
+    >
+      <Link
+        href="/saved"
+        className="mb-6 inline-flex items-center text-sm text-gray-600 hover:text-gray-900 hover:underline"
+      >
+        <ArrowLeft className="mr-1 h-4 w-4 shrink-0" aria-hidden="true" />
+        Back to saved recipes
+      </Link>
+      {loadError && <ErrorMessage message={loadError} className="mb-4" />}
+      {actionError && <ErrorMessage message={actionError} className="mb-4" />}
+
+      {isLoading ? (
+        <LoadingSkeleton />
+      ) : !recipes || recipes.length === 0 ? (
+        <p className="py-12 text-center text-lg text-gray-500">Trash is empty.</p>
+      ) : (
+        <ErrorBoundary variant="feature" featureName="Trash">
+          <TrashedRecipeList
+            recipes={recipes}
+            onRestore={restoreRecipe}
+            onDeleteForever={requestDeleteRecipe}
+          />
+        </ErrorBoundary>
+      )}
+
+      <ConfirmDialog
+        isOpen={recipeToDelete !== null}
+        onClose={cancelDeleteRecipe}
+        onConfirm={confirmDeleteRecipe}
+        title="Delete Recipe"
+        message={`Are you sure you want to permanently delete "${recipeToDelete?.title}"? This action cannot be undone.`}
+        confirmLabel="Delete"
+        cancelLabel="Cancel"
+        variant="danger"
+      />
+    </PageLayout>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { memo } from "react";
+import clsx from "clsx";
+
+import { Button } from "@/components/Button";
+import { NUMBER_INPUT } from "@/lib/constants/ui";
+import type { Recipe } from "@/lib/schemas/recipe";
+
+interface RecipePickerProps {
+  recipes: Recipe[];
+  selectedServings: Record<string, number | null>;
+  onToggleRecipe: (recipe: Recipe) => void;
+  onServingsChange: (recipeId: string, servings: number) => void;
+  onCreate: () => void;
+  isCreating: boolean;
+}
+
+/**
+ * Saved recipe checklist with optional per-recipe servings for a new list.
+ * Servings are only editable for recipes that have a saved serving count.
+ */
+export const RecipePicker = memo(function RecipePicker({
+  recipes,
+  selectedServings,
+  onToggleRecipe,
+  onServingsChange,
+  onCreate,
+  isCreating,
+}: RecipePickerProps) {
+  const selectedCount = Object.keys(selectedServings).length;
+
+  return (
+    <section className="space-y-3" aria-labelledby="recipe-picker-heading">
+      <h2 id="recipe-picker-heading" className="text-lg font-semibold">
+        Choose recipes
+      </h2>
+
+      <ul className="space-y-2 max-h-[50vh] overflow-y-auto">
+        {recipes.map((recipe) => {
+          const isSelected = recipe.id in selectedServings;
+          const servings = selectedServings[recipe.id];
+
+          return (
+            <li
+              key={recipe.id}
+              className={clsx(
+                "flex items-center gap-3 p-3 rounded-lg border",
+                isSelected ? "border-blue-500 bg-blue-50" : "border-gray-200 bg-white"
+              )}
+            >
+              <label className="flex items-center gap-3 flex-1 min-w-0 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={isSelected}
+                  onChange={() => onToggleRecipe(recipe)}
+                  className="h-4 w-4"
+                />
+                <span className="break-words">{recipe.title}</span>
+              </label>
+
+              {isSelected && servings != null && (
+                <input
+                  type="number"
+                  min={NUMBER_INPUT.SERVING_SIZE_MIN}
+                  max={NUMBER_INPUT.SERVING_SIZE_MAX}
+                  value={servings}
+                  onChange={(e) =>
+                    onServingsChange(
+                      recipe.id,
+                      parseInt(e.target.value) || NUMBER_INPUT.SERVING_SIZE_MIN
+                    )
+                  }
+                  aria-label={`Servings for ${recipe.title}`}
+                  className="w-16 p-1 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+                />
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <Button
+        type="button"
+        className="w-full"
+        onClick={onCreate}
+        isLoading={isCreating}
+        disabled={selectedCount === 0 || isCreating}
+      >
+        Build shopping list
+        {selectedCount > 0 &&
+          ` (${selectedCount} recipe${selectedCount !== 1 ? "s" : ""})`}
+      </Button>
+    </section>
+  );
+});
@@ -0,0 +1,71 @@
+"use client";
+
+import { memo } from "react";
+import { Trash2 } from "lucide-react";
+import clsx from "clsx";
+
+import type { ShoppingList } from "@/lib/schemas/shopping-list";
+
+interface ShoppingListHistoryProps {
+  lists: ShoppingList[];
+  selectedListId: string | null;
+  onSelectList: (list: ShoppingList) => void;
+  onDeleteList: (list: ShoppingList) => void;
+}
+
+/**
+ * Previously built shopping lists, newest first.
+ */
+export const ShoppingListHistory = memo(function ShoppingListHistory({
+  lists,
+  selectedListId,
+  onSelectList,
+  onDeleteList,
+}: ShoppingListHistoryProps) {
+  if (lists.length === 0) return null;
+
+  return (
+    <section className="space-y-3" aria-labelledby="shopping-list-history-heading">
+      <h2 id="shopping-list-history-heading" className="text-lg font-semibold">
+        Your lists
+      </h2>
+      <ul className="space-y-2">
+        {lists.map((list) => {
+          const remaining = list.items.filter((item) => !item.checked).length;
+          const isSelected = list.id === selectedListId;
+
+          return (
+            <li key={list.id} className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => onSelectList(list)}
+                aria-pressed={isSelected}
+                className={clsx(
+                  "flex-1 min-w-0 text-left p-3 rounded-lg border transition-colors",
+                  isSelected
+                    ? "border-blue-500 bg-blue-50"
+                    : "border-gray-200 hover:border-blue-300 bg-white"
+                )}
+              >
+                <span className="block font-medium break-words">{list.title}</span>
+                <span className="block text-sm text-gray-500">
+                  {remaining === 0
+                    ? "All items checked"
+                    : `${remaining} item${remaining !== 1 ? "s" : ""} left`}
+                </span>
+              </button>
+              <button
+                type="button"
+                onClick={() => onDeleteList(list)}
+                className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                aria-label={`Delete shopping list: ${list.title}`}
+              >
+                <Trash2 className="w-4 h-4" aria-hidden="true" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+});
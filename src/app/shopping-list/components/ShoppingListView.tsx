@@ -0,0 +1,95 @@
+"use client";
+
+import { useCallback } from "react";
+import clsx from "clsx";
+
+import { CopyRecipeButton } from "@/components/CopyRecipeButton";
+import type { ShoppingList } from "@/lib/schemas/shopping-list";
+import {
+  formatShoppingListAsMarkdown,
+  formatShoppingListAsText,
+  formatShoppingListItem,
+  groupShoppingListItems,
+} from "@/lib/utils/shopping-list";
+
+interface ShoppingListViewProps {
+  list: ShoppingList;
+  onToggleItem: (itemId: string) => void;
+}
+
+/**
+ * Shopping list grouped by aisle with check-off and text/markdown export.
+ */
+export function ShoppingListView({ list, onToggleItem }: ShoppingListViewProps) {
+  const getText = useCallback(
+    () => formatShoppingListAsText(list.title, list.items),
+    [list]
+  );
+  const getMarkdown = useCallback(
+    () => formatShoppingListAsMarkdown(list.title, list.items),
+    [list]
+  );
+
+  const checkedCount = list.items.filter((item) => item.checked).length;
+
+  return (
+    <article className="bg-white rounded-lg shadow-xs border border-gray-200 p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold break-words">{list.title}</h2>
+          <p className="text-sm text-gray-500">
+            {checkedCount} of {list.items.length} items checked
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <CopyRecipeButton
+            getText={getText}
+            label="Copy text"
+            ariaLabel="Copy shopping list as plain text"
+          />
+          <CopyRecipeButton
+            getText={getMarkdown}
+            label="Copy markdown"
+            ariaLabel="Copy shopping list as markdown"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        {groupShoppingListItems(list.items).map(({ aisle, items }) => (
+          <section key={aisle}>
+            <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-2">
+              {aisle}
+            </h3>
+            <ul className="space-y-1">
+              {items.map((item) => (
+                <li key={item.id}>
+                  <label className="flex items-start gap-3 py-1 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={item.checked}
+                      onChange={() => onToggleItem(item.id)}
+                      className="h-4 w-4 mt-1"
+                    />
+                    <span
+                      className={clsx(
+                        item.checked && "line-through text-gray-400"
+                      )}
+                    >
+                      {formatShoppingListItem(item)}
+                      {item.recipeTitles.length > 1 && (
+                        <span className="block text-xs text-gray-400">
+                          {item.recipeTitles.join(", ")}
+                        </span>
+                      )}
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ))}
+      </div>
+    </article>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import Link from "next/link";
+
+import { PageLayout } from "@/components/PageLayout";
+import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { ErrorMessage } from "@/components/ui/ErrorMessage";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { CardSkeleton } from "@/components/ui/PageSkeleton";
+import { useAuthStore } from "@/lib/store/auth-store";
+import { useShoppingLists } from "@/hooks/useShoppingLists";
+
+import { RecipePicker } from "./components/RecipePicker";
+import { ShoppingListView } from "./components/ShoppingListView";
+import { ShoppingListHistory } from "./components/ShoppingListHistory";
+
+export default function ShoppingListPage() {
+  const { user } = useAuthStore();
+  const {
+    recipes,
+    shoppingLists,
+    isLoading,
+    loadError,
+    actionError,
+    selectedServings,
+    toggleRecipe,
+    setRecipeServings,
+    isCreating,
+    createShoppingList,
+    selectedList,
+    selectList,
+    toggleItemChecked,
+    listToDelete,
+    requestDeleteList,
+    cancelDeleteList,
+    confirmDeleteList,
+  } = useShoppingLists({ userId: user?.uid });
+
+  if (!user) {
+    return (
+      <PageLayout title="Shopping List">
+        <p className="text-gray-600">
+          Please sign in to build shopping lists.
+        </p>
+      </PageLayout>
+    );
+  }
+
+  return (
+    <PageLayout
+      title="Shopping List"
+      subtitle="Combine saved recipes into one list, grouped by aisle"
+    >
+      {loadError && <ErrorMessage message={loadError} />}
+      {actionError && <ErrorMessage message={actionError} />}
+
+      {isLoading ? (
+        <CardSkeleton count={4} />
+      ) : !recipes || recipes.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <p className="text-lg">No saved recipes yet.</p>
+          <p className="mt-2">
+            <Link href="/generate" className="text-blue-600 hover:underline">
+              Generate and save a recipe
+            </Link>{" "}
+            to build a shopping list.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-1 space-y-8">
+            <ErrorBoundary variant="feature" featureName="Recipe Picker">
+              <RecipePicker
+                recipes={recipes}
+                selectedServings={selectedServings}
+                onToggleRecipe={toggleRecipe}
+                onServingsChange={setRecipeServings}
+                onCreate={createShoppingList}
+                isCreating={isCreating}
+              />
+            </ErrorBoundary>
+
+            <ErrorBoundary variant="feature" featureName="Shopping List History">
+              <ShoppingListHistory
+                lists={shoppingLists ?? []}
+                selectedListId={selectedList?.id ?? null}
+                onSelectList={selectList}
+                onDeleteList={requestDeleteList}
+              />
+            </ErrorBoundary>
+          </div>
+
+          <div className="lg:col-span-2">
+            <ErrorBoundary variant="feature" featureName="Shopping List">
+              {selectedList ? (
+                <ShoppingListView
+                  list={selectedList}
+                  onToggleItem={toggleItemChecked}
+                />
+              ) : (
+                <p className="text-gray-500 text-center py-12">
+                  Select recipes and build a list to get started.
+                </p>
+              )}
+            </ErrorBoundary>
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={listToDelete !== null}
+        onClose={cancelDeleteList}
+        onConfirm={confirmDeleteList}
+        title="Delete Shopping List"
+        message={`Are you sure you want to delete "${listToDelete?.title}"? This action cannot be undone.`}
+        confirmLabel="Delete"
+        cancelLabel="Cancel"
+        variant="danger"
+      />
+    </PageLayout>
+  );
+}
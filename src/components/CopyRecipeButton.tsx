@@ -12,6 +12,8 @@ interface CopyRecipeButtonProps {
   getText: () => string;
   /** Accessible label for screen readers. */
   ariaLabel?: string;
+  /** Visible label in the idle state. */
+  label?: string;
 }
 
 type CopyState = "idle" | "copied" | "error";
@@ -23,6 +25,7 @@ type CopyState = "idle" | "copied" | "error";
 export function CopyRecipeButton({
   getText,
   ariaLabel = "Copy recipe to clipboard",
+  label: idleLabel = "Copy",
 }: CopyRecipeButtonProps) {
   const [state, setState] = useState<CopyState>("idle");
   const resetTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -45,7 +48,11 @@ export function CopyRecipeButton({
   }, [getText]);
 
   const label =
-    state === "copied" ? "Copied!" : state === "error" ? "Copy failed" : "Copy";
+    state === "copied"
+      ? "Copied!"
+      : state === "error"
+        ? "Copy failed"
+        : idleLabel;
 
   return (
     <Button
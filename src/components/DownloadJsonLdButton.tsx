@@ -0,0 +1,46 @@
+"use client";
+
+import { useCallback } from "react";
+import { Download } from "lucide-react";
+
+import { Button } from "@/components/Button";
+import type { RecipeStructure } from "@/lib/schemas/recipe";
+import { buildDownloadFileName, downloadTextFile } from "@/lib/utils/download";
+import { buildRecipeJsonLd } from "@/lib/utils/recipe-json-ld";
+
+interface DownloadJsonLdButtonProps {
+  recipe: RecipeStructure;
+  cuisine?: string | null;
+  ariaLabel?: string;
+}
+
+/**
+ * Downloads the recipe as schema.org Recipe JSON-LD for use in other tools.
+ */
+export function DownloadJsonLdButton({
+  recipe,
+  cuisine,
+  ariaLabel = "Download recipe as JSON-LD",
+}: DownloadJsonLdButtonProps) {
+  const handleDownload = useCallback(() => {
+    const jsonLd = buildRecipeJsonLd(recipe, { cuisine });
+    downloadTextFile(
+      buildDownloadFileName(jsonLd.name, "json"),
+      JSON.stringify(jsonLd, null, 2),
+      "application/ld+json"
+    );
+  }, [cuisine, recipe]);
+
+  return (
+    <Button
+      type="button"
+      variant="secondary"
+      className="no-print"
+      onClick={handleDownload}
+      aria-label={ariaLabel}
+    >
+      <Download className="mr-2 h-4 w-4 shrink-0" aria-hidden="true" />
+      JSON-LD
+    </Button>
+  );
+}
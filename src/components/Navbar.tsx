@@ -3,7 +3,14 @@
 import { memo, useCallback } from "react";
 import Link from "next/link";
 import Image from "next/image";
-import { Wand2, BookMarked, Settings } from "lucide-react";
+import {
+  Wand2,
+  BookMarked,
+  CalendarDays,
+  Refrigerator,
+  ShoppingCart,
+  Settings,
+} from "lucide-react";
 
 import { NavLink } from "@/components/ui/NavLink";
 import { UserMenu } from "@/components/UserMenu";
@@ -79,6 +86,24 @@ export const Navbar = memo(function Navbar() {
                 >
                   Saved Recipes
                 </NavLink>
+                <NavLink
+                  href="/plan"
+                  icon={<CalendarDays className="w-5 h-5" />}
+                >
+                  Meal Plan
+                </NavLink>
+                <NavLink
+                  href="/pantry"
+                  icon={<Refrigerator className="w-5 h-5" />}
+                >
+                  Pantry
+                </NavLink>
+                <NavLink
+                  href="/shopping-list"
+                  icon={<ShoppingCart className="w-5 h-5" />}
+                >
+                  Shopping List
+                </NavLink>
                 <NavLink
                   href="/profile"
                   icon={<Settings className="w-5 h-5" />}
@@ -1,49 +1,133 @@
 import { memo } from "react";
+import clsx from "clsx";
 
-import type { NutritionSummary } from "@/lib/utils/nutrition";
+import { NUTRITION_TARGETS } from "@/lib/constants/domain";
+import type { NutritionTargets } from "@/lib/schemas/user";
+import type { NutrientKey, NutritionSummary } from "@/lib/utils/nutrition";
+import { compareNutritionToTargets } from "@/lib/utils/nutrition";
+import type { CalculatedNutrition } from "@/lib/utils/nutrition-calculator";
+import { toNutritionSummary } from "@/lib/utils/nutrition-calculator";
 
 interface NutritionSummaryPanelProps {
-  summary: NutritionSummary;
+  /** The model's estimate, or nutrition scraped from legacy markdown. */
+  summary: NutritionSummary | null;
+  /** Nutrition calculated from the ingredient lines, when any matched. */
+  calculated?: CalculatedNutrition | null;
+  /** Daily targets from the profile; adds "% of daily" to each value. */
+  targets?: NutritionTargets | null;
 }
 
 interface NutritionItemProps {
   label: string;
   value: string;
+  percentOfDaily?: number;
+}
+
+interface NutritionEntry extends NutritionItemProps {
+  nutrient: NutrientKey;
 }
 
-function NutritionItem({ label, value }: NutritionItemProps) {
+/** A serving over this share of a daily target is over its per-meal budget. */
+const PER_MEAL_PERCENT = 100 / NUTRITION_TARGETS.MEALS_PER_DAY;
+
+function NutritionItem({ label, value, percentOfDaily }: NutritionItemProps) {
   return (
     <div className="rounded-md bg-white px-3 py-2 border border-surface-200">
       <dt className="text-xs font-medium uppercase tracking-wide text-gray-500">
         {label}
       </dt>
       <dd className="mt-1 text-sm font-semibold text-gray-900">{value}</dd>
+      {percentOfDaily != null && (
+        <dd
+          className={clsx(
+            "text-xs",
+            percentOfDaily > PER_MEAL_PERCENT ? "text-amber-700" : "text-gray-500"
+          )}
+        >
+          {percentOfDaily}% of daily target
+        </dd>
+      )}
     </div>
   );
 }
 
-/**
- * Compact nutrition summary shown when calories or macros are available.
- */
-export const NutritionSummaryPanel = memo(function NutritionSummaryPanel({
-  summary,
-}: NutritionSummaryPanelProps) {
-  const items: NutritionItemProps[] = [];
+function getNutritionEntries(summary: NutritionSummary): NutritionEntry[] {
+  const items: NutritionEntry[] = [];
 
   if (summary.calories != null) {
-    items.push({ label: "Calories", value: `${summary.calories} kcal` });
+    items.push({ nutrient: "calories", label: "Calories", value: `${summary.calories} kcal` });
   }
   if (summary.protein?.trim()) {
-    items.push({ label: "Protein", value: summary.protein });
+    items.push({ nutrient: "protein", label: "Protein", value: summary.protein });
   }
   if (summary.carbs?.trim()) {
-    items.push({ label: "Carbs", value: summary.carbs });
+    items.push({ nutrient: "carbs", label: "Carbs", value: summary.carbs });
   }
   if (summary.fat?.trim()) {
-    items.push({ label: "Fat", value: summary.fat });
+    items.push({ nutrient: "fat", label: "Fat", value: summary.fat });
   }
+  if (summary.sodium?.trim()) {
+    items.push({ nutrient: "sodium", label: "Sodium", value: summary.sodium });
+  }
+
+  return items;
+}
+
+interface NutritionSectionProps {
+  badge: string;
+  badgeClassName: string;
+  summary: NutritionSummary;
+  targets?: NutritionTargets | null;
+}
 
-  if (items.length === 0) return null;
+function NutritionSection({ badge, badgeClassName, summary, targets }: NutritionSectionProps) {
+  const items = getNutritionEntries(summary);
+  const comparisons = targets ? compareNutritionToTargets(summary, targets) : [];
+
+  return (
+    <div>
+      <span
+        className={clsx(
+          "mb-2 inline-block rounded-full px-2 py-0.5 text-xs font-medium",
+          badgeClassName
+        )}
+      >
+        {badge}
+      </span>
+      <dl
+        className={clsx(
+          "grid grid-cols-2 gap-3",
+          items.length > 4 ? "sm:grid-cols-5" : "sm:grid-cols-4"
+        )}
+      >
+        {items.map(({ nutrient, ...item }) => (
+          <NutritionItem
+            key={nutrient}
+            {...item}
+            percentOfDaily={
+              comparisons.find((comparison) => comparison.key === nutrient)?.percentOfDaily
+            }
+          />
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+/**
+ * Compact nutrition summary shown when calories or macros are available.
+ * Nutrition calculated from the ingredient table is badged "Calculated" and
+ * shown above the model's "Estimated" figures, with the lines it left out.
+ * With targets, each value shows its share of the daily target, highlighted
+ * when one serving uses more than its per-meal share.
+ */
+export const NutritionSummaryPanel = memo(function NutritionSummaryPanel({
+  summary,
+  calculated,
+  targets,
+}: NutritionSummaryPanelProps) {
+  const estimate = summary && getNutritionEntries(summary).length > 0 ? summary : null;
+  if (!estimate && !calculated) return null;
 
   return (
     <aside
@@ -53,11 +137,32 @@ export const NutritionSummaryPanel = memo(function NutritionSummaryPanel({
       <h3 className="text-sm font-semibold text-gray-900 mb-3">
         Nutrition per serving
       </h3>
-      <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3">
-        {items.map((item) => (
-          <NutritionItem key={item.label} {...item} />
-        ))}
-      </dl>
+      <div className="space-y-4">
+        {calculated && (
+          <div>
+            <NutritionSection
+              badge="Calculated"
+              badgeClassName="bg-green-100 text-green-800"
+              summary={toNutritionSummary(calculated)}
+              targets={targets}
+            />
+            {calculated.unmatched.length > 0 && (
+              <p className="mt-2 text-xs text-gray-600">
+                <span className="font-medium">Not counted:</span>{" "}
+                {calculated.unmatched.join("; ")}
+              </p>
+            )}
+          </div>
+        )}
+        {estimate && (
+          <NutritionSection
+            badge="Estimated"
+            badgeClassName="bg-surface-200 text-gray-700"
+            summary={estimate}
+            targets={targets}
+          />
+        )}
+      </div>
     </aside>
   );
 });
@@ -1,19 +1,26 @@
 import { memo } from "react";
-import { Trash2 } from "lucide-react";
+import Image from "next/image";
+import { Star, Trash2 } from "lucide-react";
 import clsx from "clsx";
 import type { Recipe } from "@/lib/schemas/recipe";
 import { RECIPE } from "@/lib/constants/ui";
+import { HighlightedText } from "@/components/ui/HighlightedText";
 
 interface RecipeCardProps {
   recipe: Recipe;
   isSelected: boolean;
+  /** Set in bulk selection mode, where clicking the card toggles its checkbox. */
+  isChecked?: boolean;
+  highlightTerms?: ReadonlySet<string>;
   onSelect: () => void;
   onDelete: () => void;
+  onToggleFavorite?: () => void;
 }
 
 /**
  * Recipe card component for displaying recipe summaries in a list.
- * Shows recipe title, preview of ingredients, and delete button.
+ * Shows a cover photo, recipe title, preview of ingredients, tags, and
+ * favorite/delete buttons, plus a checkbox in bulk selection mode.
  *
  * Memoization rationale:
  * - Renders inside .map() over potentially hundreds of recipes
@@ -23,8 +30,11 @@ interface RecipeCardProps {
 export const RecipeCard = memo(function RecipeCard({
   recipe,
   isSelected,
+  isChecked,
+  highlightTerms,
   onSelect,
   onDelete,
+  onToggleFavorite,
 }: RecipeCardProps) {
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" || e.key === " ") {
@@ -33,6 +43,9 @@ export const RecipeCard = memo(function RecipeCard({
     }
   };
 
+  const coverPhoto = recipe.photos?.[0];
+  const isSelectionMode = isChecked !== undefined;
+
   return (
     <div className="relative">
       <div
@@ -42,17 +55,58 @@ export const RecipeCard = memo(function RecipeCard({
         tabIndex={0}
         className={clsx(
           "w-full text-left p-3 sm:p-4 rounded-lg border transition-colors cursor-pointer",
-          isSelected
+          (isSelectionMode ? isChecked : isSelected)
             ? "border-blue-500 bg-blue-50"
             : "border-gray-200 hover:border-blue-300 bg-white"
         )}
-        aria-label={`View recipe: ${recipe.title}`}
-        aria-pressed={isSelected}
+        aria-label={
+          isSelectionMode ? `Select recipe: ${recipe.title}` : `View recipe: ${recipe.title}`
+        }
+        aria-pressed={isSelectionMode ? isChecked : isSelected}
       >
+        {coverPhoto && (
+          <Image
+            src={coverPhoto.url}
+            alt=""
+            width={coverPhoto.width}
+            height={coverPhoto.height}
+            sizes="(min-width: 1024px) 25vw, 100vw"
+            className="mb-3 h-32 w-full rounded-md object-cover"
+          />
+        )}
         <div className="flex justify-between items-start gap-2">
+          {isSelectionMode && (
+            <input
+              type="checkbox"
+              checked={isChecked}
+              readOnly
+              tabIndex={-1}
+              aria-hidden="true"
+              className="mt-1 h-4 w-4 shrink-0 pointer-events-none"
+            />
+          )}
           <h3 className="font-medium text-base break-words flex-1">
-            {recipe.title}
+            <HighlightedText text={recipe.title} terms={highlightTerms} />
           </h3>
+          {onToggleFavorite && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggleFavorite();
+              }}
+              className="text-gray-400 hover:text-yellow-500 shrink-0 p-1 rounded-full hover:bg-yellow-50 transition-colors z-10"
+              aria-label={
+                recipe.favorite
+                  ? `Remove ${recipe.title} from favorites`
+                  : `Add ${recipe.title} to favorites`
+              }
+              aria-pressed={recipe.favorite === true}
+            >
+              <Star
+                className={clsx("w-4 h-4", recipe.favorite && "fill-yellow-400 text-yellow-500")}
+              />
+            </button>
+          )}
           <button
             onClick={(e) => {
               e.stopPropagation();
@@ -66,13 +120,29 @@ export const RecipeCard = memo(function RecipeCard({
         </div>
         {recipe.ingredients && recipe.ingredients.length > 0 && (
           <div className="text-sm text-gray-500 mt-2 break-words">
-            {recipe.ingredients
-              .slice(0, RECIPE.PREVIEW_INGREDIENTS_COUNT)
-              .join(", ")}
+            <HighlightedText
+              text={recipe.ingredients
+                .slice(0, RECIPE.PREVIEW_INGREDIENTS_COUNT)
+                .map((ingredient) => ingredient.item)
+                .join(", ")}
+              terms={highlightTerms}
+            />
             {recipe.ingredients.length > RECIPE.PREVIEW_INGREDIENTS_COUNT &&
               "..."}
           </div>
         )}
+        {recipe.tags && recipe.tags.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-1">
+            {recipe.tags.map((tag) => (
+              <span
+                key={tag}
+                className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600"
+              >
+                {tag}
+              </span>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -2,12 +2,18 @@ import { memo } from "react";
 
 import { MarkdownRenderer } from "@/components/MarkdownRenderer";
 import { NutritionSummaryPanel } from "@/components/NutritionSummaryPanel";
+import type { NutritionTargets } from "@/lib/schemas/user";
 import type { NutritionSummary } from "@/lib/utils/nutrition";
+import type { CalculatedNutrition } from "@/lib/utils/nutrition-calculator";
 
 interface RecipeContentProps {
   title?: string | null;
   content: string;
   nutrition?: NutritionSummary | null;
+  /** Nutrition calculated from the ingredients, shown beside the estimate. */
+  calculatedNutrition?: CalculatedNutrition | null;
+  /** Daily targets to compare the nutrition panel against. */
+  nutritionTargets?: NutritionTargets | null;
   titleId?: string;
   titleClassName?: string;
   contentClassName?: string;
@@ -20,6 +26,8 @@ export const RecipeContent = memo(function RecipeContent({
   title,
   content,
   nutrition,
+  calculatedNutrition,
+  nutritionTargets,
   titleId,
   titleClassName = "text-xl font-medium",
   contentClassName = "mt-4",
@@ -33,7 +41,13 @@ export const RecipeContent = memo(function RecipeContent({
           {title}
         </h2>
       )}
-      {nutrition && <NutritionSummaryPanel summary={nutrition} />}
+      {(nutrition || calculatedNutrition) && (
+        <NutritionSummaryPanel
+          summary={nutrition ?? null}
+          calculated={calculatedNutrition}
+          targets={nutritionTargets}
+        />
+      )}
       <div
         className={contentClassName}
         aria-labelledby={hasTitle ? titleId : undefined}
@@ -3,7 +3,9 @@
 import { useCallback } from "react";
 
 import { CopyRecipeButton } from "@/components/CopyRecipeButton";
+import { DownloadJsonLdButton } from "@/components/DownloadJsonLdButton";
 import { PrintRecipeButton } from "@/components/PrintRecipeButton";
+import type { RecipeStructure } from "@/lib/schemas/recipe";
 import type { NutritionSummary } from "@/lib/utils/nutrition";
 import { buildRecipeCopyText } from "@/lib/utils/recipe-copy";
 
@@ -13,10 +15,13 @@ interface RecipeExportActionsProps {
   nutrition?: NutritionSummary | null;
   printAriaLabel?: string;
   copyAriaLabel?: string;
+  /** Structured data for the JSON-LD download; the button is hidden without it. */
+  structuredRecipe?: RecipeStructure | null;
+  cuisine?: string | null;
 }
 
 /**
- * Shared print/copy actions for any rendered recipe body.
+ * Shared print/copy/download actions for any rendered recipe body.
  */
 export function RecipeExportActions({
   title,
@@ -24,6 +29,8 @@ export function RecipeExportActions({
   nutrition,
   printAriaLabel,
   copyAriaLabel,
+  structuredRecipe,
+  cuisine,
 }: RecipeExportActionsProps) {
   const getCopyText = useCallback(
     () =>
@@ -39,6 +46,13 @@ export function RecipeExportActions({
     <>
       <PrintRecipeButton ariaLabel={printAriaLabel} />
       <CopyRecipeButton getText={getCopyText} ariaLabel={copyAriaLabel} />
+      {structuredRecipe?.title && (
+        <DownloadJsonLdButton
+          recipe={structuredRecipe}
+          cuisine={cuisine}
+          ariaLabel={`Download ${structuredRecipe.title} as JSON-LD`}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,28 @@
+import type { RefinementTurn } from "@/lib/schemas/recipe";
+
+interface RefinementThreadListProps {
+  thread: RefinementTurn[];
+}
+
+/**
+ * Lists refinement turns: each change request followed by what the model
+ * changed in response.
+ */
+export function RefinementThreadList({ thread }: RefinementThreadListProps) {
+  if (thread.length === 0) return null;
+
+  return (
+    <ol className="space-y-3">
+      {thread.map((turn, index) => (
+        <li key={index} className="space-y-1 text-sm">
+          <p className="font-medium text-gray-900">&ldquo;{turn.request}&rdquo;</p>
+          <ul className="list-disc space-y-0.5 pl-5 text-gray-700">
+            {turn.changes.map((change, changeIndex) => (
+              <li key={changeIndex}>{change}</li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { useState } from "react";
+import { createPortal } from "react-dom";
+import { ChefHat } from "lucide-react";
+
+import { Button } from "@/components/Button";
+import type { RecipeStructure } from "@/lib/schemas/recipe";
+
+import { CookModeOverlay } from "./CookModeOverlay";
+
+interface CookModeButtonProps {
+  recipe: RecipeStructure;
+  recipeKey: string;
+}
+
+/**
+ * Opens full-screen cook mode. Hidden for recipes without instructions.
+ */
+export function CookModeButton({ recipe, recipeKey }: CookModeButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!recipe.instructions || recipe.instructions.length === 0) return null;
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="secondary"
+        className="no-print"
+        onClick={() => setIsOpen(true)}
+      >
+        <ChefHat className="mr-2 h-4 w-4 shrink-0" aria-hidden="true" />
+        Cook mode
+      </Button>
+      {/* Portal keeps the overlay out of the recipe's aria-live region */}
+      {isOpen &&
+        createPortal(
+          <CookModeOverlay
+            recipe={recipe}
+            recipeKey={recipeKey}
+            onClose={() => setIsOpen(false)}
+          />,
+          document.body
+        )}
+    </>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import { useEffect, useMemo, useRef } from "react";
+import { ChevronLeft, ChevronRight, Timer, X } from "lucide-react";
+
+import { Button } from "@/components/Button";
+import { useCookProgress } from "@/hooks/useCookProgress";
+import { useCookTimers } from "@/hooks/useCookTimers";
+import { useWakeLock } from "@/hooks/useWakeLock";
+import type { RecipeStructure } from "@/lib/schemas/recipe";
+import { findStepIngredients, findStepTimers } from "@/lib/utils/cook-mode";
+import { formatIngredientLine } from "@/lib/utils/ingredients";
+
+import { CookTimerList } from "./CookTimerList";
+
+interface CookModeOverlayProps {
+  recipe: RecipeStructure;
+  /** Identifies the recipe for remembered progress (see getCookRecipeKey). */
+  recipeKey: string;
+  onClose: () => void;
+}
+
+/**
+ * Full-screen, one-step-at-a-time view of a recipe's instructions.
+ * Arrow keys move between steps and Escape closes.
+ */
+export function CookModeOverlay({ recipe, recipeKey, onClose }: CookModeOverlayProps) {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const steps = useMemo(() => recipe.instructions ?? [], [recipe.instructions]);
+  const { step, goToStep, finish } = useCookProgress(recipeKey, steps.length);
+  const { timers, now, startTimer, removeTimer } = useCookTimers();
+  const { isActive: isScreenAwake } = useWakeLock(true);
+
+  const stepText = steps[step] ?? "";
+  const stepIngredients = useMemo(
+    () => findStepIngredients(stepText, recipe.ingredients ?? []),
+    [recipe.ingredients, stepText]
+  );
+  const stepTimers = useMemo(() => findStepTimers(stepText), [stepText]);
+  const isLastStep = step >= steps.length - 1;
+
+  useEffect(() => {
+    dialogRef.current?.focus();
+    // Keep the page behind the overlay from scrolling
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = previousOverflow;
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      if (event.key === "Escape") onClose();
+      if (event.key === "ArrowRight") goToStep(step + 1);
+      if (event.key === "ArrowLeft") goToStep(step - 1);
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [goToStep, onClose, step]);
+
+  const handleFinish = (): void => {
+    finish();
+    onClose();
+  };
+
+  return (
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="cook-mode-title"
+      tabIndex={-1}
+      className="no-print fixed inset-0 z-50 flex flex-col bg-white outline-none"
+    >
+      <header className="flex items-center justify-between gap-4 border-b border-gray-200 px-4 py-3 sm:px-8">
+        <div className="min-w-0">
+          <h2 id="cook-mode-title" className="truncate text-lg font-semibold">
+            {recipe.title}
+          </h2>
+          <p className="text-sm text-gray-500">
+            Step {step + 1} of {steps.length}
+            {isScreenAwake && " · Screen stays on"}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-2 text-gray-500 hover:text-gray-900"
+          aria-label="Exit cook mode"
+        >
+          <X className="h-6 w-6" aria-hidden="true" />
+        </button>
+      </header>
+
+      <div className="flex-1 overflow-y-auto px-4 py-6 sm:px-8">
+        <div className="mx-auto max-w-3xl space-y-6">
+          <p className="text-2xl leading-relaxed sm:text-3xl" aria-live="polite">
+            {stepText}
+          </p>
+
+          {stepTimers.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {stepTimers.map((timer, index) => (
+                <Button
+                  key={`${timer.label}-${index}`}
+                  type="button"
+                  variant="secondary"
+                  onClick={() => startTimer(timer.label, timer.seconds, step)}
+                >
+                  <Timer className="mr-2 h-4 w-4 shrink-0" aria-hidden="true" />
+                  Start {timer.label} timer
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {stepIngredients.length > 0 && (
+            <section aria-labelledby="cook-mode-ingredients">
+              <h3 id="cook-mode-ingredients" className="text-sm font-semibold uppercase text-gray-500">
+                For this step
+              </h3>
+              <ul className="mt-2 list-disc space-y-1 pl-5 text-lg">
+                {stepIngredients.map((ingredient, index) => (
+                  <li key={`${ingredient.item}-${index}`}>{formatIngredientLine(ingredient)}</li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </div>
+      </div>
+
+      <footer className="space-y-3 border-t border-gray-200 px-4 py-3 sm:px-8">
+        <CookTimerList timers={timers} now={now} onRemove={removeTimer} />
+        <div className="flex items-center justify-between gap-2">
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => goToStep(step - 1)}
+            disabled={step === 0}
+          >
+            <ChevronLeft className="mr-1 h-5 w-5" aria-hidden="true" />
+            Previous
+          </Button>
+          {isLastStep ? (
+            <Button type="button" onClick={handleFinish}>
+              Finish
+            </Button>
+          ) : (
+            <Button type="button" onClick={() => goToStep(step + 1)}>
+              Next
+              <ChevronRight className="ml-1 h-5 w-5" aria-hidden="true" />
+            </Button>
+          )}
+        </div>
+      </footer>
+    </div>
+  );
+}
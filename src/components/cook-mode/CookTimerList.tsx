@@ -0,0 +1,56 @@
+"use client";
+
+import { X } from "lucide-react";
+import clsx from "clsx";
+
+import type { CookTimer } from "@/hooks/useCookTimers";
+import { formatTimerRemaining } from "@/lib/utils/cook-mode";
+
+interface CookTimerListProps {
+  timers: CookTimer[];
+  now: number;
+  onRemove: (id: number) => void;
+}
+
+/**
+ * Running and finished cook mode timers, visible on every step.
+ */
+export function CookTimerList({ timers, now, onRemove }: CookTimerListProps) {
+  if (timers.length === 0) return null;
+
+  return (
+    <ul className="flex flex-wrap gap-2" aria-label="Timers">
+      {timers.map((timer) => {
+        const remainingSeconds = (timer.endsAt - now) / 1000;
+        const isDone = remainingSeconds <= 0;
+
+        return (
+          <li
+            key={timer.id}
+            className={clsx(
+              "flex items-center gap-2 rounded-full border px-3 py-1 text-sm",
+              isDone
+                ? "border-red-300 bg-red-50 text-red-700 animate-pulse"
+                : "border-gray-200 bg-gray-50 text-gray-800"
+            )}
+          >
+            <span>
+              Step {timer.stepIndex + 1} · {timer.label}:
+            </span>
+            <span className="font-mono font-semibold" role={isDone ? "alert" : undefined}>
+              {isDone ? "Done!" : formatTimerRemaining(remainingSeconds)}
+            </span>
+            <button
+              type="button"
+              onClick={() => onRemove(timer.id)}
+              className="p-1 text-gray-400 hover:text-gray-700"
+              aria-label={isDone ? `Dismiss ${timer.label} timer` : `Cancel ${timer.label} timer`}
+            >
+              <X className="h-4 w-4" aria-hidden="true" />
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
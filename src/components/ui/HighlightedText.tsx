@@ -0,0 +1,28 @@
+import { highlightSearchMatches } from "@/lib/utils/recipe-search";
+
+interface HighlightedTextProps {
+  text: string;
+  terms?: ReadonlySet<string>;
+}
+
+/**
+ * Renders text with words matching search terms wrapped in <mark>.
+ * Terms are stemmed index terms from recipe-search.
+ */
+export function HighlightedText({ text, terms }: HighlightedTextProps) {
+  if (!terms || terms.size === 0) return <>{text}</>;
+
+  return (
+    <>
+      {highlightSearchMatches(text, terms).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="rounded-sm bg-yellow-100 px-0.5 text-inherit">
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { useEffect } from "react";
+import { X } from "lucide-react";
+
+import { UI_TIMING } from "@/lib/constants/ui";
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  /** Auto-dismiss delay in ms (default: `UI_TIMING.UNDO_TOAST_DURATION`). */
+  duration?: number;
+}
+
+/**
+ * Bottom-of-screen notice with an "Undo" action after a destructive change.
+ * Dismisses itself after `duration`; remount (e.g. with a new `key`) to
+ * restart the timer for a new action.
+ */
+export function UndoToast({
+  message,
+  onUndo,
+  onDismiss,
+  duration = UI_TIMING.UNDO_TOAST_DURATION,
+}: UndoToastProps) {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [duration, onDismiss]);
+
+  return (
+    <div
+      className="no-print fixed inset-x-0 bottom-4 z-50 flex justify-center px-4"
+      role="status"
+      aria-live="polite"
+    >
+      <div className="flex items-center gap-4 rounded-lg bg-gray-900 px-4 py-3 text-sm text-white shadow-lg">
+        <span>{message}</span>
+        <button
+          type="button"
+          onClick={onUndo}
+          className="font-semibold text-primary-300 hover:text-primary-200 focus:outline-none focus:ring-2 focus:ring-primary-300 rounded"
+        >
+          Undo
+        </button>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="text-gray-400 hover:text-white focus:outline-none focus:ring-2 focus:ring-primary-300 rounded"
+          aria-label="Dismiss"
+        >
+          <X className="h-4 w-4" aria-hidden="true" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import {
+  UNIT_SYSTEMS,
+  UNITS_AS_WRITTEN_LABEL,
+  type UnitSystem,
+} from "@/lib/constants/domain";
+
+interface UnitSystemSelectProps {
+  value: UnitSystem | null;
+  onChange: (value: UnitSystem | null) => void;
+  className?: string;
+}
+
+/**
+ * Select for the measurement system a recipe is displayed in.
+ * The empty option shows the recipe in its original units.
+ */
+export function UnitSystemSelect({
+  value,
+  onChange,
+  className = "w-full sm:w-44",
+}: UnitSystemSelectProps) {
+  return (
+    <label className="block">
+      <span className="block text-base sm:text-lg font-medium mb-3">Units</span>
+      <select
+        value={value ?? ""}
+        onChange={(e) => {
+          const system = UNIT_SYSTEMS.find((s) => s.value === e.target.value);
+          onChange(system?.value ?? null);
+        }}
+        className={`${className} p-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none`}
+      >
+        <option value="">{UNITS_AS_WRITTEN_LABEL}</option>
+        {UNIT_SYSTEMS.map((system) => (
+          <option key={system.value} value={system.value}>
+            {system.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
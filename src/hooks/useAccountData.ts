@@ -0,0 +1,119 @@
+"use client";
+
+import { useCallback, useState } from "react";
+
+import { auth } from "@/lib/firebase";
+import { deleteAccount, exportAccountData } from "@/lib/services/account-service";
+import { useRecipeStore } from "@/lib/store/recipe-store";
+import { useUserProfileStore } from "@/lib/store/user-profile-store";
+import { clearAuthCookie } from "@/lib/utils/auth-cookies";
+import { clearAllCookProgress } from "@/lib/utils/cook-progress";
+import { downloadBlob } from "@/lib/utils/download";
+import {
+  ERROR_MESSAGES,
+  convertErrorToMessage,
+  getErrorCode,
+} from "@/lib/utils/error-handler";
+import { logError } from "@/lib/utils/logger";
+import { clearProfileOnboardingDismissal } from "@/lib/utils/onboarding";
+
+interface UseAccountDataOptions {
+  userId?: string;
+}
+
+interface UseAccountDataReturn {
+  downloadData: () => Promise<void>;
+  isExporting: boolean;
+  exportError: string | null;
+  deleteAccount: () => Promise<void>;
+  isDeleting: boolean;
+  deleteError: string | null;
+  /** True when deletion needs a fresh sign-in first. */
+  requiresSignIn: boolean;
+  /** Signs out and returns to the profile page after signing back in. */
+  signInAgain: () => Promise<void>;
+}
+
+/**
+ * "Download my data" and "Delete my account" for the signed-in user.
+ * After deletion, local state is cleared and the browser leaves for the
+ * landing page, as on sign-out.
+ */
+export function useAccountData({ userId }: UseAccountDataOptions): UseAccountDataReturn {
+  const resetUserInput = useRecipeStore((state) => state.resetUserInput);
+  const clearUserProfile = useUserProfileStore((state) => state.clearUserProfile);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [requiresSignIn, setRequiresSignIn] = useState(false);
+
+  const downloadData = useCallback(async (): Promise<void> => {
+    if (!userId) return;
+
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const { fileName, blob } = await exportAccountData(userId);
+      if (!downloadBlob(fileName, blob)) {
+        setExportError(ERROR_MESSAGES.ACCOUNT.EXPORT_FAILED);
+      }
+    } catch (error) {
+      setExportError(convertErrorToMessage(error, ERROR_MESSAGES.ACCOUNT.EXPORT_FAILED));
+    } finally {
+      setIsExporting(false);
+    }
+  }, [userId]);
+
+  const handleDeleteAccount = useCallback(async (): Promise<void> => {
+    const user = auth.currentUser;
+    if (!user || user.uid !== userId) {
+      setDeleteError(ERROR_MESSAGES.AUTH.LOGIN_REQUIRED);
+      return;
+    }
+
+    setIsDeleting(true);
+    setDeleteError(null);
+    setRequiresSignIn(false);
+    try {
+      await deleteAccount(user);
+    } catch (error) {
+      setDeleteError(convertErrorToMessage(error, ERROR_MESSAGES.ACCOUNT.DELETE_FAILED));
+      setRequiresSignIn(getErrorCode(error) === "ACCOUNT_REAUTH_REQUIRED");
+      setIsDeleting(false);
+      return;
+    }
+
+    clearAuthCookie();
+    resetUserInput();
+    clearUserProfile();
+    clearAllCookProgress();
+    clearProfileOnboardingDismissal(user.uid);
+    // Full navigation drops any cached protected route payloads
+    window.location.assign("/");
+  }, [clearUserProfile, resetUserInput, userId]);
+
+  const signInAgain = useCallback(async (): Promise<void> => {
+    clearAuthCookie();
+    resetUserInput();
+    clearUserProfile();
+    try {
+      await auth.signOut();
+    } catch (error) {
+      logError("Sign out before re-authentication failed", error);
+    } finally {
+      window.location.assign("/login?redirect=/profile");
+    }
+  }, [clearUserProfile, resetUserInput]);
+
+  return {
+    downloadData,
+    isExporting,
+    exportError,
+    deleteAccount: handleDeleteAccount,
+    isDeleting,
+    deleteError,
+    requiresSignIn,
+    signInAgain,
+  };
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef } from "react";
+
+import { ALLERGEN_CHECK } from "@/lib/constants/domain";
+import type { AllergenAction } from "@/lib/constants/domain";
+import type { RecipeStructure } from "@/lib/schemas/recipe";
+import type { SerializableUserProfile } from "@/lib/schemas/user";
+import type { RecipeCandidate } from "@/lib/store/recipe-store";
+import type {
+  AllergenCheckResult,
+  AllergenViolationGroup,
+} from "@/lib/utils/allergen-check";
+import {
+  buildAllergenAvoidanceTweak,
+  checkRecipeAllergens,
+  groupAllergenViolations,
+} from "@/lib/utils/allergen-check";
+import { mergeHouseholdPreferences } from "@/lib/utils/household";
+
+interface UseAllergenCheckOptions {
+  structuredRecipe: RecipeStructure | null;
+  /** Recipes generated side by side, checked once they have all finished. */
+  candidates: RecipeCandidate[];
+  userProfile: SerializableUserProfile | null;
+  isGenerating: boolean;
+  regenerateWithTweak: (tweakText: string) => void;
+}
+
+interface UseAllergenCheckReturn {
+  /** Flagged restrictions, allergies first; empty while generating. */
+  violationGroups: AllergenViolationGroup[];
+  /** Flagged restrictions per candidate, in candidate order; empty while generating. */
+  candidateViolationGroups: AllergenViolationGroup[][];
+  allergenAction: AllergenAction;
+  /** True when allergies were found and the profile does not just warn. */
+  isSaveBlocked: boolean;
+  /** Regenerates with a tweak naming every flagged ingredient. */
+  regenerateWithoutViolations: () => void;
+  /** Re-arms automatic regeneration; call on each manual generation. */
+  resetAutoRegeneration: () => void;
+  /**
+   * Applies the "regenerate" action to a picked candidate, which skipped the
+   * check on finishing because no single recipe was shown yet.
+   */
+  handleCandidateSelected: (index: number) => void;
+}
+
+/**
+ * Checks the generated recipe against the allergies and dislikes of everyone
+ * eating (the profile owner plus its household members) once streaming
+ * finishes. With the "regenerate" action, a recipe containing an allergy is
+ * regenerated automatically up to `ALLERGEN_CHECK.MAX_AUTO_REGENERATIONS`
+ * times before saving is blocked. Candidates are flagged in the comparison
+ * grid, and a picked candidate is handled like a freshly generated recipe.
+ */
+export function useAllergenCheck({
+  structuredRecipe,
+  candidates,
+  userProfile,
+  isGenerating,
+  regenerateWithTweak,
+}: UseAllergenCheckOptions): UseAllergenCheckReturn {
+  const wasGeneratingRef = useRef(isGenerating);
+  const autoRegenerationsRef = useRef(0);
+  const allergenAction = userProfile?.allergenAction ?? "block";
+
+  const preferences = useMemo(
+    () => (userProfile ? mergeHouseholdPreferences(userProfile) : null),
+    [userProfile]
+  );
+
+  const result = useMemo(
+    () =>
+      isGenerating || !structuredRecipe || !preferences
+        ? null
+        : checkRecipeAllergens(structuredRecipe, preferences),
+    [isGenerating, structuredRecipe, preferences]
+  );
+
+  const candidateResults = useMemo(
+    () =>
+      candidates.map(({ recipe }) =>
+        isGenerating || !recipe || !preferences
+          ? null
+          : checkRecipeAllergens(recipe, preferences)
+      ),
+    [candidates, isGenerating, preferences]
+  );
+
+  const violationGroups = useMemo(
+    () => groupAllergenViolations(result?.violations ?? []),
+    [result]
+  );
+
+  const candidateViolationGroups = useMemo(
+    () =>
+      candidateResults.map((candidateResult) =>
+        groupAllergenViolations(candidateResult?.violations ?? [])
+      ),
+    [candidateResults]
+  );
+
+  const autoRegenerate = useCallback(
+    (checkResult: AllergenCheckResult | null) => {
+      if (!checkResult?.hasAllergyViolations) return;
+      if (allergenAction !== "regenerate") return;
+      if (autoRegenerationsRef.current >= ALLERGEN_CHECK.MAX_AUTO_REGENERATIONS) return;
+
+      autoRegenerationsRef.current += 1;
+      regenerateWithTweak(buildAllergenAvoidanceTweak(checkResult.violations));
+    },
+    [allergenAction, regenerateWithTweak]
+  );
+
+  useEffect(() => {
+    const justFinished = wasGeneratingRef.current && !isGenerating;
+    wasGeneratingRef.current = isGenerating;
+
+    if (justFinished) autoRegenerate(result);
+  }, [autoRegenerate, isGenerating, result]);
+
+  const handleCandidateSelected = useCallback(
+    (index: number) => {
+      autoRegenerate(candidateResults[index] ?? null);
+    },
+    [autoRegenerate, candidateResults]
+  );
+
+  const resetAutoRegeneration = useCallback(() => {
+    autoRegenerationsRef.current = 0;
+  }, []);
+
+  const regenerateWithoutViolations = useCallback(() => {
+    if (!result || result.violations.length === 0) return;
+    autoRegenerationsRef.current = 0;
+    regenerateWithTweak(buildAllergenAvoidanceTweak(result.violations));
+  }, [regenerateWithTweak, result]);
+
+  return {
+    violationGroups,
+    candidateViolationGroups,
+    allergenAction,
+    isSaveBlocked: Boolean(result?.hasAllergyViolations) && allergenAction !== "warn",
+    regenerateWithoutViolations,
+    resetAutoRegeneration,
+    handleCandidateSelected,
+  };
+}
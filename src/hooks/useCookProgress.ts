@@ -0,0 +1,45 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import {
+  clearCookProgress,
+  loadCookProgress,
+  saveCookProgress,
+} from "@/lib/utils/cook-progress";
+
+interface UseCookProgressReturn {
+  step: number;
+  goToStep: (step: number) => void;
+  finish: () => void;
+}
+
+/**
+ * Current cook mode step for a recipe, remembered across visits.
+ */
+export function useCookProgress(
+  recipeKey: string,
+  stepCount: number
+): UseCookProgressReturn {
+  const [step, setStep] = useState(() => loadCookProgress(recipeKey, stepCount));
+
+  useEffect(() => {
+    setStep(loadCookProgress(recipeKey, stepCount));
+  }, [recipeKey, stepCount]);
+
+  const goToStep = useCallback(
+    (nextStep: number): void => {
+      const clamped = Math.min(Math.max(nextStep, 0), Math.max(stepCount - 1, 0));
+      setStep(clamped);
+      saveCookProgress(recipeKey, clamped);
+    },
+    [recipeKey, stepCount]
+  );
+
+  const finish = useCallback((): void => {
+    clearCookProgress(recipeKey);
+    setStep(0);
+  }, [recipeKey]);
+
+  return { step, goToStep, finish };
+}
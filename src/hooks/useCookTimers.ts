@@ -0,0 +1,56 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { COOK_MODE } from "@/lib/constants/cook-mode";
+
+export interface CookTimer {
+  id: number;
+  label: string;
+  /** Step the timer was started from (0-based). */
+  stepIndex: number;
+  endsAt: number;
+}
+
+interface UseCookTimersReturn {
+  timers: CookTimer[];
+  /** Current time, updated every tick while any timer exists. */
+  now: number;
+  startTimer: (label: string, seconds: number, stepIndex: number) => void;
+  removeTimer: (id: number) => void;
+}
+
+/**
+ * Countdown timers for cook mode. Timers are independent of the current step,
+ * so they keep running while the cook moves between steps.
+ */
+export function useCookTimers(): UseCookTimersReturn {
+  const [timers, setTimers] = useState<CookTimer[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const nextIdRef = useRef(1);
+
+  const hasTimers = timers.length > 0;
+  useEffect(() => {
+    if (!hasTimers) return;
+    const interval = setInterval(() => setNow(Date.now()), COOK_MODE.TIMER_TICK_MS);
+    return () => clearInterval(interval);
+  }, [hasTimers]);
+
+  const startTimer = useCallback(
+    (label: string, seconds: number, stepIndex: number): void => {
+      const startedAt = Date.now();
+      setNow(startedAt);
+      setTimers((current) => [
+        ...current,
+        { id: nextIdRef.current++, label, stepIndex, endsAt: startedAt + seconds * 1000 },
+      ]);
+    },
+    []
+  );
+
+  const removeTimer = useCallback((id: number): void => {
+    setTimers((current) => current.filter((timer) => timer.id !== id));
+  }, []);
+
+  return { timers, now, startTimer, removeTimer };
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+import { getRecipeGenerationQuota } from "@/lib/recipe-generation.server";
+import type { QuotaStatus } from "@/lib/utils/rate-limit";
+import { logWarning } from "@/lib/utils/logger";
+
+/**
+ * Loads the remaining recipe generation quota for the signed-in user.
+ * Refreshes whenever a generation finishes so the count stays current.
+ *
+ * @param userId - Signed-in user ID (quota is cleared when absent)
+ * @param isGenerating - Whether a generation is in progress
+ * @returns Quota status, or null while unknown
+ */
+export function useGenerationQuota(
+  userId: string | undefined,
+  isGenerating: boolean
+): QuotaStatus | null {
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  const requestVersionRef = useRef(0);
+
+  useEffect(() => {
+    const currentVersion = ++requestVersionRef.current;
+    if (!userId || isGenerating) return;
+
+    getRecipeGenerationQuota()
+      .then((status) => {
+        if (currentVersion === requestVersionRef.current) setQuota(status);
+      })
+      .catch((error: unknown) => {
+        // Quota display is informational; generation still enforces limits.
+        logWarning("Failed to load generation quota", {
+          userId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }, [userId, isGenerating]);
+
+  return userId ? quota : null;
+}
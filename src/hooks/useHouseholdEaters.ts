@@ -0,0 +1,52 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+
+import type { HouseholdMember, SerializableUserProfile } from "@/lib/schemas/user";
+
+interface UseHouseholdEatersReturn {
+  members: HouseholdMember[];
+  /** Ids of the members eating this meal. */
+  eatingMemberIds: string[];
+  toggleMember: (memberId: string) => void;
+  /**
+   * The profile with `householdMembers` narrowed to the members eating, for
+   * generation and the allergen check. Null without a profile.
+   */
+  generationProfile: SerializableUserProfile | null;
+}
+
+/**
+ * Which household members are eating on /generate. Everyone is included
+ * until unticked; the choice is kept for the session only.
+ */
+export function useHouseholdEaters(
+  userProfile: SerializableUserProfile | null
+): UseHouseholdEatersReturn {
+  const [excludedIds, setExcludedIds] = useState<string[]>([]);
+  const members = useMemo(() => userProfile?.householdMembers ?? [], [userProfile]);
+
+  const eatingMemberIds = useMemo(
+    () => members.filter((member) => !excludedIds.includes(member.id)).map((member) => member.id),
+    [excludedIds, members]
+  );
+
+  const toggleMember = useCallback((memberId: string) => {
+    setExcludedIds((current) =>
+      current.includes(memberId)
+        ? current.filter((id) => id !== memberId)
+        : [...current, memberId]
+    );
+  }, []);
+
+  const generationProfile = useMemo(
+    () =>
+      userProfile && {
+        ...userProfile,
+        householdMembers: members.filter((member) => eatingMemberIds.includes(member.id)),
+      },
+    [eatingMemberIds, members, userProfile]
+  );
+
+  return { members, eatingMemberIds, toggleMember, generationProfile };
+}
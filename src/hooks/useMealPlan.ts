@@ -0,0 +1,237 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import { useFirestoreQuery } from "@/hooks/useFirestoreQuery";
+import { getMealPlan, getUserRecipes, saveMealPlan, saveShoppingList } from "@/lib/db";
+import { NUMBER_INPUT } from "@/lib/constants/ui";
+import type { MealSlot } from "@/lib/constants/domain";
+import type { MealPlanEntry } from "@/lib/schemas/meal-plan";
+import type { Recipe } from "@/lib/schemas/recipe";
+import { ERROR_MESSAGES, convertErrorToMessage } from "@/lib/utils/error-handler";
+import {
+  addMealPlanEntry,
+  formatWeekRange,
+  getMealPlanNutritionTotals,
+  getMealPlanShoppingSources,
+  getWeekStart,
+  removeMealPlanEntry,
+  setMealPlanEntryServings,
+  shiftWeekStart,
+  type NutritionTotals,
+} from "@/lib/utils/meal-plan";
+import { buildShoppingListDraft } from "@/lib/utils/shopping-list";
+
+interface UseMealPlanOptions {
+  userId?: string;
+}
+
+interface UseMealPlanReturn {
+  recipes: Recipe[] | null;
+  recipesById: ReadonlyMap<string, Recipe>;
+  isLoading: boolean;
+  loadError: string | null;
+  actionError: string | null;
+  weekStart: string;
+  showPreviousWeek: () => void;
+  showNextWeek: () => void;
+  showCurrentWeek: () => void;
+  entries: MealPlanEntry[];
+  addEntry: (day: number, slot: MealSlot, recipeId: string) => void;
+  removeEntry: (entryId: string) => void;
+  setEntryServings: (entryId: string, servings: number) => void;
+  dailyTotals: NutritionTotals[];
+  weeklyTotals: NutritionTotals;
+  isBuildingShoppingList: boolean;
+  /** Saves a shopping list for the week; resolves true on success. */
+  buildShoppingList: () => Promise<boolean>;
+}
+
+/**
+ * Orchestrates the weekly meal planner: loads the selected week, saves every
+ * change (rolling back on failure), and derives nutrition totals.
+ */
+export function useMealPlan({ userId }: UseMealPlanOptions): UseMealPlanReturn {
+  const [weekStart, setWeekStart] = useState(() => getWeekStart());
+  const [entries, setEntries] = useState<MealPlanEntry[]>([]);
+  const [isPlanLoading, setIsPlanLoading] = useState(true);
+  const [planError, setPlanError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [isBuildingShoppingList, setIsBuildingShoppingList] = useState(false);
+
+  // Latest entries for rollbacks, and version tracking so a slow load for a
+  // previous week cannot overwrite the week now on screen
+  const entriesRef = useRef<MealPlanEntry[]>([]);
+  const requestVersionRef = useRef(0);
+
+  const {
+    data: recipes,
+    isLoading: isRecipesLoading,
+    error: recipesError,
+  } = useFirestoreQuery({
+    queryFn: getUserRecipes,
+    userId,
+    errorMessage: "Failed to load recipes. Please refresh the page.",
+  });
+
+  const recipesById = useMemo(
+    () => new Map((recipes ?? []).map((recipe) => [recipe.id, recipe])),
+    [recipes]
+  );
+
+  const replaceEntries = useCallback((next: MealPlanEntry[]): void => {
+    entriesRef.current = next;
+    setEntries(next);
+  }, []);
+
+  useEffect(() => {
+    const currentVersion = ++requestVersionRef.current;
+    if (!userId) {
+      replaceEntries([]);
+      setIsPlanLoading(false);
+      return;
+    }
+
+    setIsPlanLoading(true);
+    setPlanError(null);
+    getMealPlan(userId, weekStart)
+      .then((plan) => {
+        if (currentVersion === requestVersionRef.current) {
+          replaceEntries(plan?.entries ?? []);
+        }
+      })
+      .catch((error: unknown) => {
+        if (currentVersion === requestVersionRef.current) {
+          replaceEntries([]);
+          setPlanError(
+            convertErrorToMessage(error, ERROR_MESSAGES.MEAL_PLAN.LOAD_FAILED)
+          );
+        }
+      })
+      .finally(() => {
+        if (currentVersion === requestVersionRef.current) {
+          setIsPlanLoading(false);
+        }
+      });
+  }, [replaceEntries, userId, weekStart]);
+
+  const persistEntries = useCallback(
+    async (next: MealPlanEntry[]): Promise<void> => {
+      if (!userId) return;
+
+      const previous = entriesRef.current;
+      replaceEntries(next);
+      setActionError(null);
+
+      try {
+        await saveMealPlan({ userId, weekStart, entries: next });
+      } catch (error) {
+        // Only roll back if nothing newer has replaced this change
+        if (entriesRef.current === next) replaceEntries(previous);
+        setActionError(
+          convertErrorToMessage(error, ERROR_MESSAGES.MEAL_PLAN.SAVE_FAILED)
+        );
+      }
+    },
+    [replaceEntries, userId, weekStart]
+  );
+
+  const addEntry = useCallback(
+    (day: number, slot: MealSlot, recipeId: string): void => {
+      const recipe = recipesById.get(recipeId);
+      if (!recipe) return;
+
+      const next = addMealPlanEntry(entriesRef.current, {
+        day,
+        slot,
+        recipe,
+        servings: recipe.servings ?? NUMBER_INPUT.SERVING_SIZE_DEFAULT,
+      });
+      if (next.length !== entriesRef.current.length) void persistEntries(next);
+    },
+    [persistEntries, recipesById]
+  );
+
+  const removeEntry = useCallback(
+    (entryId: string): void => {
+      void persistEntries(removeMealPlanEntry(entriesRef.current, entryId));
+    },
+    [persistEntries]
+  );
+
+  const setEntryServings = useCallback(
+    (entryId: string, servings: number): void => {
+      void persistEntries(
+        setMealPlanEntryServings(entriesRef.current, entryId, servings)
+      );
+    },
+    [persistEntries]
+  );
+
+  const showPreviousWeek = useCallback((): void => {
+    setWeekStart((current) => shiftWeekStart(current, -1));
+  }, []);
+
+  const showNextWeek = useCallback((): void => {
+    setWeekStart((current) => shiftWeekStart(current, 1));
+  }, []);
+
+  const showCurrentWeek = useCallback((): void => {
+    setWeekStart(getWeekStart());
+  }, []);
+
+  const { daily: dailyTotals, weekly: weeklyTotals } = useMemo(
+    () => getMealPlanNutritionTotals(entries, recipesById),
+    [entries, recipesById]
+  );
+
+  const buildShoppingList = useCallback(async (): Promise<boolean> => {
+    if (!userId) return false;
+
+    const sources = getMealPlanShoppingSources(entriesRef.current, recipesById);
+    if (sources.length === 0) {
+      setActionError(ERROR_MESSAGES.MEAL_PLAN.EMPTY_PLAN);
+      return false;
+    }
+
+    setActionError(null);
+    setIsBuildingShoppingList(true);
+    try {
+      await saveShoppingList({
+        userId,
+        ...buildShoppingListDraft(
+          sources,
+          `Meal plan: ${formatWeekRange(weekStart)}`
+        ),
+      });
+      return true;
+    } catch (error) {
+      setActionError(
+        convertErrorToMessage(error, ERROR_MESSAGES.SHOPPING_LIST.SAVE_FAILED)
+      );
+      return false;
+    } finally {
+      setIsBuildingShoppingList(false);
+    }
+  }, [recipesById, userId, weekStart]);
+
+  return {
+    recipes,
+    recipesById,
+    isLoading: isRecipesLoading || isPlanLoading,
+    loadError: recipesError ?? planError,
+    actionError,
+    weekStart,
+    showPreviousWeek,
+    showNextWeek,
+    showCurrentWeek,
+    entries,
+    addEntry,
+    removeEntry,
+    setEntryServings,
+    dailyTotals,
+    weeklyTotals,
+    isBuildingShoppingList,
+    buildShoppingList,
+  };
+}
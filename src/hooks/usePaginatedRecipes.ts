@@ -0,0 +1,186 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Dispatch, SetStateAction } from "react";
+
+import { getUserRecipesPage, subscribeToUserRecipes } from "@/lib/db";
+import { RECIPE_PAGINATION } from "@/lib/constants/domain";
+import type { Recipe } from "@/lib/schemas/recipe";
+import { ERROR_MESSAGES, convertErrorToMessage } from "@/lib/utils/error-handler";
+import { appendRecipePage, mergeLiveRecipePage } from "@/lib/utils/recipe-library";
+
+interface UsePaginatedRecipesOptions {
+  userId?: string;
+  /** Keep the newest page live with onSnapshot (default: true). */
+  live?: boolean;
+  pageSize?: number;
+}
+
+interface UsePaginatedRecipesReturn {
+  /** Loaded recipes, newest first; null until the first page arrives. */
+  data: Recipe[] | null;
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  /** Whether older recipes remain to be loaded. */
+  hasMore: boolean;
+  error: string | null;
+  loadMore: () => Promise<void>;
+  /**
+   * Reloads from the first page. A no-op in live mode, where the
+   * subscription already delivers new and changed recipes.
+   */
+  refetch: () => Promise<void>;
+  /** Set data directly for optimistic updates - supports functional updates */
+  setData: Dispatch<SetStateAction<Recipe[] | null>>;
+}
+
+/**
+ * Loads a user's saved recipes a page at a time, newest first.
+ *
+ * In live mode the newest page is an onSnapshot subscription, so recipes
+ * saved in another tab or device appear on their own; older pages load on
+ * demand from a createdAt cursor and are not live. Without live mode every
+ * page, including the first, is a one-off read.
+ *
+ * Mirrors useFirestoreQuery's version tracking so responses for a previous
+ * user or reload never overwrite fresh data.
+ */
+export function usePaginatedRecipes({
+  userId,
+  live = true,
+  pageSize = RECIPE_PAGINATION.PAGE_SIZE,
+}: UsePaginatedRecipesOptions): UsePaginatedRecipesReturn {
+  const [data, setData] = useState<Recipe[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const requestVersionRef = useRef(0);
+  const isLoadingMoreRef = useRef(false);
+  // Once older pages are loaded, they (not the live page) decide hasMore.
+  const hasLoadedOlderRef = useRef(false);
+  // Where the next older page starts; pages may end on hidden trashed recipes
+  const cursorRef = useRef<Recipe["createdAt"] | null>(null);
+
+  const resetPages = useCallback((): number => {
+    hasLoadedOlderRef.current = false;
+    isLoadingMoreRef.current = false;
+    cursorRef.current = null;
+    setData(null);
+    setError(null);
+    setHasMore(false);
+    setIsLoadingMore(false);
+    return ++requestVersionRef.current;
+  }, []);
+
+  const fetchFirstPage = useCallback(async (): Promise<void> => {
+    const currentVersion = resetPages();
+    if (!userId) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const page = await getUserRecipesPage(userId, { pageSize });
+      if (currentVersion === requestVersionRef.current) {
+        cursorRef.current = page.cursor;
+        setData(page.recipes);
+        setHasMore(page.hasMore);
+      }
+    } catch (loadError) {
+      if (currentVersion === requestVersionRef.current) {
+        setError(convertErrorToMessage(loadError, ERROR_MESSAGES.RECIPE.LOAD_FAILED));
+      }
+    } finally {
+      if (currentVersion === requestVersionRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [pageSize, resetPages, userId]);
+
+  useEffect(() => {
+    if (!live) {
+      void fetchFirstPage();
+      return;
+    }
+
+    const currentVersion = resetPages();
+    if (!userId) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    const unsubscribe = subscribeToUserRecipes(userId, {
+      pageSize,
+      onNext: (page) => {
+        if (currentVersion !== requestVersionRef.current) return;
+        if (!hasLoadedOlderRef.current) cursorRef.current = page.cursor;
+        setData((current) =>
+          mergeLiveRecipePage(current, page.recipes, page.hasMore, page.cursor)
+        );
+        setHasMore((current) =>
+          page.hasMore && (hasLoadedOlderRef.current ? current : true)
+        );
+        setError(null);
+        setIsLoading(false);
+      },
+      onError: (subscribeError) => {
+        if (currentVersion !== requestVersionRef.current) return;
+        setError(
+          convertErrorToMessage(subscribeError, ERROR_MESSAGES.RECIPE.LIVE_UPDATES_FAILED)
+        );
+        setIsLoading(false);
+      },
+    });
+
+    return unsubscribe;
+  }, [fetchFirstPage, live, pageSize, resetPages, userId]);
+
+  const loadMore = useCallback(async (): Promise<void> => {
+    const cursor = cursorRef.current;
+    if (!userId || !hasMore || isLoadingMoreRef.current || !cursor) return;
+
+    const currentVersion = requestVersionRef.current;
+    isLoadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    try {
+      const page = await getUserRecipesPage(userId, {
+        pageSize,
+        after: cursor,
+      });
+      if (currentVersion === requestVersionRef.current) {
+        hasLoadedOlderRef.current = true;
+        cursorRef.current = page.cursor ?? cursor;
+        setData((current) => appendRecipePage(current, page.recipes));
+        setHasMore(page.hasMore);
+      }
+    } catch (loadError) {
+      if (currentVersion === requestVersionRef.current) {
+        setError(convertErrorToMessage(loadError, ERROR_MESSAGES.RECIPE.LOAD_FAILED));
+      }
+    } finally {
+      if (currentVersion === requestVersionRef.current) {
+        isLoadingMoreRef.current = false;
+        setIsLoadingMore(false);
+      }
+    }
+  }, [hasMore, pageSize, userId]);
+
+  const refetch = useCallback(async (): Promise<void> => {
+    if (!live) await fetchFirstPage();
+  }, [fetchFirstPage, live]);
+
+  return {
+    data,
+    isLoading,
+    isLoadingMore,
+    hasMore,
+    error,
+    loadMore,
+    refetch,
+    setData,
+  };
+}
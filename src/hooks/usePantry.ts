@@ -0,0 +1,113 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+
+import { useFirestoreQuery } from "@/hooks/useFirestoreQuery";
+import { getUserPantryItems, savePantryItems } from "@/lib/db";
+import { PANTRY } from "@/lib/constants/domain";
+import type { PantryItem, PantryItemInput } from "@/lib/schemas/pantry";
+import { pantryItemInputSchema } from "@/lib/schemas/pantry";
+import { ERROR_MESSAGES, convertErrorToMessage } from "@/lib/utils/error-handler";
+import { getExpiringPantryItems, sortPantryItems } from "@/lib/utils/pantry";
+
+interface UsePantryOptions {
+  userId?: string;
+}
+
+interface UsePantryReturn {
+  /** Items sorted by expiry (soonest first). */
+  items: PantryItem[];
+  expiringItems: PantryItem[];
+  isLoading: boolean;
+  loadError: string | null;
+  saveError: string | null;
+  /** Adds an item; returns a validation message, or null on success. */
+  addItem: (input: PantryItemInput) => string | null;
+  updateItem: (itemId: string, input: PantryItemInput) => string | null;
+  removeItem: (itemId: string) => void;
+}
+
+/**
+ * Orchestrates the user's pantry. Every change is saved immediately and
+ * rolled back if the save fails.
+ */
+export function usePantry({ userId }: UsePantryOptions): UsePantryReturn {
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const {
+    data,
+    isLoading,
+    error: loadError,
+    setData,
+  } = useFirestoreQuery({
+    queryFn: getUserPantryItems,
+    userId,
+    errorMessage: "Failed to load your pantry. Please refresh the page.",
+  });
+
+  const items = useMemo(() => sortPantryItems(data ?? []), [data]);
+  const expiringItems = useMemo(() => getExpiringPantryItems(items), [items]);
+
+  const persistItems = useCallback(
+    async (next: PantryItem[], previous: PantryItem[]): Promise<void> => {
+      if (!userId) return;
+
+      setData(next);
+      setSaveError(null);
+      try {
+        await savePantryItems(userId, next);
+      } catch (error) {
+        setData(previous);
+        setSaveError(convertErrorToMessage(error, ERROR_MESSAGES.PANTRY.SAVE_FAILED));
+      }
+    },
+    [setData, userId]
+  );
+
+  const addItem = useCallback(
+    (input: PantryItemInput): string | null => {
+      const result = pantryItemInputSchema.safeParse(input);
+      if (!result.success) return result.error.issues[0].message;
+      if (items.length >= PANTRY.MAX_ITEMS) return ERROR_MESSAGES.PANTRY.FULL;
+
+      void persistItems([...items, { id: crypto.randomUUID(), ...result.data }], items);
+      return null;
+    },
+    [items, persistItems]
+  );
+
+  const updateItem = useCallback(
+    (itemId: string, input: PantryItemInput): string | null => {
+      const result = pantryItemInputSchema.safeParse(input);
+      if (!result.success) return result.error.issues[0].message;
+
+      void persistItems(
+        items.map((item) => (item.id === itemId ? { ...item, ...result.data } : item)),
+        items
+      );
+      return null;
+    },
+    [items, persistItems]
+  );
+
+  const removeItem = useCallback(
+    (itemId: string): void => {
+      void persistItems(
+        items.filter((item) => item.id !== itemId),
+        items
+      );
+    },
+    [items, persistItems]
+  );
+
+  return {
+    items,
+    expiringItems,
+    isLoading,
+    loadError,
+    saveError,
+    addItem,
+    updateItem,
+    removeItem,
+  };
+}
@@ -9,6 +9,7 @@ import { getUserProfile, saveUserProfile } from "@/lib/db";
 import type { UserProfile, UserProfileInput } from "@/lib/schemas/user";
 import { NUMBER_INPUT, UI_TIMING } from "@/lib/constants/ui";
 import { ERROR_MESSAGES, convertErrorToMessage } from "@/lib/utils/error-handler";
+import { validateHouseholdMembers } from "@/lib/utils/household";
 import { logError } from "@/lib/utils/logger";
 
 const DEFAULT_PROFILE_INPUT: UserProfileInput = {
@@ -18,6 +19,16 @@ const DEFAULT_PROFILE_INPUT: UserProfileInput = {
   cookingExperience: "beginner",
   servingSize: NUMBER_INPUT.SERVING_SIZE_DEFAULT,
   preferredCuisines: [],
+  unitSystem: null,
+  allergenAction: "block",
+  householdMembers: [],
+  nutritionTargets: {
+    calories: null,
+    protein: null,
+    carbs: null,
+    fat: null,
+    sodium: null,
+  },
 };
 
 type ArrayProfileField =
@@ -55,6 +66,8 @@ function getDefaultProfileInput(): UserProfileInput {
     allergies: [],
     dislikedIngredients: [],
     preferredCuisines: [],
+    householdMembers: [],
+    nutritionTargets: { ...DEFAULT_PROFILE_INPUT.nutritionTargets },
   };
 }
 
@@ -66,6 +79,10 @@ function toProfileInput(profile: UserProfileInput): UserProfileInput {
     cookingExperience: profile.cookingExperience,
     servingSize: profile.servingSize,
     preferredCuisines: profile.preferredCuisines,
+    unitSystem: profile.unitSystem,
+    allergenAction: profile.allergenAction,
+    householdMembers: profile.householdMembers,
+    nutritionTargets: profile.nutritionTargets,
   };
 }
 
@@ -138,6 +155,13 @@ export function useProfileForm({
       event.preventDefault();
       if (!userId) return;
 
+      const householdError = validateHouseholdMembers(profile.householdMembers);
+      if (householdError) {
+        setSaveError(householdError);
+        setSaveSuccess(false);
+        return;
+      }
+
       setSaving(true);
       setSaveError(null);
       setSaveSuccess(false);
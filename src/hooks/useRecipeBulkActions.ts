@@ -0,0 +1,232 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+import type { Dispatch, SetStateAction } from "react";
+
+import type { Recipe } from "@/lib/schemas/recipe";
+import {
+  organizeRecipes,
+  trashRecipesInDatabase,
+} from "@/lib/services/recipe-service";
+import { downloadTextFile } from "@/lib/utils/download";
+import { ERROR_MESSAGES, convertErrorToMessage } from "@/lib/utils/error-handler";
+import {
+  applyBulkLabelChange,
+  buildCombinedIngredientsText,
+  buildRecipesJsonExport,
+  buildRecipesMarkdownExport,
+  getBulkExportFileName,
+} from "@/lib/utils/recipe-bulk";
+import type { BulkExportFormat, BulkLabelChange } from "@/lib/utils/recipe-bulk";
+import { mergeRestoredRecipes } from "@/lib/utils/recipe-library";
+
+interface UseRecipeBulkActionsOptions {
+  recipes: Recipe[] | null;
+  setRecipes: Dispatch<SetStateAction<Recipe[] | null>>;
+  /** Called with the recipes a bulk delete moved to the trash, to offer undo. */
+  onTrashed: (recipes: Recipe[]) => void;
+}
+
+export interface UseRecipeBulkActionsReturn {
+  isSelecting: boolean;
+  startSelecting: () => void;
+  /** Leaves selection mode and clears the selection. */
+  stopSelecting: () => void;
+  checkedRecipeIds: ReadonlySet<string>;
+  /** Loaded recipes that are checked, in library order. */
+  checkedRecipes: Recipe[];
+  toggleChecked: (recipe: Recipe) => void;
+  checkAll: (recipes: Recipe[]) => void;
+  clearChecked: () => void;
+  isConfirmingDelete: boolean;
+  requestDelete: () => void;
+  cancelDelete: () => void;
+  confirmDelete: () => Promise<void>;
+  applyLabelChange: (change: BulkLabelChange) => Promise<void>;
+  exportChecked: (format: BulkExportFormat) => void;
+  getCombinedIngredientsText: () => string;
+  isWorking: boolean;
+  error: string | null;
+}
+
+/**
+ * Multi-select and bulk actions for the saved library: move to the trash,
+ * add or remove a tag or collection, export, and combined ingredients.
+ *
+ * Deletes and label changes update the list optimistically, then put back
+ * any recipes whose write batch failed.
+ */
+export function useRecipeBulkActions({
+  recipes,
+  setRecipes,
+  onTrashed,
+}: UseRecipeBulkActionsOptions): UseRecipeBulkActionsReturn {
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [checkedRecipeIds, setCheckedRecipeIds] = useState<ReadonlySet<string>>(
+    () => new Set()
+  );
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Recipes deleted elsewhere drop out of the selection on their own
+  const checkedRecipes = useMemo(
+    () => recipes?.filter((recipe) => checkedRecipeIds.has(recipe.id)) ?? [],
+    [checkedRecipeIds, recipes]
+  );
+
+  const startSelecting = useCallback((): void => {
+    setIsSelecting(true);
+    setError(null);
+  }, []);
+
+  const stopSelecting = useCallback((): void => {
+    setIsSelecting(false);
+    setCheckedRecipeIds(new Set());
+    setIsConfirmingDelete(false);
+  }, []);
+
+  const toggleChecked = useCallback((recipe: Recipe): void => {
+    setCheckedRecipeIds((current) => {
+      const next = new Set(current);
+      if (next.has(recipe.id)) {
+        next.delete(recipe.id);
+      } else {
+        next.add(recipe.id);
+      }
+      return next;
+    });
+  }, []);
+
+  const checkAll = useCallback((visibleRecipes: Recipe[]): void => {
+    setCheckedRecipeIds(
+      (current) => new Set([...current, ...visibleRecipes.map((recipe) => recipe.id)])
+    );
+  }, []);
+
+  const clearChecked = useCallback((): void => {
+    setCheckedRecipeIds(new Set());
+  }, []);
+
+  const requestDelete = useCallback((): void => {
+    if (checkedRecipes.length > 0) setIsConfirmingDelete(true);
+  }, [checkedRecipes.length]);
+
+  const cancelDelete = useCallback((): void => {
+    setIsConfirmingDelete(false);
+  }, []);
+
+  const confirmDelete = useCallback(async (): Promise<void> => {
+    const toDelete = checkedRecipes;
+    if (toDelete.length === 0) return;
+
+    const deletedIds = new Set(toDelete.map((recipe) => recipe.id));
+    setIsConfirmingDelete(false);
+    setIsWorking(true);
+    setError(null);
+    setRecipes((current) => current?.filter((recipe) => !deletedIds.has(recipe.id)) ?? null);
+
+    try {
+      const { succeeded, failed } = await trashRecipesInDatabase(toDelete);
+      const succeededIds = new Set(succeeded.map((recipe) => recipe.id));
+      setCheckedRecipeIds(
+        (current) => new Set([...current].filter((id) => !succeededIds.has(id)))
+      );
+      if (succeeded.length > 0) onTrashed(succeeded);
+
+      if (failed.length > 0) {
+        setError(ERROR_MESSAGES.RECIPE.BULK_DELETE_PARTIAL);
+        setRecipes((current) => mergeRestoredRecipes(current, failed));
+      }
+    } catch (deleteError) {
+      setError(convertErrorToMessage(deleteError, ERROR_MESSAGES.RECIPE.DELETE_FAILED));
+      setRecipes((current) => mergeRestoredRecipes(current, toDelete));
+    } finally {
+      setIsWorking(false);
+    }
+  }, [checkedRecipes, onTrashed, setRecipes]);
+
+  const replaceRecipes = useCallback(
+    (replacements: Recipe[]): void => {
+      const byId = new Map(replacements.map((recipe) => [recipe.id, recipe]));
+      setRecipes(
+        (current) => current?.map((recipe) => byId.get(recipe.id) ?? recipe) ?? null
+      );
+    },
+    [setRecipes]
+  );
+
+  const applyLabelChange = useCallback(
+    async (change: BulkLabelChange): Promise<void> => {
+      const originals = checkedRecipes;
+      if (originals.length === 0 || !change.label.trim()) return;
+
+      setIsWorking(true);
+      setError(null);
+      replaceRecipes(
+        originals.map((recipe) => {
+          const labels = applyBulkLabelChange(recipe[change.field], change);
+          return labels ? { ...recipe, [change.field]: labels } : recipe;
+        })
+      );
+
+      try {
+        const { succeeded, failed } = await organizeRecipes(originals, change);
+        replaceRecipes([...succeeded, ...failed]);
+        if (failed.length > 0) {
+          setError(ERROR_MESSAGES.RECIPE.BULK_ORGANIZE_PARTIAL);
+        }
+      } catch (organizeError) {
+        replaceRecipes(originals);
+        setError(convertErrorToMessage(organizeError, ERROR_MESSAGES.RECIPE.ORGANIZE_FAILED));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [checkedRecipes, replaceRecipes]
+  );
+
+  const exportChecked = useCallback(
+    (format: BulkExportFormat): void => {
+      if (checkedRecipes.length === 0) return;
+
+      const exportedAt = new Date();
+      const fileName = getBulkExportFileName(format, exportedAt);
+      if (format === "markdown") {
+        downloadTextFile(fileName, buildRecipesMarkdownExport(checkedRecipes), "text/markdown");
+      } else {
+        downloadTextFile(
+          fileName,
+          buildRecipesJsonExport(checkedRecipes, exportedAt),
+          "application/json"
+        );
+      }
+    },
+    [checkedRecipes]
+  );
+
+  const getCombinedIngredientsText = useCallback(
+    (): string => buildCombinedIngredientsText(checkedRecipes),
+    [checkedRecipes]
+  );
+
+  return {
+    isSelecting,
+    startSelecting,
+    stopSelecting,
+    checkedRecipeIds,
+    checkedRecipes,
+    toggleChecked,
+    checkAll,
+    clearChecked,
+    isConfirmingDelete,
+    requestDelete,
+    cancelDelete,
+    confirmDelete,
+    applyLabelChange,
+    exportChecked,
+    getCombinedIngredientsText,
+    isWorking,
+    error,
+  };
+}
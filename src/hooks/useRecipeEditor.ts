@@ -0,0 +1,93 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import type { Recipe } from "@/lib/schemas/recipe";
+import { updateSavedRecipe } from "@/lib/services/recipe-service";
+import { ERROR_MESSAGES, convertErrorToMessage } from "@/lib/utils/error-handler";
+import type { RecipeEditDraft } from "@/lib/utils/recipe-edit";
+import { canEditRecipe, createRecipeEditDraft } from "@/lib/utils/recipe-edit";
+
+interface UseRecipeEditorOptions {
+  recipe: Recipe | null;
+  onRecipeUpdated?: (recipe: Recipe) => void;
+}
+
+interface UseRecipeEditorReturn {
+  canEdit: boolean;
+  isEditing: boolean;
+  draft: RecipeEditDraft | null;
+  setDraftField: (field: keyof RecipeEditDraft, value: string) => void;
+  startEditing: () => void;
+  cancelEditing: () => void;
+  saveEdits: () => Promise<void>;
+  isSaving: boolean;
+  error: string | null;
+}
+
+/**
+ * Manages in-place editing of a saved recipe. Each save keeps the prior
+ * state as a version (see updateSavedRecipe).
+ */
+export function useRecipeEditor({
+  recipe,
+  onRecipeUpdated,
+}: UseRecipeEditorOptions): UseRecipeEditorReturn {
+  const [draft, setDraft] = useState<RecipeEditDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Leave edit mode when a different recipe is selected
+  useEffect(() => {
+    setDraft(null);
+    setError(null);
+  }, [recipe?.id]);
+
+  const canEdit = recipe != null && canEditRecipe(recipe);
+
+  const startEditing = useCallback((): void => {
+    if (!recipe) return;
+    setDraft(createRecipeEditDraft(recipe));
+    setError(null);
+  }, [recipe]);
+
+  const cancelEditing = useCallback((): void => {
+    setDraft(null);
+    setError(null);
+  }, []);
+
+  const setDraftField = useCallback(
+    (field: keyof RecipeEditDraft, value: string): void => {
+      setDraft((current) => (current ? { ...current, [field]: value } : current));
+    },
+    []
+  );
+
+  const saveEdits = useCallback(async (): Promise<void> => {
+    if (!recipe || !draft) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const updatedRecipe = await updateSavedRecipe(recipe, draft);
+      onRecipeUpdated?.(updatedRecipe);
+      setDraft(null);
+    } catch (saveError) {
+      setError(convertErrorToMessage(saveError, ERROR_MESSAGES.RECIPE.UPDATE_FAILED));
+    } finally {
+      setIsSaving(false);
+    }
+  }, [draft, onRecipeUpdated, recipe]);
+
+  return {
+    canEdit,
+    isEditing: draft != null,
+    draft,
+    setDraftField,
+    startEditing,
+    cancelEditing,
+    saveEdits,
+    isSaving,
+    error,
+  };
+}
@@ -3,10 +3,14 @@
 import { useCallback, useRef, useState, useEffect } from "react";
 import type { FormEvent } from "react";
 import { useRecipeStore } from "@/lib/store/recipe-store";
+import type { RecipeCandidate } from "@/lib/store/recipe-store";
 import { useDebounce } from "@/hooks/useDebounce";
 import type { SerializableUserProfile } from "@/lib/schemas/user";
 import type { RecipeMode, RecipeStructure } from "@/lib/schemas/recipe";
-import { generateRecipeWithStreaming } from "@/lib/services/recipe-service";
+import {
+  generateRecipeCandidatesWithStreaming,
+  generateRecipeWithStreaming,
+} from "@/lib/services/recipe-service";
 import { completeRecipeStructureSchema } from "@/lib/schemas/recipe";
 import {
   appendTweakToPrompt,
@@ -27,11 +31,19 @@ export interface UseRecipeGenerationReturn {
   ingredients: string;
   tweak: string;
   mode: RecipeMode | null;
+  /** Recipes per generation; above 1 they stream into `candidates`. */
+  candidateCount: number;
+  candidates: RecipeCandidate[];
   setInput: (input: string) => void;
   setIngredients: (ingredients: string) => void;
   setTweak: (tweak: string) => void;
+  setCandidateCount: (candidateCount: number) => void;
+  /** Continues with one candidate as the current recipe. */
+  selectCandidate: (index: number) => void;
   handleGenerate: (e: FormEvent) => Promise<void>;
   handleRegenerate: () => void;
+  /** Regenerates with the given tweak instead of the tweak field's text. */
+  regenerateWithTweak: (tweakText: string) => void;
 }
 
 /**
@@ -54,12 +66,18 @@ export function useRecipeGeneration(
     input,
     ingredients,
     mode,
+    candidateCount,
+    candidates,
     setInput,
     setIngredients,
+    setCandidateCount,
+    setCandidates,
+    updateCandidate,
     setStructuredRecipe,
     setGenerating,
     setGenerationError,
     addGenerationHistoryEntry,
+    clearRefinementThread,
     resetSaveState,
   } = useRecipeStore();
 
@@ -71,46 +89,79 @@ export function useRecipeGeneration(
 
   const debouncedGeneration = useDebounce(
     useCallback(
-      async (prompt: string, isIngredientsMode: boolean) => {
+      async (prompt: string, isIngredientsMode: boolean, count: number) => {
         abortControllerRef.current?.abort();
         abortControllerRef.current = new AbortController();
         const signal = abortControllerRef.current.signal;
 
         setGenerating(true);
         setStructuredRecipe(null);
+        clearRefinementThread();
+        setCandidates(
+          count > 1 ? Array.from({ length: count }, () => ({ recipe: null, error: null })) : []
+        );
         setGenerationError(null);
         resetSaveState();
 
-        let latestRecipe: RecipeStructure | null = null;
+        const latestRecipes: (RecipeStructure | null)[] = Array.from(
+          { length: count },
+          () => null
+        );
 
         try {
-          await generateRecipeWithStreaming(
-            prompt,
-            isIngredientsMode,
-            userProfile,
-            (recipe) => {
-              if (!signal.aborted) {
-                latestRecipe = recipe;
-                setStructuredRecipe(recipe);
-              }
-            },
-            (errorMessage) => {
-              if (!signal.aborted) setGenerationError(errorMessage);
-            },
-            signal
-          );
+          if (count > 1) {
+            await generateRecipeCandidatesWithStreaming(
+              prompt,
+              isIngredientsMode,
+              userProfile,
+              count,
+              (index, recipe) => {
+                if (!signal.aborted) {
+                  latestRecipes[index] = recipe;
+                  updateCandidate(index, { recipe });
+                }
+              },
+              (errorMessage, index) => {
+                if (signal.aborted) return;
+                if (index == null) {
+                  setCandidates([]);
+                  setGenerationError(errorMessage);
+                } else {
+                  updateCandidate(index, { error: errorMessage });
+                }
+              },
+              signal
+            );
+          } else {
+            await generateRecipeWithStreaming(
+              prompt,
+              isIngredientsMode,
+              userProfile,
+              (recipe) => {
+                if (!signal.aborted) {
+                  latestRecipes[0] = recipe;
+                  setStructuredRecipe(recipe);
+                }
+              },
+              (errorMessage) => {
+                if (!signal.aborted) setGenerationError(errorMessage);
+              },
+              signal
+            );
+          }
         } catch {
           if (!signal.aborted) {
             setGenerationError(ERROR_MESSAGES.RECIPE.GENERATION_FAILED);
           }
         } finally {
           if (!signal.aborted) {
-            const completeRecipe =
-              latestRecipe == null
-                ? null
-                : completeRecipeStructureSchema.safeParse(latestRecipe);
-            if (completeRecipe?.success) {
-              addGenerationHistoryEntry(completeRecipe.data);
+            // Every finished candidate is kept, not only the one picked
+            for (const recipe of latestRecipes) {
+              const completeRecipe =
+                recipe == null ? null : completeRecipeStructureSchema.safeParse(recipe);
+              if (completeRecipe?.success) {
+                addGenerationHistoryEntry(completeRecipe.data);
+              }
             }
             setGenerating(false);
           }
@@ -119,8 +170,11 @@ export function useRecipeGeneration(
       [
         setGenerating,
         setStructuredRecipe,
+        setCandidates,
+        updateCandidate,
         setGenerationError,
         addGenerationHistoryEntry,
+        clearRefinementThread,
         resetSaveState,
         userProfile,
       ]
@@ -129,7 +183,7 @@ export function useRecipeGeneration(
   );
 
   const triggerGeneration = useCallback(
-    (tweakText: string) => {
+    (tweakText: string, count = 1) => {
       if (!mode) return;
 
       if (
@@ -163,7 +217,7 @@ export function useRecipeGeneration(
         buildRecipePrompt(promptInput, mode),
         tweakText
       );
-      debouncedGeneration(prompt, mode === "ingredients");
+      debouncedGeneration(prompt, mode === "ingredients", count);
     },
     [mode, input, ingredients, resetSaveState, debouncedGeneration]
   );
@@ -171,15 +225,27 @@ export function useRecipeGeneration(
   const handleGenerate = useCallback(
     async (e: FormEvent) => {
       e.preventDefault();
-      triggerGeneration("");
+      triggerGeneration("", candidateCount);
     },
-    [triggerGeneration]
+    [candidateCount, triggerGeneration]
   );
 
+  // Tweaks refine the recipe the user continued with, so they generate one
   const handleRegenerate = useCallback(() => {
     triggerGeneration(tweak);
   }, [triggerGeneration, tweak]);
 
+  const selectCandidate = useCallback(
+    (index: number) => {
+      const recipe = candidates[index]?.recipe;
+      if (!recipe) return;
+      setStructuredRecipe(recipe);
+      setCandidates([]);
+      resetSaveState();
+    },
+    [candidates, resetSaveState, setCandidates, setStructuredRecipe]
+  );
+
   return {
     isGenerating,
     generationError,
@@ -188,10 +254,15 @@ export function useRecipeGeneration(
     ingredients,
     tweak,
     mode,
+    candidateCount,
+    candidates,
     setInput,
     setIngredients,
     setTweak,
+    setCandidateCount,
+    selectCandidate,
     handleGenerate,
     handleRegenerate,
+    regenerateWithTweak: triggerGeneration,
   };
 }
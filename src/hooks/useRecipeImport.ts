@@ -0,0 +1,81 @@
+"use client";
+
+import { useCallback, useState } from "react";
+
+import { RECIPE_IMPORT } from "@/lib/constants/domain";
+import { saveRecipeToDatabase } from "@/lib/services/recipe-service";
+import { ERROR_MESSAGES, convertErrorToMessage } from "@/lib/utils/error-handler";
+import { logError } from "@/lib/utils/logger";
+import { parseRecipeJsonLd } from "@/lib/utils/recipe-json-ld";
+
+interface UseRecipeImportOptions {
+  userId?: string;
+  onImported?: () => Promise<void> | void;
+}
+
+interface UseRecipeImportReturn {
+  importFile: (file: File) => Promise<void>;
+  isImporting: boolean;
+  errors: string[];
+  importedTitle: string | null;
+  clearStatus: () => void;
+}
+
+/**
+ * Imports a schema.org Recipe JSON-LD file into the saved library.
+ * Every validation problem in the file is reported, not just the first.
+ */
+export function useRecipeImport({
+  userId,
+  onImported,
+}: UseRecipeImportOptions): UseRecipeImportReturn {
+  const [isImporting, setIsImporting] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [importedTitle, setImportedTitle] = useState<string | null>(null);
+
+  const clearStatus = useCallback((): void => {
+    setErrors([]);
+    setImportedTitle(null);
+  }, []);
+
+  const importFile = useCallback(
+    async (file: File): Promise<void> => {
+      clearStatus();
+
+      if (!userId) {
+        setErrors([ERROR_MESSAGES.AUTH.LOGIN_REQUIRED]);
+        return;
+      }
+      if (file.size > RECIPE_IMPORT.MAX_FILE_BYTES) {
+        setErrors([ERROR_MESSAGES.RECIPE.IMPORT_FILE_TOO_LARGE]);
+        return;
+      }
+
+      setIsImporting(true);
+      try {
+        const result = parseRecipeJsonLd(await file.text());
+        if (!result.success) {
+          setErrors(result.errors);
+          return;
+        }
+
+        await saveRecipeToDatabase(userId, result.recipe, result.cuisine);
+        setImportedTitle(result.recipe.title);
+        try {
+          await onImported?.();
+        } catch (refreshError) {
+          logError("Failed to refresh recipes after import", refreshError, {
+            userId,
+          });
+        }
+      } catch (error) {
+        setErrors([convertErrorToMessage(error, ERROR_MESSAGES.RECIPE.IMPORT_FAILED)]);
+      } finally {
+        setIsImporting(false);
+      }
+    },
+    [clearStatus, onImported, userId]
+  );
+
+  return { importFile, isImporting, errors, importedTitle, clearStatus };
+}
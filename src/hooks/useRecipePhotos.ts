@@ -0,0 +1,118 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { RECIPE_PHOTOS } from "@/lib/constants/domain";
+import type { Recipe, RecipePhoto } from "@/lib/schemas/recipe";
+import { addRecipePhoto, removeRecipePhoto } from "@/lib/services/recipe-service";
+import { ERROR_MESSAGES, convertErrorToMessage } from "@/lib/utils/error-handler";
+import { resizeImageFile } from "@/lib/utils/image";
+import { logError } from "@/lib/utils/logger";
+
+interface UseRecipePhotosOptions {
+  recipe: Recipe | null;
+  onRecipeUpdated?: (recipe: Recipe) => void;
+}
+
+interface UseRecipePhotosReturn {
+  addPhotos: (files: File[]) => Promise<void>;
+  removePhoto: (photo: RecipePhoto) => Promise<void>;
+  /** 1-based index of the photo being uploaded, or null when idle. */
+  uploadingIndex: number | null;
+  uploadCount: number;
+  removingPhotoId: string | null;
+  error: string | null;
+}
+
+/**
+ * Resizes, compresses, and uploads dish photos for a saved recipe, and
+ * removes them. Files upload one at a time; the recipe updates after each so
+ * finished photos appear while the rest are still uploading.
+ */
+export function useRecipePhotos({
+  recipe,
+  onRecipeUpdated,
+}: UseRecipePhotosOptions): UseRecipePhotosReturn {
+  const [uploadingIndex, setUploadingIndex] = useState<number | null>(null);
+  const [uploadCount, setUploadCount] = useState(0);
+  const [removingPhotoId, setRemovingPhotoId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+  }, [recipe?.id]);
+
+  const addPhotos = useCallback(
+    async (files: File[]): Promise<void> => {
+      if (!recipe || files.length === 0) return;
+      setError(null);
+
+      const remaining = RECIPE_PHOTOS.MAX_PER_RECIPE - (recipe.photos?.length ?? 0);
+      if (remaining <= 0) {
+        setError(ERROR_MESSAGES.PHOTO.LIMIT_REACHED);
+        return;
+      }
+      if (files.some((file) => file.size > RECIPE_PHOTOS.MAX_SOURCE_BYTES)) {
+        setError(ERROR_MESSAGES.PHOTO.FILE_TOO_LARGE);
+        return;
+      }
+
+      const accepted = files.slice(0, remaining);
+      let current = recipe;
+      setUploadCount(accepted.length);
+
+      try {
+        for (const [index, file] of accepted.entries()) {
+          setUploadingIndex(index + 1);
+
+          let image;
+          try {
+            image = await resizeImageFile(file, {
+              maxDimension: RECIPE_PHOTOS.MAX_DIMENSION,
+              quality: RECIPE_PHOTOS.JPEG_QUALITY,
+            });
+          } catch (resizeError) {
+            logError("Failed to resize recipe photo", resizeError, {
+              recipeId: recipe.id,
+              type: file.type,
+            });
+            setError(ERROR_MESSAGES.PHOTO.INVALID_FILE);
+            return;
+          }
+
+          current = await addRecipePhoto(current, image);
+          onRecipeUpdated?.(current);
+        }
+
+        if (files.length > accepted.length) {
+          setError(ERROR_MESSAGES.PHOTO.LIMIT_REACHED);
+        }
+      } catch (uploadError) {
+        setError(convertErrorToMessage(uploadError, ERROR_MESSAGES.PHOTO.UPLOAD_FAILED));
+      } finally {
+        setUploadingIndex(null);
+        setUploadCount(0);
+      }
+    },
+    [onRecipeUpdated, recipe]
+  );
+
+  const removePhoto = useCallback(
+    async (photo: RecipePhoto): Promise<void> => {
+      if (!recipe) return;
+
+      setError(null);
+      setRemovingPhotoId(photo.id);
+      try {
+        onRecipeUpdated?.(await removeRecipePhoto(recipe, photo));
+      } catch (removeError) {
+        setError(convertErrorToMessage(removeError, ERROR_MESSAGES.PHOTO.DELETE_FAILED));
+      } finally {
+        setRemovingPhotoId(null);
+      }
+    },
+    [onRecipeUpdated, recipe]
+  );
+
+  return { addPhotos, removePhoto, uploadingIndex, uploadCount, removingPhotoId, error };
+}
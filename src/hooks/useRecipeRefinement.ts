@@ -0,0 +1,142 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { useRecipeStore } from "@/lib/store/recipe-store";
+import { refineRecipeWithStreaming } from "@/lib/services/recipe-service";
+import type { PartialRecipeRefinement } from "@/lib/services/recipe-service";
+import { completeRecipeStructureSchema } from "@/lib/schemas/recipe";
+import type { RecipeStructure, RefinementTurn } from "@/lib/schemas/recipe";
+import type { SerializableUserProfile } from "@/lib/schemas/user";
+import {
+  normalizeRefinementChanges,
+  validateRefinementRequest,
+} from "@/lib/utils/recipe-refinement";
+import { ERROR_MESSAGES } from "@/lib/utils/error-handler";
+
+interface UseRecipeRefinementOptions {
+  structuredRecipe: RecipeStructure | null;
+  userProfile: SerializableUserProfile | null;
+  isGenerating: boolean;
+}
+
+export interface UseRecipeRefinementReturn {
+  /** Completed turns for the current recipe, oldest first. */
+  refinementThread: RefinementTurn[];
+  refinementRequest: string;
+  setRefinementRequest: (request: string) => void;
+  /** The request being applied; null when idle. */
+  pendingRequest: string | null;
+  isRefining: boolean;
+  refinementError: string | null;
+  sendRefinement: () => void;
+}
+
+/**
+ * Chat-style refinement of the generated recipe. Each turn sends the current
+ * recipe and the thread so far; the revised recipe replaces the current one
+ * only once it is complete, so a failed turn leaves the recipe untouched.
+ */
+export function useRecipeRefinement({
+  structuredRecipe,
+  userProfile,
+  isGenerating,
+}: UseRecipeRefinementOptions): UseRecipeRefinementReturn {
+  const [refinementRequest, setRefinementRequest] = useState("");
+  const [pendingRequest, setPendingRequest] = useState<string | null>(null);
+  const [refinementError, setRefinementError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const {
+    refinementThread,
+    setStructuredRecipe,
+    addRefinementTurn,
+    resetSaveState,
+  } = useRecipeStore();
+
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
+  // A new generation replaces the recipe being refined
+  useEffect(() => {
+    if (!isGenerating) return;
+    abortControllerRef.current?.abort();
+    setPendingRequest(null);
+    setRefinementError(null);
+  }, [isGenerating]);
+
+  const sendRefinement = useCallback(async () => {
+    if (!structuredRecipe || isGenerating || pendingRequest) return;
+
+    const validationError = validateRefinementRequest(refinementRequest, refinementThread);
+    if (validationError) {
+      setRefinementError(validationError);
+      return;
+    }
+
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = new AbortController();
+    const signal = abortControllerRef.current.signal;
+
+    const request = refinementRequest.trim();
+    let latest: PartialRecipeRefinement = {};
+    let streamError: string | null = null;
+
+    setPendingRequest(request);
+    setRefinementError(null);
+
+    await refineRecipeWithStreaming(
+      structuredRecipe,
+      refinementThread,
+      request,
+      userProfile,
+      (refinement) => {
+        latest = refinement;
+      },
+      (errorMessage) => {
+        streamError = errorMessage;
+      },
+      signal
+    );
+
+    if (signal.aborted) return;
+    setPendingRequest(null);
+
+    const revised = completeRecipeStructureSchema.safeParse(latest.recipe);
+    if (streamError || !revised.success) {
+      setRefinementError(streamError ?? ERROR_MESSAGES.RECIPE.REFINEMENT_FAILED);
+      return;
+    }
+
+    setStructuredRecipe(revised.data);
+    addRefinementTurn({
+      request,
+      changes: normalizeRefinementChanges(latest.changes ?? []),
+    });
+    setRefinementRequest("");
+    resetSaveState();
+  }, [
+    structuredRecipe,
+    isGenerating,
+    pendingRequest,
+    refinementRequest,
+    refinementThread,
+    userProfile,
+    setStructuredRecipe,
+    addRefinementTurn,
+    resetSaveState,
+  ]);
+
+  return {
+    refinementThread,
+    refinementRequest,
+    setRefinementRequest,
+    pendingRequest,
+    isRefining: pendingRequest !== null,
+    refinementError,
+    sendRefinement,
+  };
+}
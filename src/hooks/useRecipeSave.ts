@@ -20,6 +20,7 @@ export function useRecipeSave() {
 
   const {
     structuredRecipe,
+    refinementThread,
     isSaving,
     saveError,
     saved,
@@ -49,7 +50,7 @@ export function useRecipeSave() {
       setSaveError(null);
 
       try {
-        await saveRecipeToDatabase(userId, structuredRecipe);
+        await saveRecipeToDatabase(userId, structuredRecipe, undefined, refinementThread);
         setSaved(true);
       } catch (error) {
         // Use standardized error conversion for consistent Firebase error mapping
@@ -59,7 +60,7 @@ export function useRecipeSave() {
         setIsSaving(false);
       }
     },
-    [structuredRecipe, setIsSaving, setSaveError, setSaved]
+    [structuredRecipe, refinementThread, setIsSaving, setSaveError, setSaved]
   );
 
   return {
@@ -0,0 +1,74 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import type { Recipe } from "@/lib/schemas/recipe";
+import { shareRecipe, unshareRecipe } from "@/lib/services/recipe-service";
+import { ERROR_MESSAGES, convertErrorToMessage } from "@/lib/utils/error-handler";
+
+interface UseRecipeShareOptions {
+  recipe: Recipe | null;
+  onRecipeUpdated?: (recipe: Recipe) => void;
+}
+
+interface UseRecipeShareReturn {
+  shareId: string | null;
+  publish: () => Promise<void>;
+  revoke: () => Promise<void>;
+  isPublishing: boolean;
+  isRevoking: boolean;
+  error: string | null;
+}
+
+/**
+ * Publishes and revokes a saved recipe's public share link.
+ */
+export function useRecipeShare({
+  recipe,
+  onRecipeUpdated,
+}: UseRecipeShareOptions): UseRecipeShareReturn {
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [isRevoking, setIsRevoking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+  }, [recipe?.id]);
+
+  const publish = useCallback(async (): Promise<void> => {
+    if (!recipe) return;
+
+    setIsPublishing(true);
+    setError(null);
+    try {
+      onRecipeUpdated?.(await shareRecipe(recipe));
+    } catch (shareError) {
+      setError(convertErrorToMessage(shareError, ERROR_MESSAGES.SHARE.PUBLISH_FAILED));
+    } finally {
+      setIsPublishing(false);
+    }
+  }, [onRecipeUpdated, recipe]);
+
+  const revoke = useCallback(async (): Promise<void> => {
+    if (!recipe) return;
+
+    setIsRevoking(true);
+    setError(null);
+    try {
+      onRecipeUpdated?.(await unshareRecipe(recipe));
+    } catch (revokeError) {
+      setError(convertErrorToMessage(revokeError, ERROR_MESSAGES.SHARE.REVOKE_FAILED));
+    } finally {
+      setIsRevoking(false);
+    }
+  }, [onRecipeUpdated, recipe]);
+
+  return {
+    shareId: recipe?.shareId ?? null,
+    publish,
+    revoke,
+    isPublishing,
+    isRevoking,
+    error,
+  };
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useCallback, useState } from "react";
+
+import { useFirestoreQuery } from "@/hooks/useFirestoreQuery";
+import type { Recipe } from "@/lib/schemas/recipe";
+import {
+  deleteRecipeFromDatabase,
+  purgeExpiredTrash,
+  restoreRecipesFromTrash,
+} from "@/lib/services/recipe-service";
+import { ERROR_MESSAGES, convertErrorToMessage } from "@/lib/utils/error-handler";
+
+interface UseRecipeTrashOptions {
+  userId?: string;
+}
+
+interface UseRecipeTrashReturn {
+  /** Trashed recipes, most recently deleted first. */
+  recipes: Recipe[] | null;
+  isLoading: boolean;
+  loadError: string | null;
+  actionError: string | null;
+  restoreRecipe: (recipe: Recipe) => Promise<void>;
+  recipeToDelete: Recipe | null;
+  requestDeleteRecipe: (recipe: Recipe) => void;
+  cancelDeleteRecipe: () => void;
+  confirmDeleteRecipe: () => Promise<void>;
+}
+
+/**
+ * Trash view state: lists trashed recipes (purging expired ones first) and
+ * restores or permanently deletes them, optimistically.
+ */
+export function useRecipeTrash({ userId }: UseRecipeTrashOptions): UseRecipeTrashReturn {
+  const [recipeToDelete, setRecipeToDelete] = useState<Recipe | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const {
+    data: recipes,
+    isLoading,
+    error: loadError,
+    setData: setRecipes,
+  } = useFirestoreQuery({
+    queryFn: purgeExpiredTrash,
+    userId,
+    errorMessage: ERROR_MESSAGES.RECIPE.TRASH_LOAD_FAILED,
+  });
+
+  const removeLocally = useCallback(
+    (recipeId: string): void => {
+      setRecipes((current) => (current ?? []).filter((recipe) => recipe.id !== recipeId));
+    },
+    [setRecipes]
+  );
+
+  const putBackLocally = useCallback(
+    (recipe: Recipe): void => {
+      setRecipes((current) => [recipe, ...(current ?? [])]);
+    },
+    [setRecipes]
+  );
+
+  const restoreRecipe = useCallback(
+    async (recipe: Recipe): Promise<void> => {
+      setActionError(null);
+      removeLocally(recipe.id);
+
+      const { failed } = await restoreRecipesFromTrash([recipe]);
+      if (failed.length > 0) {
+        setActionError(ERROR_MESSAGES.RECIPE.RESTORE_FAILED);
+        putBackLocally(recipe);
+      }
+    },
+    [putBackLocally, removeLocally]
+  );
+
+  const requestDeleteRecipe = useCallback((recipe: Recipe): void => {
+    setRecipeToDelete(recipe);
+  }, []);
+
+  const cancelDeleteRecipe = useCallback((): void => {
+    setRecipeToDelete(null);
+  }, []);
+
+  const confirmDeleteRecipe = useCallback(async (): Promise<void> => {
+    if (!recipeToDelete) return;
+
+    const deletedRecipe = recipeToDelete;
+    setRecipeToDelete(null);
+    setActionError(null);
+    removeLocally(deletedRecipe.id);
+
+    try {
+      await deleteRecipeFromDatabase(deletedRecipe);
+    } catch (error) {
+      setActionError(convertErrorToMessage(error, ERROR_MESSAGES.RECIPE.DELETE_FAILED));
+      putBackLocally(deletedRecipe);
+    }
+  }, [putBackLocally, recipeToDelete, removeLocally]);
+
+  return {
+    recipes,
+    isLoading,
+    loadError,
+    actionError,
+    restoreRecipe,
+    recipeToDelete,
+    requestDeleteRecipe,
+    cancelDeleteRecipe,
+    confirmDeleteRecipe,
+  };
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { useCallback, useState } from "react";
+
+import { useFirestoreQuery } from "@/hooks/useFirestoreQuery";
+import { getRecipeVersions } from "@/lib/db";
+import type { Recipe } from "@/lib/schemas/recipe";
+import type { RecipeVersion } from "@/lib/schemas/recipe-version";
+import { restoreRecipeVersion } from "@/lib/services/recipe-service";
+import { ERROR_MESSAGES, convertErrorToMessage } from "@/lib/utils/error-handler";
+
+interface UseRecipeVersionsOptions {
+  recipe: Recipe | null;
+  onRecipeUpdated?: (recipe: Recipe) => void;
+}
+
+interface UseRecipeVersionsReturn {
+  versions: RecipeVersion[] | null;
+  isLoading: boolean;
+  loadError: string | null;
+  restoreVersion: (version: RecipeVersion) => Promise<void>;
+  restoringVersionId: string | null;
+  restoreError: string | null;
+}
+
+/**
+ * Loads a saved recipe's version history and restores prior versions.
+ */
+export function useRecipeVersions({
+  recipe,
+  onRecipeUpdated,
+}: UseRecipeVersionsOptions): UseRecipeVersionsReturn {
+  const [restoringVersionId, setRestoringVersionId] = useState<string | null>(null);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+
+  // Versions are keyed by recipe rather than user
+  const {
+    data: versions,
+    isLoading,
+    error: loadError,
+    refetch,
+  } = useFirestoreQuery({
+    queryFn: getRecipeVersions,
+    userId: recipe?.id,
+    errorMessage: ERROR_MESSAGES.RECIPE.VERSIONS_LOAD_FAILED,
+  });
+
+  const restoreVersion = useCallback(
+    async (version: RecipeVersion): Promise<void> => {
+      if (!recipe) return;
+
+      setRestoringVersionId(version.id);
+      setRestoreError(null);
+      try {
+        const restoredRecipe = await restoreRecipeVersion(recipe, version);
+        onRecipeUpdated?.(restoredRecipe);
+        await refetch();
+      } catch (error) {
+        setRestoreError(
+          convertErrorToMessage(error, ERROR_MESSAGES.RECIPE.UPDATE_FAILED)
+        );
+      } finally {
+        setRestoringVersionId(null);
+      }
+    },
+    [onRecipeUpdated, recipe, refetch]
+  );
+
+  return {
+    versions,
+    isLoading,
+    loadError,
+    restoreVersion,
+    restoringVersionId,
+    restoreError,
+  };
+}
@@ -3,6 +3,7 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 import type { Recipe, RecipeStructure } from "@/lib/schemas/recipe";
+import type { UnitSystem } from "@/lib/constants/domain";
 import { NUMBER_INPUT, UI_TIMING } from "@/lib/constants/ui";
 import { saveRecipeToDatabase } from "@/lib/services/recipe-service";
 import { convertToMarkdown, formatRecipeBodyAsMarkdown, stripLeadingTitleHeading } from "@/lib/utils/markdown";
@@ -13,18 +14,22 @@ import {
   scaleRecipeServings,
 } from "@/lib/utils/recipe-servings";
 import { getCompleteStructureFromSavedRecipe } from "@/lib/utils/saved-recipe";
+import { convertRecipeUnits } from "@/lib/utils/unit-conversion";
 import { ERROR_MESSAGES, convertErrorToMessage } from "@/lib/utils/error-handler";
 import { logError } from "@/lib/utils/logger";
 
 interface UseSavedRecipeServingScaleOptions {
   recipe: Recipe | null;
   userId?: string;
+  unitSystem?: UnitSystem | null;
   onScaledCopySaved?: () => Promise<void> | void;
 }
 
 interface UseSavedRecipeServingScaleReturn {
   body: string;
   copyContent: string;
+  /** Structured recipe as displayed (scaled and unit-converted), for export. */
+  displayStructure: RecipeStructure | null;
   nutrition: NutritionSummary | null;
   targetServings: number;
   setTargetServings: (servings: number) => void;
@@ -37,11 +42,13 @@ interface UseSavedRecipeServingScaleReturn {
 }
 
 /**
- * Manages display-only serving scaling for a selected saved recipe.
+ * Manages display-only serving scaling and unit conversion for a selected
+ * saved recipe. Scaled copies are saved in the recipe's original units.
  */
 export function useSavedRecipeServingScale({
   recipe,
   userId,
+  unitSystem = null,
   onScaledCopySaved,
 }: UseSavedRecipeServingScaleOptions): UseSavedRecipeServingScaleReturn {
   const successTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -88,16 +95,21 @@ export function useSavedRecipeServingScale({
     return scaleRecipeServings(savedStructure, targetServings);
   }, [isScaled, savedStructure, targetServings]);
 
+  const displayRecipe: RecipeStructure | null = useMemo(() => {
+    const source = scaledRecipe ?? (unitSystem ? savedStructure : null);
+    return source ? convertRecipeUnits(source, unitSystem) : null;
+  }, [savedStructure, scaledRecipe, unitSystem]);
+
   const body = useMemo(() => {
-    if (scaledRecipe) return formatRecipeBodyAsMarkdown(scaledRecipe);
+    if (displayRecipe) return formatRecipeBodyAsMarkdown(displayRecipe);
     if (!recipe) return "";
     return stripLeadingTitleHeading(recipe.content, recipe.title);
-  }, [recipe, scaledRecipe]);
+  }, [recipe, displayRecipe]);
 
   const copyContent = useMemo(() => {
-    if (scaledRecipe) return convertToMarkdown(scaledRecipe);
+    if (displayRecipe) return convertToMarkdown(displayRecipe);
     return recipe?.content ?? "";
-  }, [recipe, scaledRecipe]);
+  }, [recipe, displayRecipe]);
 
   const nutrition = useMemo(
     () => extractNutritionSummary(scaledRecipe ?? recipe),
@@ -144,6 +156,7 @@ export function useSavedRecipeServingScale({
   return {
     body,
     copyContent,
+    displayStructure: displayRecipe ?? savedStructure,
     nutrition,
     targetServings,
     setTargetServings,
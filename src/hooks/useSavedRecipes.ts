@@ -1,81 +1,214 @@
 "use client";
 
-import { useCallback, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 
-import { useFirestoreQuery } from "@/hooks/useFirestoreQuery";
-import { getUserRecipes } from "@/lib/db";
-import { deleteRecipeFromDatabase } from "@/lib/services/recipe-service";
+import { usePaginatedRecipes } from "@/hooks/usePaginatedRecipes";
+import { useRecipeBulkActions } from "@/hooks/useRecipeBulkActions";
+import type { UseRecipeBulkActionsReturn } from "@/hooks/useRecipeBulkActions";
+import type { RecipeSortOption } from "@/lib/constants/domain";
+import type { RecipeOrganizationUpdate } from "@/lib/db";
+import {
+  organizeRecipe as organizeRecipeInDatabase,
+  purgeExpiredTrash,
+  restoreRecipesFromTrash,
+  trashRecipesInDatabase,
+} from "@/lib/services/recipe-service";
 import type { Recipe } from "@/lib/schemas/recipe";
 import { ERROR_MESSAGES, convertErrorToMessage } from "@/lib/utils/error-handler";
-import { logError } from "@/lib/utils/logger";
 import {
   filterRecipes,
+  getRecipeLabelOptions,
   getRecipeMetadataOptions,
-  sortRecipesByCreatedAtDesc,
+  mergeRestoredRecipes,
+  requiresFullRecipeLibrary,
+  sortRecipes,
 } from "@/lib/utils/recipe-library";
+import { buildRecipeSearchIndex, searchRecipeIndex } from "@/lib/utils/recipe-search";
 
 interface UseSavedRecipesOptions {
   userId?: string;
+  /** Keep the newest recipes live across tabs and devices (default: true). */
+  live?: boolean;
 }
 
 interface UseSavedRecipesReturn {
   recipes: Recipe[] | null;
+  /** Ranked by relevance while a search term is set, unless sorted. */
   filteredRecipes: Recipe[];
+  /** Stemmed index terms the current search matched, for highlighting. */
+  highlightTerms: ReadonlySet<string>;
   isLoading: boolean;
+  isLoadingMore: boolean;
+  /** Whether older recipes remain to be loaded. */
+  hasMore: boolean;
+  /** Remaining pages are loading because a search, filter, or sort needs them. */
+  isLoadingAllRecipes: boolean;
+  /**
+   * A search, filter, or sort is active but older pages could not be loaded,
+   * so results cover only the loaded recipes.
+   */
+  hasPartialResults: boolean;
+  loadMore: () => Promise<void>;
   loadError: string | null;
   deleteError: string | null;
+  organizeError: string | null;
   searchTerm: string;
   setSearchTerm: (value: string) => void;
   difficultyFilter: string;
   setDifficultyFilter: (value: string) => void;
   cuisineFilter: string;
   setCuisineFilter: (value: string) => void;
+  tagFilter: string;
+  setTagFilter: (value: string) => void;
+  collectionFilter: string;
+  setCollectionFilter: (value: string) => void;
+  favoritesOnly: boolean;
+  setFavoritesOnly: (value: boolean) => void;
+  maxTotalMinutes: number | null;
+  setMaxTotalMinutes: (value: number | null) => void;
+  maxCalories: number | null;
+  setMaxCalories: (value: number | null) => void;
+  minServings: number | null;
+  setMinServings: (value: number | null) => void;
+  /** Empty keeps the natural order (best match, else newest). */
+  sortOption: RecipeSortOption | "";
+  setSortOption: (value: RecipeSortOption | "") => void;
   difficultyOptions: string[];
   cuisineOptions: string[];
+  tagOptions: string[];
+  collectionOptions: string[];
   clearFilters: () => void;
   selectedRecipe: Recipe | null;
   selectedRecipeId: string | null;
   selectRecipe: (recipe: Recipe) => void;
-  recipeToDelete: Recipe | null;
-  requestDeleteRecipe: (recipe: Recipe) => void;
-  cancelDeleteRecipe: () => void;
-  confirmDeleteRecipe: () => Promise<void>;
+  /** Moves a recipe to the trash right away; undo is offered instead of a confirm. */
+  trashRecipe: (recipe: Recipe) => Promise<void>;
+  /** The last recipes moved to the trash, while their undo is on offer. */
+  recentlyTrashed: Recipe[] | null;
+  undoTrash: () => Promise<void>;
+  dismissUndo: () => void;
   refreshRecipes: () => Promise<void>;
+  replaceRecipe: (recipe: Recipe) => void;
+  organizeRecipe: (recipe: Recipe, updates: RecipeOrganizationUpdate) => Promise<void>;
+  /** Multi-select with bulk delete, labels, export, and combined ingredients. */
+  bulk: UseRecipeBulkActionsReturn;
 }
 
 /**
- * Orchestrates saved recipe library state, search, and optimistic deletion.
+ * Orchestrates saved recipe library state, search, and optimistic deletion
+ * and organization (favorites, tags, collections), one recipe at a time or
+ * in bulk. Deleted recipes go to the trash, with undo for the latest delete;
+ * trash past its retention period is purged when the library opens.
+ *
+ * Recipes load a page at a time; a search, filter, or non-default sort loads
+ * the remaining pages so it covers the whole library.
  */
 export function useSavedRecipes({
   userId,
+  live = true,
 }: UseSavedRecipesOptions): UseSavedRecipesReturn {
   const [searchTerm, setSearchTerm] = useState("");
   const [difficultyFilter, setDifficultyFilter] = useState("");
   const [cuisineFilter, setCuisineFilter] = useState("");
+  const [tagFilter, setTagFilter] = useState("");
+  const [collectionFilter, setCollectionFilter] = useState("");
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [maxTotalMinutes, setMaxTotalMinutes] = useState<number | null>(null);
+  const [maxCalories, setMaxCalories] = useState<number | null>(null);
+  const [minServings, setMinServings] = useState<number | null>(null);
+  const [sortOption, setSortOption] = useState<RecipeSortOption | "">("");
+  const [organizeError, setOrganizeError] = useState<string | null>(null);
   const [deleteError, setDeleteError] = useState<string | null>(null);
   const [selectedRecipeId, setSelectedRecipeId] = useState<string | null>(null);
-  const [recipeToDelete, setRecipeToDelete] = useState<Recipe | null>(null);
+  const [recentlyTrashed, setRecentlyTrashed] = useState<Recipe[] | null>(null);
 
   const {
     data: recipes,
     isLoading,
+    isLoadingMore,
+    hasMore,
+    loadMore,
     error: loadError,
     setData: setRecipes,
     refetch,
-  } = useFirestoreQuery({
-    queryFn: getUserRecipes,
-    userId,
-    errorMessage: "Failed to load recipes. Please refresh the page.",
+  } = usePaginatedRecipes({ userId, live });
+  const bulk = useRecipeBulkActions({
+    recipes,
+    setRecipes,
+    onTrashed: setRecentlyTrashed,
   });
 
+  useEffect(() => {
+    if (!userId) return;
+    // Failures are logged by the db layer and retried on the next visit
+    purgeExpiredTrash(userId).catch(() => undefined);
+  }, [userId]);
+
+  const needsFullLibrary = requiresFullRecipeLibrary(
+    {
+      searchTerm,
+      difficulty: difficultyFilter,
+      cuisine: cuisineFilter,
+      tag: tagFilter,
+      collection: collectionFilter,
+      favoritesOnly,
+      maxTotalMinutes,
+      maxCalories,
+      minServings,
+    },
+    sortOption
+  );
+
+  // Load one page after another until the whole library is in; a failed
+  // page sets loadError and stops the chain
+  useEffect(() => {
+    if (!needsFullLibrary || !hasMore || isLoadingMore || loadError) return;
+    void loadMore();
+  }, [hasMore, isLoadingMore, loadError, loadMore, needsFullLibrary]);
+
+  const searchIndex = useMemo(
+    () => buildRecipeSearchIndex(recipes ?? []),
+    [recipes]
+  );
+
+  const searchResults = useMemo(
+    () => (searchTerm.trim() ? searchRecipeIndex(searchIndex, searchTerm) : null),
+    [searchIndex, searchTerm]
+  );
+
+  const highlightTerms = useMemo(
+    () => new Set(searchResults?.flatMap((result) => result.matchedTerms)),
+    [searchResults]
+  );
+
   const filteredRecipes = useMemo(
     () =>
-      filterRecipes(recipes, {
-        searchTerm,
-        difficulty: difficultyFilter,
-        cuisine: cuisineFilter,
-      }),
-    [cuisineFilter, difficultyFilter, recipes, searchTerm]
+      sortRecipes(
+        filterRecipes(searchResults?.map((result) => result.recipe) ?? recipes, {
+          difficulty: difficultyFilter,
+          cuisine: cuisineFilter,
+          tag: tagFilter,
+          collection: collectionFilter,
+          favoritesOnly,
+          maxTotalMinutes,
+          maxCalories,
+          minServings,
+        }),
+        sortOption
+      ),
+    [
+      collectionFilter,
+      cuisineFilter,
+      difficultyFilter,
+      favoritesOnly,
+      maxCalories,
+      maxTotalMinutes,
+      minServings,
+      recipes,
+      searchResults,
+      sortOption,
+      tagFilter,
+    ]
   );
 
   const difficultyOptions = useMemo(
@@ -88,6 +221,13 @@ export function useSavedRecipes({
     [recipes]
   );
 
+  const tagOptions = useMemo(() => getRecipeLabelOptions(recipes, "tags"), [recipes]);
+
+  const collectionOptions = useMemo(
+    () => getRecipeLabelOptions(recipes, "collections"),
+    [recipes]
+  );
+
   const selectedRecipe = useMemo(
     () => recipes?.find((recipe) => recipe.id === selectedRecipeId) ?? null,
     [recipes, selectedRecipeId]
@@ -97,85 +237,146 @@ export function useSavedRecipes({
     setSelectedRecipeId(recipe.id);
   }, []);
 
-  const requestDeleteRecipe = useCallback((recipe: Recipe): void => {
-    setRecipeToDelete(recipe);
-  }, []);
-
-  const cancelDeleteRecipe = useCallback((): void => {
-    setRecipeToDelete(null);
-  }, []);
-
   const clearFilters = useCallback((): void => {
     setSearchTerm("");
     setDifficultyFilter("");
     setCuisineFilter("");
+    setTagFilter("");
+    setCollectionFilter("");
+    setFavoritesOnly(false);
+    setMaxTotalMinutes(null);
+    setMaxCalories(null);
+    setMinServings(null);
   }, []);
 
-  const confirmDeleteRecipe = useCallback(async (): Promise<void> => {
-    if (!recipeToDelete) return;
+  const replaceRecipe = useCallback(
+    (updatedRecipe: Recipe): void => {
+      setRecipes((currentRecipes) =>
+        currentRecipes?.map((recipe) =>
+          recipe.id === updatedRecipe.id ? updatedRecipe : recipe
+        ) ?? null
+      );
+    },
+    [setRecipes]
+  );
 
-    const recipeId = recipeToDelete.id;
-    const deletedRecipe = recipeToDelete;
+  const organizeRecipe = useCallback(
+    async (recipe: Recipe, updates: RecipeOrganizationUpdate): Promise<void> => {
+      setOrganizeError(null);
+      replaceRecipe({ ...recipe, ...updates });
 
-    setDeleteError(null);
-    setRecipeToDelete(null);
-    setSelectedRecipeId((currentId) =>
-      currentId === recipeId ? null : currentId
-    );
+      try {
+        replaceRecipe(await organizeRecipeInDatabase(recipe, updates));
+      } catch (error) {
+        replaceRecipe(recipe);
+        setOrganizeError(
+          convertErrorToMessage(error, ERROR_MESSAGES.RECIPE.ORGANIZE_FAILED)
+        );
+      }
+    },
+    [replaceRecipe]
+  );
 
-    setRecipes((currentRecipes) => {
-      if (!currentRecipes) return [];
-      return currentRecipes.filter((recipe) => recipe.id !== recipeId);
-    });
-
-    try {
-      await deleteRecipeFromDatabase(recipeId);
-    } catch (error) {
-      const message = convertErrorToMessage(
-        error,
-        ERROR_MESSAGES.RECIPE.DELETE_FAILED
+  const trashRecipe = useCallback(
+    async (recipe: Recipe): Promise<void> => {
+      setDeleteError(null);
+      setSelectedRecipeId((currentId) => (currentId === recipe.id ? null : currentId));
+      setRecipes(
+        (currentRecipes) => currentRecipes?.filter(({ id }) => id !== recipe.id) ?? []
       );
-      setDeleteError(message);
 
-      try {
-        await refetch();
-      } catch (refetchError) {
-        logError("Error refetching after failed delete", refetchError, {
-          recipeId,
-        });
-        setRecipes((currentRecipes) => {
-          if (!currentRecipes) return [deletedRecipe];
-          return sortRecipesByCreatedAtDesc([...currentRecipes, deletedRecipe]);
-        });
-        setDeleteError(
-          `${message} The page may be out of sync. Please refresh to see the current state.`
-        );
+      const { succeeded, failed } = await trashRecipesInDatabase([recipe]);
+      if (succeeded.length > 0) setRecentlyTrashed(succeeded);
+      if (failed.length > 0) {
+        setDeleteError(ERROR_MESSAGES.RECIPE.DELETE_FAILED);
+        // Restore locally rather than refetching, which would drop any older
+        // pages already loaded
+        setRecipes((currentRecipes) => mergeRestoredRecipes(currentRecipes, failed));
       }
+    },
+    [setRecipes]
+  );
+
+  const undoTrash = useCallback(async (): Promise<void> => {
+    if (!recentlyTrashed) return;
+
+    const toRestore = recentlyTrashed;
+    setRecentlyTrashed(null);
+    setDeleteError(null);
+    setRecipes((currentRecipes) =>
+      mergeRestoredRecipes(
+        currentRecipes,
+        toRestore.map((recipe) => ({ ...recipe, deletedAt: undefined }))
+      )
+    );
+
+    const { failed } = await restoreRecipesFromTrash(toRestore);
+    if (failed.length > 0) {
+      const failedIds = new Set(failed.map((recipe) => recipe.id));
+      setDeleteError(
+        failed.length === toRestore.length
+          ? ERROR_MESSAGES.RECIPE.RESTORE_FAILED
+          : ERROR_MESSAGES.RECIPE.BULK_RESTORE_PARTIAL
+      );
+      setRecipes(
+        (currentRecipes) =>
+          currentRecipes?.filter((recipe) => !failedIds.has(recipe.id)) ?? null
+      );
     }
-  }, [recipeToDelete, refetch, setRecipes]);
+  }, [recentlyTrashed, setRecipes]);
+
+  const dismissUndo = useCallback((): void => {
+    setRecentlyTrashed(null);
+  }, []);
 
   return {
     recipes,
     filteredRecipes,
+    highlightTerms,
     isLoading,
+    isLoadingMore,
+    hasMore,
+    isLoadingAllRecipes: needsFullLibrary && hasMore && !loadError,
+    hasPartialResults: needsFullLibrary && hasMore && Boolean(loadError),
+    loadMore,
     loadError,
     deleteError,
+    organizeError,
     searchTerm,
     setSearchTerm,
     difficultyFilter,
     setDifficultyFilter,
     cuisineFilter,
     setCuisineFilter,
+    tagFilter,
+    setTagFilter,
+    collectionFilter,
+    setCollectionFilter,
+    favoritesOnly,
+    setFavoritesOnly,
+    maxTotalMinutes,
+    setMaxTotalMinutes,
+    maxCalories,
+    setMaxCalories,
+    minServings,
+    setMinServings,
+    sortOption,
+    setSortOption,
     difficultyOptions,
     cuisineOptions,
+    tagOptions,
+    collectionOptions,
     clearFilters,
     selectedRecipe,
     selectedRecipeId,
     selectRecipe,
-    recipeToDelete,
-    requestDeleteRecipe,
-    cancelDeleteRecipe,
-    confirmDeleteRecipe,
+    trashRecipe,
+    recentlyTrashed,
+    undoTrash,
+    dismissUndo,
     refreshRecipes: refetch,
+    replaceRecipe,
+    organizeRecipe,
+    bulk,
   };
 }
@@ -0,0 +1,220 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+
+import { useFirestoreQuery } from "@/hooks/useFirestoreQuery";
+import {
+  deleteShoppingList,
+  getUserRecipes,
+  getUserShoppingLists,
+  saveShoppingList,
+  updateShoppingListItems,
+} from "@/lib/db";
+import type { Recipe } from "@/lib/schemas/recipe";
+import type { ShoppingList } from "@/lib/schemas/shopping-list";
+import { ERROR_MESSAGES, convertErrorToMessage } from "@/lib/utils/error-handler";
+import {
+  buildShoppingListDraft,
+  type ShoppingListSource,
+} from "@/lib/utils/shopping-list";
+
+interface UseShoppingListsOptions {
+  userId?: string;
+}
+
+interface UseShoppingListsReturn {
+  recipes: Recipe[] | null;
+  shoppingLists: ShoppingList[] | null;
+  isLoading: boolean;
+  loadError: string | null;
+  actionError: string | null;
+  /** Selected recipe ids mapped to target servings (null keeps saved servings). */
+  selectedServings: Record<string, number | null>;
+  toggleRecipe: (recipe: Recipe) => void;
+  setRecipeServings: (recipeId: string, servings: number) => void;
+  isCreating: boolean;
+  createShoppingList: () => Promise<void>;
+  selectedList: ShoppingList | null;
+  selectList: (list: ShoppingList) => void;
+  toggleItemChecked: (itemId: string) => Promise<void>;
+  listToDelete: ShoppingList | null;
+  requestDeleteList: (list: ShoppingList) => void;
+  cancelDeleteList: () => void;
+  confirmDeleteList: () => Promise<void>;
+}
+
+/**
+ * Orchestrates recipe selection, shopping list creation, check-off, and deletion.
+ * Check-off is optimistic and rolls back if the update fails.
+ */
+export function useShoppingLists({
+  userId,
+}: UseShoppingListsOptions): UseShoppingListsReturn {
+  const [selectedServings, setSelectedServings] = useState<
+    Record<string, number | null>
+  >({});
+  const [selectedListId, setSelectedListId] = useState<string | null>(null);
+  const [listToDelete, setListToDelete] = useState<ShoppingList | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const {
+    data: recipes,
+    isLoading: isLoadingRecipes,
+    error: recipesError,
+  } = useFirestoreQuery({
+    queryFn: getUserRecipes,
+    userId,
+    errorMessage: "Failed to load recipes. Please refresh the page.",
+  });
+
+  const {
+    data: shoppingLists,
+    isLoading: isLoadingLists,
+    error: listsError,
+    setData: setShoppingLists,
+  } = useFirestoreQuery({
+    queryFn: getUserShoppingLists,
+    userId,
+    errorMessage: "Failed to load shopping lists. Please refresh the page.",
+  });
+
+  const selectedList = useMemo(
+    () =>
+      shoppingLists?.find((list) => list.id === selectedListId) ??
+      shoppingLists?.[0] ??
+      null,
+    [selectedListId, shoppingLists]
+  );
+
+  const toggleRecipe = useCallback((recipe: Recipe): void => {
+    setSelectedServings((current) => {
+      if (recipe.id in current) {
+        const { [recipe.id]: _removed, ...rest } = current;
+        return rest;
+      }
+      return { ...current, [recipe.id]: recipe.servings ?? null };
+    });
+  }, []);
+
+  const setRecipeServings = useCallback(
+    (recipeId: string, servings: number): void => {
+      setSelectedServings((current) =>
+        recipeId in current ? { ...current, [recipeId]: servings } : current
+      );
+    },
+    []
+  );
+
+  const createShoppingList = useCallback(async (): Promise<void> => {
+    if (!userId || !recipes) return;
+
+    const sources: ShoppingListSource[] = recipes
+      .filter((recipe) => recipe.id in selectedServings)
+      .map((recipe) => ({ recipe, servings: selectedServings[recipe.id] }));
+    if (sources.length === 0) {
+      setActionError(ERROR_MESSAGES.SHOPPING_LIST.NO_RECIPES_SELECTED);
+      return;
+    }
+
+    setActionError(null);
+    setIsCreating(true);
+    try {
+      const saved = await saveShoppingList({
+        userId,
+        ...buildShoppingListDraft(sources),
+      });
+      setShoppingLists((current) => [saved, ...(current ?? [])]);
+      setSelectedListId(saved.id);
+      setSelectedServings({});
+    } catch (error) {
+      setActionError(
+        convertErrorToMessage(error, ERROR_MESSAGES.SHOPPING_LIST.SAVE_FAILED)
+      );
+    } finally {
+      setIsCreating(false);
+    }
+  }, [recipes, selectedServings, setShoppingLists, userId]);
+
+  const selectList = useCallback((list: ShoppingList): void => {
+    setSelectedListId(list.id);
+  }, []);
+
+  const toggleItemChecked = useCallback(
+    async (itemId: string): Promise<void> => {
+      if (!selectedList) return;
+
+      const listId = selectedList.id;
+      const previousItems = selectedList.items;
+      const nextItems = previousItems.map((item) =>
+        item.id === itemId ? { ...item, checked: !item.checked } : item
+      );
+      const replaceItems = (items: ShoppingList["items"]) =>
+        setShoppingLists((current) =>
+          (current ?? []).map((list) =>
+            list.id === listId ? { ...list, items } : list
+          )
+        );
+
+      setActionError(null);
+      replaceItems(nextItems);
+      try {
+        await updateShoppingListItems(listId, nextItems);
+      } catch (error) {
+        replaceItems(previousItems);
+        setActionError(
+          convertErrorToMessage(error, ERROR_MESSAGES.SHOPPING_LIST.UPDATE_FAILED)
+        );
+      }
+    },
+    [selectedList, setShoppingLists]
+  );
+
+  const requestDeleteList = useCallback((list: ShoppingList): void => {
+    setListToDelete(list);
+  }, []);
+
+  const cancelDeleteList = useCallback((): void => {
+    setListToDelete(null);
+  }, []);
+
+  const confirmDeleteList = useCallback(async (): Promise<void> => {
+    if (!listToDelete) return;
+
+    const deletedList = listToDelete;
+    setListToDelete(null);
+    setActionError(null);
+    setShoppingLists((current) =>
+      (current ?? []).filter((list) => list.id !== deletedList.id)
+    );
+
+    try {
+      await deleteShoppingList(deletedList.id);
+    } catch (error) {
+      setShoppingLists((current) => [deletedList, ...(current ?? [])]);
+      setActionError(
+        convertErrorToMessage(error, ERROR_MESSAGES.SHOPPING_LIST.DELETE_FAILED)
+      );
+    }
+  }, [listToDelete, setShoppingLists]);
+
+  return {
+    recipes,
+    shoppingLists,
+    isLoading: isLoadingRecipes || isLoadingLists,
+    loadError: recipesError ?? listsError,
+    actionError,
+    selectedServings,
+    toggleRecipe,
+    setRecipeServings,
+    isCreating,
+    createShoppingList,
+    selectedList,
+    selectList,
+    toggleItemChecked,
+    listToDelete,
+    requestDeleteList,
+    cancelDeleteList,
+    confirmDeleteList,
+  };
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import { useState } from "react";
+
+import type { UnitSystem } from "@/lib/constants/domain";
+
+interface UseUnitSystemReturn {
+  unitSystem: UnitSystem | null;
+  setUnitSystem: (system: UnitSystem | null) => void;
+}
+
+/**
+ * Display unit system for a recipe view.
+ * Follows the profile preference until the user picks a different system
+ * in the view; the override is display-only and is not saved to the profile.
+ *
+ * @param preferredUnitSystem - Unit system from the user profile (null = as written)
+ */
+export function useUnitSystem(
+  preferredUnitSystem: UnitSystem | null | undefined
+): UseUnitSystemReturn {
+  const [override, setOverride] = useState<UnitSystem | null | undefined>(
+    undefined
+  );
+
+  return {
+    unitSystem: override !== undefined ? override : (preferredUnitSystem ?? null),
+    setUnitSystem: setOverride,
+  };
+}
@@ -0,0 +1,54 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { logWarning } from "@/lib/utils/logger";
+
+/**
+ * Keeps the screen awake while `enabled` is true using the Screen Wake Lock API.
+ * The browser releases the lock when the tab is hidden, so it is re-requested
+ * when the tab becomes visible again. Unsupported browsers are a no-op.
+ */
+export function useWakeLock(enabled: boolean): { isActive: boolean } {
+  const [isActive, setIsActive] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || typeof navigator === "undefined" || !("wakeLock" in navigator)) {
+      return;
+    }
+
+    let sentinel: WakeLockSentinel | null = null;
+    let isCancelled = false;
+
+    const requestLock = async (): Promise<void> => {
+      if (document.visibilityState !== "visible") return;
+      try {
+        const lock = await navigator.wakeLock.request("screen");
+        if (isCancelled) {
+          await lock.release();
+          return;
+        }
+        sentinel = lock;
+        setIsActive(true);
+        lock.addEventListener("release", () => setIsActive(false));
+      } catch (error) {
+        // Denied (e.g. battery saver); cooking still works without it
+        logWarning("Screen wake lock unavailable", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    };
+
+    void requestLock();
+    document.addEventListener("visibilitychange", requestLock);
+
+    return () => {
+      isCancelled = true;
+      document.removeEventListener("visibilitychange", requestLock);
+      void sentinel?.release();
+      setIsActive(false);
+    };
+  }, [enabled]);
+
+  return { isActive };
+}
@@ -0,0 +1,130 @@
+import { simulateReadableStream } from "ai";
+import type { LanguageModel } from "ai";
+
+import type { RecipeGeneration, RecipeRefinement } from "@/lib/schemas/recipe-generation";
+
+import { RECIPE_FIXTURES } from "./recipe-fixtures";
+
+/** Characters per streamed text delta. */
+const FIXTURE_CHUNK_SIZE = 24;
+/** Delay between deltas so the UI streams like a real provider. */
+const DEFAULT_FIXTURE_CHUNK_DELAY_MS = 15;
+
+interface FixtureRecipeModelOptions {
+  modelId?: string;
+  chunkDelayInMs?: number;
+}
+
+/** The provider-spec model shape, without pulling in the SDK's test helpers. */
+type FixtureLanguageModel = Extract<LanguageModel, { specificationVersion: "v3" }>;
+type FixtureStreamOptions = Parameters<FixtureLanguageModel["doStream"]>[0];
+type FixtureStreamPart = NonNullable<
+  Awaited<ReturnType<FixtureLanguageModel["doStream"]>>["stream"] extends ReadableStream<
+    infer Part
+  >
+    ? Part
+    : never
+>;
+
+function hashPrompt(prompt: string): number {
+  let hash = 0;
+  for (let index = 0; index < prompt.length; index++) {
+    hash = (hash * 31 + prompt.charCodeAt(index)) >>> 0;
+  }
+  return hash;
+}
+
+function getUserPromptText(options: FixtureStreamOptions): string {
+  return options.prompt
+    .filter((message) => message.role === "user")
+    .flatMap((message) => message.content)
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join("\n");
+}
+
+/** Refinement requests ask for `{ recipe, changes }` rather than a bare recipe. */
+function isRefinementRequest(options: FixtureStreamOptions): boolean {
+  const format = options.responseFormat;
+  if (format?.type !== "json" || !format.schema) return false;
+  const properties = (format.schema as { properties?: Record<string, unknown> }).properties;
+  return properties != null && "changes" in properties;
+}
+
+/**
+ * Wraps a canned recipe as a refinement. Fixtures cannot apply the request,
+ * so the changelog says so.
+ */
+function buildFixtureRefinement(fixture: RecipeGeneration): RecipeRefinement {
+  return {
+    recipe: fixture,
+    changes: ["Offline fixture: returned a canned recipe instead of applying the change."],
+  };
+}
+
+/**
+ * Picks a canned recipe for a prompt. The same prompt always yields the same recipe.
+ */
+export function selectRecipeFixture(prompt: string): RecipeGeneration {
+  return RECIPE_FIXTURES[hashPrompt(prompt.trim()) % RECIPE_FIXTURES.length];
+}
+
+function buildFixtureStreamParts(
+  fixture: RecipeGeneration | RecipeRefinement
+): FixtureStreamPart[] {
+  const json = JSON.stringify(fixture);
+  const deltas: FixtureStreamPart[] = [];
+  for (let index = 0; index < json.length; index += FIXTURE_CHUNK_SIZE) {
+    deltas.push({
+      type: "text-delta",
+      id: "fixture",
+      delta: json.slice(index, index + FIXTURE_CHUNK_SIZE),
+    });
+  }
+
+  return [
+    { type: "stream-start", warnings: [] },
+    { type: "text-start", id: "fixture" },
+    ...deltas,
+    { type: "text-end", id: "fixture" },
+    {
+      type: "finish",
+      finishReason: { unified: "stop", raw: undefined },
+      usage: {
+        inputTokens: { total: 0, noCache: 0, cacheRead: 0, cacheWrite: 0 },
+        outputTokens: { total: 0, text: 0, reasoning: 0 },
+      },
+    },
+  ];
+}
+
+/**
+ * Deterministic offline language model that streams canned recipes as JSON text
+ * (wrapped with a changelog for refinement requests).
+ * Runs through the same streamObject pipeline as real providers, so generate →
+ * save works without network access or API keys.
+ */
+export function createFixtureRecipeModel({
+  modelId = "recipes",
+  chunkDelayInMs = DEFAULT_FIXTURE_CHUNK_DELAY_MS,
+}: FixtureRecipeModelOptions = {}): LanguageModel {
+  return {
+    specificationVersion: "v3",
+    provider: "fixture",
+    modelId,
+    supportedUrls: {},
+    doGenerate: async () => {
+      throw new Error("The fixture provider only supports streaming");
+    },
+    doStream: async (options) => {
+      const fixture = selectRecipeFixture(getUserPromptText(options));
+      return {
+        stream: simulateReadableStream({
+          chunks: buildFixtureStreamParts(
+            isRefinementRequest(options) ? buildFixtureRefinement(fixture) : fixture
+          ),
+          chunkDelayInMs,
+        }),
+      };
+    },
+  } satisfies FixtureLanguageModel;
+}
@@ -0,0 +1,103 @@
+import { streamObject } from "ai";
+import { describe, expect, it } from "vitest";
+
+import {
+  recipeGenerationSchema,
+  recipeRefinementSchema,
+} from "@/lib/schemas/recipe-generation";
+import { AppError } from "@/lib/utils/error-handler";
+
+import { createFixtureRecipeModel, selectRecipeFixture } from "./fixture-model";
+import { getAiProviderConfig, resolveRecipeModel } from "./providers";
+import { RECIPE_FIXTURES } from "./recipe-fixtures";
+
+describe("getAiProviderConfig", () => {
+  it("defaults to OpenAI gpt-4o", () => {
+    expect(getAiProviderConfig({})).toEqual({
+      provider: "openai",
+      modelId: "gpt-4o",
+    });
+  });
+
+  it("reads provider and model overrides", () => {
+    expect(
+      getAiProviderConfig({ AI_PROVIDER: " Anthropic ", AI_MODEL: "claude-haiku-4-5" })
+    ).toEqual({ provider: "anthropic", modelId: "claude-haiku-4-5" });
+    expect(getAiProviderConfig({ AI_PROVIDER: "ollama" }).modelId).toBe("llama3.1");
+  });
+
+  it("rejects unknown providers", () => {
+    expect(() => getAiProviderConfig({ AI_PROVIDER: "palm" })).toThrow(AppError);
+  });
+});
+
+describe("resolveRecipeModel", () => {
+  it("requires the hosted provider API key", () => {
+    expect(() => resolveRecipeModel({ AI_PROVIDER: "openai" })).toThrow(
+      expect.objectContaining({ code: "AI_PROVIDER_NOT_CONFIGURED" })
+    );
+    expect(() => resolveRecipeModel({ AI_PROVIDER: "anthropic" })).toThrow(
+      expect.objectContaining({ code: "AI_PROVIDER_NOT_CONFIGURED" })
+    );
+  });
+
+  it("resolves keyless providers", () => {
+    expect(resolveRecipeModel({ AI_PROVIDER: "fixture" })).toMatchObject({
+      provider: "fixture",
+    });
+    expect(resolveRecipeModel({ AI_PROVIDER: "ollama" })).toMatchObject({
+      modelId: "llama3.1",
+    });
+  });
+});
+
+describe("fixture provider", () => {
+  it("only ships fixtures that match the generation schema", () => {
+    for (const fixture of RECIPE_FIXTURES) {
+      expect(recipeGenerationSchema.safeParse(fixture).success).toBe(true);
+    }
+  });
+
+  it("selects the same fixture for the same prompt", () => {
+    expect(selectRecipeFixture("roast chicken")).toBe(
+      selectRecipeFixture(" roast chicken ")
+    );
+  });
+
+  it("streams partial objects ending in the selected fixture", async () => {
+    const result = streamObject({
+      model: createFixtureRecipeModel({ chunkDelayInMs: 0 }),
+      schema: recipeGenerationSchema,
+      system: "system prompt",
+      prompt: "cookies",
+    });
+
+    const partials: unknown[] = [];
+    for await (const partial of result.partialObjectStream) {
+      partials.push(partial);
+    }
+
+    expect(partials.length).toBeGreaterThan(1);
+    expect(partials.at(-1)).toEqual(selectRecipeFixture("cookies"));
+    await expect(result.object).resolves.toEqual(selectRecipeFixture("cookies"));
+  });
+
+  it("wraps the fixture with a changelog for refinement requests", async () => {
+    const result = streamObject({
+      model: createFixtureRecipeModel({ chunkDelayInMs: 0 }),
+      schema: recipeRefinementSchema,
+      system: "system prompt",
+      messages: [{ role: "user", content: "make it spicier" }],
+    });
+
+    const partials: unknown[] = [];
+    for await (const partial of result.partialObjectStream) {
+      partials.push(partial);
+    }
+
+    expect(partials.length).toBeGreaterThan(1);
+    const refinement = await result.object;
+    expect(refinement.recipe).toEqual(selectRecipeFixture("make it spicier"));
+    expect(refinement.changes).toHaveLength(1);
+  });
+});
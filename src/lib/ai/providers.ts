@@ -0,0 +1,118 @@
+/**
+ * AI provider registry for recipe generation.
+ *
+ * The provider is chosen by environment configuration:
+ * - AI_PROVIDER: "openai" (default), "anthropic", "ollama", or "fixture"
+ * - AI_MODEL: optional model id override (defaults per provider below)
+ * - OPENAI_API_KEY / ANTHROPIC_API_KEY: required by the hosted providers
+ * - OLLAMA_BASE_URL: OpenAI-compatible Ollama endpoint (default http://localhost:11434/v1)
+ *
+ * "fixture" streams canned recipes without network access (offline dev and tests).
+ */
+
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createOpenAI } from "@ai-sdk/openai";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import type { LanguageModel } from "ai";
+
+import { AppError, ERROR_MESSAGES } from "@/lib/utils/error-handler";
+
+import { createFixtureRecipeModel } from "./fixture-model";
+
+export const AI_PROVIDER_IDS = ["openai", "anthropic", "ollama", "fixture"] as const;
+
+export type AiProviderId = (typeof AI_PROVIDER_IDS)[number];
+
+type AiEnvironment = Record<string, string | undefined>;
+
+interface AiProviderDefinition {
+  defaultModelId: string;
+  /** Environment variable that must be set before the provider can be used. */
+  requiredEnv: string | null;
+  createModel: (modelId: string, env: AiEnvironment) => LanguageModel;
+}
+
+export interface AiProviderConfig {
+  provider: AiProviderId;
+  modelId: string;
+}
+
+const DEFAULT_AI_PROVIDER: AiProviderId = "openai";
+const DEFAULT_OLLAMA_BASE_URL = "http://localhost:11434/v1";
+
+const AI_PROVIDERS: Record<AiProviderId, AiProviderDefinition> = {
+  openai: {
+    defaultModelId: "gpt-4o",
+    requiredEnv: "OPENAI_API_KEY",
+    createModel: (modelId, env) =>
+      createOpenAI({ apiKey: env.OPENAI_API_KEY })(modelId),
+  },
+  anthropic: {
+    defaultModelId: "claude-sonnet-4-5",
+    requiredEnv: "ANTHROPIC_API_KEY",
+    createModel: (modelId, env) =>
+      createAnthropic({ apiKey: env.ANTHROPIC_API_KEY })(modelId),
+  },
+  ollama: {
+    defaultModelId: "llama3.1",
+    requiredEnv: null,
+    createModel: (modelId, env) =>
+      createOpenAICompatible({
+        name: "ollama",
+        baseURL: env.OLLAMA_BASE_URL || DEFAULT_OLLAMA_BASE_URL,
+        supportsStructuredOutputs: true,
+      })(modelId),
+  },
+  fixture: {
+    defaultModelId: "recipes",
+    requiredEnv: null,
+    createModel: (modelId) => createFixtureRecipeModel({ modelId }),
+  },
+};
+
+function isAiProviderId(value: string): value is AiProviderId {
+  return (AI_PROVIDER_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Reads the provider and model id from the environment.
+ * @throws {AppError} When AI_PROVIDER names an unknown provider
+ */
+export function getAiProviderConfig(
+  env: AiEnvironment = process.env
+): AiProviderConfig {
+  const provider = env.AI_PROVIDER?.trim().toLowerCase() || DEFAULT_AI_PROVIDER;
+  if (!isAiProviderId(provider)) {
+    throw new AppError(
+      ERROR_MESSAGES.RECIPE.GENERATION_UNAVAILABLE,
+      "AI_PROVIDER_UNKNOWN",
+      { provider }
+    );
+  }
+
+  return {
+    provider,
+    modelId: env.AI_MODEL?.trim() || AI_PROVIDERS[provider].defaultModelId,
+  };
+}
+
+/**
+ * Resolves the configured language model for recipe generation.
+ * @throws {AppError} When the provider is unknown or missing its API key
+ */
+export function resolveRecipeModel(
+  env: AiEnvironment = process.env
+): LanguageModel {
+  const { provider, modelId } = getAiProviderConfig(env);
+  const definition = AI_PROVIDERS[provider];
+
+  if (definition.requiredEnv && !env[definition.requiredEnv]) {
+    throw new AppError(
+      ERROR_MESSAGES.RECIPE.GENERATION_UNAVAILABLE,
+      "AI_PROVIDER_NOT_CONFIGURED",
+      { provider }
+    );
+  }
+
+  return definition.createModel(modelId, env);
+}
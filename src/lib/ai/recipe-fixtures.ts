@@ -0,0 +1,86 @@
+import type { RecipeGeneration } from "@/lib/schemas/recipe-generation";
+
+/**
+ * Canned recipes served by the offline fixture provider.
+ * Each entry must satisfy recipeGenerationSchema (enforced in tests).
+ */
+export const RECIPE_FIXTURES: readonly RecipeGeneration[] = [
+  {
+    title: "Lemon Garlic Roast Chicken",
+    preparationTime: "15 mins",
+    cookingTime: "1 hr 15 mins",
+    servings: 4,
+    difficulty: "Moderate",
+    ingredients: [
+      { quantity: 1, unit: null, item: "whole chicken (about 1.8 kg)", preparation: "patted dry", optional: false, group: null },
+      { quantity: 2, unit: "tbsp", item: "olive oil", preparation: null, optional: false, group: null },
+      { quantity: 1, unit: null, item: "lemon", preparation: "halved", optional: false, group: null },
+      { quantity: 6, unit: "cloves", item: "garlic", preparation: "smashed", optional: false, group: null },
+      { quantity: 4, unit: "sprigs", item: "fresh thyme", preparation: null, optional: true, group: null },
+      { quantity: 1, unit: "tsp", item: "salt", preparation: null, optional: false, group: null },
+      { quantity: 0.5, unit: "tsp", item: "black pepper", preparation: "freshly ground", optional: false, group: null },
+    ],
+    instructions: [
+      "Preheat the oven to 425°F.",
+      "Rub the chicken all over with olive oil, salt, and pepper.",
+      "Stuff the cavity with the lemon halves, garlic, and thyme.",
+      "Roast for 1 hour 15 minutes, until the juices run clear.",
+      "Rest for 10 minutes before carving.",
+    ],
+    tips: ["Let the chicken come to room temperature for 30 minutes before roasting for even cooking."],
+    calories: 520,
+    macros: { protein: "45g", carbs: "3g", fat: "36g", sodium: "780mg" },
+  },
+  {
+    title: "Vegetable Fried Rice",
+    preparationTime: "10 mins",
+    cookingTime: "15 mins",
+    servings: 2,
+    difficulty: "Easy",
+    ingredients: [
+      { quantity: 2, unit: "cups", item: "cooked rice", preparation: "chilled", optional: false, group: null },
+      { quantity: 2, unit: null, item: "eggs", preparation: "beaten", optional: false, group: null },
+      { quantity: 1, unit: "cup", item: "frozen peas and carrots", preparation: null, optional: false, group: null },
+      { quantity: 3, unit: null, item: "green onions", preparation: "sliced", optional: false, group: null },
+      { quantity: 2, unit: "tbsp", item: "soy sauce", preparation: null, optional: false, group: "Sauce" },
+      { quantity: 1, unit: "tsp", item: "sesame oil", preparation: null, optional: false, group: "Sauce" },
+      { quantity: 1, unit: "tbsp", item: "vegetable oil", preparation: null, optional: false, group: null },
+    ],
+    instructions: [
+      "Whisk the soy sauce and sesame oil together.",
+      "Heat the vegetable oil in a wok over high heat and scramble the eggs; set aside.",
+      "Stir-fry the peas and carrots for 2 minutes.",
+      "Add the rice and stir-fry for 5 minutes until lightly crisp.",
+      "Return the eggs, add the sauce and green onions, and toss to combine.",
+    ],
+    tips: ["Day-old rice fries best because it has dried out slightly."],
+    calories: 430,
+    macros: { protein: "14g", carbs: "62g", fat: "14g", sodium: "520mg" },
+  },
+  {
+    title: "Classic Chocolate Chip Cookies",
+    preparationTime: "15 mins",
+    cookingTime: "12 mins",
+    servings: 12,
+    difficulty: "Easy",
+    ingredients: [
+      { quantity: 2.25, unit: "cups", item: "all-purpose flour", preparation: null, optional: false, group: null },
+      { quantity: 1, unit: "tsp", item: "baking soda", preparation: null, optional: false, group: null },
+      { quantity: 1, unit: "cup", item: "butter", preparation: "softened", optional: false, group: null },
+      { quantity: 0.75, unit: "cup", item: "sugar", preparation: null, optional: false, group: null },
+      { quantity: 0.75, unit: "cup", item: "brown sugar", preparation: "packed", optional: false, group: null },
+      { quantity: 2, unit: null, item: "eggs", preparation: null, optional: false, group: null },
+      { quantity: 2, unit: "cups", item: "chocolate chips", preparation: null, optional: false, group: null },
+    ],
+    instructions: [
+      "Preheat the oven to 375°F.",
+      "Cream the butter with both sugars until fluffy, then beat in the eggs.",
+      "Mix in the flour and baking soda, then fold in the chocolate chips.",
+      "Drop rounded tablespoons onto a baking sheet.",
+      "Bake for 10 to 12 minutes until golden at the edges.",
+    ],
+    tips: ["Chill the dough for an hour for thicker cookies."],
+    calories: 390,
+    macros: { protein: "4g", carbs: "52g", fat: "20g", sodium: "210mg" },
+  },
+];
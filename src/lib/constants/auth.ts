@@ -46,7 +46,14 @@ export const LEGACY_FIREBASE_AUTH_COOKIE = "firebaseAuth" as const;
  * Private routes that require authentication.
  * Used by proxy.ts for route protection.
  */
-export const PRIVATE_ROUTES = ["/generate", "/profile", "/saved"] as const;
+export const PRIVATE_ROUTES = [
+  "/generate",
+  "/profile",
+  "/saved",
+  "/plan",
+  "/pantry",
+  "/shopping-list",
+] as const;
 
 /**
  * Public authentication pages.
@@ -0,0 +1,14 @@
+/**
+ * Cook mode constants.
+ * Used by the full-screen step-by-step view on generate and saved recipes.
+ */
+
+/** localStorage key prefix; full key is `${PREFIX}${recipeKey}`. */
+export const COOK_PROGRESS_KEY_PREFIX = "bakemeai_cook_progress_" as const;
+
+export const COOK_MODE = {
+  /** How often running timers re-render, in milliseconds. */
+  TIMER_TICK_MS: 1000,
+  /** Longest duration offered as a timer (anything longer is not a timer step). */
+  MAX_TIMER_SECONDS: 24 * 60 * 60,
+} as const;
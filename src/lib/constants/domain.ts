@@ -6,6 +6,22 @@
  * - Dietary: Dietary options and preferences
  * - Cuisines: Available cuisine types
  * - Experience: Cooking experience levels
+ * - Units: Measurement systems for recipe display
+ * - Candidates: How many recipes one generation can compare
+ * - Refinement: Conversational refinement limits
+ * - Allergens: What happens when a generated recipe fails the allergen check
+ * - Household: Household member limits and diet strictness for merging
+ * - Nutrition: Daily nutrition target limits and the per-meal split
+ * - Aisles: Store aisles for shopping lists
+ * - Meals: Meal planner slots
+ * - Pantry: Pantry inventory limits
+ * - Import: Recipe file import limits
+ * - Organization: Saved recipe tag and collection limits
+ * - Photos: Recipe photo limits and client-side compression
+ * - Search: Saved library relevance weights and fuzzy matching
+ * - Library: Saved library sort orders, range filter presets, page size, and bulk batches
+ * - Trash: Retention of deleted recipes before they are purged
+ * - Account: Account deletion safeguards
  */
 
 /**
@@ -14,7 +30,17 @@
  */
 export const COLLECTIONS = {
   RECIPES: "recipes",
+  /** Subcollection of each recipe holding prior versions. */
+  RECIPE_VERSIONS: "versions",
   USER_PROFILES: "userProfiles",
+  /** Server-only rate-limit counters (firebase-admin); no client access. */
+  RATE_LIMITS: "rateLimits",
+  SHOPPING_LISTS: "shoppingLists",
+  MEAL_PLANS: "mealPlans",
+  /** One document per user; document id is the UID. */
+  PANTRIES: "pantries",
+  /** Public read-only snapshots; document id is the share id. */
+  SHARED_RECIPES: "sharedRecipes",
 } as const;
 
 export const DIETARY_OPTIONS = [
@@ -46,3 +72,201 @@ export const EXPERIENCE_LEVELS = [
 ] as const;
 
 export type CookingExperience = (typeof EXPERIENCE_LEVELS)[number]["value"];
+
+/**
+ * Measurement systems a recipe can be displayed in.
+ * A profile without a unit system shows recipes as written.
+ */
+export const UNIT_SYSTEMS = [
+  { value: "us", label: "US customary" },
+  { value: "metric", label: "Metric" },
+  { value: "imperial", label: "UK imperial" },
+] as const;
+
+export type UnitSystem = (typeof UNIT_SYSTEMS)[number]["value"];
+
+/** Label for showing a recipe in its original units (no unit system). */
+export const UNITS_AS_WRITTEN_LABEL = "As written";
+
+/**
+ * Candidate recipes per generation. Each candidate counts as one generation
+ * against the rate limits; 1 is the normal single-recipe flow.
+ */
+export const RECIPE_CANDIDATES = {
+  MIN_COUNT: 1,
+  MAX_COUNT: 4,
+  OPTIONS: [1, 2, 3, 4],
+  /** Ingredients listed on each comparison card. */
+  KEY_INGREDIENT_COUNT: 5,
+} as const;
+
+/**
+ * Conversational refinement of a generated recipe. Each turn counts as one
+ * generation; the cap keeps the conversation sent with each turn bounded.
+ */
+export const RECIPE_REFINEMENT = {
+  MAX_TURNS: 10,
+} as const;
+
+/**
+ * Responses to a generated recipe containing one of the user's allergies.
+ * Dislikes are always shown as a warning only.
+ */
+export const ALLERGEN_ACTIONS = [
+  { value: "warn", label: "Warn me" },
+  { value: "block", label: "Block saving" },
+  { value: "regenerate", label: "Regenerate automatically" },
+] as const;
+
+export type AllergenAction = (typeof ALLERGEN_ACTIONS)[number]["value"];
+
+export const ALLERGEN_CHECK = {
+  /** Automatic retries before falling back to blocking the save. */
+  MAX_AUTO_REGENERATIONS: 2,
+} as const;
+
+export const HOUSEHOLD = {
+  MAX_MEMBERS: 8,
+  MAX_NAME_LENGTH: 40,
+  /** Portions one member can count for (e.g. 2 for a big eater). */
+  MAX_MEMBER_SERVINGS: 4,
+} as const;
+
+/**
+ * Diets where each allows everything the previous one does, strictest first.
+ * When several eaters follow diets from this chain, only the strictest applies.
+ */
+export const DIET_STRICTNESS_ORDER = ["Vegan", "Vegetarian", "Pescatarian"] as const;
+
+export const NUTRITION_TARGETS = {
+  /** Generation aims each serving at this share of the daily targets. */
+  MEALS_PER_DAY: 3,
+  MAX_CALORIES: 10_000,
+  /** Upper bound for protein, carbs, and fat targets, in grams. */
+  MAX_MACRO_GRAMS: 1000,
+  MAX_SODIUM_MG: 10_000,
+} as const;
+
+/**
+ * Store aisles used to group shopping list items, in walking order.
+ */
+export const SHOPPING_AISLES = [
+  "Produce",
+  "Meat & Seafood",
+  "Dairy & Eggs",
+  "Bakery",
+  "Pantry",
+  "Spices & Seasonings",
+  "Frozen",
+  "Beverages",
+  "Other",
+] as const;
+
+export type ShoppingAisle = (typeof SHOPPING_AISLES)[number];
+
+/**
+ * Meal planner slots, in display order.
+ */
+export const MEAL_SLOTS = [
+  { value: "breakfast", label: "Breakfast" },
+  { value: "lunch", label: "Lunch" },
+  { value: "dinner", label: "Dinner" },
+] as const;
+
+export type MealSlot = (typeof MEAL_SLOTS)[number]["value"];
+
+export const PANTRY = {
+  /** Items expiring within this many days count as "expiring soon". */
+  EXPIRING_SOON_DAYS: 3,
+  MAX_ITEMS: 200,
+  MAX_NAME_LENGTH: 80,
+} as const;
+
+export const RECIPE_IMPORT = {
+  /** Largest JSON-LD file accepted for import, in bytes. */
+  MAX_FILE_BYTES: 1_000_000,
+  /** schema.org has no difficulty field; imported recipes start here. */
+  DEFAULT_DIFFICULTY: "Moderate",
+} as const;
+
+export const RECIPE_ORGANIZATION = {
+  MAX_TAGS: 20,
+  MAX_COLLECTIONS: 10,
+  MAX_LABEL_LENGTH: 40,
+} as const;
+
+export const RECIPE_PHOTOS = {
+  MAX_PER_RECIPE: 8,
+  /** Largest original accepted before resizing, in bytes. */
+  MAX_SOURCE_BYTES: 25_000_000,
+  /** Longest edge after resizing, in pixels. */
+  MAX_DIMENSION: 1600,
+  /** JPEG quality for uploads (0-1). */
+  JPEG_QUALITY: 0.82,
+} as const;
+
+export const RECIPE_SEARCH = {
+  /** Relevance weight of a term occurrence in each indexed field. */
+  FIELD_WEIGHTS: {
+    title: 5,
+    cuisine: 3,
+    tags: 3,
+    ingredients: 3,
+    tips: 1,
+    instructions: 1,
+  },
+  /** Score multipliers for inexact term matches (exact = 1). */
+  PREFIX_MATCH_WEIGHT: 0.8,
+  FUZZY_MATCH_WEIGHT: 0.5,
+  /** Shortest query terms allowed one and two typos respectively. */
+  FUZZY_ONE_EDIT_MIN_LENGTH: 4,
+  FUZZY_TWO_EDITS_MIN_LENGTH: 8,
+} as const;
+
+/**
+ * Saved library sort orders. With no explicit sort the library keeps its
+ * natural order: best match while searching, otherwise newest first.
+ */
+export const RECIPE_SORT_OPTIONS = [
+  { value: "newest", label: "Newest first" },
+  { value: "oldest", label: "Oldest first" },
+  { value: "title", label: "Title (A–Z)" },
+  { value: "totalTime", label: "Quickest first" },
+  { value: "calories", label: "Fewest calories" },
+  { value: "difficulty", label: "Easiest first" },
+] as const;
+
+export type RecipeSortOption = (typeof RECIPE_SORT_OPTIONS)[number]["value"];
+
+/** Preset bounds offered by the saved library range filters. */
+export const RECIPE_RANGE_FILTERS = {
+  MAX_TOTAL_MINUTES: [15, 30, 45, 60, 90],
+  MAX_CALORIES: [300, 500, 700],
+  MIN_SERVINGS: [2, 4, 6],
+} as const;
+
+export const RECIPE_PAGINATION = {
+  /** Recipes per page; in live mode, the size of the subscribed newest page. */
+  PAGE_SIZE: 24,
+} as const;
+
+export const RECIPE_BULK = {
+  /**
+   * Recipes per Firestore write batch in bulk actions. A delete writes the
+   * recipe and its share link, so this stays under half the 500-write limit.
+   */
+  MAX_RECIPES_PER_BATCH: 200,
+} as const;
+
+export const RECIPE_TRASH = {
+  /** Days a deleted recipe stays restorable before it is purged for good. */
+  RETENTION_DAYS: 30,
+} as const;
+
+export const ACCOUNT_DELETION = {
+  /**
+   * Firebase Auth only deletes users who signed in recently; checking first
+   * avoids wiping data and then failing to remove the account.
+   */
+  RECENT_SIGN_IN_MS: 5 * 60 * 1000,
+} as const;
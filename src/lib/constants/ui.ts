@@ -13,6 +13,8 @@ export const FORM_VALIDATION = {
 /** All durations in milliseconds */
 export const UI_TIMING = {
   SUCCESS_MESSAGE_DURATION: 3000,
+  /** How long an "Undo" toast stays up after a destructive action */
+  UNDO_TOAST_DURATION: 8000,
   SEARCH_DEBOUNCE: 300,
   DEFAULT_TRANSITION: 200,
   LONG_TRANSITION: 500,
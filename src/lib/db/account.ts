@@ -0,0 +1,112 @@
+/**
+ * Firestore and Storage operations that span a whole account.
+ *
+ * NAMING CONVENTIONS:
+ * - delete*: Deletion operations (deleteUserFirestoreData, deleteUserStorageFiles)
+ *
+ * ERROR HANDLING CONTRACT:
+ * - All functions throw errors on failure (never return error objects)
+ * - Callers MUST use try-catch blocks
+ * - Errors are logged internally before being thrown
+ * - User-friendly messages are included in thrown Error objects
+ */
+
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import type { DocumentReference } from "firebase/firestore";
+import { deleteObject, listAll, ref } from "firebase/storage";
+import type { StorageReference } from "firebase/storage";
+
+import { db, storage } from "../firebase";
+import { COLLECTIONS } from "../constants/domain";
+import { chunkBatchWrites, getFirestoreErrorMessage } from "../utils/firestore";
+import { AppError, ERROR_MESSAGES } from "../utils/error-handler";
+import { logError } from "../utils/logger";
+
+async function getUserDocRefs(collectionName: string, userId: string) {
+  const snapshot = await getDocs(
+    query(collection(db, collectionName), where("userId", "==", userId))
+  );
+  return snapshot.docs;
+}
+
+/**
+ * Deletes every Firestore document the user owns: recipes with their
+ * versions and share links, shopping lists, meal plans, pantry, and profile.
+ * Safe to retry after a partial failure. Server-only `rateLimits` counters
+ * are out of reach of the client and are left to expire with their window.
+ */
+export async function deleteUserFirestoreData(userId: string): Promise<void> {
+  try {
+    const recipeDocs = await getUserDocRefs(COLLECTIONS.RECIPES, userId);
+    const refs: DocumentReference[] = [];
+
+    // Versions are only readable through the parent recipe, so each recipe's
+    // versions are queued ahead of the recipe itself
+    for (const recipeDoc of recipeDocs) {
+      const versions = await getDocs(
+        collection(db, COLLECTIONS.RECIPES, recipeDoc.id, COLLECTIONS.RECIPE_VERSIONS)
+      );
+      refs.push(...versions.docs.map((version) => version.ref));
+
+      const shareId: unknown = recipeDoc.get("shareId");
+      if (typeof shareId === "string" && shareId) {
+        refs.push(doc(db, COLLECTIONS.SHARED_RECIPES, shareId));
+      }
+      refs.push(recipeDoc.ref);
+    }
+
+    const [shoppingLists, mealPlans] = await Promise.all([
+      getUserDocRefs(COLLECTIONS.SHOPPING_LISTS, userId),
+      getUserDocRefs(COLLECTIONS.MEAL_PLANS, userId),
+    ]);
+    refs.push(
+      ...shoppingLists.map((list) => list.ref),
+      ...mealPlans.map((plan) => plan.ref),
+      doc(db, COLLECTIONS.PANTRIES, userId),
+      doc(db, COLLECTIONS.USER_PROFILES, userId)
+    );
+
+    // Sequential batches keep the versions-before-recipe order. Version
+    // deletes are the only ones whose rule reads another document (the parent
+    // recipe), so each batch also spans a limited number of recipes
+    const batches = chunkBatchWrites(refs, (docRef) => docRef.parent.parent?.id ?? null);
+    for (const chunk of batches) {
+      const batch = writeBatch(db);
+      chunk.forEach((docRef) => batch.delete(docRef));
+      await batch.commit();
+    }
+  } catch (error) {
+    logError("Failed to delete user data from Firestore", error, { userId });
+    const message = getFirestoreErrorMessage(error, ERROR_MESSAGES.ACCOUNT.DELETE_FAILED);
+    throw new AppError(message, "ACCOUNT_DATA_DELETE_FAILED", { userId });
+  }
+}
+
+async function listAllFiles(folder: StorageReference): Promise<StorageReference[]> {
+  const result = await listAll(folder);
+  const nested = await Promise.all(result.prefixes.map(listAllFiles));
+  return [...result.items, ...nested.flat()];
+}
+
+/**
+ * Deletes every file under the user's private Storage folder, including
+ * photos no longer referenced by a recipe.
+ */
+export async function deleteUserStorageFiles(userId: string): Promise<void> {
+  try {
+    const files = await listAllFiles(ref(storage, `users/${userId}`));
+    await Promise.all(files.map((file) => deleteObject(file)));
+  } catch (error) {
+    logError("Failed to delete user files from Storage", error, { userId });
+    throw new AppError(ERROR_MESSAGES.ACCOUNT.DELETE_FAILED, "ACCOUNT_FILES_DELETE_FAILED", {
+      userId,
+    });
+  }
+}
@@ -6,10 +6,59 @@
 export {
   saveRecipe,
   getUserRecipes,
+  getUserRecipesPage,
+  subscribeToUserRecipes,
+  getTrashedRecipes,
+  updateRecipe,
+  updateRecipeOrganization,
+  updateRecipesOrganization,
+  getRecipeVersions,
+  trashRecipes,
+  restoreRecipes,
   deleteRecipe,
+  deleteRecipes,
 } from "./recipes";
+export type {
+  RecipeOrganizationUpdate,
+  RecipeOrganizationBatchUpdate,
+  RecipePage,
+} from "./recipes";
+
+export {
+  uploadRecipePhoto,
+  deleteRecipePhoto,
+  deleteRecipePhotoFiles,
+} from "./recipe-photos";
 
 export {
   saveUserProfile,
   getUserProfile,
 } from "./profiles";
+
+export {
+  deleteUserFirestoreData,
+  deleteUserStorageFiles,
+} from "./account";
+
+export {
+  saveShoppingList,
+  getUserShoppingLists,
+  updateShoppingListItems,
+  deleteShoppingList,
+} from "./shopping-lists";
+
+export {
+  saveMealPlan,
+  getMealPlan,
+} from "./meal-plans";
+
+export {
+  savePantryItems,
+  getUserPantryItems,
+} from "./pantry";
+
+export {
+  saveSharedRecipe,
+  getSharedRecipe,
+  deleteSharedRecipe,
+} from "./shared-recipes";
@@ -0,0 +1,112 @@
+/**
+ * Firestore database operations for weekly meal plans.
+ * 
+ * NAMING CONVENTIONS:
+ * - get*: Synchronous or async read operations (getMealPlan)
+ * - save*: Create or update operations (saveMealPlan)
+ * 
+ * ERROR HANDLING CONTRACT:
+ * - All functions throw errors on failure (never return error objects)
+ * - Callers MUST use try-catch blocks
+ * - Errors are logged internally before being thrown
+ * - User-friendly messages are included in thrown Error objects
+ */
+
+import {
+  collection,
+  query,
+  where,
+  limit,
+  getDocs,
+  doc,
+  setDoc,
+  serverTimestamp,
+} from "firebase/firestore";
+
+import { db } from "../firebase";
+import type { MealPlan, MealPlanEntry } from "../schemas/meal-plan";
+import { mealPlanSchema } from "../schemas/meal-plan";
+import { COLLECTIONS } from "../constants/domain";
+import { getFirestoreErrorMessage } from "../utils/firestore";
+import { AppError, ERROR_MESSAGES } from "../utils/error-handler";
+import { logError } from "../utils/logger";
+
+interface SaveMealPlanParams {
+  userId: string;
+  weekStart: string;
+  entries: MealPlanEntry[];
+}
+
+function getMealPlanId(userId: string, weekStart: string): string {
+  return `${userId}_${weekStart}`;
+}
+
+/**
+ * Creates or replaces the user's plan for a week.
+ * @param params - Meal plan save parameters
+ */
+export async function saveMealPlan({
+  userId,
+  weekStart,
+  entries,
+}: SaveMealPlanParams): Promise<void> {
+  try {
+    await setDoc(doc(db, COLLECTIONS.MEAL_PLANS, getMealPlanId(userId, weekStart)), {
+      userId,
+      weekStart,
+      entries,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    logError("Failed to save meal plan to Firestore", error, { userId, weekStart });
+    const message = getFirestoreErrorMessage(
+      error,
+      ERROR_MESSAGES.MEAL_PLAN.SAVE_FAILED
+    );
+    throw new AppError(message, "MEAL_PLAN_SAVE_FAILED", { userId, weekStart });
+  }
+}
+
+/**
+ * Retrieves the user's plan for a week.
+ * Queries by owner rather than reading the document id directly so a missing
+ * plan is an empty result instead of a permission error.
+ * @param userId - The user's unique identifier
+ * @param weekStart - ISO date of the week's Monday
+ * @returns The meal plan or null if the week has not been planned
+ */
+export async function getMealPlan(
+  userId: string,
+  weekStart: string
+): Promise<MealPlan | null> {
+  try {
+    const planQuery = query(
+      collection(db, COLLECTIONS.MEAL_PLANS),
+      where("userId", "==", userId),
+      where("weekStart", "==", weekStart),
+      limit(1)
+    );
+
+    const snapshot = await getDocs(planQuery);
+    const planDoc = snapshot.docs[0];
+    if (!planDoc) return null;
+
+    const result = mealPlanSchema.safeParse({ id: planDoc.id, ...planDoc.data() });
+    if (!result.success) {
+      logError("Meal plan validation failed", new Error("Zod validation error"), {
+        userId,
+        weekStart,
+        validationErrors: result.error.flatten(),
+      });
+      throw new AppError("Invalid meal plan data from Firestore", "INVALID_MEAL_PLAN_DATA");
+    }
+    return result.data;
+  } catch (error) {
+    logError("Failed to fetch meal plan from Firestore", error, { userId, weekStart });
+    const message = getFirestoreErrorMessage(
+      error,
+      ERROR_MESSAGES.MEAL_PLAN.LOAD_FAILED
+    );
+    throw new AppError(message, "MEAL_PLAN_LOAD_FAILED", { userId, weekStart });
+  }
+}
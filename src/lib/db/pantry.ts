@@ -0,0 +1,78 @@
+/**
+ * Firestore database operations for the user's pantry.
+ * 
+ * NAMING CONVENTIONS:
+ * - get*: Synchronous or async read operations (getUserPantryItems)
+ * - save*: Create or update operations (savePantryItems)
+ * 
+ * ERROR HANDLING CONTRACT:
+ * - All functions throw errors on failure (never return error objects)
+ * - Callers MUST use try-catch blocks
+ * - Errors are logged internally before being thrown
+ * - User-friendly messages are included in thrown Error objects
+ */
+
+import { doc, setDoc, getDoc, serverTimestamp } from "firebase/firestore";
+
+import { db } from "../firebase";
+import type { PantryItem } from "../schemas/pantry";
+import { pantrySchema } from "../schemas/pantry";
+import { COLLECTIONS } from "../constants/domain";
+import { getFirestoreErrorMessage } from "../utils/firestore";
+import { AppError, ERROR_MESSAGES } from "../utils/error-handler";
+import { sanitizeUserInput } from "../utils/sanitize";
+import { logError } from "../utils/logger";
+
+/**
+ * Replaces the user's pantry items in Firestore.
+ * @param userId - The user's unique identifier
+ * @param items - The full pantry item list
+ */
+export async function savePantryItems(
+  userId: string,
+  items: PantryItem[]
+): Promise<void> {
+  try {
+    // Sanitize user-input text to prevent HTML injection in stored data
+    const sanitizedItems = items.map((item) => ({
+      ...item,
+      name: sanitizeUserInput(item.name),
+      unit: item.unit ? sanitizeUserInput(item.unit) : null,
+    }));
+
+    await setDoc(doc(db, COLLECTIONS.PANTRIES, userId), {
+      items: sanitizedItems,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    logError("Failed to save pantry to Firestore", error, { userId });
+    const message = getFirestoreErrorMessage(error, ERROR_MESSAGES.PANTRY.SAVE_FAILED);
+    throw new AppError(message, "PANTRY_SAVE_FAILED", { userId });
+  }
+}
+
+/**
+ * Retrieves the user's pantry items.
+ * @param userId - The user's unique identifier
+ * @returns Pantry items, or an empty array if the pantry has never been saved
+ */
+export async function getUserPantryItems(userId: string): Promise<PantryItem[]> {
+  try {
+    const docSnap = await getDoc(doc(db, COLLECTIONS.PANTRIES, userId));
+    if (!docSnap.exists()) return [];
+
+    const result = pantrySchema.safeParse({ id: docSnap.id, ...docSnap.data() });
+    if (!result.success) {
+      logError("Pantry validation failed", new Error("Zod validation error"), {
+        userId,
+        validationErrors: result.error.flatten(),
+      });
+      throw new AppError("Invalid pantry data from Firestore", "INVALID_PANTRY_DATA");
+    }
+    return result.data.items;
+  } catch (error) {
+    logError("Failed to fetch pantry from Firestore", error, { userId });
+    const message = getFirestoreErrorMessage(error, ERROR_MESSAGES.PANTRY.LOAD_FAILED);
+    throw new AppError(message, "PANTRY_LOAD_FAILED", { userId });
+  }
+}
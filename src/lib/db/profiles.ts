@@ -45,6 +45,12 @@ export async function saveUserProfile(
       ...profile,
       allergies: profile.allergies.map(sanitizeUserInput),
       dislikedIngredients: profile.dislikedIngredients.map(sanitizeUserInput),
+      householdMembers: profile.householdMembers.map((member) => ({
+        ...member,
+        name: sanitizeUserInput(member.name),
+        allergies: member.allergies.map(sanitizeUserInput),
+        dislikedIngredients: member.dislikedIngredients.map(sanitizeUserInput),
+      })),
       updatedAt: serverTimestamp(),
     };
 
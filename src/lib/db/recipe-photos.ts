@@ -0,0 +1,124 @@
+/**
+ * Firebase Storage operations for recipe photos, kept in step with the
+ * `photos` array on the recipe document.
+ *
+ * NAMING CONVENTIONS:
+ * - upload*: Store a file and record it on the recipe (uploadRecipePhoto)
+ * - delete*: Deletion operations (deleteRecipePhoto, deleteRecipePhotoFiles)
+ *
+ * ERROR HANDLING CONTRACT:
+ * - All functions throw errors on failure (never return error objects)
+ * - Callers MUST use try-catch blocks
+ * - Errors are logged internally before being thrown
+ * - User-friendly messages are included in thrown Error objects
+ */
+
+import { arrayRemove, arrayUnion, doc, updateDoc } from "firebase/firestore";
+import { deleteObject, getDownloadURL, ref, uploadBytes } from "firebase/storage";
+
+import { db, storage } from "../firebase";
+import type { RecipePhoto } from "../schemas/recipe";
+import { COLLECTIONS } from "../constants/domain";
+import { getFirestoreErrorMessage } from "../utils/firestore";
+import { AppError, ERROR_MESSAGES } from "../utils/error-handler";
+import type { ResizedImage } from "../utils/image";
+import { logError, logWarning } from "../utils/logger";
+
+interface UploadRecipePhotoParams {
+  userId: string;
+  recipeId: string;
+  image: ResizedImage;
+}
+
+function getRecipePhotoPath(userId: string, recipeId: string, photoId: string): string {
+  return `users/${userId}/recipes/${recipeId}/${photoId}.jpg`;
+}
+
+/**
+ * Uploads a resized photo and appends it to the recipe's photos.
+ * If the recipe update fails the uploaded file is removed again.
+ * @returns The stored photo
+ */
+export async function uploadRecipePhoto({
+  userId,
+  recipeId,
+  image,
+}: UploadRecipePhotoParams): Promise<RecipePhoto> {
+  const id = crypto.randomUUID();
+  const path = getRecipePhotoPath(userId, recipeId, id);
+  const photoRef = ref(storage, path);
+
+  try {
+    await uploadBytes(photoRef, image.blob, { contentType: "image/jpeg" });
+  } catch (error) {
+    logError("Failed to upload recipe photo to Storage", error, { recipeId });
+    throw new AppError(ERROR_MESSAGES.PHOTO.UPLOAD_FAILED, "PHOTO_UPLOAD_FAILED", {
+      recipeId,
+    });
+  }
+
+  try {
+    const photo: RecipePhoto = {
+      id,
+      path,
+      url: await getDownloadURL(photoRef),
+      width: image.width,
+      height: image.height,
+    };
+    await updateDoc(doc(db, COLLECTIONS.RECIPES, recipeId), {
+      photos: arrayUnion(photo),
+    });
+    return photo;
+  } catch (error) {
+    logError("Failed to record recipe photo in Firestore", error, { recipeId });
+    await deleteObject(photoRef).catch((cleanupError: unknown) => {
+      logWarning("Failed to remove unrecorded recipe photo", {
+        recipeId,
+        path,
+        error: String(cleanupError),
+      });
+    });
+    const message = getFirestoreErrorMessage(error, ERROR_MESSAGES.PHOTO.UPLOAD_FAILED);
+    throw new AppError(message, "PHOTO_UPLOAD_FAILED", { recipeId });
+  }
+}
+
+/**
+ * Removes a photo from the recipe, then deletes its file.
+ * The reference goes first so the recipe never points at a missing file.
+ */
+export async function deleteRecipePhoto(
+  recipeId: string,
+  photo: RecipePhoto
+): Promise<void> {
+  try {
+    await updateDoc(doc(db, COLLECTIONS.RECIPES, recipeId), {
+      photos: arrayRemove(photo),
+    });
+  } catch (error) {
+    logError("Failed to remove recipe photo from Firestore", error, { recipeId });
+    const message = getFirestoreErrorMessage(error, ERROR_MESSAGES.PHOTO.DELETE_FAILED);
+    throw new AppError(message, "PHOTO_DELETE_FAILED", { recipeId });
+  }
+
+  await deleteRecipePhotoFiles([photo]);
+}
+
+/**
+ * Deletes photo files from Storage. Best effort: a file left behind is
+ * private and unreferenced, so failures are logged rather than thrown.
+ */
+export async function deleteRecipePhotoFiles(photos: RecipePhoto[]): Promise<void> {
+  const results = await Promise.allSettled(
+    photos.map((photo) => deleteObject(ref(storage, photo.path)))
+  );
+
+  results.forEach((result, index) => {
+    if (result.status === "rejected") {
+      logWarning("Failed to delete recipe photo file", {
+        path: photos[index].path,
+        error: String(result.reason),
+      });
+    }
+  });
+}
@@ -2,13 +2,21 @@
  * Firestore database operations for recipes.
  * 
  * NAMING CONVENTIONS:
- * - get*: Synchronous or async read operations (getUserRecipes)
- * - save*: Create or update operations (saveRecipe)
- * - delete*: Deletion operations (deleteRecipe)
+ * - get*: Synchronous or async read operations (getUserRecipes, getUserRecipesPage,
+ *   getTrashedRecipes, getRecipeVersions); library reads skip trashed recipes
+ * - subscribe*: Live listeners returning an unsubscribe function
+ *   (subscribeToUserRecipes); errors go to the onError callback instead of throwing
+ * - save*: Create operations (saveRecipe)
+ * - update*: In-place edits (updateRecipe snapshots the prior version;
+ *   updateRecipeOrganization and the batched updateRecipesOrganization change
+ *   favorites, tags, and collections only)
+ * - trash* / restore*: Soft delete and undo (batched trashRecipes, restoreRecipes)
+ * - delete*: Permanent deletion (deleteRecipe, batched deleteRecipes)
  * - fetch*: Reserved for client-side data fetching hooks
  * 
  * ERROR HANDLING CONTRACT:
- * - All functions throw errors on failure (never return error objects)
+ * - All functions throw errors on failure (never return error objects),
+ *   except subscriptions, which report AppErrors through onError
  * - Callers MUST use try-catch blocks
  * - Errors are logged internally before being thrown
  * - User-friendly messages are included in thrown Error objects
@@ -28,10 +36,20 @@ import {
   query,
   where,
   getDocs,
-  deleteDoc,
+  deleteField,
   doc,
+  limit,
+  onSnapshot,
   orderBy,
   serverTimestamp,
+  startAfter,
+  updateDoc,
+  writeBatch,
+} from "firebase/firestore";
+import type {
+  DocumentReference,
+  QueryDocumentSnapshot,
+  Unsubscribe,
 } from "firebase/firestore";
 import { z } from "zod";
 
@@ -39,20 +57,29 @@ import { db } from "../firebase";
 import type {
   Recipe,
   RecipeStructure,
+  RefinementTurn,
 } from "../schemas/recipe";
 import {
   recipeSchema,
   completeRecipeStructureSchema,
 } from "../schemas/recipe";
+import type { RecipeSnapshot, RecipeVersion } from "../schemas/recipe-version";
+import { recipeVersionSchema } from "../schemas/recipe-version";
 import { COLLECTIONS } from "../constants/domain";
-import { getFirestoreErrorMessage } from "../utils/firestore";
+import { chunkBatchWrites, getFirestoreErrorMessage } from "../utils/firestore";
 import { AppError, ERROR_MESSAGES } from "../utils/error-handler";
+import { sanitizeUserInput } from "../utils/sanitize";
 import { logError } from "../utils/logger";
+import { isRecipeTrashed } from "../utils/recipe-trash";
 
 interface SaveRecipeParams {
   userId: string;
   content: string;
   structuredData: RecipeStructure;
+  /** Optional cuisine label (imported recipes carry one). */
+  cuisine?: string | null;
+  /** Refinement conversation that produced the recipe, if any. */
+  refinementThread?: RefinementTurn[];
 }
 
 /**
@@ -63,6 +90,8 @@ interface SaveRecipeParams {
  * @param params.userId - The user's unique identifier
  * @param params.content - Full markdown content of the recipe
  * @param params.structuredData - Structured recipe data from AI generation (required)
+ * @param params.cuisine - Optional cuisine label
+ * @param params.refinementThread - Refinement conversation that produced the recipe
  * @returns The saved recipe with generated ID
  * @throws AppError if structured data is incomplete or invalid
  */
@@ -70,6 +99,8 @@ export async function saveRecipe({
   userId,
   content,
   structuredData,
+  cuisine,
+  refinementThread,
 }: SaveRecipeParams): Promise<Recipe> {
   try {
     // Validate that structured data is complete and valid
@@ -91,17 +122,20 @@ export async function saveRecipe({
       title: structuredData.title,
       content,
       createdAt: serverTimestamp(),
-      ingredients: structuredData.ingredients,
+      // Use parsed ingredients so every field is present (Firestore rejects undefined)
+      ingredients: validationResult.data.ingredients,
       instructions: structuredData.instructions,
       ...(structuredData.tips != null ? { tips: structuredData.tips } : {}),
       preparationTime: structuredData.preparationTime,
       cookingTime: structuredData.cookingTime,
       servings: structuredData.servings,
       difficulty: structuredData.difficulty,
+      ...(cuisine ? { cuisine } : {}),
       ...(structuredData.calories != null
         ? { calories: structuredData.calories }
         : {}),
       ...(structuredData.macros != null ? { macros: structuredData.macros } : {}),
+      ...(refinementThread?.length ? { refinementThread } : {}),
     };
 
     const docRef = await addDoc(collection(db, COLLECTIONS.RECIPES), recipe);
@@ -119,53 +153,423 @@ export async function saveRecipe({
   }
 }
 
+interface GetUserRecipesOptions {
+  /** Include recipes in the trash (default: false). */
+  includeTrashed?: boolean;
+}
+
 /**
  * Retrieves all recipes for a specific user from Firestore.
  * Results are ordered by creation date (newest first) and validated with Zod.
  * @param userId - The user's unique identifier
- * @returns Array of user's recipes
+ * @returns Array of user's recipes, without trashed ones unless requested
  */
-export async function getUserRecipes(userId: string): Promise<Recipe[]> {
+export async function getUserRecipes(
+  userId: string,
+  { includeTrashed = false }: GetUserRecipesOptions = {}
+): Promise<Recipe[]> {
   try {
-    const recipesQuery = query(
-      collection(db, COLLECTIONS.RECIPES),
-      where("userId", "==", userId),
-      orderBy("createdAt", "desc")
+    const snapshot = await getDocs(getUserRecipesQuery(userId));
+    const recipes = parseRecipeDocs(snapshot.docs, userId);
+    return includeTrashed ? recipes : recipes.filter((recipe) => !isRecipeTrashed(recipe));
+  } catch (error) {
+    logError("Failed to fetch user recipes from Firestore", error, { userId });
+    const message = getFirestoreErrorMessage(error, ERROR_MESSAGES.RECIPE.LOAD_FAILED);
+    throw new AppError(message, "RECIPE_LOAD_FAILED", { userId });
+  }
+}
+
+export interface RecipePage {
+  /** Newest first, without trashed recipes. */
+  recipes: Recipe[];
+  /** False once a page comes back short. */
+  hasMore: boolean;
+  /**
+   * createdAt of the last document read, trashed or not; the next page
+   * continues after it. Null for an empty page.
+   */
+  cursor: Recipe["createdAt"] | null;
+}
+
+interface RecipePageParams {
+  pageSize: number;
+  /** Cursor of the previous page; omit for the first page. */
+  after?: Recipe["createdAt"] | null;
+}
+
+/**
+ * Fetches one page of a user's recipes, newest first.
+ * Pages continue from a createdAt cursor so recipes added or deleted
+ * since the previous page do not shift the results.
+ */
+export async function getUserRecipesPage(
+  userId: string,
+  { pageSize, after }: RecipePageParams
+): Promise<RecipePage> {
+  try {
+    const baseQuery = getUserRecipesQuery(userId);
+    const pageQuery = after
+      ? query(baseQuery, startAfter(after), limit(pageSize))
+      : query(baseQuery, limit(pageSize));
+    const snapshot = await getDocs(pageQuery);
+    return toRecipePage(parseRecipeDocs(snapshot.docs, userId), pageSize);
+  } catch (error) {
+    logError("Failed to fetch recipe page from Firestore", error, { userId });
+    const message = getFirestoreErrorMessage(error, ERROR_MESSAGES.RECIPE.LOAD_FAILED);
+    throw new AppError(message, "RECIPE_LOAD_FAILED", { userId });
+  }
+}
+
+interface SubscribeToUserRecipesParams {
+  pageSize: number;
+  onNext: (page: RecipePage) => void;
+  onError: (error: AppError) => void;
+}
+
+/**
+ * Listens to a user's newest recipes, so saves from other tabs and devices
+ * show up without a refresh. Only the newest page is live; load older
+ * recipes with getUserRecipesPage.
+ * Pending local writes report an estimated createdAt instead of null.
+ */
+export function subscribeToUserRecipes(
+  userId: string,
+  { pageSize, onNext, onError }: SubscribeToUserRecipesParams
+): Unsubscribe {
+  return onSnapshot(
+    query(getUserRecipesQuery(userId), limit(pageSize)),
+    (snapshot) => {
+      let recipes: Recipe[];
+      try {
+        recipes = parseRecipeDocs(snapshot.docs, userId);
+      } catch {
+        // parseRecipeDocs has already logged the validation details
+        onError(
+          new AppError(ERROR_MESSAGES.RECIPE.LOAD_FAILED, "RECIPE_LOAD_FAILED", { userId })
+        );
+        return;
+      }
+      onNext(toRecipePage(recipes, pageSize));
+    },
+    (error) => {
+      logError("Recipe subscription failed", error, { userId });
+      const message = getFirestoreErrorMessage(
+        error,
+        ERROR_MESSAGES.RECIPE.LIVE_UPDATES_FAILED
+      );
+      onError(new AppError(message, "RECIPE_SUBSCRIBE_FAILED", { userId }));
+    }
+  );
+}
+
+/**
+ * Hides trashed recipes from a page. Trashed recipes still count toward the
+ * page size and cursor, so pagination never stalls on a page of them.
+ */
+function toRecipePage(recipes: Recipe[], pageSize: number): RecipePage {
+  return {
+    recipes: recipes.filter((recipe) => !isRecipeTrashed(recipe)),
+    hasMore: recipes.length === pageSize,
+    cursor: recipes[recipes.length - 1]?.createdAt ?? null,
+  };
+}
+
+/**
+ * Retrieves a user's trashed recipes, most recently deleted first.
+ * @param userId - The user's unique identifier
+ */
+export async function getTrashedRecipes(userId: string): Promise<Recipe[]> {
+  try {
+    // Ordering by deletedAt also skips recipes that were never trashed
+    const snapshot = await getDocs(
+      query(
+        collection(db, COLLECTIONS.RECIPES),
+        where("userId", "==", userId),
+        orderBy("deletedAt", "desc")
+      )
     );
+    return parseRecipeDocs(snapshot.docs, userId);
+  } catch (error) {
+    logError("Failed to fetch trashed recipes from Firestore", error, { userId });
+    const message = getFirestoreErrorMessage(error, ERROR_MESSAGES.RECIPE.TRASH_LOAD_FAILED);
+    throw new AppError(message, "RECIPE_TRASH_LOAD_FAILED", { userId });
+  }
+}
+
+function getUserRecipesQuery(userId: string) {
+  return query(
+    collection(db, COLLECTIONS.RECIPES),
+    where("userId", "==", userId),
+    orderBy("createdAt", "desc")
+  );
+}
+
+/**
+ * Validates recipe documents with the Zod schema.
+ * @throws AppError INVALID_RECIPE_DATA when any document is malformed
+ */
+function parseRecipeDocs(docs: QueryDocumentSnapshot[], userId: string): Recipe[] {
+  const rawRecipes = docs.map((recipeDoc) => ({
+    id: recipeDoc.id,
+    ...recipeDoc.data({ serverTimestamps: "estimate" }),
+  }));
+
+  const result = z.array(recipeSchema).safeParse(rawRecipes);
+  if (!result.success) {
+    logError("Recipe validation failed", new Error("Zod validation error"), {
+      userId,
+      validationErrors: result.error.flatten(),
+    });
+    throw new AppError("Invalid recipe data from Firestore", "INVALID_RECIPE_DATA");
+  }
+  return result.data;
+}
+
+interface UpdateRecipeParams {
+  recipeId: string;
+  /** The recipe as currently saved; stored as a prior version. */
+  previous: RecipeSnapshot;
+  next: RecipeSnapshot;
+}
+
+function getVersionsCollection(recipeId: string) {
+  return collection(db, COLLECTIONS.RECIPES, recipeId, COLLECTIONS.RECIPE_VERSIONS);
+}
+
+/** The recipe a version's security rule reads to check ownership. */
+function getVersionParentId(versionRef: DocumentReference): string | null {
+  return versionRef.parent.parent?.id ?? null;
+}
 
-    const snapshot = await getDocs(recipesQuery);
-    const rawRecipes = snapshot.docs.map((doc) => ({
+/**
+ * Updates a recipe in place and records the previous state as a version.
+ * Both writes happen in one batch so history never misses an edit.
+ * Null snapshot fields are removed from the recipe document.
+ * @param params - Recipe update parameters
+ */
+export async function updateRecipe({
+  recipeId,
+  previous,
+  next,
+}: UpdateRecipeParams): Promise<void> {
+  try {
+    const batch = writeBatch(db);
+    batch.set(doc(getVersionsCollection(recipeId)), {
+      ...previous,
+      createdAt: serverTimestamp(),
+    });
+    batch.update(doc(db, COLLECTIONS.RECIPES, recipeId), {
+      ...Object.fromEntries(
+        Object.entries(next).map(([key, value]) => [key, value ?? deleteField()])
+      ),
+      updatedAt: serverTimestamp(),
+    });
+    await batch.commit();
+  } catch (error) {
+    logError("Failed to update recipe in Firestore", error, { recipeId });
+    const message = getFirestoreErrorMessage(error, ERROR_MESSAGES.RECIPE.UPDATE_FAILED);
+    throw new AppError(message, "RECIPE_UPDATE_FAILED", { recipeId });
+  }
+}
+
+export interface RecipeOrganizationUpdate {
+  favorite?: boolean;
+  tags?: string[];
+  collections?: string[];
+}
+
+/**
+ * Updates a recipe's favorite flag, tags, or collections. These are library
+ * metadata, so no version is recorded.
+ * @param recipeId - The recipe's unique identifier
+ * @param updates - Fields to change; omitted fields are left as-is
+ */
+export async function updateRecipeOrganization(
+  recipeId: string,
+  updates: RecipeOrganizationUpdate
+): Promise<void> {
+  try {
+    await updateDoc(doc(db, COLLECTIONS.RECIPES, recipeId), toOrganizationFields(updates));
+  } catch (error) {
+    logError("Failed to update recipe organization in Firestore", error, { recipeId });
+    const message = getFirestoreErrorMessage(error, ERROR_MESSAGES.RECIPE.ORGANIZE_FAILED);
+    throw new AppError(message, "RECIPE_ORGANIZE_FAILED", { recipeId });
+  }
+}
+
+export interface RecipeOrganizationBatchUpdate {
+  recipeId: string;
+  updates: RecipeOrganizationUpdate;
+}
+
+/**
+ * Updates favorites, tags, or collections on several recipes in one
+ * all-or-nothing write batch (at most RECIPE_BULK.MAX_RECIPES_PER_BATCH).
+ * @param changes - Per-recipe organization updates
+ */
+export async function updateRecipesOrganization(
+  changes: RecipeOrganizationBatchUpdate[]
+): Promise<void> {
+  const recipeIds = changes.map((change) => change.recipeId);
+  try {
+    const batch = writeBatch(db);
+    changes.forEach(({ recipeId, updates }) =>
+      batch.update(doc(db, COLLECTIONS.RECIPES, recipeId), toOrganizationFields(updates))
+    );
+    await batch.commit();
+  } catch (error) {
+    logError("Failed to batch update recipe organization in Firestore", error, {
+      recipeIds,
+    });
+    const message = getFirestoreErrorMessage(error, ERROR_MESSAGES.RECIPE.ORGANIZE_FAILED);
+    throw new AppError(message, "RECIPE_ORGANIZE_FAILED", { recipeIds });
+  }
+}
+
+function toOrganizationFields(updates: RecipeOrganizationUpdate) {
+  // Sanitize user-input labels to prevent HTML injection in stored data
+  return {
+    ...(updates.favorite !== undefined ? { favorite: updates.favorite } : {}),
+    ...(updates.tags ? { tags: updates.tags.map(sanitizeUserInput) } : {}),
+    ...(updates.collections
+      ? { collections: updates.collections.map(sanitizeUserInput) }
+      : {}),
+  };
+}
+
+/**
+ * Retrieves a recipe's prior versions, newest first.
+ * @param recipeId - The recipe's unique identifier
+ * @returns Array of prior versions
+ */
+export async function getRecipeVersions(recipeId: string): Promise<RecipeVersion[]> {
+  try {
+    const snapshot = await getDocs(
+      query(getVersionsCollection(recipeId), orderBy("createdAt", "desc"))
+    );
+    const rawVersions = snapshot.docs.map((doc) => ({
       id: doc.id,
       ...doc.data(),
     }));
 
-    // Validate data with Zod schema
-    const result = z.array(recipeSchema).safeParse(rawRecipes);
+    const result = z.array(recipeVersionSchema).safeParse(rawVersions);
     if (!result.success) {
-      logError("Recipe validation failed", new Error("Zod validation error"), {
-        userId,
+      logError("Recipe version validation failed", new Error("Zod validation error"), {
+        recipeId,
         validationErrors: result.error.flatten(),
       });
-      throw new AppError("Invalid recipe data from Firestore", "INVALID_RECIPE_DATA");
+      throw new AppError("Invalid recipe version data from Firestore", "INVALID_RECIPE_VERSION_DATA");
     }
     return result.data;
   } catch (error) {
-    logError("Failed to fetch user recipes from Firestore", error, { userId });
-    const message = getFirestoreErrorMessage(error, ERROR_MESSAGES.RECIPE.LOAD_FAILED);
-    throw new AppError(message, "RECIPE_LOAD_FAILED", { userId });
+    logError("Failed to fetch recipe versions from Firestore", error, { recipeId });
+    const message = getFirestoreErrorMessage(error, ERROR_MESSAGES.RECIPE.VERSIONS_LOAD_FAILED);
+    throw new AppError(message, "RECIPE_VERSIONS_LOAD_FAILED", { recipeId });
   }
 }
 
 /**
- * Deletes a recipe from Firestore.
+ * Moves recipes to the trash in one all-or-nothing write batch (at most
+ * RECIPE_BULK.MAX_RECIPES_PER_BATCH). Versions, photos, and share links are
+ * kept until the recipe is deleted for good.
+ * @param recipeIds - Recipes to trash
+ */
+export async function trashRecipes(recipeIds: string[]): Promise<void> {
+  try {
+    const batch = writeBatch(db);
+    recipeIds.forEach((recipeId) =>
+      batch.update(doc(db, COLLECTIONS.RECIPES, recipeId), { deletedAt: serverTimestamp() })
+    );
+    await batch.commit();
+  } catch (error) {
+    logError("Failed to trash recipes in Firestore", error, { recipeIds });
+    const message = getFirestoreErrorMessage(error, ERROR_MESSAGES.RECIPE.DELETE_FAILED);
+    throw new AppError(message, "RECIPE_TRASH_FAILED", { recipeIds });
+  }
+}
+
+/**
+ * Takes recipes back out of the trash in one all-or-nothing write batch.
+ * @param recipeIds - Recipes to restore
+ */
+export async function restoreRecipes(recipeIds: string[]): Promise<void> {
+  try {
+    const batch = writeBatch(db);
+    recipeIds.forEach((recipeId) =>
+      batch.update(doc(db, COLLECTIONS.RECIPES, recipeId), { deletedAt: deleteField() })
+    );
+    await batch.commit();
+  } catch (error) {
+    logError("Failed to restore recipes in Firestore", error, { recipeIds });
+    const message = getFirestoreErrorMessage(error, ERROR_MESSAGES.RECIPE.RESTORE_FAILED);
+    throw new AppError(message, "RECIPE_RESTORE_FAILED", { recipeIds });
+  }
+}
+
+/**
+ * Deletes a recipe, its version history, and its public share from Firestore.
  * @param recipeId - The recipe's unique identifier
+ * @param shareId - The recipe's share id, if it is shared
  */
-export async function deleteRecipe(recipeId: string): Promise<void> {
+export async function deleteRecipe(recipeId: string, shareId?: string): Promise<void> {
   try {
-    await deleteDoc(doc(db, COLLECTIONS.RECIPES, recipeId));
+    // Versions are only readable through the parent recipe, so remove them
+    // first, in as many batches as the history needs
+    const versions = await getDocs(getVersionsCollection(recipeId));
+    const versionRefs = versions.docs.map((version) => version.ref);
+    for (const chunk of chunkBatchWrites(versionRefs, getVersionParentId)) {
+      const versionBatch = writeBatch(db);
+      chunk.forEach((versionRef) => versionBatch.delete(versionRef));
+      await versionBatch.commit();
+    }
+
+    const batch = writeBatch(db);
+    if (shareId) batch.delete(doc(db, COLLECTIONS.SHARED_RECIPES, shareId));
+    batch.delete(doc(db, COLLECTIONS.RECIPES, recipeId));
+    await batch.commit();
   } catch (error) {
     logError("Failed to delete recipe from Firestore", error, { recipeId });
     const message = getFirestoreErrorMessage(error, ERROR_MESSAGES.RECIPE.DELETE_FAILED);
     throw new AppError(message, "RECIPE_DELETE_FAILED", { recipeId });
   }
 }
+
+/**
+ * Deletes several recipes with their versions and share links.
+ * The recipes themselves go in one final all-or-nothing batch (pass at most
+ * RECIPE_BULK.MAX_RECIPES_PER_BATCH). Versions are deleted in earlier batches,
+ * since they are only reachable through a recipe that still exists; each
+ * version delete reads its parent recipe in the rules, so a version batch
+ * spans at most FIRESTORE_MAX_RULE_READS_PER_BATCH recipes.
+ * @param recipes - Recipes to delete
+ */
+export async function deleteRecipes(
+  recipes: Pick<Recipe, "id" | "shareId">[]
+): Promise<void> {
+  const recipeIds = recipes.map((recipe) => recipe.id);
+  try {
+    const versionSnapshots = await Promise.all(
+      recipeIds.map((recipeId) => getDocs(getVersionsCollection(recipeId)))
+    );
+    const versionRefs = versionSnapshots.flatMap((snapshot) =>
+      snapshot.docs.map((version) => version.ref)
+    );
+
+    for (const chunk of chunkBatchWrites(versionRefs, getVersionParentId)) {
+      const batch = writeBatch(db);
+      chunk.forEach((versionRef) => batch.delete(versionRef));
+      await batch.commit();
+    }
+
+    const batch = writeBatch(db);
+    recipes.forEach((recipe) => {
+      if (recipe.shareId) batch.delete(doc(db, COLLECTIONS.SHARED_RECIPES, recipe.shareId));
+    });
+    recipeIds.forEach((recipeId) => batch.delete(doc(db, COLLECTIONS.RECIPES, recipeId)));
+    await batch.commit();
+  } catch (error) {
+    logError("Failed to batch delete recipes from Firestore", error, { recipeIds });
+    const message = getFirestoreErrorMessage(error, ERROR_MESSAGES.RECIPE.DELETE_FAILED);
+    throw new AppError(message, "RECIPE_DELETE_FAILED", { recipeIds });
+  }
+}
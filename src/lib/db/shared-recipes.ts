@@ -0,0 +1,127 @@
+/**
+ * Firestore database operations for public recipe share links.
+ * 
+ * NAMING CONVENTIONS:
+ * - get*: Synchronous or async read operations (getSharedRecipe)
+ * - save*: Create or update operations (saveSharedRecipe)
+ * - delete*: Deletion operations (deleteSharedRecipe)
+ * 
+ * ERROR HANDLING CONTRACT:
+ * - All functions throw errors on failure (never return error objects)
+ * - Callers MUST use try-catch blocks
+ * - Errors are logged internally before being thrown
+ * - User-friendly messages are included in thrown Error objects
+ */
+
+import {
+  collection,
+  deleteField,
+  doc,
+  getDoc,
+  serverTimestamp,
+  writeBatch,
+} from "firebase/firestore";
+
+import { db } from "../firebase";
+import type { SharedRecipe, SharedRecipeContent } from "../schemas/shared-recipe";
+import { sharedRecipeSchema } from "../schemas/shared-recipe";
+import { COLLECTIONS } from "../constants/domain";
+import { getFirestoreErrorMessage } from "../utils/firestore";
+import { AppError, ERROR_MESSAGES } from "../utils/error-handler";
+import { logError } from "../utils/logger";
+
+interface SaveSharedRecipeParams {
+  userId: string;
+  recipeId: string;
+  /** Existing share id to republish; a new unguessable id is created when null. */
+  shareId: string | null;
+  content: SharedRecipeContent;
+}
+
+/**
+ * Publishes (or republishes) a recipe snapshot and records the share id on
+ * the recipe, in one batch.
+ * @param params - Share parameters
+ * @returns The share id
+ */
+export async function saveSharedRecipe({
+  userId,
+  recipeId,
+  shareId,
+  content,
+}: SaveSharedRecipeParams): Promise<string> {
+  try {
+    // Auto-generated ids are 20 random characters, which keeps links unguessable
+    const shareRef = shareId
+      ? doc(db, COLLECTIONS.SHARED_RECIPES, shareId)
+      : doc(collection(db, COLLECTIONS.SHARED_RECIPES));
+
+    const batch = writeBatch(db);
+    batch.set(shareRef, {
+      ...content,
+      userId,
+      recipeId,
+      publishedAt: serverTimestamp(),
+    });
+    batch.update(doc(db, COLLECTIONS.RECIPES, recipeId), { shareId: shareRef.id });
+    await batch.commit();
+    return shareRef.id;
+  } catch (error) {
+    logError("Failed to publish shared recipe to Firestore", error, { userId, recipeId });
+    const message = getFirestoreErrorMessage(error, ERROR_MESSAGES.SHARE.PUBLISH_FAILED);
+    throw new AppError(message, "SHARE_PUBLISH_FAILED", { userId, recipeId });
+  }
+}
+
+/**
+ * Retrieves a published recipe by share id. Works without authentication.
+ * @param shareId - The share id from the public URL
+ * @returns The shared recipe, or null if it does not exist, was revoked, or
+ *   its recipe is in the trash
+ */
+export async function getSharedRecipe(shareId: string): Promise<SharedRecipe | null> {
+  try {
+    const docSnap = await getDoc(doc(db, COLLECTIONS.SHARED_RECIPES, shareId));
+    if (!docSnap.exists()) return null;
+
+    const result = sharedRecipeSchema.safeParse({ id: docSnap.id, ...docSnap.data() });
+    if (!result.success) {
+      logError("Shared recipe validation failed", new Error("Zod validation error"), {
+        shareId,
+        validationErrors: result.error.flatten(),
+      });
+      throw new AppError("Invalid shared recipe data from Firestore", "INVALID_SHARED_RECIPE_DATA");
+    }
+    return result.data;
+  } catch (error) {
+    // Rules deny reads while the source recipe is in the trash
+    if (error && typeof error === "object" && "code" in error && error.code === "permission-denied") {
+      return null;
+    }
+    logError("Failed to fetch shared recipe from Firestore", error, { shareId });
+    const message = getFirestoreErrorMessage(error, ERROR_MESSAGES.SHARE.LOAD_FAILED);
+    throw new AppError(message, "SHARE_LOAD_FAILED", { shareId });
+  }
+}
+
+/**
+ * Revokes a share link: deletes the public snapshot and clears the share id
+ * from the recipe, in one batch.
+ * @param recipeId - The shared recipe's id
+ * @param shareId - The share id to revoke
+ */
+export async function deleteSharedRecipe(
+  recipeId: string,
+  shareId: string
+): Promise<void> {
+  try {
+    const batch = writeBatch(db);
+    batch.delete(doc(db, COLLECTIONS.SHARED_RECIPES, shareId));
+    batch.update(doc(db, COLLECTIONS.RECIPES, recipeId), { shareId: deleteField() });
+    await batch.commit();
+  } catch (error) {
+    logError("Failed to revoke shared recipe in Firestore", error, { recipeId, shareId });
+    const message = getFirestoreErrorMessage(error, ERROR_MESSAGES.SHARE.REVOKE_FAILED);
+    throw new AppError(message, "SHARE_REVOKE_FAILED", { recipeId, shareId });
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Firestore database operations for shopping lists.
+ * 
+ * NAMING CONVENTIONS:
+ * - get*: Synchronous or async read operations (getUserShoppingLists)
+ * - save*: Create operations (saveShoppingList)
+ * - update*: Partial updates to an existing list (updateShoppingListItems)
+ * - delete*: Deletion operations (deleteShoppingList)
+ * 
+ * ERROR HANDLING CONTRACT:
+ * - All functions throw errors on failure (never return error objects)
+ * - Callers MUST use try-catch blocks
+ * - Errors are logged internally before being thrown
+ * - User-friendly messages are included in thrown Error objects
+ */
+
+import {
+  collection,
+  addDoc,
+  query,
+  where,
+  getDocs,
+  deleteDoc,
+  updateDoc,
+  doc,
+  orderBy,
+  serverTimestamp,
+} from "firebase/firestore";
+import { z } from "zod";
+
+import { db } from "../firebase";
+import type { ShoppingList, ShoppingListItem } from "../schemas/shopping-list";
+import { shoppingListSchema } from "../schemas/shopping-list";
+import { COLLECTIONS } from "../constants/domain";
+import { getFirestoreErrorMessage } from "../utils/firestore";
+import { AppError, ERROR_MESSAGES } from "../utils/error-handler";
+import { logError } from "../utils/logger";
+
+interface SaveShoppingListParams {
+  userId: string;
+  title: string;
+  recipeIds: string[];
+  items: ShoppingListItem[];
+}
+
+/**
+ * Saves a new shopping list to Firestore.
+ * @param params - Shopping list save parameters
+ * @returns The saved list with generated ID
+ */
+export async function saveShoppingList({
+  userId,
+  title,
+  recipeIds,
+  items,
+}: SaveShoppingListParams): Promise<ShoppingList> {
+  try {
+    const shoppingList = {
+      userId,
+      title,
+      recipeIds,
+      items,
+      createdAt: serverTimestamp(),
+    };
+
+    const docRef = await addDoc(
+      collection(db, COLLECTIONS.SHOPPING_LISTS),
+      shoppingList
+    );
+    // createdAt is a FieldValue until the document is read back
+    return { id: docRef.id, ...shoppingList } as ShoppingList;
+  } catch (error) {
+    logError("Failed to save shopping list to Firestore", error, { userId });
+    const message = getFirestoreErrorMessage(
+      error,
+      ERROR_MESSAGES.SHOPPING_LIST.SAVE_FAILED
+    );
+    throw new AppError(message, "SHOPPING_LIST_SAVE_FAILED", { userId });
+  }
+}
+
+/**
+ * Retrieves all shopping lists for a user, newest first, validated with Zod.
+ * @param userId - The user's unique identifier
+ * @returns Array of the user's shopping lists
+ */
+export async function getUserShoppingLists(
+  userId: string
+): Promise<ShoppingList[]> {
+  try {
+    const listsQuery = query(
+      collection(db, COLLECTIONS.SHOPPING_LISTS),
+      where("userId", "==", userId),
+      orderBy("createdAt", "desc")
+    );
+
+    const snapshot = await getDocs(listsQuery);
+    const rawLists = snapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    }));
+
+    const result = z.array(shoppingListSchema).safeParse(rawLists);
+    if (!result.success) {
+      logError("Shopping list validation failed", new Error("Zod validation error"), {
+        userId,
+        validationErrors: result.error.flatten(),
+      });
+      throw new AppError(
+        "Invalid shopping list data from Firestore",
+        "INVALID_SHOPPING_LIST_DATA"
+      );
+    }
+    return result.data;
+  } catch (error) {
+    logError("Failed to fetch shopping lists from Firestore", error, { userId });
+    const message = getFirestoreErrorMessage(
+      error,
+      ERROR_MESSAGES.SHOPPING_LIST.LOAD_FAILED
+    );
+    throw new AppError(message, "SHOPPING_LIST_LOAD_FAILED", { userId });
+  }
+}
+
+/**
+ * Replaces the items of a shopping list (used for check-off).
+ * @param listId - The list's unique identifier
+ * @param items - The full updated item array
+ */
+export async function updateShoppingListItems(
+  listId: string,
+  items: ShoppingListItem[]
+): Promise<void> {
+  try {
+    await updateDoc(doc(db, COLLECTIONS.SHOPPING_LISTS, listId), { items });
+  } catch (error) {
+    logError("Failed to update shopping list in Firestore", error, { listId });
+    const message = getFirestoreErrorMessage(
+      error,
+      ERROR_MESSAGES.SHOPPING_LIST.UPDATE_FAILED
+    );
+    throw new AppError(message, "SHOPPING_LIST_UPDATE_FAILED", { listId });
+  }
+}
+
+/**
+ * Deletes a shopping list from Firestore.
+ * @param listId - The list's unique identifier
+ */
+export async function deleteShoppingList(listId: string): Promise<void> {
+  try {
+    await deleteDoc(doc(db, COLLECTIONS.SHOPPING_LISTS, listId));
+  } catch (error) {
+    logError("Failed to delete shopping list from Firestore", error, { listId });
+    const message = getFirestoreErrorMessage(
+      error,
+      ERROR_MESSAGES.SHOPPING_LIST.DELETE_FAILED
+    );
+    throw new AppError(message, "SHOPPING_LIST_DELETE_FAILED", { listId });
+  }
+}
@@ -0,0 +1,47 @@
+import {
+  applicationDefault,
+  cert,
+  getApps,
+  initializeApp,
+} from "firebase-admin/app";
+import type { App, ServiceAccount } from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
+import type { Firestore } from "firebase-admin/firestore";
+import { getStorage } from "firebase-admin/storage";
+
+/**
+ * Firebase Admin SDK for server-only data (rate-limit counters) and jobs
+ * (scheduled trash purge).
+ * Never import from client components.
+ *
+ * Credentials: FIREBASE_SERVICE_ACCOUNT_KEY (service account JSON), otherwise
+ * Application Default Credentials (e.g. on Google Cloud).
+ */
+const ADMIN_APP_NAME = "bakemeai-admin";
+
+function getAdminApp(): App {
+  const existing = getApps().find((app) => app.name === ADMIN_APP_NAME);
+  if (existing) return existing;
+
+  const serviceAccountKey = process.env.FIREBASE_SERVICE_ACCOUNT_KEY;
+  const credential = serviceAccountKey
+    ? cert(JSON.parse(serviceAccountKey) as ServiceAccount)
+    : applicationDefault();
+
+  return initializeApp(
+    {
+      credential,
+      projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+      storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
+    },
+    ADMIN_APP_NAME
+  );
+}
+
+export function getAdminFirestore(): Firestore {
+  return getFirestore(getAdminApp());
+}
+
+export function getAdminStorageBucket() {
+  return getStorage(getAdminApp()).bucket();
+}
@@ -1,4 +1,10 @@
+import type { ModelMessage } from "ai";
+
+import type { CompleteRecipeStructure, RefinementTurn } from "./schemas/recipe";
 import type { SerializableUserProfile } from "./schemas/user";
+import { NUTRITION_TARGETS } from "./constants/domain";
+import { mergeHouseholdPreferences } from "./utils/household";
+import { getPerMealNutritionBudget } from "./utils/nutrition";
 
 /**
  * AI prompt construction utilities.
@@ -96,7 +102,96 @@ export function getRecipeSystemPrompt(
 }
 
 /**
- * Builds user preferences lines for the prompt.
+ * Constructs the system prompt for refining an existing recipe in conversation.
+ * The user's preferences still apply, so a refinement cannot reintroduce an
+ * allergen the original recipe avoided.
+ * @param userProfile - Optional user profile with dietary restrictions and preferences
+ * @returns Formatted system prompt for the AI
+ */
+export function getRecipeRefinementSystemPrompt(
+  userProfile?: SerializableUserProfile | null
+): string {
+  const sections: string[] = [
+    "You are a professional chef revising a recipe with a home cook. Each message asks for a change to the current recipe.",
+    "",
+    "Refinement rules:",
+    "- Apply only the requested change, plus whatever it requires elsewhere (quantities, steps, times, servings, nutrition).",
+    "- Keep everything else as it is, including the title unless the dish has become something different.",
+    "- Return the complete revised recipe, not just the changed parts.",
+    "- List each change in `changes` as one short line in the past tense; list nothing that did not change.",
+  ];
+
+  const preferences = buildUserPreferencesLines(userProfile);
+  if (preferences.length > 0) {
+    sections.push("");
+    sections.push("The user's preferences still apply:");
+    sections.push(...preferences);
+  }
+
+  sections.push("");
+  sections.push("Generate the response as a structured JSON object matching the schema.");
+  sections.push("If a numeric or nutrition field is unknown, set it to null (do not omit keys).");
+
+  return sections.join("\n");
+}
+
+/**
+ * Builds the conversation for a refinement turn: earlier requests and their
+ * changelogs as alternating messages, then the current recipe with the new
+ * request.
+ * @param recipe - The recipe as currently shown
+ * @param thread - Earlier turns, oldest first
+ * @param request - The new change request
+ */
+export function buildRecipeRefinementMessages(
+  recipe: CompleteRecipeStructure,
+  thread: readonly RefinementTurn[],
+  request: string
+): ModelMessage[] {
+  const messages: ModelMessage[] = thread.flatMap((turn): ModelMessage[] => [
+    { role: "user", content: turn.request },
+    { role: "assistant", content: turn.changes.join("\n") || "No changes." },
+  ]);
+
+  messages.push({
+    role: "user",
+    content: `Current recipe (JSON):\n${JSON.stringify(recipe)}\n\nChange request: ${request}`,
+  });
+  return messages;
+}
+
+/**
+ * Angles that keep side-by-side candidates apart. Candidates are generated
+ * in parallel and never see each other, so each one is given its own angle.
+ */
+const CANDIDATE_DIRECTIONS = [
+  "Make the classic, most familiar version.",
+  "Make a quicker, simpler version with fewer ingredients and steps.",
+  "Make a bolder version with a different flavour profile or cuisine influence.",
+  "Make a version built around a different main cooking technique.",
+];
+
+/**
+ * Appends a distinct angle to the user prompt for one of several candidates.
+ * A single candidate gets the prompt unchanged.
+ * @param prompt - The user's recipe request
+ * @param index - Zero-based candidate index
+ * @param count - Number of candidates generated together
+ */
+export function appendCandidateDirection(
+  prompt: string,
+  index: number,
+  count: number
+): string {
+  if (count <= 1) return prompt;
+  const direction = CANDIDATE_DIRECTIONS[index % CANDIDATE_DIRECTIONS.length];
+  return `${prompt}\n\nThis is option ${index + 1} of ${count} shown side by side, so make it clearly different from the other options. ${direction}`;
+}
+
+/**
+ * Builds user preferences lines for the prompt. Household members on the
+ * profile are the ones eating this meal; their constraints are merged with
+ * the owner's (see `mergeHouseholdPreferences`).
  * @returns Array of preference strings (empty array if no preferences)
  */
 function buildUserPreferencesLines(
@@ -104,26 +199,46 @@ function buildUserPreferencesLines(
 ): string[] {
   if (!userProfile) return [];
 
+  const household = mergeHouseholdPreferences({
+    ...userProfile,
+    householdMembers: userProfile.householdMembers ?? [],
+  });
+  const hasMembers = household.memberNames.length > 0;
   const lines: string[] = [];
 
-  if (userProfile.dietary?.length) {
-    lines.push(`Dietary Requirements: ${userProfile.dietary.join(", ")}`);
+  if (hasMembers) {
+    lines.push(`Cooking For: the user, ${household.memberNames.join(", ")}`);
+  }
+
+  if (household.dietary.length) {
+    lines.push(`Dietary Requirements: ${household.dietary.join(", ")}`);
   }
 
-  if (userProfile.allergies?.length) {
-    lines.push(`Allergies (MUST AVOID): ${userProfile.allergies.join(", ")}`);
+  if (household.allergies.length) {
+    lines.push(`Allergies (MUST AVOID): ${household.allergies.join(", ")}`);
   }
 
-  if (userProfile.dislikedIngredients?.length) {
-    lines.push(`Disliked Ingredients (avoid if possible): ${userProfile.dislikedIngredients.join(", ")}`);
+  if (household.dislikedIngredients.length) {
+    lines.push(`Disliked Ingredients (avoid if possible): ${household.dislikedIngredients.join(", ")}`);
   }
 
   if (userProfile.preferredCuisines?.length) {
     lines.push(`Preferred Cuisines: ${userProfile.preferredCuisines.join(", ")}`);
   }
 
-  if (userProfile.servingSize) {
-    lines.push(`Default Serving Size: ${userProfile.servingSize} people`);
+  if (household.servingSize) {
+    lines.push(
+      hasMembers
+        ? `Serving Size: ${household.servingSize} servings`
+        : `Default Serving Size: ${household.servingSize} people`
+    );
+  }
+
+  const nutritionBudget = formatNutritionBudget(userProfile);
+  if (nutritionBudget) {
+    lines.push(
+      `Nutrition Budget Per Serving (about 1/${NUTRITION_TARGETS.MEALS_PER_DAY} of daily targets; aim close to these): ${nutritionBudget}`
+    );
   }
 
   if (userProfile.cookingExperience) {
@@ -132,3 +247,20 @@ function buildUserPreferencesLines(
 
   return lines;
 }
+
+/**
+ * Formats the per-meal share of the profile's daily nutrition targets,
+ * e.g. "600 kcal, 40 g protein, 700 mg sodium". Empty when no targets are set.
+ */
+function formatNutritionBudget(userProfile: SerializableUserProfile): string {
+  if (!userProfile.nutritionTargets) return "";
+
+  const budget = getPerMealNutritionBudget(userProfile.nutritionTargets);
+  const parts: string[] = [];
+  if (budget.calories != null) parts.push(`${budget.calories} kcal`);
+  if (budget.protein != null) parts.push(`${budget.protein} g protein`);
+  if (budget.carbs != null) parts.push(`${budget.carbs} g carbs`);
+  if (budget.fat != null) parts.push(`${budget.fat} g fat`);
+  if (budget.sodium != null) parts.push(`${budget.sodium} mg sodium`);
+  return parts.join(", ");
+}
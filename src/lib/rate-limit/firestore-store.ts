@@ -0,0 +1,54 @@
+import type { Firestore } from "firebase-admin/firestore";
+import { Timestamp } from "firebase-admin/firestore";
+
+import { COLLECTIONS } from "@/lib/constants/domain";
+
+import type { RateLimitStore } from "./limiter";
+
+interface RateLimitDocument {
+  count: number;
+  /** Enable a Firestore TTL policy on this field to purge old windows. */
+  expiresAt: Timestamp;
+}
+
+function readCount(data: RateLimitDocument | undefined, now: number): number {
+  if (!data || data.expiresAt.toMillis() <= now) return 0;
+  return data.count;
+}
+
+/**
+ * Firestore-backed rate-limit store (server only, firebase-admin).
+ * Each window counter is one document in `rateLimits`, updated in a transaction.
+ * Clients have no access to the collection (see firestore.rules).
+ */
+export function createFirestoreRateLimitStore(
+  firestore: Firestore,
+  collectionName: string = COLLECTIONS.RATE_LIMITS
+): RateLimitStore {
+  const getRef = (key: string) =>
+    firestore.collection(collectionName).doc(encodeURIComponent(key));
+
+  return {
+    async increment(key, amount, ttlMs) {
+      const ref = getRef(key);
+      return firestore.runTransaction(async (transaction) => {
+        const now = Date.now();
+        const snapshot = await transaction.get(ref);
+        const count =
+          readCount(snapshot.data() as RateLimitDocument | undefined, now) + amount;
+        transaction.set(ref, {
+          count,
+          expiresAt: Timestamp.fromMillis(now + ttlMs),
+        } satisfies RateLimitDocument);
+        return count;
+      });
+    },
+    async get(key) {
+      const snapshot = await getRef(key).get();
+      return readCount(
+        snapshot.data() as RateLimitDocument | undefined,
+        Date.now()
+      );
+    },
+  };
+}
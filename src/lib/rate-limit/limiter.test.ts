@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+
+import type { RateLimitRule } from "@/lib/utils/rate-limit";
+
+import { consumeRateLimit, getRateLimitStatuses } from "./limiter";
+import { createMemoryRateLimitStore } from "./memory-store";
+import type { RedisRateLimitClient } from "./redis-store";
+import { createRedisRateLimitStore } from "./redis-store";
+
+const burst: RateLimitRule = {
+  id: "burst",
+  window: "sliding",
+  maxRequests: 2,
+  windowMs: 1000,
+};
+const daily: RateLimitRule = { id: "daily", window: "day", maxRequests: 3 };
+
+function createStore(initialNow = 0) {
+  let now = initialNow;
+  const store = createMemoryRateLimitStore(() => now);
+  return {
+    store,
+    setNow: (value: number) => {
+      now = value;
+    },
+  };
+}
+
+describe("consumeRateLimit", () => {
+  it("allows requests until the limit is reached", async () => {
+    const { store } = createStore();
+
+    await expect(consumeRateLimit(store, "user-1", [burst], { now: 0 })).resolves.toMatchObject({
+      allowed: true,
+      statuses: [{ ruleId: "burst", remaining: 1, resetAt: 1000 }],
+    });
+    await consumeRateLimit(store, "user-1", [burst], { now: 100 });
+
+    await expect(consumeRateLimit(store, "user-1", [burst], { now: 200 })).resolves.toMatchObject({
+      allowed: false,
+      blockedRuleId: "burst",
+      statuses: [{ ruleId: "burst", remaining: 0 }],
+    });
+  });
+
+  it("slides the window instead of resetting at the boundary", async () => {
+    const { store, setNow } = createStore(800);
+    await consumeRateLimit(store, "user-1", [burst], { now: 800 });
+    setNow(900);
+    await consumeRateLimit(store, "user-1", [burst], { now: 900 });
+
+    setNow(1100);
+    // 90% of the previous window still counts: 2 * 0.9 + 1 > 2
+    await expect(
+      consumeRateLimit(store, "user-1", [burst], { now: 1100 })
+    ).resolves.toMatchObject({ allowed: false });
+
+    setNow(1600);
+    // 40% of the previous window: 2 * 0.4 + 1 <= 2
+    await expect(
+      consumeRateLimit(store, "user-1", [burst], { now: 1600 })
+    ).resolves.toMatchObject({ allowed: true });
+  });
+
+  it("rolls back earlier rules when a later rule rejects", async () => {
+    const { store } = createStore();
+    const strictDaily: RateLimitRule = { id: "daily", window: "day", maxRequests: 1 };
+
+    await consumeRateLimit(store, "user-1", [burst, strictDaily], { now: 0 });
+    await expect(
+      consumeRateLimit(store, "user-1", [burst, strictDaily], { now: 10 })
+    ).resolves.toMatchObject({ allowed: false, blockedRuleId: "daily" });
+
+    const [burstStatus] = await getRateLimitStatuses(store, "user-1", [burst], 20);
+    expect(burstStatus.used).toBe(1);
+  });
+
+  it("counts a multi-request cost against quotas", async () => {
+    const { store } = createStore();
+
+    await expect(
+      consumeRateLimit(store, "user-1", [daily], { cost: 3, now: 0 })
+    ).resolves.toMatchObject({ allowed: true, statuses: [{ remaining: 0 }] });
+    await expect(
+      consumeRateLimit(store, "user-1", [daily], { cost: 1, now: 10 })
+    ).resolves.toMatchObject({ allowed: false });
+  });
+
+  it("tracks keys independently", async () => {
+    const { store } = createStore();
+    await consumeRateLimit(store, "user-1", [daily], { cost: 3, now: 0 });
+
+    await expect(
+      consumeRateLimit(store, "user-2", [daily], { now: 0 })
+    ).resolves.toMatchObject({ allowed: true });
+  });
+});
+
+describe("getRateLimitStatuses", () => {
+  it("reports remaining quota without consuming it", async () => {
+    const { store } = createStore();
+    await consumeRateLimit(store, "user-1", [daily], { now: 0 });
+
+    const [status] = await getRateLimitStatuses(store, "user-1", [daily], 0);
+    expect(status).toEqual({
+      ruleId: "daily",
+      limit: 3,
+      used: 1,
+      remaining: 2,
+      resetAt: 86_400_000,
+    });
+    const [again] = await getRateLimitStatuses(store, "user-1", [daily], 0);
+    expect(again.remaining).toBe(2);
+  });
+});
+
+describe("createRedisRateLimitStore", () => {
+  it("prefixes keys and sets expiry on every increment", async () => {
+    const values = new Map<string, number>();
+    const expiries = new Map<string, number>();
+    const client: RedisRateLimitClient = {
+      incrby: async (key, increment) => {
+        const next = (values.get(key) ?? 0) + increment;
+        values.set(key, next);
+        return next;
+      },
+      pexpire: async (key, milliseconds) => {
+        expiries.set(key, milliseconds);
+        return 1;
+      },
+      get: async (key) => (values.has(key) ? String(values.get(key)) : null),
+    };
+    const store = createRedisRateLimitStore(client);
+
+    await expect(store.increment("user-1:daily:0", 2, 500)).resolves.toBe(2);
+    await expect(store.get("user-1:daily:0")).resolves.toBe(2);
+    await expect(store.get("missing")).resolves.toBe(0);
+    expect(expiries.get("ratelimit:user-1:daily:0")).toBe(500);
+  });
+});
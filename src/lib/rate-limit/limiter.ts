@@ -0,0 +1,133 @@
+/**
+ * Storage-backed rate limiter.
+ *
+ * Limits are evaluated against a RateLimitStore so counts survive deploys and
+ * are shared between server instances. Adapters:
+ * - memory-store.ts: single-process Map (development, tests)
+ * - firestore-store.ts: Firestore via firebase-admin
+ * - redis-store.ts: any Redis-compatible client (ioredis, Upstash REST, ...)
+ */
+
+import type { RateLimitRule, RateLimitStatus } from "@/lib/utils/rate-limit";
+import {
+  getRateLimitWindow,
+  getWeightedRequestCount,
+  toRateLimitStatus,
+} from "@/lib/utils/rate-limit";
+
+/**
+ * Counter storage used by the limiter. Counters are keyed per rule window,
+ * so adapters only need atomic increments and expiry.
+ */
+export interface RateLimitStore {
+  /**
+   * Atomically adds `amount` (may be negative) to a counter and returns the new value.
+   * The counter may be discarded once `ttlMs` has elapsed.
+   */
+  increment(key: string, amount: number, ttlMs: number): Promise<number>;
+  /** Reads a counter; missing or expired counters are 0. */
+  get(key: string): Promise<number>;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Id of the first rule that rejected the request, if any. */
+  blockedRuleId: string | null;
+  statuses: RateLimitStatus[];
+}
+
+interface RateLimitOptions {
+  /** Requests to count at once (e.g. one per generated candidate). */
+  cost?: number;
+  now?: number;
+}
+
+function getBucketKey(key: string, rule: RateLimitRule, windowStart: number): string {
+  return `${key}:${rule.id}:${windowStart}`;
+}
+
+function getBucketTtl(rule: RateLimitRule, now: number): number {
+  const { end } = getRateLimitWindow(rule, now);
+  // Sliding windows are read again as the "previous" window.
+  return rule.window === "sliding" ? end - now + rule.windowMs : end - now;
+}
+
+async function getPreviousCount(
+  store: RateLimitStore,
+  key: string,
+  rule: RateLimitRule,
+  now: number
+): Promise<number> {
+  const { previousStart } = getRateLimitWindow(rule, now);
+  return previousStart == null
+    ? 0
+    : store.get(getBucketKey(key, rule, previousStart));
+}
+
+/**
+ * Counts a request against every rule. If any rule is exceeded, increments
+ * already applied are rolled back and the request is rejected.
+ */
+export async function consumeRateLimit(
+  store: RateLimitStore,
+  key: string,
+  rules: readonly RateLimitRule[],
+  { cost = 1, now = Date.now() }: RateLimitOptions = {}
+): Promise<RateLimitDecision> {
+  const applied: Array<{ bucketKey: string; ttlMs: number }> = [];
+  const statuses: RateLimitStatus[] = [];
+
+  for (const rule of rules) {
+    const bucketKey = getBucketKey(key, rule, getRateLimitWindow(rule, now).start);
+    const ttlMs = getBucketTtl(rule, now);
+    const previousCount = await getPreviousCount(store, key, rule, now);
+    const currentCount = await store.increment(bucketKey, cost, ttlMs);
+    applied.push({ bucketKey, ttlMs });
+
+    const used = getWeightedRequestCount(rule, currentCount, previousCount, now);
+    if (used > rule.maxRequests) {
+      await Promise.all(
+        applied.map(({ bucketKey: appliedKey, ttlMs: appliedTtl }) =>
+          store.increment(appliedKey, -cost, appliedTtl)
+        )
+      );
+      return {
+        allowed: false,
+        blockedRuleId: rule.id,
+        statuses: [
+          ...statuses,
+          toRateLimitStatus(rule, used - cost, now),
+        ],
+      };
+    }
+
+    statuses.push(toRateLimitStatus(rule, used, now));
+  }
+
+  return { allowed: true, blockedRuleId: null, statuses };
+}
+
+/**
+ * Reads current usage for every rule without counting a request.
+ */
+export async function getRateLimitStatuses(
+  store: RateLimitStore,
+  key: string,
+  rules: readonly RateLimitRule[],
+  now: number = Date.now()
+): Promise<RateLimitStatus[]> {
+  return Promise.all(
+    rules.map(async (rule) => {
+      const { start } = getRateLimitWindow(rule, now);
+      const [currentCount, previousCount] = await Promise.all([
+        store.get(getBucketKey(key, rule, start)),
+        getPreviousCount(store, key, rule, now),
+      ]);
+      return toRateLimitStatus(
+        rule,
+        getWeightedRequestCount(rule, currentCount, previousCount, now),
+        now
+      );
+    })
+  );
+}
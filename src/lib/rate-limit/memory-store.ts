@@ -0,0 +1,37 @@
+import type { RateLimitStore } from "./limiter";
+
+interface MemoryCounter {
+  count: number;
+  expiresAt: number;
+}
+
+/**
+ * Single-process rate-limit store. Counts reset on restart and are not shared
+ * between instances; use for development and tests only.
+ */
+export function createMemoryRateLimitStore(
+  clock: () => number = Date.now
+): RateLimitStore {
+  const counters = new Map<string, MemoryCounter>();
+
+  function read(key: string): number {
+    const counter = counters.get(key);
+    if (!counter) return 0;
+    if (counter.expiresAt <= clock()) {
+      counters.delete(key);
+      return 0;
+    }
+    return counter.count;
+  }
+
+  return {
+    async increment(key, amount, ttlMs) {
+      const count = read(key) + amount;
+      counters.set(key, { count, expiresAt: clock() + ttlMs });
+      return count;
+    },
+    async get(key) {
+      return read(key);
+    },
+  };
+}
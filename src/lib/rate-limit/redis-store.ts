@@ -0,0 +1,77 @@
+import type { RateLimitStore } from "./limiter";
+
+/**
+ * Minimal Redis command surface used by the limiter.
+ * Satisfied by ioredis and @upstash/redis clients, or createRedisRestClient().
+ */
+export interface RedisRateLimitClient {
+  incrby(key: string, increment: number): Promise<number>;
+  pexpire(key: string, milliseconds: number): Promise<unknown>;
+  get(key: string): Promise<string | number | null>;
+}
+
+interface RedisRestClientOptions {
+  url: string;
+  token: string;
+}
+
+interface RedisRestResponse {
+  result?: unknown;
+  error?: string;
+}
+
+const DEFAULT_KEY_PREFIX = "ratelimit:";
+
+/**
+ * Redis-backed rate-limit store. INCRBY is atomic, so concurrent requests on
+ * different instances never lose counts.
+ */
+export function createRedisRateLimitStore(
+  client: RedisRateLimitClient,
+  keyPrefix: string = DEFAULT_KEY_PREFIX
+): RateLimitStore {
+  return {
+    async increment(key, amount, ttlMs) {
+      const prefixedKey = `${keyPrefix}${key}`;
+      const count = await client.incrby(prefixedKey, amount);
+      await client.pexpire(prefixedKey, Math.max(1, Math.ceil(ttlMs)));
+      return count;
+    },
+    async get(key) {
+      const value = await client.get(`${keyPrefix}${key}`);
+      return Number(value ?? 0) || 0;
+    },
+  };
+}
+
+/**
+ * Dependency-free client for Redis-compatible REST endpoints (Upstash-style:
+ * POST a command array, receive `{ result }`).
+ */
+export function createRedisRestClient({
+  url,
+  token,
+}: RedisRestClientOptions): RedisRateLimitClient {
+  async function command<T>(args: Array<string | number>): Promise<T> {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(args),
+      cache: "no-store",
+    });
+    const payload = (await response.json()) as RedisRestResponse;
+    if (!response.ok || payload.error) {
+      throw new Error(payload.error ?? `Redis REST request failed (${response.status})`);
+    }
+    return payload.result as T;
+  }
+
+  return {
+    incrby: (key, increment) => command<number>(["INCRBY", key, increment]),
+    pexpire: (key, milliseconds) => command<number>(["PEXPIRE", key, milliseconds]),
+    get: (key) => command<string | null>(["GET", key]),
+  };
+}
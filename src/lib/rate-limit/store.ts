@@ -0,0 +1,51 @@
+import { getAdminFirestore } from "@/lib/firebase-admin";
+
+import { createFirestoreRateLimitStore } from "./firestore-store";
+import type { RateLimitStore } from "./limiter";
+import { createMemoryRateLimitStore } from "./memory-store";
+import { createRedisRateLimitStore, createRedisRestClient } from "./redis-store";
+
+/**
+ * Rate-limit store selection (server only).
+ *
+ * RATE_LIMIT_STORE:
+ * - "memory" (default): per-process, resets on deploy
+ * - "firestore": `rateLimits` collection via firebase-admin
+ * - "redis": Redis-compatible REST endpoint (REDIS_REST_URL + REDIS_REST_TOKEN)
+ */
+let rateLimitStore: RateLimitStore | null = null;
+
+function createRateLimitStore(env: Record<string, string | undefined>): RateLimitStore {
+  const kind = env.RATE_LIMIT_STORE?.trim().toLowerCase() || "memory";
+
+  switch (kind) {
+    case "memory":
+      return createMemoryRateLimitStore();
+    case "firestore":
+      return createFirestoreRateLimitStore(getAdminFirestore());
+    case "redis": {
+      if (!env.REDIS_REST_URL || !env.REDIS_REST_TOKEN) {
+        throw new Error(
+          "RATE_LIMIT_STORE=redis requires REDIS_REST_URL and REDIS_REST_TOKEN"
+        );
+      }
+      return createRedisRateLimitStore(
+        createRedisRestClient({
+          url: env.REDIS_REST_URL,
+          token: env.REDIS_REST_TOKEN,
+        })
+      );
+    }
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE: ${kind}`);
+  }
+}
+
+/**
+ * Returns the configured store, created once per server process.
+ * @throws {Error} When RATE_LIMIT_STORE is unknown or incompletely configured
+ */
+export function getRateLimitStore(): RateLimitStore {
+  rateLimitStore ??= createRateLimitStore(process.env);
+  return rateLimitStore;
+}
@@ -1,40 +1,76 @@
 "use server";
 
 import { createStreamableValue } from "@ai-sdk/rsc";
+import type { StreamableValue } from "@ai-sdk/rsc";
 import { streamObject } from "ai";
-import { openai } from "@ai-sdk/openai";
+import type { LanguageModel } from "ai";
 import { z } from "zod";
 
+import { RECIPE_CANDIDATES } from "@/lib/constants/domain";
 import { FORM_VALIDATION } from "@/lib/constants/ui";
 import {
   AppError,
   ERROR_MESSAGES,
   convertRecipeGenerationErrorToMessage,
 } from "@/lib/utils/error-handler";
-import type { RateLimitBucket } from "@/lib/utils/rate-limit";
-import { consumeRateLimit } from "@/lib/utils/rate-limit";
+import type { QuotaStatus, RateLimitRule } from "@/lib/utils/rate-limit";
 import { logError } from "@/lib/utils/logger";
+import { validateRefinementRequest } from "@/lib/utils/recipe-refinement";
 import { requireAuthenticatedUserId } from "@/lib/utils/server-auth";
 
+import type { RecipeStructure, RefinementTurn } from "./schemas/recipe";
+import { completeRecipeStructureSchema, refinementTurnSchema } from "./schemas/recipe";
 import type { SerializableUserProfile } from "./schemas/user";
-import { getRecipeSystemPrompt } from "./prompts";
+import { resolveRecipeModel } from "./ai/providers";
+import type { RateLimitDecision, RateLimitStore } from "./rate-limit/limiter";
+import { consumeRateLimit, getRateLimitStatuses } from "./rate-limit/limiter";
+import { getRateLimitStore } from "./rate-limit/store";
+import {
+  appendCandidateDirection,
+  buildRecipeRefinementMessages,
+  getRecipeRefinementSystemPrompt,
+  getRecipeSystemPrompt,
+} from "./prompts";
+import {
+  recipeGenerationSchema,
+  recipeRefinementSchema,
+} from "./schemas/recipe-generation";
 
 /** Max prompt length — allows wrapped templates over raw input limits. */
 const MAX_SERVER_PROMPT_LENGTH =
   FORM_VALIDATION.TEXTAREA_MAX_LENGTH + 500;
-const RECIPE_GENERATION_RATE_LIMIT = {
+/** Max characters of recipe JSON plus conversation sent per refinement. */
+const MAX_REFINEMENT_CONTEXT_LENGTH = 20_000;
+const RECIPE_GENERATION_BURST_LIMIT: RateLimitRule = {
+  id: "burst",
+  window: "sliding",
   maxRequests: 8,
   windowMs: 60_000,
-} as const;
-const recipeGenerationRateLimitBuckets = new Map<string, RateLimitBucket>();
+};
+const RECIPE_GENERATION_DAILY_QUOTA: RateLimitRule = {
+  id: "daily",
+  window: "day",
+  maxRequests: 20,
+};
+const RECIPE_GENERATION_MONTHLY_QUOTA: RateLimitRule = {
+  id: "monthly",
+  window: "month",
+  maxRequests: 300,
+};
+const RECIPE_GENERATION_RATE_LIMITS = [
+  RECIPE_GENERATION_BURST_LIMIT,
+  RECIPE_GENERATION_DAILY_QUOTA,
+  RECIPE_GENERATION_MONTHLY_QUOTA,
+];
+const RATE_LIMIT_ERROR_MESSAGES: Record<string, string> = {
+  [RECIPE_GENERATION_BURST_LIMIT.id]: ERROR_MESSAGES.RECIPE.RATE_LIMIT,
+  [RECIPE_GENERATION_DAILY_QUOTA.id]: ERROR_MESSAGES.RECIPE.DAILY_QUOTA_EXCEEDED,
+  [RECIPE_GENERATION_MONTHLY_QUOTA.id]:
+    ERROR_MESSAGES.RECIPE.MONTHLY_QUOTA_EXCEEDED,
+};
 
-function assertOpenAiConfigured(): void {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new AppError(
-      ERROR_MESSAGES.RECIPE.GENERATION_UNAVAILABLE,
-      "OPENAI_API_KEY_MISSING"
-    );
-  }
+function getRecipeGenerationRateLimitKey(userId: string): string {
+  return `recipe-generation:${userId}`;
 }
 
 function toRecipeGenerationError(error: unknown): AppError {
@@ -46,42 +82,158 @@ function toRecipeGenerationError(error: unknown): AppError {
   );
 }
 
-function assertRecipeGenerationRateLimit(userId: string): void {
-  const result = consumeRateLimit(
-    recipeGenerationRateLimitBuckets,
-    userId,
-    RECIPE_GENERATION_RATE_LIMIT
-  );
+/**
+ * Resolves the limiter store. A misconfigured store (unknown RATE_LIMIT_STORE,
+ * missing Redis credentials) fails closed instead of turning every quota off.
+ * @throws AppError when the store cannot be created
+ */
+function requireRateLimitStore(): RateLimitStore {
+  try {
+    return getRateLimitStore();
+  } catch (error) {
+    logError("Rate limit store is misconfigured; refusing generation", error);
+    throw new AppError(
+      ERROR_MESSAGES.RECIPE.GENERATION_UNAVAILABLE,
+      "RATE_LIMIT_STORE_NOT_CONFIGURED"
+    );
+  }
+}
 
-  if (!result.allowed) {
-    throw new AppError(ERROR_MESSAGES.RECIPE.RATE_LIMIT, "RATE_LIMITED", {
-      userId,
-      resetAt: result.resetAt,
-    });
+/**
+ * Counts generations against the burst limit and the daily/monthly quotas.
+ * Fails open when a configured store errors at runtime so an outage of the
+ * store does not take recipe generation down with it.
+ * @param cost - Generations to count at once (one per candidate)
+ */
+async function assertRecipeGenerationRateLimit(userId: string, cost = 1): Promise<void> {
+  const store = requireRateLimitStore();
+
+  let decision: RateLimitDecision;
+  try {
+    decision = await consumeRateLimit(
+      store,
+      getRecipeGenerationRateLimitKey(userId),
+      RECIPE_GENERATION_RATE_LIMITS,
+      { cost }
+    );
+  } catch (error) {
+    logError("Rate limit store unavailable; allowing request", error, { userId });
+    return;
+  }
+
+  if (!decision.allowed && decision.blockedRuleId) {
+    const blockedStatus = decision.statuses.find(
+      (status) => status.ruleId === decision.blockedRuleId
+    );
+    // A smaller request would still fit; say so instead of "quota used up"
+    const hasRemaining = cost > 1 && (blockedStatus?.remaining ?? 0) > 0;
+    throw new AppError(
+      hasRemaining
+        ? ERROR_MESSAGES.RECIPE.CANDIDATES_OVER_LIMIT
+        : (RATE_LIMIT_ERROR_MESSAGES[decision.blockedRuleId] ??
+            ERROR_MESSAGES.RECIPE.RATE_LIMIT),
+      "RATE_LIMITED",
+      {
+        userId,
+        ruleId: decision.blockedRuleId,
+        resetAt: blockedStatus?.resetAt,
+        cost,
+      }
+    );
+  }
+}
+
+/**
+ * Returns the signed-in user's remaining generation quota for display.
+ * Reports whichever calendar quota (daily or monthly) has fewer generations left.
+ * @returns Quota status, or null when the limiter store is unavailable
+ */
+export async function getRecipeGenerationQuota(): Promise<QuotaStatus | null> {
+  const userId = await requireAuthenticatedUserId();
+
+  try {
+    const [daily, monthly] = await getRateLimitStatuses(
+      getRateLimitStore(),
+      getRecipeGenerationRateLimitKey(userId),
+      [RECIPE_GENERATION_DAILY_QUOTA, RECIPE_GENERATION_MONTHLY_QUOTA]
+    );
+    const limiting = monthly.remaining < daily.remaining ? monthly : daily;
+
+    return {
+      period: limiting === monthly ? "month" : "day",
+      limit: limiting.limit,
+      remaining: limiting.remaining,
+      resetAt: limiting.resetAt,
+    };
+  } catch (error) {
+    logError("Failed to read recipe generation quota", error, { userId });
+    return null;
+  }
+}
+
+/**
+ * Trims and length-checks a prompt from the client.
+ * @throws AppError when the prompt is too short or too long
+ */
+function validateServerPrompt(prompt: string): string {
+  const trimmedPrompt = prompt.trim();
+  if (
+    trimmedPrompt.length < FORM_VALIDATION.INPUT_MIN_LENGTH ||
+    trimmedPrompt.length > MAX_SERVER_PROMPT_LENGTH
+  ) {
+    throw new AppError(
+      ERROR_MESSAGES.RECIPE.GENERATION_FAILED,
+      "INVALID_PROMPT"
+    );
   }
+  return trimmedPrompt;
+}
+
+/**
+ * Forwards a provider's partial objects to a streamable value for the client.
+ */
+function toStreamableValue(
+  partialObjectStream: AsyncIterable<unknown>
+): StreamableValue<unknown> {
+  const stream = createStreamableValue<unknown>();
+  void (async () => {
+    try {
+      for await (const partialObject of partialObjectStream) {
+        stream.update(partialObject);
+      }
+      stream.done();
+    } catch (error) {
+      logError("Recipe provider stream failed", error, {});
+      stream.error(toRecipeGenerationError(error));
+    }
+  })();
+
+  return stream.value;
 }
 
 /**
- * Schema for AI-generated recipe structure.
- * Uses .describe() annotations to provide context for the AI model.
- * OpenAI strict schema requires all fields to be required and additionalProperties: false.
+ * Starts one structured recipe stream and forwards its partial objects.
+ * @throws AppError when the provider fails to start
  */
-const recipeGenerationSchema = z.object({
-  title: z.string().describe("The title of the recipe"),
-  preparationTime: z.string().describe("Time needed for preparation (e.g. '15 mins')"),
-  cookingTime: z.string().describe("Time needed for cooking (e.g. '45 mins')"),
-  servings: z.number().describe("Number of people served"),
-  difficulty: z.enum(["Easy", "Moderate", "Advanced"]).describe("Difficulty level"),
-  ingredients: z.array(z.string()).describe("List of ingredients with measurements"),
-  instructions: z.array(z.string()).describe("Step-by-step cooking instructions"),
-  tips: z.array(z.string()).describe("Helpful cooking tips"),
-  calories: z.number().nullable().describe("Approximate calories per serving (use null if unknown)"),
-  macros: z.object({
-    protein: z.string().nullable().describe("Protein per serving (use null if unknown)"),
-    carbs: z.string().nullable().describe("Carbs per serving (use null if unknown)"),
-    fat: z.string().nullable().describe("Fat per serving (use null if unknown)"),
-  }).strict().nullable().describe("Macronutrients per serving (use null if unknown)"),
-}).strict();
+function streamRecipe(
+  model: LanguageModel,
+  system: string,
+  prompt: string
+): StreamableValue<unknown> {
+  try {
+    const result = streamObject({
+      model,
+      schema: recipeGenerationSchema,
+      system,
+      prompt,
+      temperature: 0,
+    });
+    return toStreamableValue(result.partialObjectStream);
+  } catch (error) {
+    logError("Recipe provider failed to start", error, {});
+    throw toRecipeGenerationError(error);
+  }
+}
 
 /**
  * Generates a recipe using AI based on user input and preferences.
@@ -96,48 +248,120 @@ export async function generateRecipe(
   userProfile?: SerializableUserProfile | null
 ) {
   const userId = await requireAuthenticatedUserId();
+  const trimmedPrompt = validateServerPrompt(prompt);
+
+  await assertRecipeGenerationRateLimit(userId);
+
+  return streamRecipe(
+    resolveRecipeModel(),
+    getRecipeSystemPrompt(isIngredientBased, userProfile),
+    trimmedPrompt
+  );
+}
+
+/**
+ * Generates several distinct recipes for the same request in parallel.
+ * Each candidate counts as one generation; all are counted up front, so the
+ * request is rejected as a whole when the quotas cannot cover every candidate.
+ * @param prompt - The user's recipe request
+ * @param isIngredientBased - Whether the request is ingredient-based or specific dish
+ * @param userProfile - Optional user profile (must be serializable)
+ * @param candidateCount - Number of candidates, within RECIPE_CANDIDATES bounds
+ * @returns One streamable value per candidate, in order
+ */
+export async function generateRecipeCandidates(
+  prompt: string,
+  isIngredientBased: boolean,
+  userProfile: SerializableUserProfile | null,
+  candidateCount: number
+) {
+  const userId = await requireAuthenticatedUserId();
+  const trimmedPrompt = validateServerPrompt(prompt);
 
-  const trimmedPrompt = prompt.trim();
   if (
-    trimmedPrompt.length < FORM_VALIDATION.INPUT_MIN_LENGTH ||
-    trimmedPrompt.length > MAX_SERVER_PROMPT_LENGTH
+    !Number.isInteger(candidateCount) ||
+    candidateCount < RECIPE_CANDIDATES.MIN_COUNT ||
+    candidateCount > RECIPE_CANDIDATES.MAX_COUNT
   ) {
     throw new AppError(
       ERROR_MESSAGES.RECIPE.GENERATION_FAILED,
-      "INVALID_PROMPT"
+      "INVALID_CANDIDATE_COUNT",
+      { candidateCount }
+    );
+  }
+
+  await assertRecipeGenerationRateLimit(userId, candidateCount);
+
+  const model = resolveRecipeModel();
+  const system = getRecipeSystemPrompt(isIngredientBased, userProfile);
+  return Array.from({ length: candidateCount }, (_, index) =>
+    streamRecipe(
+      model,
+      system,
+      appendCandidateDirection(trimmedPrompt, index, candidateCount)
+    )
+  );
+}
+
+/**
+ * Revises the current recipe from a chat-style request, with the earlier
+ * turns of the conversation as context. Counts as one generation.
+ * @param recipe - The recipe as currently shown (units as generated)
+ * @param thread - Earlier turns of the conversation, oldest first
+ * @param request - The new change request (e.g. "halve the butter")
+ * @param userProfile - Optional user profile (must be serializable)
+ * @returns Streamable value of the partial `{ recipe, changes }` object
+ */
+export async function refineRecipe(
+  recipe: RecipeStructure,
+  thread: RefinementTurn[],
+  request: string,
+  userProfile?: SerializableUserProfile | null
+) {
+  const userId = await requireAuthenticatedUserId();
+
+  const parsedRecipe = completeRecipeStructureSchema.safeParse(recipe);
+  const parsedThread = z.array(refinementTurnSchema).safeParse(thread);
+  if (!parsedRecipe.success || !parsedThread.success) {
+    throw new AppError(ERROR_MESSAGES.RECIPE.REFINEMENT_FAILED, "INVALID_REFINEMENT");
+  }
+
+  const requestError = validateRefinementRequest(request, parsedThread.data);
+  if (requestError) {
+    throw new AppError(requestError, "INVALID_REFINEMENT");
+  }
+
+  const messages = buildRecipeRefinementMessages(
+    parsedRecipe.data,
+    parsedThread.data,
+    request.trim()
+  );
+  const contextLength = messages.reduce(
+    (total, message) =>
+      total + (typeof message.content === "string" ? message.content.length : 0),
+    0
+  );
+  if (contextLength > MAX_REFINEMENT_CONTEXT_LENGTH) {
+    throw new AppError(
+      ERROR_MESSAGES.RECIPE.REFINEMENT_LIMIT_REACHED,
+      "REFINEMENT_TOO_LONG",
+      { contextLength }
     );
   }
 
-  assertRecipeGenerationRateLimit(userId);
-  assertOpenAiConfigured();
+  await assertRecipeGenerationRateLimit(userId);
 
-  let partialObjectStream: AsyncIterable<unknown>;
   try {
     const result = streamObject({
-      model: openai("gpt-4o"),
-      schema: recipeGenerationSchema,
-      system: getRecipeSystemPrompt(isIngredientBased, userProfile),
-      prompt: trimmedPrompt,
+      model: resolveRecipeModel(),
+      schema: recipeRefinementSchema,
+      system: getRecipeRefinementSystemPrompt(userProfile),
+      messages,
       temperature: 0,
     });
-    partialObjectStream = result.partialObjectStream;
+    return toStreamableValue(result.partialObjectStream);
   } catch (error) {
-    logError("Recipe provider failed to start", error, {});
+    logError("Recipe provider failed to start refinement", error, {});
     throw toRecipeGenerationError(error);
   }
-
-  const stream = createStreamableValue<unknown>();
-  void (async () => {
-    try {
-      for await (const partialObject of partialObjectStream) {
-        stream.update(partialObject);
-      }
-      stream.done();
-    } catch (error) {
-      logError("Recipe provider stream failed", error, {});
-      stream.error(toRecipeGenerationError(error));
-    }
-  })();
-
-  return stream.value;
 }
@@ -0,0 +1,50 @@
+import { z } from "zod";
+
+import { requiredTimestampSchema } from "../utils/firestore";
+
+/**
+ * Meal plan schemas for validation and type safety.
+ *
+ * Organization:
+ * - BASE SCHEMAS: Planned meals and weekly plans
+ * - TYPE EXPORTS: TypeScript types derived from schemas
+ */
+
+// ============================================================================
+// BASE SCHEMAS
+// ============================================================================
+
+/**
+ * One saved recipe placed in a day/slot of the week.
+ * `recipeTitle` is copied at planning time so the plan still reads well if
+ * the recipe is later deleted.
+ */
+export const mealPlanEntrySchema = z.object({
+  id: z.string().min(1),
+  /** Day offset from the week start (0 = Monday). */
+  day: z.number().int().min(0).max(6),
+  slot: z.enum(["breakfast", "lunch", "dinner"]),
+  recipeId: z.string().min(1),
+  recipeTitle: z.string().min(1),
+  servings: z.number().int().positive(),
+});
+
+/**
+ * Weekly meal plan document in Firestore.
+ * One document per user and week; the document id is `${userId}_${weekStart}`.
+ */
+export const mealPlanSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  /** ISO date (YYYY-MM-DD) of the Monday the week starts on. */
+  weekStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  entries: z.array(mealPlanEntrySchema),
+  updatedAt: requiredTimestampSchema,
+});
+
+// ============================================================================
+// TYPE EXPORTS
+// ============================================================================
+
+export type MealPlanEntry = z.infer<typeof mealPlanEntrySchema>;
+export type MealPlan = z.infer<typeof mealPlanSchema>;
@@ -0,0 +1,62 @@
+import { z } from "zod";
+
+import { PANTRY } from "../constants/domain";
+import { firestoreTimestampSchema } from "../utils/firestore";
+
+/**
+ * Pantry schemas for validation and type safety.
+ *
+ * Organization:
+ * - INPUT VALIDATION: New pantry item form
+ * - BASE SCHEMAS: Stored pantry items and the per-user pantry document
+ * - TYPE EXPORTS: TypeScript types derived from schemas
+ */
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a valid date");
+
+// ============================================================================
+// INPUT VALIDATION
+// ============================================================================
+
+/**
+ * Validation schema for adding or editing a pantry item.
+ */
+export const pantryItemInputSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Item name is required")
+    .max(PANTRY.MAX_NAME_LENGTH, `Item name is too long (max ${PANTRY.MAX_NAME_LENGTH} characters)`),
+  quantity: z.number().positive("Quantity must be greater than zero").nullable().default(null),
+  unit: z.string().trim().max(20).nullable().default(null),
+  expiresOn: isoDateSchema.nullable().default(null),
+});
+
+// ============================================================================
+// BASE SCHEMAS
+// ============================================================================
+
+/**
+ * Pantry item stored in Firestore. Nullable fields default to null so
+ * documents never contain `undefined` (rejected by Firestore).
+ */
+export const pantryItemSchema = pantryItemInputSchema.extend({
+  id: z.string().min(1),
+});
+
+/**
+ * Pantry document in Firestore (document id is the UID).
+ */
+export const pantrySchema = z.object({
+  id: z.string(),
+  items: z.array(pantryItemSchema).max(PANTRY.MAX_ITEMS),
+  updatedAt: firestoreTimestampSchema,
+});
+
+// ============================================================================
+// TYPE EXPORTS
+// ============================================================================
+
+export type PantryItemInput = z.input<typeof pantryItemInputSchema>;
+export type PantryItem = z.infer<typeof pantryItemSchema>;
+export type Pantry = z.infer<typeof pantrySchema>;
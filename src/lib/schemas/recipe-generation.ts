@@ -0,0 +1,59 @@
+import { z } from "zod";
+
+/**
+ * Schemas for AI recipe generation output.
+ *
+ * Lives outside recipe-generation.server.ts because "use server" modules may
+ * only export async functions; the offline fixtures validate against it too.
+ */
+
+/**
+ * Schema for one AI-generated ingredient.
+ * Mirrors structuredIngredientSchema with every field required (nullable) for strict mode.
+ */
+export const generatedIngredientSchema = z.object({
+  quantity: z.number().nullable().describe("Numeric amount (e.g. 1.5); null when unmeasured (e.g. 'to taste')"),
+  unit: z.string().nullable().describe("Measurement unit (e.g. 'cups', 'g', 'tbsp'); null for whole items"),
+  item: z.string().describe("Ingredient name only, without quantity or preparation (e.g. 'all-purpose flour')"),
+  preparation: z.string().nullable().describe("Preparation note (e.g. 'finely chopped'); null if none"),
+  optional: z.boolean().describe("True when the ingredient can be left out"),
+  group: z.string().nullable().describe("Recipe component this belongs to (e.g. 'Sauce'); null if the recipe has one component"),
+}).strict();
+
+/**
+ * Schema for AI-generated recipe structure.
+ * Uses .describe() annotations to provide context for the AI model.
+ * OpenAI strict schema requires all fields to be required and additionalProperties: false.
+ * Shared by every AI provider, including the offline fixture provider.
+ */
+export const recipeGenerationSchema = z.object({
+  title: z.string().describe("The title of the recipe"),
+  preparationTime: z.string().describe("Time needed for preparation (e.g. '15 mins')"),
+  cookingTime: z.string().describe("Time needed for cooking (e.g. '45 mins')"),
+  servings: z.number().describe("Number of people served"),
+  difficulty: z.enum(["Easy", "Moderate", "Advanced"]).describe("Difficulty level"),
+  ingredients: z.array(generatedIngredientSchema).describe("List of ingredients with measurements"),
+  instructions: z.array(z.string()).describe("Step-by-step cooking instructions"),
+  tips: z.array(z.string()).describe("Helpful cooking tips"),
+  calories: z.number().nullable().describe("Approximate calories per serving (use null if unknown)"),
+  macros: z.object({
+    protein: z.string().nullable().describe("Protein per serving (use null if unknown)"),
+    carbs: z.string().nullable().describe("Carbs per serving (use null if unknown)"),
+    fat: z.string().nullable().describe("Fat per serving (use null if unknown)"),
+    sodium: z.string().nullable().describe("Sodium per serving in mg (use null if unknown)"),
+  }).strict().nullable().describe("Macronutrients per serving (use null if unknown)"),
+}).strict();
+
+/**
+ * Schema for one conversational refinement: the whole revised recipe plus a
+ * short changelog shown in the refinement thread.
+ */
+export const recipeRefinementSchema = z.object({
+  recipe: recipeGenerationSchema.describe("The complete revised recipe"),
+  changes: z
+    .array(z.string())
+    .describe("What changed, one short line per change (e.g. 'Swapped chicken for extra-firm tofu')"),
+}).strict();
+
+export type RecipeGeneration = z.infer<typeof recipeGenerationSchema>;
+export type RecipeRefinement = z.infer<typeof recipeRefinementSchema>;
@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+import { requiredTimestampSchema } from "../utils/firestore";
+import { structuredIngredientSchema } from "./recipe";
+
+/**
+ * Recipe version schemas for edit history.
+ *
+ * Organization:
+ * - BASE SCHEMAS: Editable recipe snapshot and stored versions
+ * - TYPE EXPORTS: TypeScript types derived from schemas
+ */
+
+// ============================================================================
+// BASE SCHEMAS
+// ============================================================================
+
+/**
+ * The editable fields of a saved recipe at one point in time.
+ * Missing legacy fields are stored as null so snapshots are Firestore-safe.
+ */
+export const recipeSnapshotSchema = z.object({
+  title: z.string().min(1),
+  content: z.string(),
+  ingredients: z.array(structuredIngredientSchema),
+  instructions: z.array(z.string()),
+  tips: z.array(z.string()),
+  preparationTime: z.string().nullable(),
+  cookingTime: z.string().nullable(),
+  servings: z.number().int().positive().nullable(),
+  difficulty: z.string().nullable(),
+  cuisine: z.string().nullable(),
+});
+
+/**
+ * A prior version stored in `recipes/{recipeId}/versions`, written whenever
+ * the recipe is edited or restored. Versions are immutable.
+ */
+export const recipeVersionSchema = recipeSnapshotSchema.extend({
+  id: z.string(),
+  createdAt: requiredTimestampSchema,
+});
+
+// ============================================================================
+// TYPE EXPORTS
+// ============================================================================
+
+export type RecipeSnapshot = z.infer<typeof recipeSnapshotSchema>;
+export type RecipeVersion = z.infer<typeof recipeVersionSchema>;
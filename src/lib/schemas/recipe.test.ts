@@ -47,6 +47,38 @@ describe("recipeSchema", () => {
 
     expect(result.success).toBe(true);
   });
+
+  it("upgrades legacy string ingredients to structured entries", () => {
+    const result = recipeSchema.safeParse({
+      id: "recipe-id",
+      userId: "user-id",
+      title: "Legacy Soup",
+      content: "# Legacy Soup",
+      createdAt,
+      ingredients: ["2 cups broth", "1 carrot, diced"],
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.ingredients).toEqual([
+      {
+        quantity: 2,
+        unit: "cups",
+        item: "broth",
+        preparation: null,
+        optional: false,
+        group: null,
+      },
+      {
+        quantity: 1,
+        unit: null,
+        item: "carrot",
+        preparation: "diced",
+        optional: false,
+        group: null,
+      },
+    ]);
+  });
 });
 
 describe("completeRecipeStructureSchema", () => {
@@ -93,6 +125,28 @@ describe("recipeStructureSchema", () => {
     });
   });
 
+  it("skips streamed ingredients until their item name arrives", () => {
+    const result = recipeStructureSchema.safeParse({
+      ingredients: [
+        { quantity: 2, unit: "cups", item: "flour", preparation: null },
+        { quantity: 1, unit: "tsp" },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.ingredients).toEqual([
+      {
+        quantity: 2,
+        unit: "cups",
+        item: "flour",
+        preparation: null,
+        optional: false,
+        group: null,
+      },
+    ]);
+  });
+
   it("keeps valid streamed difficulty values", () => {
     const result = recipeStructureSchema.safeParse({
       title: "Chocolate Chip Cookies",
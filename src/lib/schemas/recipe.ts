@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { requiredTimestampSchema } from "../utils/firestore";
 import { FORM_VALIDATION } from "../constants/ui";
+import { parseIngredientLine } from "../utils/ingredients";
 
 /**
  * Recipe schemas for validation and type safety.
@@ -8,7 +9,7 @@ import { FORM_VALIDATION } from "../constants/ui";
  * Organization:
  * - DOMAIN TYPES: Core domain types (RecipeMode)
  * - INPUT VALIDATION: User input validation for recipe generation
- * - BASE SCHEMAS: Core recipe data structures
+ * - BASE SCHEMAS: Core recipe data structures (ingredients, saved recipes)
  * - DERIVED SCHEMAS: Variations for specific use cases (streaming, validation)
  * - TYPE EXPORTS: TypeScript types derived from schemas
  */
@@ -34,6 +35,35 @@ function normalizeStreamingDifficulty(value: unknown): unknown {
     : undefined;
 }
 
+/**
+ * Upgrades an ingredient list to structured entries.
+ *
+ * LEGACY UPGRADE PATH:
+ * - Plain strings (recipes saved before structured ingredients) are parsed
+ *   into quantity/unit/item/preparation fields with parseIngredientLine()
+ * - Objects without a usable `item` are dropped; while streaming this skips
+ *   an entry until its name has arrived instead of failing the whole object
+ */
+function upgradeIngredientEntries(value: unknown): unknown {
+  if (!Array.isArray(value)) return value;
+
+  return value.flatMap((entry: unknown) => {
+    if (typeof entry === "string") {
+      return entry.trim() ? [parseIngredientLine(entry)] : [];
+    }
+    if (
+      entry &&
+      typeof entry === "object" &&
+      "item" in entry &&
+      typeof entry.item === "string" &&
+      entry.item.trim()
+    ) {
+      return [entry];
+    }
+    return [];
+  });
+}
+
 // ============================================================================
 // INPUT VALIDATION
 // ============================================================================
@@ -74,6 +104,53 @@ export const ingredientsRecipeInputSchema = z
 // BASE SCHEMAS
 // ============================================================================
 
+/**
+ * Structured ingredient - one line of a recipe's ingredient list.
+ *
+ * Only `item` is required so partially streamed entries and older documents
+ * still parse; every other field defaults to null/false, which also keeps
+ * persisted documents free of `undefined` values (rejected by Firestore).
+ */
+export const structuredIngredientSchema = z.object({
+  quantity: z.number().nullable().default(null),
+  unit: z.string().nullable().default(null),
+  item: z.string().min(1, "Ingredient name is required"),
+  preparation: z.string().nullable().default(null),
+  optional: z.boolean().default(false),
+  group: z.string().nullable().default(null),
+});
+
+/**
+ * Ingredient list accepting structured entries and legacy strings.
+ * Output is always StructuredIngredient[].
+ */
+const ingredientListSchema = z.preprocess(
+  upgradeIngredientEntries,
+  z.array(structuredIngredientSchema)
+);
+
+/**
+ * Photo of a finished dish, stored in Firebase Storage under
+ * `users/{uid}/recipes/{recipeId}/`. The download URL is kept so lists can
+ * show covers without extra Storage calls.
+ */
+export const recipePhotoSchema = z.object({
+  id: z.string(),
+  path: z.string(),
+  url: z.string(),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+});
+
+/**
+ * One turn of a conversational refinement on /generate: what the user asked
+ * for and the model's changelog. Kept on the recipe when it is saved.
+ */
+export const refinementTurnSchema = z.object({
+  request: z.string(),
+  changes: z.array(z.string()),
+});
+
 /**
  * Base recipe schema - represents a saved recipe in Firestore.
  * Includes database fields (id, userId, createdAt) plus recipe content.
@@ -81,6 +158,7 @@ export const ingredientsRecipeInputSchema = z
  * BACKWARDS COMPATIBILITY:
  * - All metadata fields are optional to support recipes created before structured data
  * - UI components should handle undefined gracefully
+ * - Legacy string ingredients are upgraded to StructuredIngredient on read
  * - Uses passthrough() to allow legacy fields that may exist in old recipes
  */
 export const recipeSchema = z.object({
@@ -89,7 +167,7 @@ export const recipeSchema = z.object({
   title: z.string().min(1, "Title is required"),
   content: z.string().min(1, "Content is required"),
   createdAt: requiredTimestampSchema,
-  ingredients: z.array(z.string()).optional(),
+  ingredients: ingredientListSchema.optional(),
   instructions: z.array(z.string()).optional(),
   tips: z.array(z.string()).optional(),
   preparationTime: z.string().optional(),
@@ -103,9 +181,23 @@ export const recipeSchema = z.object({
       protein: z.string().nullable(),
       carbs: z.string().nullable(),
       fat: z.string().nullable(),
+      sodium: z.string().nullable().optional(),
     })
     .nullable()
     .optional(),
+  favorite: z.boolean().optional(),
+  /** Free-form labels ("spicy", "make-ahead"). */
+  tags: z.array(z.string()).optional(),
+  /** User-defined groupings ("Weeknight", "Holiday baking"). */
+  collections: z.array(z.string()).optional(),
+  /** Dish photos; the first is the cover. */
+  photos: z.array(recipePhotoSchema).optional(),
+  /** Set while a public snapshot exists in `sharedRecipes`. */
+  shareId: z.string().optional(),
+  /** Set while the recipe is in the trash; cleared on restore. */
+  deletedAt: requiredTimestampSchema.optional(),
+  /** Refinement conversation from before the recipe was saved, oldest first. */
+  refinementThread: z.array(refinementTurnSchema).optional(),
 }).passthrough();
 
 // ============================================================================
@@ -133,7 +225,7 @@ export const recipeStructureSchema = z.object({
       recipeDifficultySchema.optional()
     )
     .optional(),
-  ingredients: z.array(z.string()).optional(),
+  ingredients: ingredientListSchema.optional(),
   instructions: z.array(z.string()).optional(),
   tips: z.array(z.string()).optional(),
   calories: z.number().nullable().optional(),
@@ -141,6 +233,7 @@ export const recipeStructureSchema = z.object({
     protein: z.string().nullable(),
     carbs: z.string().nullable(),
     fat: z.string().nullable(),
+    sodium: z.string().nullable().optional(),
   }).nullable().optional(),
 });
 
@@ -159,7 +252,12 @@ export const completeRecipeStructureSchema = z.object({
   cookingTime: z.string(),
   servings: z.number(),
   difficulty: recipeDifficultySchema,
-  ingredients: z.array(z.string()).min(1, "Recipe must have at least one ingredient"),
+  ingredients: z.preprocess(
+    upgradeIngredientEntries,
+    z
+      .array(structuredIngredientSchema)
+      .min(1, "Recipe must have at least one ingredient")
+  ),
   instructions: z.array(z.string()).min(1, "Recipe must have at least one instruction"),
   tips: z.array(z.string()).optional(),
   calories: z.number().nullable().optional(),
@@ -167,6 +265,7 @@ export const completeRecipeStructureSchema = z.object({
     protein: z.string().nullable(),
     carbs: z.string().nullable(),
     fat: z.string().nullable(),
+    sodium: z.string().nullable().optional(),
   }).nullable().optional(),
 });
 
@@ -184,6 +283,9 @@ export interface ParsedRecipe {
   structuredData?: RecipeStructure;
 }
 
+export type StructuredIngredient = z.infer<typeof structuredIngredientSchema>;
+export type RecipePhoto = z.infer<typeof recipePhotoSchema>;
+export type RefinementTurn = z.infer<typeof refinementTurnSchema>;
 export type Recipe = z.infer<typeof recipeSchema>;
 export type RecipeStructure = z.infer<typeof recipeStructureSchema>;
 export type CompleteRecipeStructure = z.infer<typeof completeRecipeStructureSchema>;
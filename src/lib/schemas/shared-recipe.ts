@@ -0,0 +1,50 @@
+import { z } from "zod";
+
+import { requiredTimestampSchema } from "../utils/firestore";
+import { recipeSnapshotSchema } from "./recipe-version";
+
+/**
+ * Shared recipe schemas for public share links.
+ *
+ * Organization:
+ * - BASE SCHEMAS: Published recipe snapshot
+ * - TYPE EXPORTS: TypeScript types derived from schemas
+ */
+
+// ============================================================================
+// BASE SCHEMAS
+// ============================================================================
+
+const sharedMacrosSchema = z.object({
+  protein: z.string().nullable(),
+  carbs: z.string().nullable(),
+  fat: z.string().nullable(),
+  sodium: z.string().nullable().optional(),
+});
+
+/**
+ * Recipe fields copied into a public snapshot when the owner shares it.
+ * Later edits to the saved recipe are not visible until it is shared again.
+ */
+export const sharedRecipeContentSchema = recipeSnapshotSchema.extend({
+  calories: z.number().nullable(),
+  macros: sharedMacrosSchema.nullable(),
+});
+
+/**
+ * A published snapshot in `sharedRecipes/{shareId}`, readable by anyone
+ * who has the share id.
+ */
+export const sharedRecipeSchema = sharedRecipeContentSchema.extend({
+  id: z.string(),
+  userId: z.string(),
+  recipeId: z.string(),
+  publishedAt: requiredTimestampSchema,
+});
+
+// ============================================================================
+// TYPE EXPORTS
+// ============================================================================
+
+export type SharedRecipeContent = z.infer<typeof sharedRecipeContentSchema>;
+export type SharedRecipe = z.infer<typeof sharedRecipeSchema>;
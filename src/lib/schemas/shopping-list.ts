@@ -0,0 +1,52 @@
+import { z } from "zod";
+
+import { SHOPPING_AISLES } from "../constants/domain";
+import { requiredTimestampSchema } from "../utils/firestore";
+
+/**
+ * Shopping list schemas for validation and type safety.
+ *
+ * Organization:
+ * - BASE SCHEMAS: List items and persisted lists
+ * - TYPE EXPORTS: TypeScript types derived from schemas
+ */
+
+// ============================================================================
+// BASE SCHEMAS
+// ============================================================================
+
+/**
+ * One consolidated line of a shopping list.
+ * `id` is derived from the merged item and unit, so it is stable when a list
+ * is rebuilt from the same recipes.
+ */
+export const shoppingListItemSchema = z.object({
+  id: z.string().min(1),
+  item: z.string().min(1),
+  quantity: z.number().nullable(),
+  unit: z.string().nullable(),
+  aisle: z.enum(SHOPPING_AISLES),
+  checked: z.boolean().default(false),
+  /** Titles of the recipes that need this item. */
+  recipeTitles: z.array(z.string()).default([]),
+});
+
+/**
+ * Shopping list document in Firestore.
+ * Ownership mirrors recipes: `userId` must match the signed-in user.
+ */
+export const shoppingListSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  title: z.string().min(1),
+  recipeIds: z.array(z.string()),
+  items: z.array(shoppingListItemSchema),
+  createdAt: requiredTimestampSchema,
+});
+
+// ============================================================================
+// TYPE EXPORTS
+// ============================================================================
+
+export type ShoppingListItem = z.infer<typeof shoppingListItemSchema>;
+export type ShoppingList = z.infer<typeof shoppingListSchema>;
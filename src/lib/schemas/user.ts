@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { HOUSEHOLD, NUTRITION_TARGETS } from "../constants/domain";
 import { firestoreTimestampSchema } from "../utils/firestore";
 
 /**
@@ -14,6 +15,33 @@ import { firestoreTimestampSchema } from "../utils/firestore";
 // BASE SCHEMAS
 // ============================================================================
 
+/**
+ * Another person the user cooks for, with their own restrictions.
+ */
+export const householdMemberSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1).max(HOUSEHOLD.MAX_NAME_LENGTH),
+  dietary: z.array(z.string()),
+  allergies: z.array(z.string()),
+  dislikedIngredients: z.array(z.string()),
+  /** Portions this member counts for when they are eating. */
+  servings: z.number().int().min(1).max(HOUSEHOLD.MAX_MEMBER_SERVINGS).default(1),
+});
+
+const targetSchema = (max: number) => z.number().int().positive().max(max).nullable();
+
+/**
+ * Daily nutrition targets; null leaves a nutrient untracked.
+ * Protein, carbs, and fat are in grams, sodium in milligrams.
+ */
+export const nutritionTargetsSchema = z.object({
+  calories: targetSchema(NUTRITION_TARGETS.MAX_CALORIES),
+  protein: targetSchema(NUTRITION_TARGETS.MAX_MACRO_GRAMS),
+  carbs: targetSchema(NUTRITION_TARGETS.MAX_MACRO_GRAMS),
+  fat: targetSchema(NUTRITION_TARGETS.MAX_MACRO_GRAMS),
+  sodium: targetSchema(NUTRITION_TARGETS.MAX_SODIUM_MG),
+});
+
 /**
  * Base user profile schema - represents a user profile in Firestore.
  * Includes database fields (id, updatedAt) plus user preferences.
@@ -26,6 +54,19 @@ export const userProfileSchema = z.object({
   cookingExperience: z.enum(["beginner", "intermediate", "advanced"]),
   servingSize: z.number().int().min(1).max(12),
   preferredCuisines: z.array(z.string()),
+  /** Display units for recipes; null (and profiles saved before this field) shows recipes as written. */
+  unitSystem: z.enum(["us", "metric", "imperial"]).nullable().default(null),
+  /** Response to allergens found in a generated recipe; older profiles block saving. */
+  allergenAction: z.enum(["warn", "block", "regenerate"]).default("block"),
+  /** Other eaters picked at generate time; the profile owner always eats. */
+  householdMembers: z.array(householdMemberSchema).max(HOUSEHOLD.MAX_MEMBERS).default([]),
+  nutritionTargets: nutritionTargetsSchema.default({
+    calories: null,
+    protein: null,
+    carbs: null,
+    fat: null,
+    sodium: null,
+  }),
   updatedAt: firestoreTimestampSchema,
 });
 
@@ -68,6 +109,8 @@ export const userProfileInputSchema = userProfileSchema.omit({
 // TYPE EXPORTS
 // ============================================================================
 
+export type HouseholdMember = z.infer<typeof householdMemberSchema>;
+export type NutritionTargets = z.infer<typeof nutritionTargetsSchema>;
 export type UserProfile = z.infer<typeof userProfileSchema>;
 export type SerializableUserProfile = z.infer<typeof serializableUserProfileSchema>;
 export type UserProfileInput = z.infer<typeof userProfileInputSchema>;
@@ -0,0 +1,104 @@
+/**
+ * Account business logic service: data export and account deletion.
+ * Separates business operations from state management.
+ */
+
+import { deleteUser } from "firebase/auth";
+import type { User } from "firebase/auth";
+
+import {
+  getUserProfile,
+  getUserRecipes,
+  deleteUserFirestoreData,
+  deleteUserStorageFiles,
+} from "@/lib/db";
+import { ACCOUNT_DELETION } from "@/lib/constants/domain";
+import {
+  buildAccountExportEntries,
+  getAccountExportFileName,
+} from "@/lib/utils/account-export";
+import {
+  AppError,
+  ERROR_MESSAGES,
+  convertErrorToMessage,
+  getErrorCode,
+} from "@/lib/utils/error-handler";
+import { logError } from "@/lib/utils/logger";
+import { createZipArchive } from "@/lib/utils/zip";
+
+export interface AccountExport {
+  fileName: string;
+  blob: Blob;
+}
+
+/**
+ * Bundles the user's profile and every saved recipe, including trashed
+ * ones, into a zip archive.
+ * @throws AppError on failure
+ */
+export async function exportAccountData(userId: string): Promise<AccountExport> {
+  try {
+    const [profile, recipes] = await Promise.all([
+      getUserProfile(userId),
+      getUserRecipes(userId, { includeTrashed: true }),
+    ]);
+    const exportedAt = new Date();
+    const archive = createZipArchive(
+      buildAccountExportEntries({ profile, recipes, exportedAt }),
+      exportedAt
+    );
+    return {
+      fileName: getAccountExportFileName(exportedAt),
+      blob: new Blob([archive], { type: "application/zip" }),
+    };
+  } catch (error) {
+    logError("Error exporting account data", error, { userId });
+    const message = convertErrorToMessage(error, ERROR_MESSAGES.ACCOUNT.EXPORT_FAILED);
+    throw new AppError(message, "ACCOUNT_EXPORT_FAILED", { userId });
+  }
+}
+
+/**
+ * Whether Firebase Auth will accept deleting this user without asking them
+ * to sign in again.
+ */
+export async function hasRecentSignIn(user: User): Promise<boolean> {
+  const { authTime } = await user.getIdTokenResult();
+  return Date.now() - Date.parse(authTime) < ACCOUNT_DELETION.RECENT_SIGN_IN_MS;
+}
+
+/**
+ * Permanently deletes the user's Firestore data, Storage files, and Firebase
+ * Auth user, in that order so a failure never leaves data without an owner
+ * who can sign in and retry.
+ * @throws AppError with code "ACCOUNT_REAUTH_REQUIRED" when the sign-in is too old
+ */
+export async function deleteAccount(user: User): Promise<void> {
+  const userId = user.uid;
+
+  try {
+    if (!(await hasRecentSignIn(user))) {
+      throw new AppError(
+        ERROR_MESSAGES.AUTH.RECENT_LOGIN_REQUIRED,
+        "ACCOUNT_REAUTH_REQUIRED",
+        { userId }
+      );
+    }
+
+    await deleteUserFirestoreData(userId);
+    await deleteUserStorageFiles(userId);
+    await deleteUser(user);
+  } catch (error) {
+    // Re-throw if it's already an AppError from db layer
+    if (error instanceof AppError) {
+      throw error;
+    }
+    logError("Error deleting account", error, { userId });
+    const message = convertErrorToMessage(error, ERROR_MESSAGES.ACCOUNT.DELETE_FAILED);
+    const code =
+      getErrorCode(error) === "auth/requires-recent-login"
+        ? "ACCOUNT_REAUTH_REQUIRED"
+        : "ACCOUNT_DELETE_FAILED";
+    throw new AppError(message, code, { userId });
+  }
+}
@@ -3,11 +3,41 @@
  * Separates business operations from state management.
  */
 
-import { generateRecipe } from "@/lib/recipe-generation.server";
+import {
+  generateRecipe,
+  generateRecipeCandidates,
+  refineRecipe,
+} from "@/lib/recipe-generation.server";
 import { readStreamableValue } from "@ai-sdk/rsc";
-import { saveRecipe as saveRecipeToDb, deleteRecipe as deleteRecipeFromDb } from "@/lib/db";
+import type { StreamableValue } from "@ai-sdk/rsc";
+import { Timestamp } from "firebase/firestore";
+import { z } from "zod";
+import {
+  saveRecipe as saveRecipeToDb,
+  deleteRecipe as deleteRecipeFromDb,
+  deleteRecipes as deleteRecipesFromDb,
+  getTrashedRecipes,
+  trashRecipes,
+  restoreRecipes,
+  updateRecipe as updateRecipeInDb,
+  updateRecipeOrganization,
+  updateRecipesOrganization,
+  saveSharedRecipe,
+  deleteSharedRecipe,
+  uploadRecipePhoto,
+  deleteRecipePhoto,
+  deleteRecipePhotoFiles,
+} from "@/lib/db";
+import type { RecipeOrganizationUpdate } from "@/lib/db";
 import type { SerializableUserProfile } from "@/lib/schemas/user";
-import type { RecipeStructure } from "@/lib/schemas/recipe";
+import type {
+  Recipe,
+  RecipePhoto,
+  RecipeStructure,
+  RefinementTurn,
+} from "@/lib/schemas/recipe";
+import type { RecipeSnapshot, RecipeVersion } from "@/lib/schemas/recipe-version";
+import { recipeSnapshotSchema } from "@/lib/schemas/recipe-version";
 import { recipeStructureSchema, completeRecipeStructureSchema } from "@/lib/schemas/recipe";
 import {
   AppError,
@@ -16,7 +46,62 @@ import {
   convertRecipeGenerationErrorToMessage,
 } from "@/lib/utils/error-handler";
 import { convertToMarkdown } from "@/lib/utils/markdown";
+import { normalizeRecipeLabels } from "@/lib/utils/recipe-library";
+import { applyBulkLabelChange, chunkItems } from "@/lib/utils/recipe-bulk";
+import type { BulkLabelChange } from "@/lib/utils/recipe-bulk";
+import { RECIPE_BULK, RECIPE_ORGANIZATION, RECIPE_PHOTOS } from "@/lib/constants/domain";
+import type { ResizedImage } from "@/lib/utils/image";
+import { isTrashExpired } from "@/lib/utils/recipe-trash";
+import { buildSharedRecipeContent } from "@/lib/utils/shared-recipe";
 import { logError, logWarning } from "@/lib/utils/logger";
+import type { RecipeEditDraft } from "@/lib/utils/recipe-edit";
+import {
+  applyRecipeEditDraft,
+  applyRecipeSnapshot,
+  canEditRecipe,
+  getRecipeSnapshot,
+} from "@/lib/utils/recipe-edit";
+
+/**
+ * Reads a recipe stream, passing each valid partial recipe to the callback.
+ * Stops quietly once the signal is aborted.
+ */
+async function readRecipeStream(
+  stream: StreamableValue<unknown>,
+  onPartialUpdate: (recipe: RecipeStructure) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  for await (const partialObject of readStreamableValue(stream)) {
+    // Check for abort before processing each chunk
+    if (signal?.aborted) return;
+
+    if (partialObject != null) {
+      const validationResult = recipeStructureSchema.safeParse(partialObject);
+      if (!validationResult.success) {
+        logWarning("Invalid partial recipe data during streaming", {
+          errors: validationResult.error.flatten(),
+        });
+        continue;
+      }
+
+      onPartialUpdate(validationResult.data);
+    }
+  }
+}
+
+/**
+ * Logs a generation failure and converts it to a user-facing message.
+ * Provider outages are expected and only logged as warnings.
+ */
+function toGenerationErrorMessage(error: unknown): string {
+  const message = convertRecipeGenerationErrorToMessage(error);
+  if (message === ERROR_MESSAGES.RECIPE.GENERATION_UNAVAILABLE) {
+    logWarning("Recipe generation unavailable", {});
+  } else {
+    logError("Error generating recipe", error, {});
+  }
+  return message;
+}
 
 /**
  * Generates a recipe using AI and streams partial updates.
@@ -44,34 +129,124 @@ export async function generateRecipeWithStreaming(
     if (signal?.aborted) return;
 
     const result = await generateRecipe(prompt, isIngredientsMode, userProfile);
+    await readRecipeStream(result, onPartialUpdate, signal);
+  } catch (error) {
+    // Don't report errors for aborted requests
+    if (signal?.aborted) return;
+    onError(toGenerationErrorMessage(error));
+  }
+}
+
+/**
+ * Generates several candidate recipes in parallel and streams each one's
+ * partial updates by index. A candidate whose stream fails is reported with
+ * its index while the others keep streaming; a failure before any stream
+ * starts (e.g. a rate limit) is reported without one.
+ *
+ * @param prompt - The recipe generation prompt
+ * @param isIngredientsMode - Whether generating from ingredients or specific dish
+ * @param userProfile - User preferences for personalization
+ * @param candidateCount - Number of candidates to generate
+ * @param onPartialUpdate - Callback for each streaming update of a candidate
+ * @param onError - Callback for errors; `index` is set for a single failed candidate
+ * @param signal - Optional AbortSignal for cancellation
+ * @returns Promise that resolves when every candidate completes or is aborted
+ */
+export async function generateRecipeCandidatesWithStreaming(
+  prompt: string,
+  isIngredientsMode: boolean,
+  userProfile: SerializableUserProfile | null,
+  candidateCount: number,
+  onPartialUpdate: (index: number, recipe: RecipeStructure) => void,
+  onError: (errorMessage: string, index?: number) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  let streams: StreamableValue<unknown>[];
+  try {
+    if (signal?.aborted) return;
+    streams = await generateRecipeCandidates(
+      prompt,
+      isIngredientsMode,
+      userProfile,
+      candidateCount
+    );
+  } catch (error) {
+    if (signal?.aborted) return;
+    onError(toGenerationErrorMessage(error));
+    return;
+  }
+
+  await Promise.all(
+    streams.map(async (stream, index) => {
+      try {
+        await readRecipeStream(
+          stream,
+          (recipe) => onPartialUpdate(index, recipe),
+          signal
+        );
+      } catch (error) {
+        if (signal?.aborted) return;
+        onError(toGenerationErrorMessage(error), index);
+      }
+    })
+  );
+}
+
+/** A refinement as it streams; either part may still be missing. */
+export interface PartialRecipeRefinement {
+  recipe?: RecipeStructure;
+  changes?: string[];
+}
+
+const partialRecipeRefinementSchema = z.object({
+  recipe: recipeStructureSchema.optional(),
+  changes: z.array(z.string()).optional(),
+});
+
+/**
+ * Revises the current recipe from a chat-style request and streams the
+ * partial `{ recipe, changes }` result.
+ *
+ * @param recipe - The recipe as currently shown
+ * @param thread - Earlier refinement turns, oldest first
+ * @param request - The new change request
+ * @param userProfile - User preferences for personalization
+ * @param onPartialUpdate - Callback for each streaming update
+ * @param onError - Callback for errors
+ * @param signal - Optional AbortSignal for cancellation
+ * @returns Promise that resolves when the refinement completes or is aborted
+ */
+export async function refineRecipeWithStreaming(
+  recipe: RecipeStructure,
+  thread: RefinementTurn[],
+  request: string,
+  userProfile: SerializableUserProfile | null,
+  onPartialUpdate: (refinement: PartialRecipeRefinement) => void,
+  onError: (errorMessage: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  try {
+    if (signal?.aborted) return;
+
+    const result = await refineRecipe(recipe, thread, request, userProfile);
 
     for await (const partialObject of readStreamableValue(result)) {
-      // Check for abort before processing each chunk
       if (signal?.aborted) return;
+      if (partialObject == null) continue;
 
-      if (partialObject != null) {
-        const validationResult = recipeStructureSchema.safeParse(partialObject);
-        if (!validationResult.success) {
-          logWarning("Invalid partial recipe data during streaming", {
-            errors: validationResult.error.flatten(),
-          });
-          continue;
-        }
-
-        onPartialUpdate(validationResult.data);
+      const validationResult = partialRecipeRefinementSchema.safeParse(partialObject);
+      if (!validationResult.success) {
+        logWarning("Invalid partial refinement data during streaming", {
+          errors: validationResult.error.flatten(),
+        });
+        continue;
       }
+
+      onPartialUpdate(validationResult.data);
     }
   } catch (error) {
-    // Don't report errors for aborted requests
     if (signal?.aborted) return;
-
-    const message = convertRecipeGenerationErrorToMessage(error);
-    if (message === ERROR_MESSAGES.RECIPE.GENERATION_UNAVAILABLE) {
-      logWarning("Recipe generation unavailable", {});
-    } else {
-      logError("Error generating recipe", error, {});
-    }
-    onError(message);
+    onError(toGenerationErrorMessage(error));
   }
 }
 
@@ -80,12 +255,16 @@ export async function generateRecipeWithStreaming(
  * Validates recipe completeness before saving to prevent malformed AI output from being persisted.
  * @param userId - User ID
  * @param structuredRecipe - Recipe data to save
+ * @param cuisine - Optional cuisine label
+ * @param refinementThread - Refinement conversation to keep with the recipe
  * @returns Promise that resolves when save completes
  * @throws AppError if recipe validation fails or save operation fails
  */
 export async function saveRecipeToDatabase(
   userId: string,
-  structuredRecipe: RecipeStructure
+  structuredRecipe: RecipeStructure,
+  cuisine?: string | null,
+  refinementThread?: RefinementTurn[]
 ): Promise<void> {
   // Validate that recipe has all required fields before saving
   const validationResult = completeRecipeStructureSchema.safeParse(structuredRecipe);
@@ -108,6 +287,8 @@ export async function saveRecipeToDatabase(
       userId,
       content: markdown,
       structuredData: structuredRecipe,
+      cuisine,
+      refinementThread,
     });
   } catch (error) {
     // Re-throw if it's already an AppError from db layer
@@ -122,15 +303,20 @@ export async function saveRecipeToDatabase(
 }
 
 /**
- * Deletes a recipe from the database.
+ * Permanently deletes a recipe from the database, revoking its share link
+ * and then removing its photo files.
  * Service layer wrapper providing consistent error handling and logging.
  *
- * @param recipeId - Recipe ID to delete
+ * @param recipe - Recipe to delete
  * @throws AppError on failure
  */
-export async function deleteRecipeFromDatabase(recipeId: string): Promise<void> {
+export async function deleteRecipeFromDatabase(
+  recipe: Pick<Recipe, "id" | "shareId" | "photos">
+): Promise<void> {
+  const recipeId = recipe.id;
   try {
-    await deleteRecipeFromDb(recipeId);
+    await deleteRecipeFromDb(recipeId, recipe.shareId);
+    await deleteRecipePhotoFiles(recipe.photos ?? []);
   } catch (error) {
     // Re-throw if it's already an AppError from db layer
     if (error instanceof AppError) {
@@ -142,3 +328,428 @@ export async function deleteRecipeFromDatabase(recipeId: string): Promise<void>
     throw new AppError(message, "RECIPE_DELETE_FAILED", { recipeId });
   }
 }
+
+/**
+ * Outcome of a bulk action. Recipes are written in batches, each all or
+ * nothing, so a failed batch leaves its recipes untouched while others
+ * succeed.
+ */
+export interface BulkRecipeResult {
+  /** Recipes the action applied to, in their updated state. */
+  succeeded: Recipe[];
+  /** Recipes left unchanged because their batch failed. */
+  failed: Recipe[];
+}
+
+/**
+ * Permanently deletes recipes in write batches, revoking share links and
+ * then removing photo files for each batch that succeeds.
+ * Failed batches are logged by the db layer and reported, not thrown.
+ */
+export async function deleteRecipesFromDatabase(
+  recipes: Recipe[]
+): Promise<BulkRecipeResult> {
+  const result: BulkRecipeResult = { succeeded: [], failed: [] };
+
+  for (const chunk of chunkItems(recipes, RECIPE_BULK.MAX_RECIPES_PER_BATCH)) {
+    try {
+      await deleteRecipesFromDb(chunk);
+      result.succeeded.push(...chunk);
+    } catch {
+      result.failed.push(...chunk);
+      continue;
+    }
+    await deleteRecipePhotoFiles(chunk.flatMap((recipe) => recipe.photos ?? []));
+  }
+
+  return result;
+}
+
+/**
+ * Adds a tag or collection to, or removes it from, every recipe in write
+ * batches. Recipes that already match are skipped and count as succeeded.
+ * Failed batches are logged by the db layer and reported, not thrown.
+ */
+export async function organizeRecipes(
+  recipes: Recipe[],
+  change: BulkLabelChange
+): Promise<BulkRecipeResult> {
+  const result: BulkRecipeResult = { succeeded: [], failed: [] };
+  const changed: { recipe: Recipe; updates: RecipeOrganizationUpdate }[] = [];
+
+  for (const recipe of recipes) {
+    const labels = applyBulkLabelChange(recipe[change.field], change);
+    if (labels) {
+      changed.push({
+        recipe,
+        updates: normalizeOrganizationUpdate({ [change.field]: labels }),
+      });
+    } else {
+      result.succeeded.push(recipe);
+    }
+  }
+
+  for (const chunk of chunkItems(changed, RECIPE_BULK.MAX_RECIPES_PER_BATCH)) {
+    try {
+      await updateRecipesOrganization(
+        chunk.map(({ recipe, updates }) => ({ recipeId: recipe.id, updates }))
+      );
+      result.succeeded.push(...chunk.map(({ recipe, updates }) => ({ ...recipe, ...updates })));
+    } catch {
+      result.failed.push(...chunk.map(({ recipe }) => recipe));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Moves recipes to the trash in write batches. They stay restorable for
+ * RECIPE_TRASH.RETENTION_DAYS before purgeExpiredTrash deletes them.
+ * Failed batches are logged by the db layer and reported, not thrown.
+ */
+export async function trashRecipesInDatabase(
+  recipes: Recipe[]
+): Promise<BulkRecipeResult> {
+  const result: BulkRecipeResult = { succeeded: [], failed: [] };
+
+  for (const chunk of chunkItems(recipes, RECIPE_BULK.MAX_RECIPES_PER_BATCH)) {
+    try {
+      await trashRecipes(chunk.map((recipe) => recipe.id));
+      // The server timestamp is close enough to now for local state
+      const deletedAt = Timestamp.now();
+      result.succeeded.push(...chunk.map((recipe) => ({ ...recipe, deletedAt })));
+    } catch {
+      result.failed.push(...chunk);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Takes recipes back out of the trash in write batches.
+ * Failed batches are logged by the db layer and reported, not thrown.
+ */
+export async function restoreRecipesFromTrash(
+  recipes: Recipe[]
+): Promise<BulkRecipeResult> {
+  const result: BulkRecipeResult = { succeeded: [], failed: [] };
+
+  for (const chunk of chunkItems(recipes, RECIPE_BULK.MAX_RECIPES_PER_BATCH)) {
+    try {
+      await restoreRecipes(chunk.map((recipe) => recipe.id));
+      result.succeeded.push(...chunk.map((recipe) => ({ ...recipe, deletedAt: undefined })));
+    } catch {
+      result.failed.push(...chunk);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Permanently deletes trashed recipes older than RECIPE_TRASH.RETENTION_DAYS.
+ * The daily server job (/api/cron/purge-trash) does this for every user; this
+ * runs whenever the library or trash is opened, in case the job is not
+ * scheduled or has not run yet. Recipes whose purge fails stay listed and are
+ * retried next time.
+ *
+ * @param userId - User ID
+ * @param now - Current time
+ * @returns The trash that is left, most recently deleted first
+ * @throws AppError when the trash cannot be loaded
+ */
+export async function purgeExpiredTrash(
+  userId: string,
+  now = new Date()
+): Promise<Recipe[]> {
+  const trashed = await getTrashedRecipes(userId);
+  const expired = trashed.filter((recipe) => isTrashExpired(recipe, now));
+  if (expired.length === 0) return trashed;
+
+  const { succeeded } = await deleteRecipesFromDatabase(expired);
+  const purgedIds = new Set(succeeded.map((recipe) => recipe.id));
+  return trashed.filter((recipe) => !purgedIds.has(recipe.id));
+}
+
+async function replaceRecipeSnapshot(
+  recipe: Recipe,
+  next: RecipeSnapshot
+): Promise<Recipe> {
+  try {
+    await updateRecipeInDb({
+      recipeId: recipe.id,
+      previous: getRecipeSnapshot(recipe),
+      next,
+    });
+  } catch (error) {
+    // Re-throw if it's already an AppError from db layer
+    if (error instanceof AppError) {
+      throw error;
+    }
+    logError("Error updating recipe in database", error, { recipeId: recipe.id });
+    const message = convertErrorToMessage(error, ERROR_MESSAGES.RECIPE.UPDATE_FAILED);
+    throw new AppError(message, "RECIPE_UPDATE_FAILED", { recipeId: recipe.id });
+  }
+
+  const updated = applyRecipeSnapshot(recipe, next);
+  if (updated.shareId) {
+    await republishSharedRecipe(updated);
+  }
+  return updated;
+}
+
+/**
+ * Refreshes the public snapshot of a shared recipe after it changes.
+ * The recipe itself is already saved, so a failure is logged rather than
+ * thrown; the owner can refresh the link from the share panel.
+ */
+async function republishSharedRecipe(recipe: Recipe): Promise<void> {
+  try {
+    await saveSharedRecipe({
+      userId: recipe.userId,
+      recipeId: recipe.id,
+      shareId: recipe.shareId ?? null,
+      content: buildSharedRecipeContent(recipe),
+    });
+  } catch (error) {
+    logError("Error refreshing shared recipe", error, {
+      recipeId: recipe.id,
+      shareId: recipe.shareId,
+    });
+  }
+}
+
+/**
+ * Saves edits to a saved recipe, keeping the prior state as a version.
+ * The edited recipe must still pass completeRecipeStructureSchema. A shared
+ * recipe's public snapshot is refreshed too.
+ *
+ * @param recipe - The recipe as currently saved
+ * @param draft - Edited form values
+ * @returns The updated recipe for local state
+ * @throws AppError if the recipe cannot be edited, the edit is invalid, or the update fails
+ */
+export async function updateSavedRecipe(
+  recipe: Recipe,
+  draft: RecipeEditDraft
+): Promise<Recipe> {
+  if (!canEditRecipe(recipe)) {
+    throw new AppError(ERROR_MESSAGES.RECIPE.NOT_EDITABLE, "RECIPE_NOT_EDITABLE", {
+      recipeId: recipe.id,
+    });
+  }
+
+  const { structure, cuisine } = applyRecipeEditDraft(recipe, draft);
+  if (!structure.title) {
+    throw new AppError("Please enter a recipe title.", "RECIPE_VALIDATION_FAILED", {
+      recipeId: recipe.id,
+    });
+  }
+
+  const validationResult = completeRecipeStructureSchema.safeParse(structure);
+  if (!validationResult.success) {
+    throw new AppError(
+      validationResult.error.issues[0]?.message ??
+        "Recipe is incomplete and cannot be saved.",
+      "RECIPE_VALIDATION_FAILED",
+      { recipeId: recipe.id }
+    );
+  }
+
+  const complete = validationResult.data;
+  return replaceRecipeSnapshot(recipe, {
+    title: complete.title,
+    content: convertToMarkdown(complete),
+    ingredients: complete.ingredients,
+    instructions: complete.instructions,
+    tips: complete.tips ?? [],
+    preparationTime: complete.preparationTime,
+    cookingTime: complete.cookingTime,
+    servings: complete.servings,
+    difficulty: complete.difficulty,
+    cuisine,
+  });
+}
+
+/**
+ * Restores a prior version. The current state is kept as a new version,
+ * so a restore can itself be undone, and a shared recipe's public snapshot
+ * is refreshed.
+ *
+ * @param recipe - The recipe as currently saved
+ * @param version - The version to restore
+ * @returns The restored recipe for local state
+ * @throws AppError on failure
+ */
+export async function restoreRecipeVersion(
+  recipe: Recipe,
+  version: RecipeVersion
+): Promise<Recipe> {
+  // Parsing strips the version's id and createdAt
+  return replaceRecipeSnapshot(recipe, recipeSnapshotSchema.parse(version));
+}
+
+/**
+ * Publishes a saved recipe to its public share link. Sharing an already
+ * shared recipe refreshes the snapshot under the same link.
+ *
+ * @param recipe - The saved recipe to share
+ * @returns The recipe with its share id, for local state
+ * @throws AppError on failure
+ */
+export async function shareRecipe(recipe: Recipe): Promise<Recipe> {
+  try {
+    const shareId = await saveSharedRecipe({
+      userId: recipe.userId,
+      recipeId: recipe.id,
+      shareId: recipe.shareId ?? null,
+      content: buildSharedRecipeContent(recipe),
+    });
+    return { ...recipe, shareId };
+  } catch (error) {
+    // Re-throw if it's already an AppError from db layer
+    if (error instanceof AppError) {
+      throw error;
+    }
+    logError("Error sharing recipe", error, { recipeId: recipe.id });
+    const message = convertErrorToMessage(error, ERROR_MESSAGES.SHARE.PUBLISH_FAILED);
+    throw new AppError(message, "SHARE_PUBLISH_FAILED", { recipeId: recipe.id });
+  }
+}
+
+/**
+ * Revokes a recipe's public share link.
+ *
+ * @param recipe - The shared recipe
+ * @returns The recipe without a share id, for local state
+ * @throws AppError on failure
+ */
+export async function unshareRecipe(recipe: Recipe): Promise<Recipe> {
+  if (!recipe.shareId) return recipe;
+
+  try {
+    await deleteSharedRecipe(recipe.id, recipe.shareId);
+    return { ...recipe, shareId: undefined };
+  } catch (error) {
+    // Re-throw if it's already an AppError from db layer
+    if (error instanceof AppError) {
+      throw error;
+    }
+    logError("Error revoking recipe share", error, { recipeId: recipe.id });
+    const message = convertErrorToMessage(error, ERROR_MESSAGES.SHARE.REVOKE_FAILED);
+    throw new AppError(message, "SHARE_REVOKE_FAILED", { recipeId: recipe.id });
+  }
+}
+
+function normalizeOrganizationUpdate(
+  updates: RecipeOrganizationUpdate
+): RecipeOrganizationUpdate {
+  const labelLimits = { maxLength: RECIPE_ORGANIZATION.MAX_LABEL_LENGTH };
+  return {
+    ...updates,
+    ...(updates.tags
+      ? {
+          tags: normalizeRecipeLabels(updates.tags, {
+            ...labelLimits,
+            maxCount: RECIPE_ORGANIZATION.MAX_TAGS,
+          }),
+        }
+      : {}),
+    ...(updates.collections
+      ? {
+          collections: normalizeRecipeLabels(updates.collections, {
+            ...labelLimits,
+            maxCount: RECIPE_ORGANIZATION.MAX_COLLECTIONS,
+          }),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Updates a saved recipe's favorite flag, tags, or collections.
+ * Labels are normalized (trimmed, de-duplicated, capped) before saving.
+ *
+ * @param recipe - The saved recipe
+ * @param updates - Fields to change
+ * @returns The updated recipe for local state
+ * @throws AppError on failure
+ */
+export async function organizeRecipe(
+  recipe: Recipe,
+  updates: RecipeOrganizationUpdate
+): Promise<Recipe> {
+  const normalized = normalizeOrganizationUpdate(updates);
+
+  try {
+    await updateRecipeOrganization(recipe.id, normalized);
+    return { ...recipe, ...normalized };
+  } catch (error) {
+    // Re-throw if it's already an AppError from db layer
+    if (error instanceof AppError) {
+      throw error;
+    }
+    logError("Error organizing recipe", error, { recipeId: recipe.id });
+    const message = convertErrorToMessage(error, ERROR_MESSAGES.RECIPE.ORGANIZE_FAILED);
+    throw new AppError(message, "RECIPE_ORGANIZE_FAILED", { recipeId: recipe.id });
+  }
+}
+
+/**
+ * Uploads an already resized photo and adds it to the recipe.
+ * @returns The recipe with the new photo appended
+ * @throws AppError when the recipe is at its photo limit or the upload fails
+ */
+export async function addRecipePhoto(recipe: Recipe, image: ResizedImage): Promise<Recipe> {
+  const photos = recipe.photos ?? [];
+  if (photos.length >= RECIPE_PHOTOS.MAX_PER_RECIPE) {
+    throw new AppError(ERROR_MESSAGES.PHOTO.LIMIT_REACHED, "PHOTO_LIMIT_REACHED", {
+      recipeId: recipe.id,
+    });
+  }
+
+  try {
+    const photo = await uploadRecipePhoto({
+      userId: recipe.userId,
+      recipeId: recipe.id,
+      image,
+    });
+    return { ...recipe, photos: [...photos, photo] };
+  } catch (error) {
+    // Re-throw if it's already an AppError from db layer
+    if (error instanceof AppError) {
+      throw error;
+    }
+    logError("Error adding recipe photo", error, { recipeId: recipe.id });
+    const message = convertErrorToMessage(error, ERROR_MESSAGES.PHOTO.UPLOAD_FAILED);
+    throw new AppError(message, "PHOTO_UPLOAD_FAILED", { recipeId: recipe.id });
+  }
+}
+
+/**
+ * Removes a photo from the recipe and deletes its file.
+ * @returns The recipe without the photo
+ * @throws AppError on failure
+ */
+export async function removeRecipePhoto(
+  recipe: Recipe,
+  photo: RecipePhoto
+): Promise<Recipe> {
+  try {
+    await deleteRecipePhoto(recipe.id, photo);
+    return {
+      ...recipe,
+      photos: (recipe.photos ?? []).filter((existing) => existing.id !== photo.id),
+    };
+  } catch (error) {
+    // Re-throw if it's already an AppError from db layer
+    if (error instanceof AppError) {
+      throw error;
+    }
+    logError("Error removing recipe photo", error, { recipeId: recipe.id });
+    const message = convertErrorToMessage(error, ERROR_MESSAGES.PHOTO.DELETE_FAILED);
+    throw new AppError(message, "PHOTO_DELETE_FAILED", { recipeId: recipe.id });
+  }
+}
@@ -7,7 +7,7 @@
  * - Pure UI state management (no business logic or orchestration)
  * - Single source of truth: structuredRecipe (all display formats derived via selectors)
  * - Computed values: Use selector functions (not store methods)
- * - Only persists user input (mode, input, ingredients), not generated recipes
+ * - Only persists user input (mode, input, ingredients, candidate count), not generated recipes
  * - Orchestration logic lives in hooks/components, not in store
  *
  * SELECTORS:
@@ -21,10 +21,18 @@ import type {
   RecipeStructure,
   ParsedRecipe,
   RecipeMode,
+  RefinementTurn,
 } from "@/lib/schemas/recipe";
 import { addRecipeToGenerationHistory } from "@/lib/utils/recipe-history";
 import { formatRecipeBodyAsMarkdown } from "@/lib/utils/markdown";
 
+/** One of several recipes generated together for comparison. */
+export interface RecipeCandidate {
+  /** Latest streamed snapshot; null until the first chunk arrives. */
+  recipe: RecipeStructure | null;
+  error: string | null;
+}
+
 interface RecipeState {
   // Single source of truth for recipe data
   structuredRecipe: RecipeStructure | null;
@@ -37,10 +45,18 @@ interface RecipeState {
   input: string;
   ingredients: string;
   mode: RecipeMode | null;
+  /** Recipes to generate per request; above 1 they are compared side by side. */
+  candidateCount: number;
+
+  // Candidates awaiting a pick (not persisted)
+  candidates: RecipeCandidate[];
 
   // Session-only generated recipe snapshots (not persisted)
   generationHistory: RecipeStructure[];
 
+  // Refinement conversation for the current recipe (not persisted; saved with the recipe)
+  refinementThread: RefinementTurn[];
+
   // Saving State
   isSaving: boolean;
   saveError: string | null;
@@ -50,11 +66,16 @@ interface RecipeState {
   setInput: (input: string) => void;
   setIngredients: (ingredients: string) => void;
   setMode: (mode: RecipeMode | null) => void;
+  setCandidateCount: (candidateCount: number) => void;
+  setCandidates: (candidates: RecipeCandidate[]) => void;
+  updateCandidate: (index: number, update: Partial<RecipeCandidate>) => void;
   setStructuredRecipe: (recipe: RecipeStructure | null) => void;
   setGenerating: (isGenerating: boolean) => void;
   setGenerationError: (error: string | null) => void;
   addGenerationHistoryEntry: (recipe: RecipeStructure) => void;
   clearGenerationHistory: () => void;
+  addRefinementTurn: (turn: RefinementTurn) => void;
+  clearRefinementThread: () => void;
   setIsSaving: (isSaving: boolean) => void;
   setSaveError: (error: string | null) => void;
   setSaved: (saved: boolean) => void;
@@ -82,7 +103,10 @@ export const useRecipeStore = create<RecipeState>()(
       input: "",
       ingredients: "",
       mode: null,
+      candidateCount: 1,
+      candidates: [],
       generationHistory: [],
+      refinementThread: [],
       isSaving: false,
       saveError: null,
       saved: false,
@@ -97,6 +121,8 @@ export const useRecipeStore = create<RecipeState>()(
         set({
           mode,
           structuredRecipe: null,
+          candidates: [],
+          refinementThread: [],
           generationError: null,
           saved: false,
           saveError: null,
@@ -105,6 +131,22 @@ export const useRecipeStore = create<RecipeState>()(
         });
       },
 
+      setCandidateCount: (candidateCount: number) => {
+        set({ candidateCount });
+      },
+
+      setCandidates: (candidates: RecipeCandidate[]) => {
+        set({ candidates });
+      },
+
+      updateCandidate: (index: number, update: Partial<RecipeCandidate>) => {
+        set((state) => ({
+          candidates: state.candidates.map((candidate, candidateIndex) =>
+            candidateIndex === index ? { ...candidate, ...update } : candidate
+          ),
+        }));
+      },
+
       setStructuredRecipe: (recipe: RecipeStructure | null) => {
         set({ structuredRecipe: recipe });
       },
@@ -130,6 +172,14 @@ export const useRecipeStore = create<RecipeState>()(
         set({ generationHistory: [] });
       },
 
+      addRefinementTurn: (turn: RefinementTurn) => {
+        set((state) => ({ refinementThread: [...state.refinementThread, turn] }));
+      },
+
+      clearRefinementThread: () => {
+        set({ refinementThread: [] });
+      },
+
       setIsSaving: (isSaving: boolean) => {
         set({ isSaving });
       },
@@ -145,6 +195,8 @@ export const useRecipeStore = create<RecipeState>()(
       resetRecipe: () => {
         set({
           structuredRecipe: null,
+          candidates: [],
+          refinementThread: [],
           generationError: null,
           saved: false,
           saveError: null,
@@ -169,7 +221,10 @@ export const useRecipeStore = create<RecipeState>()(
           input: "",
           ingredients: "",
           mode: null,
+          candidateCount: 1,
+          candidates: [],
           generationHistory: [],
+          refinementThread: [],
           isSaving: false,
           saveError: null,
           saved: false,
@@ -182,7 +237,9 @@ export const useRecipeStore = create<RecipeState>()(
           ingredients: "",
           mode: null,
           structuredRecipe: null,
+          candidates: [],
           generationHistory: [],
+          refinementThread: [],
           generationError: null,
           saved: false,
           saveError: null,
@@ -199,6 +256,7 @@ export const useRecipeStore = create<RecipeState>()(
         input: state.input,
         ingredients: state.ingredients,
         mode: state.mode,
+        candidateCount: state.candidateCount,
       }),
     }
   )
@@ -0,0 +1,82 @@
+import { Timestamp } from "firebase-admin/firestore";
+import type { QueryDocumentSnapshot } from "firebase-admin/firestore";
+
+import { COLLECTIONS } from "@/lib/constants/domain";
+import { getAdminFirestore, getAdminStorageBucket } from "@/lib/firebase-admin";
+import { logError } from "@/lib/utils/logger";
+import { getTrashExpiryCutoff } from "@/lib/utils/recipe-trash";
+
+/**
+ * Scheduled purge of expired trash across all users (server only,
+ * firebase-admin). Never import from client components.
+ *
+ * The library and trash pages still purge the signed-in user's expired trash
+ * on open; this job covers users who never come back.
+ */
+
+/** Expired recipes read per query page. */
+const PURGE_PAGE_SIZE = 100;
+
+export interface TrashPurgeResult {
+  purged: number;
+  failed: number;
+}
+
+/**
+ * Deletes one trashed recipe with its versions, share link, and photos.
+ * The recipe document goes last, so a failed purge is retried on the next run.
+ */
+async function purgeRecipe(recipe: QueryDocumentSnapshot): Promise<void> {
+  const firestore = getAdminFirestore();
+  const userId: unknown = recipe.get("userId");
+  const shareId: unknown = recipe.get("shareId");
+
+  if (typeof userId === "string" && userId) {
+    await getAdminStorageBucket().deleteFiles({
+      prefix: `users/${userId}/recipes/${recipe.id}/`,
+    });
+  }
+  if (typeof shareId === "string" && shareId) {
+    await firestore.collection(COLLECTIONS.SHARED_RECIPES).doc(shareId).delete();
+  }
+  // Removes the versions subcollection along with the recipe
+  await firestore.recursiveDelete(recipe.ref);
+}
+
+/**
+ * Permanently deletes every recipe trashed more than
+ * RECIPE_TRASH.RETENTION_DAYS ago.
+ *
+ * @param now - Current time
+ * @returns How many recipes were purged and how many failed (retried next run)
+ */
+export async function purgeExpiredTrashForAllUsers(
+  now = new Date()
+): Promise<TrashPurgeResult> {
+  const expiredQuery = getAdminFirestore()
+    .collection(COLLECTIONS.RECIPES)
+    .where("deletedAt", "<=", Timestamp.fromDate(getTrashExpiryCutoff(now)))
+    .orderBy("deletedAt")
+    .limit(PURGE_PAGE_SIZE);
+
+  const result: TrashPurgeResult = { purged: 0, failed: 0 };
+  let page = await expiredQuery.get();
+
+  while (!page.empty) {
+    for (const recipe of page.docs) {
+      try {
+        await purgeRecipe(recipe);
+        result.purged += 1;
+      } catch (error) {
+        result.failed += 1;
+        logError("Failed to purge expired recipe", error, { recipeId: recipe.id });
+      }
+    }
+
+    if (page.size < PURGE_PAGE_SIZE) break;
+    // Failed recipes are still there, so continue after the last one read
+    page = await expiredQuery.startAfter(page.docs[page.docs.length - 1]).get();
+  }
+
+  return result;
+}
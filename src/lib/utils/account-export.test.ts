@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+
+import type { Recipe } from "@/lib/schemas/recipe";
+import type { UserProfile } from "@/lib/schemas/user";
+import {
+  buildAccountExportEntries,
+  getAccountExportFileName,
+  toIsoTimestamp,
+} from "@/lib/utils/account-export";
+
+const exportedAt = new Date("2026-10-18T09:00:00.000Z");
+
+function createRecipe(id: string, title: string): Recipe {
+  return {
+    id,
+    userId: "user-id",
+    title,
+    content: `# ${title}`,
+    createdAt: { seconds: 1_760_000_000, nanoseconds: 500_000_000 } as Recipe["createdAt"],
+  };
+}
+
+const profile: UserProfile = {
+  id: "user-id",
+  dietary: ["vegetarian"],
+  allergies: [],
+  dislikedIngredients: [],
+  cookingExperience: "beginner",
+  servingSize: 2,
+  preferredCuisines: [],
+  unitSystem: null,
+  allergenAction: "block",
+  householdMembers: [],
+  nutritionTargets: { calories: null, protein: null, carbs: null, fat: null, sodium: null },
+};
+
+describe("toIsoTimestamp", () => {
+  it("converts timestamp objects and legacy millisecond numbers", () => {
+    expect(toIsoTimestamp({ seconds: 0, nanoseconds: 250_000_000 })).toBe(
+      "1970-01-01T00:00:00.250Z"
+    );
+    expect(toIsoTimestamp(1000)).toBe("1970-01-01T00:00:01.000Z");
+    expect(toIsoTimestamp(undefined)).toBeNull();
+  });
+});
+
+describe("buildAccountExportEntries", () => {
+  it("exports the profile, recipes JSON, and one markdown file per recipe", () => {
+    const entries = buildAccountExportEntries({
+      profile,
+      recipes: [createRecipe("a", "Pad Thai"), createRecipe("b", "Pad Thai")],
+      exportedAt,
+    });
+
+    expect(entries.map((entry) => entry.name)).toEqual([
+      "bakeme-data/profile.json",
+      "bakeme-data/recipes.json",
+      "bakeme-data/recipes/001-pad-thai.md",
+      "bakeme-data/recipes/002-pad-thai.md",
+    ]);
+    expect(entries[2].content).toBe("# Pad Thai\n");
+
+    const recipesJson = JSON.parse(String(entries[1].content));
+    expect(recipesJson.exportedAt).toBe("2026-10-18T09:00:00.000Z");
+    expect(recipesJson.recipes[0]).toMatchObject({
+      id: "a",
+      createdAt: "2025-10-09T08:53:20.500Z",
+    });
+    expect(JSON.parse(String(entries[0].content)).profile.dietary).toEqual(["vegetarian"]);
+  });
+
+  it("still writes profile.json when the user never saved a profile", () => {
+    const [profileEntry] = buildAccountExportEntries({ profile: null, recipes: [], exportedAt });
+    expect(JSON.parse(String(profileEntry.content)).profile).toBeNull();
+  });
+});
+
+describe("getAccountExportFileName", () => {
+  it("dates the archive", () => {
+    expect(getAccountExportFileName(exportedAt)).toBe("bakeme-data-2026-10-18.zip");
+  });
+});
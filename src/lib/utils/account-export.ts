@@ -0,0 +1,88 @@
+/**
+ * Builds the "Download my data" archive: the profile and every saved recipe
+ * as JSON, plus one markdown file per recipe.
+ */
+
+import type { Recipe } from "@/lib/schemas/recipe";
+import type { UserProfile } from "@/lib/schemas/user";
+import { buildDownloadFileName } from "@/lib/utils/download";
+import { toTimestampMillis } from "@/lib/utils/firestore";
+import type { ZipEntry } from "@/lib/utils/zip";
+
+export interface AccountExportData {
+  profile: UserProfile | null;
+  recipes: Recipe[];
+  exportedAt: Date;
+}
+
+const EXPORT_FOLDER = "bakeme-data";
+
+/**
+ * Converts a Firestore Timestamp, serialized timestamp, or legacy millisecond
+ * number to an ISO string so exported JSON stays readable.
+ */
+export function toIsoTimestamp(value: unknown): string | null {
+  const millis = toTimestampMillis(value);
+  return millis === null ? null : new Date(millis).toISOString();
+}
+
+/**
+ * A recipe as exported JSON: Firestore timestamps become ISO strings.
+ */
+export function serializeRecipeForExport(
+  recipe: Recipe
+): Omit<Recipe, "createdAt" | "deletedAt"> & {
+  createdAt: string | null;
+  deletedAt?: string | null;
+} {
+  const { deletedAt, ...rest } = recipe;
+  return {
+    ...rest,
+    createdAt: toIsoTimestamp(recipe.createdAt),
+    ...(deletedAt ? { deletedAt: toIsoTimestamp(deletedAt) } : {}),
+  };
+}
+
+function getRecipeMarkdownPath(recipe: Recipe, index: number): string {
+  // Index prefix keeps names unique when titles repeat
+  const number = String(index + 1).padStart(3, "0");
+  return `${EXPORT_FOLDER}/recipes/${number}-${buildDownloadFileName(recipe.title, "md")}`;
+}
+
+/**
+ * Lists the archive entries for an account export.
+ */
+export function buildAccountExportEntries({
+  profile,
+  recipes,
+  exportedAt,
+}: AccountExportData): ZipEntry[] {
+  const exportedAtIso = exportedAt.toISOString();
+
+  const profileJson = profile
+    ? { ...profile, updatedAt: toIsoTimestamp(profile.updatedAt) }
+    : null;
+  const recipesJson = recipes.map(serializeRecipeForExport);
+
+  return [
+    {
+      name: `${EXPORT_FOLDER}/profile.json`,
+      content: JSON.stringify({ exportedAt: exportedAtIso, profile: profileJson }, null, 2),
+    },
+    {
+      name: `${EXPORT_FOLDER}/recipes.json`,
+      content: JSON.stringify({ exportedAt: exportedAtIso, recipes: recipesJson }, null, 2),
+    },
+    ...recipes.map((recipe, index) => ({
+      name: getRecipeMarkdownPath(recipe, index),
+      content: recipe.content.endsWith("\n") ? recipe.content : `${recipe.content}\n`,
+    })),
+  ];
+}
+
+/**
+ * File name for the downloaded archive, e.g. "bakeme-data-2026-10-18.zip".
+ */
+export function getAccountExportFileName(exportedAt: Date): string {
+  return `${EXPORT_FOLDER}-${exportedAt.toISOString().slice(0, 10)}.zip`;
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+
+import type { RecipeStructure } from "@/lib/schemas/recipe";
+import { FORM_VALIDATION } from "@/lib/constants/ui";
+import {
+  buildAllergenAvoidanceTweak,
+  checkRecipeAllergens,
+  groupAllergenViolations,
+} from "@/lib/utils/allergen-check";
+
+function ingredient(item: string): NonNullable<RecipeStructure["ingredients"]>[number] {
+  return { quantity: 1, unit: null, item, preparation: null, group: null, optional: false };
+}
+
+const RECIPE: RecipeStructure = {
+  title: "Chicken Satay Bowl",
+  ingredients: [
+    ingredient("chicken thighs"),
+    ingredient("peanut butter"),
+    ingredient("ghee"),
+    ingredient("coconut milk"),
+  ],
+  instructions: ["Whisk the satay sauce.", "Fry the chicken in butter."],
+  tips: ["Top with crushed groundnuts."],
+};
+
+const NO_RESTRICTIONS = { allergies: [], dislikedIngredients: [] };
+
+describe("checkRecipeAllergens", () => {
+  it("finds allergen synonyms in ingredients, instructions, and tips", () => {
+    const { violations, hasAllergyViolations } = checkRecipeAllergens(RECIPE, {
+      ...NO_RESTRICTIONS,
+      allergies: ["Peanuts"],
+    });
+
+    expect(hasAllergyViolations).toBe(true);
+    expect(violations.map(({ field, matchedTerm }) => [field, matchedTerm])).toEqual([
+      ["ingredients", "peanut"],
+      ["instructions", "satay"],
+      ["tips", "groundnut"],
+    ]);
+    expect(violations[0]).toMatchObject({ restriction: "Peanuts", kind: "allergy" });
+  });
+
+  it("covers dairy products but not plant butters and milks", () => {
+    const { violations } = checkRecipeAllergens(RECIPE, {
+      ...NO_RESTRICTIONS,
+      allergies: ["dairy"],
+    });
+
+    expect(violations.map(({ text }) => text)).toEqual([
+      "1 ghee",
+      "Fry the chicken in butter.",
+    ]);
+  });
+
+  it("ignores negated and free-from mentions", () => {
+    const recipe: RecipeStructure = {
+      ingredients: [ingredient("dairy-free cheese"), ingredient("gluten free pasta")],
+      instructions: ["Serve without butter.", "Use nut-free pesto."],
+    };
+
+    const { violations } = checkRecipeAllergens(recipe, {
+      ...NO_RESTRICTIONS,
+      allergies: ["dairy", "gluten", "tree nuts"],
+    });
+
+    expect(violations).toEqual([]);
+  });
+
+  it("matches whole words and plurals only", () => {
+    const recipe: RecipeStructure = {
+      ingredients: [ingredient("eggplant"), ingredient("nutmeg"), ingredient("berries")],
+    };
+
+    const { violations } = checkRecipeAllergens(recipe, {
+      allergies: ["eggs", "nuts"],
+      dislikedIngredients: ["berry"],
+    });
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({ kind: "dislike", matchedTerm: "berry" });
+  });
+
+  it("reports dislikes without flagging an allergy", () => {
+    const result = checkRecipeAllergens(RECIPE, {
+      ...NO_RESTRICTIONS,
+      dislikedIngredients: ["coconut"],
+    });
+
+    expect(result.hasAllergyViolations).toBe(false);
+    expect(result.violations).toHaveLength(1);
+  });
+});
+
+describe("groupAllergenViolations", () => {
+  it("groups matched terms by restriction with allergies first", () => {
+    const { violations } = checkRecipeAllergens(RECIPE, {
+      allergies: ["peanut"],
+      dislikedIngredients: ["chicken"],
+    });
+
+    expect(groupAllergenViolations(violations.reverse())).toEqual([
+      { restriction: "peanut", kind: "allergy", matchedTerms: ["groundnut", "satay", "peanut"] },
+      { restriction: "chicken", kind: "dislike", matchedTerms: ["chicken"] },
+    ]);
+  });
+});
+
+describe("buildAllergenAvoidanceTweak", () => {
+  it("names each restriction and the synonyms found", () => {
+    const { violations } = checkRecipeAllergens(RECIPE, {
+      ...NO_RESTRICTIONS,
+      allergies: ["dairy"],
+    });
+
+    expect(buildAllergenAvoidanceTweak(violations)).toBe(
+      "Remove every trace of dairy (ghee, butter) and use safe substitutes."
+    );
+  });
+
+  it("stays within the tweak length limit", () => {
+    const violations = Array.from({ length: 100 }, (_, index) => ({
+      restriction: `ingredient number ${index}`,
+      kind: "allergy" as const,
+      matchedTerm: `ingredient number ${index}`,
+      field: "ingredients" as const,
+      text: "",
+    }));
+
+    expect(buildAllergenAvoidanceTweak(violations).length).toBeLessThanOrEqual(
+      FORM_VALIDATION.INPUT_MAX_LENGTH
+    );
+  });
+});
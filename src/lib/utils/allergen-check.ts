@@ -0,0 +1,423 @@
+/**
+ * Post-generation allergen and disliked-ingredient check.
+ *
+ * The system prompt asks the model to avoid the user's allergies, but nothing
+ * guarantees it does. This deterministic pass scans a generated recipe's
+ * ingredients, instructions, and tips for each restriction and its known
+ * synonyms ("dairy" also finds butter, ghee, whey, ...).
+ */
+
+import type { RecipeStructure } from "@/lib/schemas/recipe";
+import type { SerializableUserProfile } from "@/lib/schemas/user";
+import { FORM_VALIDATION } from "@/lib/constants/ui";
+import { formatIngredientLine } from "./ingredients";
+
+export type RestrictionKind = "allergy" | "dislike";
+
+export type AllergenCheckField = "ingredients" | "instructions" | "tips";
+
+export interface AllergenViolation {
+  /** The allergy or disliked ingredient as entered in the profile. */
+  restriction: string;
+  kind: RestrictionKind;
+  /** Word or phrase found in the recipe, e.g. "ghee" for "dairy". */
+  matchedTerm: string;
+  field: AllergenCheckField;
+  /** The ingredient line, instruction, or tip that matched. */
+  text: string;
+}
+
+/** Violations of one restriction, for display. */
+export interface AllergenViolationGroup {
+  restriction: string;
+  kind: RestrictionKind;
+  /** Distinct matched terms in order of first appearance. */
+  matchedTerms: string[];
+}
+
+export interface AllergenCheckResult {
+  violations: AllergenViolation[];
+  /** True when any allergy (not just a dislike) was found. */
+  hasAllergyViolations: boolean;
+}
+
+type RecipeRestrictions = Pick<SerializableUserProfile, "allergies" | "dislikedIngredients">;
+
+interface AllergenGroup {
+  /** Names a user might enter for this allergen, singular. */
+  names: readonly string[];
+  /** Words and phrases that indicate the allergen, singular. */
+  terms: readonly string[];
+  /** Phrases containing a term that do not contain the allergen. */
+  exceptions?: readonly string[];
+}
+
+/**
+ * Allergen synonym dictionary. A restriction matching several groups' names
+ * ("nuts", "seafood") checks the terms of all of them; restrictions outside
+ * the dictionary are matched as written.
+ */
+const ALLERGEN_GROUPS: readonly AllergenGroup[] = [
+  {
+    names: ["peanut", "groundnut", "nut"],
+    terms: ["peanut", "groundnut", "satay", "arachis oil", "monkey nut"],
+  },
+  {
+    names: ["tree nut", "nut"],
+    terms: [
+      "almond",
+      "brazil nut",
+      "cashew",
+      "frangipane",
+      "gianduja",
+      "hazelnut",
+      "macadamia",
+      "marzipan",
+      "nut",
+      "pecan",
+      "pine nut",
+      "pistachio",
+      "praline",
+      "walnut",
+    ],
+  },
+  {
+    names: ["dairy", "milk", "lactose", "cow's milk"],
+    terms: [
+      "butter",
+      "buttermilk",
+      "casein",
+      "cheddar",
+      "cheese",
+      "cream",
+      "creme fraiche",
+      "curd",
+      "feta",
+      "ghee",
+      "half-and-half",
+      "kefir",
+      "lactose",
+      "mascarpone",
+      "milk",
+      "mozzarella",
+      "paneer",
+      "parmesan",
+      "ricotta",
+      "whey",
+      "yogurt",
+      "yoghurt",
+    ],
+    exceptions: [
+      "almond butter",
+      "almond milk",
+      "apple butter",
+      "cashew butter",
+      "cashew milk",
+      "cocoa butter",
+      "coconut cream",
+      "coconut milk",
+      "cream of tartar",
+      "nut butter",
+      "oat milk",
+      "peanut butter",
+      "rice milk",
+      "soy milk",
+      "sunflower butter",
+      "vegan butter",
+      "vegan cheese",
+    ],
+  },
+  {
+    names: ["egg"],
+    terms: ["aioli", "albumen", "egg", "mayo", "mayonnaise", "meringue", "yolk"],
+  },
+  {
+    names: ["gluten", "wheat", "celiac", "coeliac"],
+    terms: [
+      "barley",
+      "bread",
+      "breadcrumb",
+      "bulgur",
+      "couscous",
+      "durum",
+      "farro",
+      "flour",
+      "gluten",
+      "malt",
+      "noodle",
+      "panko",
+      "pasta",
+      "rye",
+      "seitan",
+      "semolina",
+      "soy sauce",
+      "spaghetti",
+      "spelt",
+      "wheat",
+    ],
+    exceptions: [
+      "almond flour",
+      "buckwheat flour",
+      "chickpea flour",
+      "coconut flour",
+      "corn flour",
+      "potato flour",
+      "rice flour",
+      "rice noodle",
+      "rice pasta",
+      "tapioca flour",
+    ],
+  },
+  {
+    names: ["soy", "soya", "soybean"],
+    terms: ["edamame", "miso", "shoyu", "soy", "soya", "soybean", "tamari", "tempeh", "tofu"],
+  },
+  {
+    names: ["sesame"],
+    terms: ["benne", "gomasio", "sesame", "tahini"],
+  },
+  {
+    names: ["fish", "seafood"],
+    terms: [
+      "anchovy",
+      "bonito",
+      "cod",
+      "dashi",
+      "fish",
+      "haddock",
+      "halibut",
+      "mackerel",
+      "salmon",
+      "sardine",
+      "snapper",
+      "tilapia",
+      "trout",
+      "tuna",
+      "worcestershire",
+    ],
+  },
+  {
+    names: ["shellfish", "crustacean", "seafood"],
+    terms: [
+      "calamari",
+      "clam",
+      "crab",
+      "crawfish",
+      "crayfish",
+      "langoustine",
+      "lobster",
+      "mussel",
+      "octopus",
+      "oyster",
+      "prawn",
+      "scallop",
+      "shellfish",
+      "shrimp",
+      "squid",
+    ],
+    exceptions: ["oyster mushroom"],
+  },
+];
+
+/** Words before a match that mean the recipe is avoiding it ("no butter"). */
+const NEGATION_BEFORE_PATTERN =
+  /\b(?:no|without|omit|omitting|instead of|in place of|free of|free from|substitute for)\s+(?:[a-z]+\s+)?$/;
+
+/** "X-free" before a match ("dairy-free cheese"); X is captured. */
+const FREE_BEFORE_PATTERN = /\b([a-z']+)[\s-]free\s+(?:[a-z]+\s+)?$/;
+
+/** "-free" or " free" directly after a match ("nut-free", "gluten free"). */
+const FREE_AFTER_PATTERN = /^[\s-]free\b/;
+
+/** Lowercases, strips accents, and straightens apostrophes for matching. */
+function normalizeText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[\u2018\u2019]/g, "'")
+    .toLowerCase()
+    .trim();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Best-effort singular of a restriction ("peanuts" → "peanut", "berries" → "berry"). */
+function toSingular(name: string): string {
+  if (name.endsWith("ies")) return `${name.slice(0, -3)}y`;
+  if (/(?:oes|ches|shes|xes|sses)$/.test(name)) return name.slice(0, -2);
+  if (name.endsWith("s") && !/(?:ss|us)$/.test(name)) return name.slice(0, -1);
+  return name;
+}
+
+/**
+ * Builds a whole-word pattern for a singular term that also accepts plurals
+ * and treats spaces and hyphens alike.
+ */
+function buildTermPattern(term: string): RegExp {
+  const words = term.split(/[\s-]+/).map(escapeRegExp);
+  const last = words.pop() ?? "";
+  const lastPattern = last.endsWith("y")
+    ? `${last.slice(0, -1)}(?:y|ies|ys)`
+    : `${last}(?:s|es)?`;
+  return new RegExp(`(?<![a-z])${[...words, lastPattern].join("[\\s-]+")}(?![a-z])`, "g");
+}
+
+interface RestrictionMatcher {
+  /** Singular names of the restriction, used to honour "X-free". */
+  names: string[];
+  terms: string[];
+  exceptions: string[];
+}
+
+/** Terms and exceptions to look for when checking one restriction. */
+function getRestrictionMatcher(restriction: string): RestrictionMatcher {
+  const normalized = normalizeText(restriction);
+  const singular = toSingular(normalized);
+  const groups = ALLERGEN_GROUPS.filter((group) =>
+    group.names.some((name) => name === normalized || name === singular)
+  );
+
+  if (groups.length === 0) {
+    return { names: [singular], terms: [singular], exceptions: [] };
+  }
+
+  return {
+    names: [singular, ...groups.flatMap((group) => group.names)],
+    terms: [...new Set(groups.flatMap((group) => group.terms))],
+    exceptions: [...new Set(groups.flatMap((group) => group.exceptions ?? []))],
+  };
+}
+
+/** Blanks out exception phrases so their contained terms do not match. */
+function maskExceptions(text: string, exceptions: string[]): string {
+  return exceptions.reduce(
+    (masked, exception) =>
+      masked.replace(buildTermPattern(exception), (match) => " ".repeat(match.length)),
+    text
+  );
+}
+
+/** Finds the first term in normalized text that is not negated. */
+function findMatchedTerm(text: string, matcher: RestrictionMatcher): string | null {
+  for (const term of matcher.terms) {
+    for (const match of text.matchAll(buildTermPattern(term))) {
+      const start = match.index;
+      const before = text.slice(Math.max(0, start - 30), start);
+      const after = text.slice(start + match[0].length);
+      const freeOf = FREE_BEFORE_PATTERN.exec(before)?.[1];
+      if (
+        NEGATION_BEFORE_PATTERN.test(before) ||
+        FREE_AFTER_PATTERN.test(after) ||
+        (freeOf && matcher.names.includes(toSingular(freeOf)))
+      ) {
+        continue;
+      }
+      return term;
+    }
+  }
+  return null;
+}
+
+function getCheckableTexts(
+  recipe: RecipeStructure
+): Array<{ field: AllergenCheckField; text: string }> {
+  return [
+    ...(recipe.ingredients ?? []).map((ingredient) => ({
+      field: "ingredients" as const,
+      text: formatIngredientLine(ingredient),
+    })),
+    ...(recipe.instructions ?? []).map((text) => ({
+      field: "instructions" as const,
+      text,
+    })),
+    ...(recipe.tips ?? []).map((text) => ({ field: "tips" as const, text })),
+  ];
+}
+
+/**
+ * Checks a generated recipe against the profile's allergies and disliked
+ * ingredients. Each restriction reports at most one violation per line.
+ */
+export function checkRecipeAllergens(
+  recipe: RecipeStructure,
+  restrictions: RecipeRestrictions
+): AllergenCheckResult {
+  const entries: Array<{ restriction: string; kind: RestrictionKind }> = [
+    ...restrictions.allergies.map((restriction) => ({
+      restriction,
+      kind: "allergy" as const,
+    })),
+    ...restrictions.dislikedIngredients.map((restriction) => ({
+      restriction,
+      kind: "dislike" as const,
+    })),
+  ].filter(({ restriction }) => restriction.trim());
+
+  const texts = getCheckableTexts(recipe).map((entry) => ({
+    ...entry,
+    normalized: normalizeText(entry.text),
+  }));
+
+  const violations: AllergenViolation[] = [];
+  for (const { restriction, kind } of entries) {
+    const matcher = getRestrictionMatcher(restriction);
+    for (const { field, text, normalized } of texts) {
+      const matchedTerm = findMatchedTerm(
+        maskExceptions(normalized, matcher.exceptions),
+        matcher
+      );
+      if (matchedTerm) {
+        violations.push({ restriction, kind, matchedTerm, field, text });
+      }
+    }
+  }
+
+  return {
+    violations,
+    hasAllergyViolations: violations.some((violation) => violation.kind === "allergy"),
+  };
+}
+
+/**
+ * Groups violations by restriction, allergies first, for a compact warning.
+ */
+export function groupAllergenViolations(
+  violations: AllergenViolation[]
+): AllergenViolationGroup[] {
+  const groups = new Map<string, AllergenViolationGroup>();
+  for (const { restriction, kind, matchedTerm } of violations) {
+    const key = `${kind}:${restriction}`;
+    const group = groups.get(key) ?? { restriction, kind, matchedTerms: [] };
+    if (!group.matchedTerms.includes(matchedTerm)) group.matchedTerms.push(matchedTerm);
+    groups.set(key, group);
+  }
+  return [...groups.values()].sort(
+    (a, b) => Number(a.kind === "dislike") - Number(b.kind === "dislike")
+  );
+}
+
+/**
+ * Builds regenerate tweak text asking the model to drop every flagged
+ * ingredient, capped at the tweak length limit.
+ */
+export function buildAllergenAvoidanceTweak(violations: AllergenViolation[]): string {
+  const parts = groupAllergenViolations(violations).map(
+    ({ restriction, matchedTerms }) =>
+      matchedTerms.includes(normalizeText(restriction))
+        ? restriction
+        : `${restriction} (${matchedTerms.join(", ")})`
+  );
+  const prefix = "Remove every trace of ";
+  const suffix = " and use safe substitutes.";
+  const maxListLength = FORM_VALIDATION.INPUT_MAX_LENGTH - prefix.length - suffix.length;
+
+  let list = "";
+  for (const part of parts) {
+    const next = list ? `${list}, ${part}` : part;
+    if (next.length > maxListLength) break;
+    list = next;
+  }
+  return `${prefix}${list}${suffix}`;
+}
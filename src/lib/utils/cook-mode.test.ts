@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+
+import { parseIngredientLine } from "@/lib/utils/ingredients";
+import {
+  findStepIngredients,
+  findStepTimers,
+  formatTimerRemaining,
+} from "@/lib/utils/cook-mode";
+
+describe("findStepTimers", () => {
+  it("detects durations in step text", () => {
+    expect(findStepTimers("Simmer for 20 minutes, then rest 30 sec.")).toEqual([
+      { label: "20 minutes", seconds: 1200 },
+      { label: "30 sec", seconds: 30 },
+    ]);
+    expect(findStepTimers("Roast 1.5 hours")).toEqual([
+      { label: "1.5 hours", seconds: 5400 },
+    ]);
+  });
+
+  it("uses the upper bound of ranges", () => {
+    expect(findStepTimers("Bake 10-15 mins until golden")).toEqual([
+      { label: "10-15 mins", seconds: 900 },
+    ]);
+    expect(findStepTimers("Cook 3 to 4 minutes per side")[0]?.seconds).toBe(240);
+  });
+
+  it("ignores quantities that are not durations", () => {
+    expect(findStepTimers("Add 2 cups of stock and 3 eggs.")).toEqual([]);
+  });
+});
+
+describe("findStepIngredients", () => {
+  it("matches on the ingredient's last word, ignoring plurals", () => {
+    const ingredients = [
+      parseIngredientLine("2 cups all-purpose flour"),
+      parseIngredientLine("3 large eggs"),
+      parseIngredientLine("2 tomatoes, diced"),
+      parseIngredientLine("1 tsp salt"),
+    ];
+
+    expect(
+      findStepIngredients("Whisk the egg into the flour and add the tomato.", ingredients).map(
+        (ingredient) => ingredient.item
+      )
+    ).toEqual(["all-purpose flour", "large eggs", "tomatoes"]);
+  });
+});
+
+describe("formatTimerRemaining", () => {
+  it("formats minutes and hours", () => {
+    expect(formatTimerRemaining(65)).toBe("1:05");
+    expect(formatTimerRemaining(3725)).toBe("1:02:05");
+    expect(formatTimerRemaining(-3)).toBe("0:00");
+    expect(formatTimerRemaining(0.2)).toBe("0:01");
+  });
+});
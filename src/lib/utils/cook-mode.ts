@@ -0,0 +1,81 @@
+/**
+ * Cook mode helpers: timers found in step text and the ingredients a step uses.
+ */
+
+import type { StructuredIngredient } from "@/lib/schemas/recipe";
+import { COOK_MODE } from "@/lib/constants/cook-mode";
+
+export interface StepTimerSuggestion {
+  /** The matched text, e.g. "20 minutes" or "10-15 mins". */
+  label: string;
+  seconds: number;
+}
+
+const UNIT_SECONDS: Array<[RegExp, number]> = [
+  [/^h/i, 60 * 60],
+  [/^m/i, 60],
+  [/^s/i, 1],
+];
+
+// "20 minutes", "1.5 hrs", "10-15 mins", "10 to 15 minutes", "30 sec"
+const STEP_DURATION_PATTERN =
+  /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(hours?|hrs?|minutes?|mins?|seconds?|secs?)\b/gi;
+
+/**
+ * Finds durations in a step's text. Ranges use the upper bound so food is
+ * checked at the latest suggested time.
+ */
+export function findStepTimers(step: string): StepTimerSuggestion[] {
+  const timers: StepTimerSuggestion[] = [];
+
+  for (const match of step.matchAll(STEP_DURATION_PATTERN)) {
+    const [label, low, high, unit] = match;
+    const unitSeconds = UNIT_SECONDS.find(([pattern]) => pattern.test(unit))?.[1] ?? 60;
+    const seconds = Math.round(Number(high ?? low) * unitSeconds);
+    if (seconds > 0 && seconds <= COOK_MODE.MAX_TIMER_SECONDS) {
+      timers.push({ label: label.trim(), seconds });
+    }
+  }
+
+  return timers;
+}
+
+/** Singularizes simple plurals: "onions" → "onion", "tomatoes" → "tomato". */
+function normalizeWord(word: string): string {
+  return word.replace(/(o|ch|sh|ss|x)es$/, "$1").replace(/([^s])s$/, "$1");
+}
+
+function getWords(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z]+/g) ?? []).map(normalizeWord);
+}
+
+/**
+ * Ingredients mentioned in a step, matched on the ingredient's last word
+ * ("all-purpose flour" → "flour") so plurals and adjectives still match.
+ */
+export function findStepIngredients(
+  step: string,
+  ingredients: readonly StructuredIngredient[]
+): StructuredIngredient[] {
+  const stepWords = new Set(getWords(step));
+
+  return ingredients.filter((ingredient) => {
+    const words = getWords(ingredient.item);
+    const headWord = words[words.length - 1];
+    return headWord != null && headWord.length > 2 && stepWords.has(headWord);
+  });
+}
+
+/**
+ * Formats remaining timer seconds as "m:ss" or "h:mm:ss".
+ */
+export function formatTimerRemaining(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.ceil(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${rest}`
+    : `${minutes}:${rest}`;
+}
@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  clearAllCookProgress,
+  clearCookProgress,
+  getCookProgressKey,
+  getCookRecipeKey,
+  loadCookProgress,
+  saveCookProgress,
+} from "@/lib/utils/cook-progress";
+
+describe("cook progress", () => {
+  const storage = new Map<string, string>();
+
+  beforeEach(() => {
+    storage.clear();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+        storage.set(key, value);
+      },
+      removeItem: (key: string) => {
+        storage.delete(key);
+      },
+      key: (index: number) => [...storage.keys()][index] ?? null,
+      get length() {
+        return storage.size;
+      },
+    });
+  });
+
+  it("keys saved recipes by id and generated recipes by title", () => {
+    expect(getCookRecipeKey({ id: "abc", title: "Soup" })).toBe("saved_abc");
+    expect(getCookRecipeKey({ title: "Soup" })).toBe("generated_Soup");
+    expect(getCookProgressKey("saved_abc")).toBe("bakemeai_cook_progress_saved_abc");
+  });
+
+  it("remembers the step per recipe and clamps to the step count", () => {
+    expect(loadCookProgress("saved_a", 5)).toBe(0);
+
+    saveCookProgress("saved_a", 3);
+    expect(loadCookProgress("saved_a", 5)).toBe(3);
+    expect(loadCookProgress("saved_a", 2)).toBe(1);
+    expect(loadCookProgress("saved_b", 5)).toBe(0);
+
+    clearCookProgress("saved_a");
+    expect(loadCookProgress("saved_a", 5)).toBe(0);
+  });
+
+  it("clears progress for every recipe without touching other keys", () => {
+    saveCookProgress("saved_a", 2);
+    saveCookProgress("generated_Soup", 1);
+    storage.set("recipe-storage", "{}");
+
+    clearAllCookProgress();
+
+    expect(loadCookProgress("saved_a", 5)).toBe(0);
+    expect(loadCookProgress("generated_Soup", 5)).toBe(0);
+    expect(storage.get("recipe-storage")).toBe("{}");
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Client-side cook mode progress.
+ * Persists the current step per recipe in localStorage so a cook can close
+ * the tab and resume where they left off.
+ */
+
+import { COOK_PROGRESS_KEY_PREFIX } from "@/lib/constants/cook-mode";
+
+export function getCookProgressKey(recipeKey: string): string {
+  return `${COOK_PROGRESS_KEY_PREFIX}${recipeKey}`;
+}
+
+/**
+ * Identifies a recipe for saved progress: saved recipes use their id;
+ * generated recipes (no id yet) use their title.
+ */
+export function getCookRecipeKey(recipe: { id?: string; title?: string }): string {
+  return recipe.id ? `saved_${recipe.id}` : `generated_${recipe.title ?? ""}`;
+}
+
+function getLocalStorage(): Storage | null {
+  try {
+    return globalThis.localStorage ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the saved step index, clamped to the recipe's step count.
+ * @returns 0 when nothing is saved
+ */
+export function loadCookProgress(recipeKey: string, stepCount: number): number {
+  const storage = getLocalStorage();
+  if (!storage || stepCount <= 0) return 0;
+  try {
+    const step = Number(storage.getItem(getCookProgressKey(recipeKey)));
+    return Number.isInteger(step) && step > 0 ? Math.min(step, stepCount - 1) : 0;
+  } catch {
+    return 0;
+  }
+}
+
+export function saveCookProgress(recipeKey: string, step: number): void {
+  const storage = getLocalStorage();
+  if (!storage) return;
+  try {
+    storage.setItem(getCookProgressKey(recipeKey), String(step));
+  } catch {
+    // Ignore quota or privacy mode errors — cook mode restarts at step 1
+  }
+}
+
+export function clearCookProgress(recipeKey: string): void {
+  const storage = getLocalStorage();
+  if (!storage) return;
+  try {
+    storage.removeItem(getCookProgressKey(recipeKey));
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+/**
+ * Removes saved progress for every recipe, e.g. after account deletion.
+ */
+export function clearAllCookProgress(): void {
+  const storage = getLocalStorage();
+  if (!storage) return;
+  try {
+    const keys = Array.from({ length: storage.length }, (_, index) => storage.key(index));
+    keys
+      .filter((key): key is string => key?.startsWith(COOK_PROGRESS_KEY_PREFIX) ?? false)
+      .forEach((key) => storage.removeItem(key));
+  } catch {
+    // Ignore storage errors
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * File download utilities for client components.
+ */
+
+/**
+ * Builds a safe file name from a recipe title ("Pad Thai!" → "pad-thai.json").
+ */
+export function buildDownloadFileName(title: string, extension: string): string {
+  const slug = title
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80);
+  return `${slug || "recipe"}.${extension}`;
+}
+
+/**
+ * Downloads text as a file through a temporary object URL.
+ * @returns false when the browser APIs are unavailable
+ */
+export function downloadTextFile(
+  fileName: string,
+  text: string,
+  mimeType: string
+): boolean {
+  return downloadBlob(fileName, new Blob([text], { type: mimeType }));
+}
+
+/**
+ * Downloads a Blob as a file through a temporary object URL.
+ * @returns false when the browser APIs are unavailable
+ */
+export function downloadBlob(fileName: string, blob: Blob): boolean {
+  if (typeof document === "undefined" || typeof URL.createObjectURL !== "function") {
+    return false;
+  }
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+  return true;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  formatDurationText,
+  formatIsoDuration,
+  getTotalTimeMinutes,
+  parseDurationText,
+  parseIsoDuration,
+} from "@/lib/utils/duration";
+
+describe("parseDurationText", () => {
+  it("reads hours and minutes in common spellings", () => {
+    expect(parseDurationText("1 hr 15 mins")).toBe(75);
+    expect(parseDurationText("45 minutes")).toBe(45);
+    expect(parseDurationText("2 hours")).toBe(120);
+    expect(parseDurationText("1.5h")).toBe(90);
+  });
+
+  it("resolves ranges to their upper bound", () => {
+    expect(parseDurationText("45-50 minutes")).toBe(50);
+    expect(parseDurationText("20 to 25 mins")).toBe(25);
+    expect(parseDurationText("1–2 hours")).toBe(120);
+    expect(parseDurationText("10 mins - 15 mins")).toBe(15);
+  });
+
+  it("reads fractions, phrases, clock times, seconds, and bare minutes", () => {
+    expect(parseDurationText("1 1/2 hours")).toBe(90);
+    expect(parseDurationText("1½ hrs")).toBe(90);
+    expect(parseDurationText("half an hour")).toBe(30);
+    expect(parseDurationText("an hour and a half")).toBe(90);
+    expect(parseDurationText("1:30")).toBe(90);
+    expect(parseDurationText("90 seconds")).toBe(2);
+    expect(parseDurationText("45")).toBe(45);
+    expect(parseDurationText("About 1 hour 10 minutes")).toBe(70);
+  });
+
+  it("returns null when no duration is present", () => {
+    expect(parseDurationText("overnight")).toBeNull();
+    expect(parseDurationText("")).toBeNull();
+  });
+});
+
+describe("getTotalTimeMinutes", () => {
+  it("adds prep and cook time, tolerating one missing value", () => {
+    expect(
+      getTotalTimeMinutes({ preparationTime: "15 mins", cookingTime: "1 hr" })
+    ).toBe(75);
+    expect(getTotalTimeMinutes({ cookingTime: "45-50 minutes" })).toBe(50);
+    expect(getTotalTimeMinutes({ preparationTime: "overnight" })).toBeNull();
+  });
+});
+
+describe("ISO-8601 durations", () => {
+  it("parses hours, minutes, days, and seconds", () => {
+    expect(parseIsoDuration("PT1H15M")).toBe(75);
+    expect(parseIsoDuration("PT30M")).toBe(30);
+    expect(parseIsoDuration("P1DT2H")).toBe(1560);
+    expect(parseIsoDuration("PT90S")).toBe(2);
+  });
+
+  it("rejects malformed durations", () => {
+    expect(parseIsoDuration("30 minutes")).toBeNull();
+    expect(parseIsoDuration("P")).toBeNull();
+    expect(parseIsoDuration("PT")).toBeNull();
+  });
+
+  it("round-trips through display text", () => {
+    expect(formatIsoDuration(75)).toBe("PT1H15M");
+    expect(formatIsoDuration(120)).toBe("PT2H");
+    expect(formatDurationText(75)).toBe("1 hr 15 mins");
+    expect(formatDurationText(60)).toBe("1 hr");
+    expect(formatDurationText(1)).toBe("1 min");
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Recipe duration helpers.
+ *
+ * Recipes store times as display text ("1 hr 15 mins"); schema.org and other
+ * tools use ISO-8601 durations ("PT1H15M"). Both convert through whole minutes.
+ */
+
+const MINUTES_PER_HOUR = 60;
+const MINUTES_PER_DAY = 24 * MINUTES_PER_HOUR;
+
+/** "1.5", "1 1/2", or "1/2". */
+const NUMBER_PATTERN = String.raw`\d+(?:\.\d+)?(?:\s+\d+\/\d+)?|\d+\/\d+`;
+
+/** A number or range ("45-50", "20 to 25") followed by a unit. */
+const TEXT_DURATION_PATTERN = new RegExp(
+  String.raw`(${NUMBER_PATTERN})(?:\s*(?:-|–|to)\s*(${NUMBER_PATTERN}))?\s*` +
+    String.raw`(days?|d|hours?|hrs?|h|minutes?|mins?|m|seconds?|secs?|s)\b`,
+  "gi"
+);
+
+/** Text between two durations that makes them a range ("10 mins - 15 mins"). */
+const RANGE_SEPARATOR_PATTERN = /^\s*(?:-|–|to|or)\s*$/i;
+
+const CLOCK_DURATION_PATTERN = /^(\d+):([0-5]\d)$/;
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  "½": " 1/2",
+  "¼": " 1/4",
+  "¾": " 3/4",
+  "⅓": " 1/3",
+  "⅔": " 2/3",
+};
+
+const ISO_DURATION_PATTERN =
+  /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i;
+
+/**
+ * Parses free-text durations into minutes. Handles the generator's style
+ * ("1 hr 15 mins") plus what people type or import: ranges ("45-50 minutes",
+ * "10 mins to 15 mins"), fractions ("1 1/2 hours", "1½ hrs"), phrases
+ * ("half an hour", "an hour and a half"), clock style ("1:30"), seconds,
+ * and a bare number of minutes ("45").
+ *
+ * Ranges resolve to their upper bound so "under 30 minutes" filters never
+ * include a recipe that might take longer.
+ * @returns null when no duration is recognized
+ */
+export function parseDurationText(text: string): number | null {
+  const normalized = normalizeDurationText(text);
+
+  const clock = normalized.match(CLOCK_DURATION_PATTERN);
+  if (clock) return Number(clock[1]) * MINUTES_PER_HOUR + Number(clock[2]);
+  if (/^\d+(?:\.\d+)?$/.test(normalized)) return Math.round(Number(normalized));
+
+  const parts: number[] = [];
+  let lastEnd = 0;
+
+  for (const match of normalized.matchAll(TEXT_DURATION_PATTERN)) {
+    const [whole, low, high, unit] = match;
+    const start = match.index ?? 0;
+    const minutes = toMinutes(parseNumber(high ?? low), unit);
+    const gap = normalized.slice(lastEnd, start);
+
+    if (parts.length > 0 && RANGE_SEPARATOR_PATTERN.test(gap)) {
+      parts[parts.length - 1] = Math.max(parts[parts.length - 1], minutes);
+    } else {
+      parts.push(minutes);
+    }
+    lastEnd = start + whole.length;
+  }
+
+  if (parts.length === 0) return null;
+  return Math.round(parts.reduce((total, minutes) => total + minutes, 0));
+}
+
+/**
+ * Total of a recipe's prep and cook times in minutes.
+ * @returns null when neither time can be parsed
+ */
+export function getTotalTimeMinutes(recipe: {
+  preparationTime?: string;
+  cookingTime?: string;
+}): number | null {
+  const prep = recipe.preparationTime ? parseDurationText(recipe.preparationTime) : null;
+  const cook = recipe.cookingTime ? parseDurationText(recipe.cookingTime) : null;
+  if (prep === null && cook === null) return null;
+  return (prep ?? 0) + (cook ?? 0);
+}
+
+function normalizeDurationText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[½¼¾⅓⅔]/g, (fraction) => UNICODE_FRACTIONS[fraction])
+    .replace(/\bhalf an? hour\b/g, "30 minutes")
+    .replace(/\ban? (hour|minute)\b/g, "1 $1")
+    .replace(
+      /(\d+(?:\.\d+)?)\s*(hours?|hrs?)\s+and\s+a\s+half\b/g,
+      (_, amount: string, unit: string) => `${Number(amount) + 0.5} ${unit}`
+    )
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function parseNumber(value: string): number {
+  return value
+    .trim()
+    .split(/\s+/)
+    .reduce((total, part) => {
+      const [numerator, denominator] = part.split("/");
+      return total + (denominator ? Number(numerator) / Number(denominator) : Number(part));
+    }, 0);
+}
+
+function toMinutes(value: number, unit: string): number {
+  const unitKey = unit.toLowerCase();
+  if (unitKey.startsWith("d")) return value * MINUTES_PER_DAY;
+  if (unitKey.startsWith("h")) return value * MINUTES_PER_HOUR;
+  if (unitKey.startsWith("s")) return value / 60;
+  return value;
+}
+
+/**
+ * Formats minutes in the style the recipe generator uses ("1 hr 15 mins").
+ */
+export function formatDurationText(minutes: number): string {
+  const total = Math.max(0, Math.round(minutes));
+  const hours = Math.floor(total / MINUTES_PER_HOUR);
+  const rest = total % MINUTES_PER_HOUR;
+  const parts: string[] = [];
+
+  if (hours > 0) parts.push(`${hours} hr${hours !== 1 ? "s" : ""}`);
+  if (rest > 0 || hours === 0) parts.push(`${rest} min${rest !== 1 ? "s" : ""}`);
+  return parts.join(" ");
+}
+
+/**
+ * Parses an ISO-8601 duration ("PT1H15M", "P1DT2H") into minutes.
+ * Seconds are rounded to the nearest minute.
+ * @returns null for malformed or empty durations
+ */
+export function parseIsoDuration(value: string): number | null {
+  const match = value.trim().match(ISO_DURATION_PATTERN);
+  if (!match || value.trim().toUpperCase() === "P" || /T$/i.test(value.trim())) {
+    return null;
+  }
+
+  const [, days, hours, minutes, seconds] = match.map((part) => Number(part ?? 0));
+  return Math.round(
+    days * MINUTES_PER_DAY + hours * MINUTES_PER_HOUR + minutes + seconds / 60
+  );
+}
+
+/**
+ * Formats minutes as an ISO-8601 duration ("PT1H15M").
+ */
+export function formatIsoDuration(minutes: number): string {
+  const total = Math.max(0, Math.round(minutes));
+  const hours = Math.floor(total / MINUTES_PER_HOUR);
+  const rest = total % MINUTES_PER_HOUR;
+
+  if (hours === 0) return `PT${rest}M`;
+  return rest === 0 ? `PT${hours}H` : `PT${hours}H${rest}M`;
+}
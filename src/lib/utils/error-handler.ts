@@ -47,17 +47,76 @@ export const ERROR_MESSAGES = {
   RECIPE: {
     SAVE_FAILED: "Unable to save recipe. Please try again.",
     LOAD_FAILED: "Unable to load recipes. Please try again.",
+    LIVE_UPDATES_FAILED:
+      "Live updates stopped. Refresh the page to see your latest recipes.",
     DELETE_FAILED: "Unable to delete recipe. Please try again.",
+    UPDATE_FAILED: "Unable to update recipe. Please try again.",
+    VERSIONS_LOAD_FAILED: "Unable to load version history. Please try again.",
+    IMPORT_FAILED: "Unable to import recipe. Please check the file and try again.",
+    IMPORT_FILE_TOO_LARGE: "That file is too large to be a recipe. Please choose a smaller file.",
+    ORGANIZE_FAILED: "Unable to update favorites, tags, or collections. Please try again.",
+    BULK_DELETE_PARTIAL:
+      "Some recipes could not be deleted and are still in your library. Please try again.",
+    BULK_ORGANIZE_PARTIAL:
+      "Some recipes could not be updated and keep their previous labels. Please try again.",
+    TRASH_LOAD_FAILED: "Unable to load the trash. Please try again.",
+    RESTORE_FAILED: "Unable to restore recipe. Please try again.",
+    BULK_RESTORE_PARTIAL:
+      "Some recipes could not be restored and are still in the trash. Please try again.",
+    NOT_EDITABLE:
+      "This recipe was saved before editing was available and cannot be edited.",
     GENERATION_FAILED: "Failed to generate recipe. Please try again.",
     GENERATION_UNAVAILABLE:
       "Recipe generation is temporarily unavailable. Please try again later.",
     NO_RECIPE_TO_SAVE: "No recipe to save. Please generate a recipe first.",
     RATE_LIMIT: "Please wait a moment before generating another recipe.",
+    DAILY_QUOTA_EXCEEDED:
+      "You've used all of today's recipe generations. Please come back tomorrow.",
+    MONTHLY_QUOTA_EXCEEDED:
+      "You've used all of this month's recipe generations. Your limit resets on the 1st.",
+    REFINEMENT_FAILED: "Unable to apply that change. Please try again.",
+    REFINEMENT_LIMIT_REACHED:
+      "This recipe has reached its limit of changes. Save it or generate a new one to keep going.",
+    CANDIDATES_OVER_LIMIT:
+      "You don't have enough generations left to compare that many recipes. Try fewer.",
+  },
+  PHOTO: {
+    UPLOAD_FAILED: "Unable to upload photo. Please try again.",
+    DELETE_FAILED: "Unable to delete photo. Please try again.",
+    INVALID_FILE: "That file could not be read as an image. Please choose a JPEG, PNG, or WebP photo.",
+    FILE_TOO_LARGE: "That photo is too large. Please choose one under 25 MB.",
+    LIMIT_REACHED: "This recipe already has the maximum number of photos.",
+  },
+  SHARE: {
+    PUBLISH_FAILED: "Unable to share recipe. Please try again.",
+    REVOKE_FAILED: "Unable to stop sharing recipe. Please try again.",
+    LOAD_FAILED: "Unable to load this shared recipe. Please try again.",
+  },
+  SHOPPING_LIST: {
+    SAVE_FAILED: "Unable to save shopping list. Please try again.",
+    LOAD_FAILED: "Unable to load shopping lists. Please try again.",
+    UPDATE_FAILED: "Unable to update shopping list. Please try again.",
+    DELETE_FAILED: "Unable to delete shopping list. Please try again.",
+    NO_RECIPES_SELECTED: "Select at least one recipe to build a shopping list.",
+  },
+  MEAL_PLAN: {
+    SAVE_FAILED: "Unable to save meal plan. Please try again.",
+    LOAD_FAILED: "Unable to load meal plan. Please try again.",
+    EMPTY_PLAN: "Add recipes to this week's plan to build a shopping list.",
+  },
+  PANTRY: {
+    SAVE_FAILED: "Unable to save pantry. Please try again.",
+    LOAD_FAILED: "Unable to load pantry. Please try again.",
+    FULL: "Your pantry is full. Remove some items before adding more.",
   },
   PROFILE: {
     SAVE_FAILED: "Unable to save profile. Please try again.",
     LOAD_FAILED: "Unable to load profile. Please try again.",
   },
+  ACCOUNT: {
+    EXPORT_FAILED: "Unable to prepare your data download. Please try again.",
+    DELETE_FAILED: "Unable to delete your account. Please try again.",
+  },
   AUTH: {
     SIGN_IN_FAILED: "Sign in failed. Please try again.",
     SIGN_OUT_FAILED: "Sign out failed. Please try again.",
@@ -71,6 +130,7 @@ export const ERROR_MESSAGES = {
     TOO_MANY_REQUESTS: "Too many failed attempts. Please try again later.",
     USER_DISABLED: "This account has been disabled.",
     NETWORK_ERROR: "Network error. Please check your connection and try again.",
+    RECENT_LOGIN_REQUIRED: "For your security, please sign in again to continue.",
   },
   GENERIC: {
     UNKNOWN: "An unexpected error occurred. Please try again.",
@@ -91,13 +151,15 @@ const FIREBASE_ERROR_MESSAGES: Record<string, string> = {
   "auth/too-many-requests": ERROR_MESSAGES.AUTH.TOO_MANY_REQUESTS,
   "auth/user-disabled": ERROR_MESSAGES.AUTH.USER_DISABLED,
   "auth/network-request-failed": ERROR_MESSAGES.AUTH.NETWORK_ERROR,
+  "auth/requires-recent-login": ERROR_MESSAGES.AUTH.RECENT_LOGIN_REQUIRED,
 };
 
 const RECIPE_PROVIDER_ERROR_CODES = new Set([
   "invalid_api_key",
   "insufficient_quota",
   "rate_limit_exceeded",
-  "OPENAI_API_KEY_MISSING",
+  "AI_PROVIDER_NOT_CONFIGURED",
+  "AI_PROVIDER_UNKNOWN",
   "RECIPE_PROVIDER_ERROR",
 ]);
 
@@ -1,6 +1,10 @@
 import { describe, expect, it } from "vitest";
 
-import { getFirestoreErrorMessage } from "@/lib/utils/firestore";
+import {
+  chunkBatchWrites,
+  getFirestoreErrorMessage,
+  toTimestampMillis,
+} from "@/lib/utils/firestore";
 
 const FALLBACK = "Something went wrong";
 
@@ -28,3 +32,43 @@ describe("getFirestoreErrorMessage", () => {
     expect(getFirestoreErrorMessage(null, FALLBACK)).toBe(FALLBACK);
   });
 });
+
+describe("toTimestampMillis", () => {
+  it("converts timestamp objects and legacy millisecond numbers", () => {
+    expect(toTimestampMillis({ seconds: 1, nanoseconds: 500_000_000 })).toBe(1500);
+    expect(toTimestampMillis(1234)).toBe(1234);
+  });
+
+  it("returns null for anything else", () => {
+    expect(toTimestampMillis(null)).toBeNull();
+    expect(toTimestampMillis("2026-10-18")).toBeNull();
+  });
+});
+
+describe("chunkBatchWrites", () => {
+  const versions = (recipeId: string, count: number) =>
+    Array.from({ length: count }, (_, index) => ({ recipeId, id: `${recipeId}-v${index}` }));
+  const byRecipe = (item: { recipeId: string | null }) => item.recipeId;
+
+  it("caps each batch at the rule-read limit of distinct parents", () => {
+    const items = ["a", "b", "c", "d", "e"].flatMap((recipeId) => versions(recipeId, 2));
+    const batches = chunkBatchWrites(items, byRecipe, { maxRuleReads: 2 });
+
+    expect(batches.map((batch) => [...new Set(batch.map(byRecipe))])).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+      ["e"],
+    ]);
+    expect(batches.flat()).toEqual(items);
+  });
+
+  it("splits on the write limit and ignores writes whose rules read nothing", () => {
+    const items = [...versions("a", 3), { recipeId: null, id: "recipe-a" }, ...versions("b", 2)];
+    const batches = chunkBatchWrites(items, byRecipe, { maxWrites: 4, maxRuleReads: 1 });
+
+    expect(batches.map((batch) => batch.map((item) => item.id))).toEqual([
+      ["a-v0", "a-v1", "a-v2", "recipe-a"],
+      ["b-v0", "b-v1"],
+    ]);
+  });
+});
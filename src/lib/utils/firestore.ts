@@ -69,6 +69,28 @@ export const requiredTimestampSchema = z.custom<Timestamp>(
   }
 );
 
+/**
+ * Converts any value accepted by requiredTimestampSchema to epoch
+ * milliseconds.
+ * @returns Milliseconds, or null when the value is not a timestamp
+ */
+export function toTimestampMillis(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  if (
+    value &&
+    typeof value === "object" &&
+    "seconds" in value &&
+    typeof value.seconds === "number"
+  ) {
+    const nanoseconds =
+      "nanoseconds" in value && typeof value.nanoseconds === "number"
+        ? value.nanoseconds
+        : 0;
+    return value.seconds * 1000 + Math.floor(nanoseconds / 1e6);
+  }
+  return null;
+}
+
 /**
  * Custom Zod schema for Firestore Timestamp that allows undefined.
  * Validates that the value is either a Firestore Timestamp or undefined.
@@ -85,3 +107,52 @@ export const firestoreTimestampSchema = z
     }
   )
   .optional();
+
+/** Firestore rejects batches with more than 500 writes. */
+export const FIRESTORE_MAX_BATCH_WRITES = 500;
+
+/**
+ * Security rules may make at most 20 document-access calls (get/exists) per
+ * batched write; repeat reads of one document count once.
+ */
+export const FIRESTORE_MAX_RULE_READS_PER_BATCH = 20;
+
+/**
+ * Splits writes into ordered batches that stay within Firestore's write limit
+ * and its per-batch rule-read limit.
+ *
+ * @param items - Writes in commit order
+ * @param getRuleReadKey - The document the write's rule reads (e.g. a
+ *   version's parent recipe), or null when its rule reads nothing
+ * @returns Consecutive batches; concatenated, they keep the input order
+ */
+export function chunkBatchWrites<T>(
+  items: readonly T[],
+  getRuleReadKey: (item: T) => string | null,
+  {
+    maxWrites = FIRESTORE_MAX_BATCH_WRITES,
+    maxRuleReads = FIRESTORE_MAX_RULE_READS_PER_BATCH,
+  }: { maxWrites?: number; maxRuleReads?: number } = {}
+): T[][] {
+  const batches: T[][] = [];
+  let batch: T[] = [];
+  let ruleReads = new Set<string>();
+
+  for (const item of items) {
+    const key = getRuleReadKey(item);
+    const needsNewRead = key !== null && !ruleReads.has(key);
+    if (
+      batch.length >= maxWrites ||
+      (needsNewRead && ruleReads.size >= maxRuleReads)
+    ) {
+      batches.push(batch);
+      batch = [];
+      ruleReads = new Set();
+    }
+    batch.push(item);
+    if (key !== null) ruleReads.add(key);
+  }
+
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+
+import type { HouseholdMember } from "@/lib/schemas/user";
+import {
+  mergeDietaryRequirements,
+  mergeHouseholdPreferences,
+  validateHouseholdMembers,
+} from "@/lib/utils/household";
+
+function member(overrides: Partial<HouseholdMember>): HouseholdMember {
+  return {
+    id: "m1",
+    name: "Sam",
+    dietary: [],
+    allergies: [],
+    dislikedIngredients: [],
+    servings: 1,
+    ...overrides,
+  };
+}
+
+const OWNER = {
+  dietary: ["Pescatarian"],
+  allergies: ["Shellfish"],
+  dislikedIngredients: ["olives"],
+  servingSize: 4,
+  householdMembers: [],
+};
+
+describe("mergeDietaryRequirements", () => {
+  it("keeps every requirement but only the strictest of the meat-free chain", () => {
+    expect(mergeDietaryRequirements([["Pescatarian", "Keto"], ["Vegetarian"]])).toEqual([
+      "Keto",
+      "Vegetarian",
+    ]);
+  });
+
+  it("drops dairy-free when the meal is vegan", () => {
+    expect(mergeDietaryRequirements([["Dairy-free"], ["Vegan", "Gluten-free"]])).toEqual([
+      "Vegan",
+      "Gluten-free",
+    ]);
+  });
+});
+
+describe("mergeHouseholdPreferences", () => {
+  it("uses the owner's preferences and default serving size alone", () => {
+    expect(mergeHouseholdPreferences(OWNER)).toEqual({
+      memberNames: [],
+      dietary: ["Pescatarian"],
+      allergies: ["Shellfish"],
+      dislikedIngredients: ["olives"],
+      servingSize: 4,
+    });
+  });
+
+  it("unions allergies and dislikes and sums servings with members", () => {
+    const merged = mergeHouseholdPreferences({
+      ...OWNER,
+      householdMembers: [
+        member({ name: "Sam", dietary: ["Vegetarian"], servings: 1 }),
+        member({
+          id: "m2",
+          name: "Alex",
+          allergies: ["tree nuts", "shellfish"],
+          dislikedIngredients: ["Olives", "mushrooms"],
+          servings: 2,
+        }),
+      ],
+    });
+
+    expect(merged).toEqual({
+      memberNames: ["Sam", "Alex"],
+      dietary: ["Vegetarian"],
+      allergies: ["Shellfish", "tree nuts"],
+      dislikedIngredients: ["olives", "mushrooms"],
+      servingSize: 4,
+    });
+  });
+});
+
+describe("validateHouseholdMembers", () => {
+  it("requires distinct, non-empty names", () => {
+    expect(validateHouseholdMembers([member({})])).toBeNull();
+    expect(validateHouseholdMembers([member({ name: " " })])).toMatch(/needs a name/);
+    expect(
+      validateHouseholdMembers([member({}), member({ id: "m2", name: "sam" })])
+    ).toMatch(/different names/);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Household member utilities.
+ *
+ * Merges the constraints of everyone eating a meal (the profile owner plus
+ * the household members picked at generate time) into one set of
+ * preferences for the prompt and the allergen check.
+ */
+
+import { DIET_STRICTNESS_ORDER } from "@/lib/constants/domain";
+import type { HouseholdMember, SerializableUserProfile } from "@/lib/schemas/user";
+
+type HouseholdProfile = Pick<
+  SerializableUserProfile,
+  "dietary" | "allergies" | "dislikedIngredients" | "servingSize" | "householdMembers"
+>;
+
+export interface HouseholdPreferences {
+  /** Names of the household members eating; the profile owner is implied. */
+  memberNames: string[];
+  dietary: string[];
+  allergies: string[];
+  dislikedIngredients: string[];
+  servingSize: number;
+}
+
+/** Diets made redundant by a stricter diet also being required. */
+const IMPLIED_DIETS: Readonly<Record<string, readonly string[]>> = {
+  Vegan: ["Dairy-free"],
+};
+
+/** Union of string lists, ignoring case and keeping the first spelling. */
+function unionIgnoringCase(lists: string[][]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const item of lists.flat()) {
+    const trimmed = item.trim();
+    const key = trimmed.toLowerCase();
+    if (!trimmed || seen.has(key)) continue;
+    seen.add(key);
+    result.push(trimmed);
+  }
+  return result;
+}
+
+/**
+ * Merges eaters' diets into the diets a shared meal must follow, i.e. the
+ * intersection of what each eater accepts: every requirement applies, but
+ * only the strictest of Vegan / Vegetarian / Pescatarian is kept.
+ * @example mergeDietaryRequirements([["Vegetarian"], ["Pescatarian", "Keto"]]) // ["Vegetarian", "Keto"]
+ */
+export function mergeDietaryRequirements(diets: string[][]): string[] {
+  const all = unionIgnoringCase(diets);
+  const strictest = DIET_STRICTNESS_ORDER.find((diet) => all.includes(diet));
+  const implied = strictest ? (IMPLIED_DIETS[strictest] ?? []) : [];
+
+  return all.filter((diet) => {
+    if (implied.includes(diet)) return false;
+    const rank = DIET_STRICTNESS_ORDER.indexOf(diet as (typeof DIET_STRICTNESS_ORDER)[number]);
+    return rank === -1 || diet === strictest;
+  });
+}
+
+/**
+ * Combines the profile owner with the household members on the profile.
+ * Pass a profile whose `householdMembers` holds only the members eating.
+ * Without members, the owner's default serving size applies; with members,
+ * the owner counts for one serving plus each member's servings.
+ */
+export function mergeHouseholdPreferences(profile: HouseholdProfile): HouseholdPreferences {
+  const eaters = [profile, ...profile.householdMembers];
+  const members = profile.householdMembers;
+
+  return {
+    memberNames: members.map((member) => member.name),
+    dietary: mergeDietaryRequirements(eaters.map((eater) => eater.dietary)),
+    allergies: unionIgnoringCase(eaters.map((eater) => eater.allergies)),
+    dislikedIngredients: unionIgnoringCase(eaters.map((eater) => eater.dislikedIngredients)),
+    servingSize:
+      members.length === 0
+        ? profile.servingSize
+        : members.reduce((total, member) => total + member.servings, 1),
+  };
+}
+
+/**
+ * Validates household members before saving the profile.
+ * @returns Error message or null when valid
+ */
+export function validateHouseholdMembers(members: HouseholdMember[]): string | null {
+  const names = members.map((member) => member.name.trim().toLowerCase());
+  if (names.some((name) => !name)) return "Each household member needs a name.";
+  if (new Set(names).size !== names.length) {
+    return "Household members need different names.";
+  }
+  return null;
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+
+import { getScaledDimensions } from "@/lib/utils/image";
+
+describe("getScaledDimensions", () => {
+  it("fits the longest edge and keeps the aspect ratio", () => {
+    expect(getScaledDimensions(4000, 3000, 1600)).toEqual({ width: 1600, height: 1200 });
+    expect(getScaledDimensions(3000, 4000, 1600)).toEqual({ width: 1200, height: 1600 });
+  });
+
+  it("never enlarges small images", () => {
+    expect(getScaledDimensions(800, 600, 1600)).toEqual({ width: 800, height: 600 });
+  });
+
+  it("keeps at least one pixel on extreme panoramas", () => {
+    expect(getScaledDimensions(100000, 10, 1600)).toEqual({ width: 1600, height: 1 });
+  });
+});
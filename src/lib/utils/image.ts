@@ -0,0 +1,68 @@
+/**
+ * Client-side image resizing for photo uploads.
+ */
+
+export interface ResizedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+interface ResizeImageOptions {
+  /** Longest edge of the output, in pixels. */
+  maxDimension: number;
+  /** JPEG quality (0-1). */
+  quality: number;
+}
+
+/**
+ * Scales dimensions so the longest edge fits maxDimension, keeping the aspect
+ * ratio. Images already small enough keep their size.
+ */
+export function getScaledDimensions(
+  width: number,
+  height: number,
+  maxDimension: number
+): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Decodes an image file (honoring EXIF orientation), shrinks it to fit
+ * maxDimension, and re-encodes it as JPEG. Re-encoding also strips metadata
+ * such as the GPS location phones embed in photos.
+ * @throws Error when the browser cannot decode or encode the image
+ */
+export async function resizeImageFile(
+  file: Blob,
+  { maxDimension, quality }: ResizeImageOptions
+): Promise<ResizedImage> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+
+  try {
+    const { width, height } = getScaledDimensions(bitmap.width, bitmap.height, maxDimension);
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas 2D context unavailable");
+    // JPEG has no alpha; paint transparent PNG areas white instead of black
+    context.fillStyle = "#fff";
+    context.fillRect(0, 0, width, height);
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/jpeg", quality)
+    );
+    if (!blob) throw new Error("Image encoding failed");
+
+    return { blob, width, height };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+
+import type { StructuredIngredient } from "@/lib/schemas/recipe";
+import {
+  formatIngredientLine,
+  groupIngredients,
+  parseIngredientLine,
+} from "@/lib/utils/ingredients";
+
+function makeIngredient(
+  overrides: Partial<StructuredIngredient>
+): StructuredIngredient {
+  return {
+    quantity: null,
+    unit: null,
+    item: "salt",
+    preparation: null,
+    optional: false,
+    group: null,
+    ...overrides,
+  };
+}
+
+describe("parseIngredientLine", () => {
+  it("splits quantity, unit, item, and preparation", () => {
+    expect(parseIngredientLine("2 cups all-purpose flour, sifted")).toEqual({
+      quantity: 2,
+      unit: "cups",
+      item: "all-purpose flour",
+      preparation: "sifted",
+      optional: false,
+      group: null,
+    });
+  });
+
+  it("handles fractions, counts without units, and 'of'", () => {
+    expect(parseIngredientLine("1 1/2 tbsp of olive oil")).toMatchObject({
+      quantity: 1.5,
+      unit: "tbsp",
+      item: "olive oil",
+    });
+    expect(parseIngredientLine("3 large eggs")).toMatchObject({
+      quantity: 3,
+      unit: null,
+      item: "large eggs",
+    });
+  });
+
+  it("keeps unmeasured lines as the item", () => {
+    expect(parseIngredientLine("salt to taste")).toEqual(
+      makeIngredient({ item: "salt to taste" })
+    );
+  });
+
+  it("detects optional ingredients", () => {
+    expect(parseIngredientLine("1 tsp chili flakes (optional)")).toMatchObject({
+      quantity: 1,
+      unit: "tsp",
+      item: "chili flakes",
+      optional: true,
+    });
+  });
+});
+
+describe("formatIngredientLine", () => {
+  it("round-trips parsed legacy lines", () => {
+    for (const line of ["2 cups broth", "1/2 tsp salt", "salt to taste"]) {
+      expect(formatIngredientLine(parseIngredientLine(line))).toBe(line);
+    }
+  });
+
+  it("appends preparation and optional markers", () => {
+    expect(
+      formatIngredientLine(
+        makeIngredient({
+          quantity: 1,
+          item: "onion",
+          preparation: "diced",
+          optional: true,
+        })
+      )
+    ).toBe("1 onion, diced (optional)");
+  });
+});
+
+describe("groupIngredients", () => {
+  it("puts ungrouped ingredients first and keeps group order", () => {
+    const salt = makeIngredient({ item: "salt" });
+    const soy = makeIngredient({ item: "soy sauce", group: "Sauce" });
+    const rice = makeIngredient({ item: "rice", group: "Base" });
+    const honey = makeIngredient({ item: "honey", group: "Sauce" });
+
+    expect(groupIngredients([soy, rice, salt, honey])).toEqual([
+      { group: null, ingredients: [salt] },
+      { group: "Sauce", ingredients: [soy, honey] },
+      { group: "Base", ingredients: [rice] },
+    ]);
+  });
+});
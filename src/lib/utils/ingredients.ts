@@ -0,0 +1,119 @@
+/**
+ * Structured ingredient utilities.
+ * Parses free-text ingredient lines into StructuredIngredient fields and
+ * formats structured ingredients back into readable lines.
+ */
+
+import type { StructuredIngredient } from "@/lib/schemas/recipe";
+import {
+  MEASUREMENT_UNITS,
+  formatScaledQuantity,
+  parseLeadingQuantity,
+} from "./recipe-servings";
+
+export interface IngredientGroup {
+  /** Group label (e.g. "For the sauce"), or null for ungrouped ingredients. */
+  group: string | null;
+  ingredients: StructuredIngredient[];
+}
+
+const LEADING_UNIT_PATTERN = new RegExp(
+  `^(${MEASUREMENT_UNITS})\\.?\\s+(.*)$`,
+  "i"
+);
+
+const OPTIONAL_SUFFIX_PATTERN = /(?:\s*\(optional\)|,\s*optional)\s*$/i;
+
+/**
+ * Parses a free-text ingredient line (e.g. "2 cups flour, sifted").
+ * Used to upgrade legacy string-only recipes to structured ingredients.
+ * Lines without a recognisable quantity keep their full text as the item.
+ */
+export function parseIngredientLine(line: string): StructuredIngredient {
+  let text = line.trim().replace(/^[-*•]\s+/, "");
+
+  const optional = OPTIONAL_SUFFIX_PATTERN.test(text);
+  if (optional) {
+    text = text.replace(OPTIONAL_SUFFIX_PATTERN, "").trim();
+  }
+
+  let quantity: number | null = null;
+  let unit: string | null = null;
+  let rest = text;
+
+  const parsedQuantity = parseLeadingQuantity(text);
+  if (parsedQuantity) {
+    quantity = parsedQuantity.value;
+    rest = parsedQuantity.rest;
+
+    const unitMatch = rest.match(LEADING_UNIT_PATTERN);
+    if (unitMatch) {
+      unit = unitMatch[1];
+      rest = unitMatch[2].replace(/^of\s+/i, "");
+    }
+  }
+
+  let item = rest.trim();
+  let preparation: string | null = null;
+
+  const commaIndex = item.indexOf(",");
+  if (commaIndex > 0) {
+    preparation = item.slice(commaIndex + 1).trim() || null;
+    item = item.slice(0, commaIndex).trim();
+  }
+
+  return {
+    quantity,
+    unit,
+    item: item || text,
+    preparation,
+    optional,
+    group: null,
+  };
+}
+
+/**
+ * Formats a structured ingredient as a single readable line.
+ * @example formatIngredientLine({ quantity: 0.5, unit: "tsp", item: "salt", ... }) // "1/2 tsp salt"
+ */
+export function formatIngredientLine(ingredient: StructuredIngredient): string {
+  const parts: string[] = [];
+  if (ingredient.quantity != null) {
+    parts.push(formatScaledQuantity(ingredient.quantity));
+  }
+  if (ingredient.unit) parts.push(ingredient.unit);
+  parts.push(ingredient.item);
+
+  let line = parts.join(" ");
+  if (ingredient.preparation) line += `, ${ingredient.preparation}`;
+  if (ingredient.optional) line += " (optional)";
+  return line;
+}
+
+/**
+ * Groups ingredients by their `group` label, preserving first-appearance order.
+ * Ungrouped ingredients form a leading group with a null label.
+ */
+export function groupIngredients(
+  ingredients: StructuredIngredient[]
+): IngredientGroup[] {
+  const groups: IngredientGroup[] = [];
+  const byLabel = new Map<string | null, IngredientGroup>();
+
+  for (const ingredient of ingredients) {
+    const label = ingredient.group?.trim() || null;
+    let group = byLabel.get(label);
+    if (!group) {
+      group = { group: label, ingredients: [] };
+      byLabel.set(label, group);
+      if (label === null) {
+        groups.unshift(group);
+      } else {
+        groups.push(group);
+      }
+    }
+    group.ingredients.push(ingredient);
+  }
+
+  return groups;
+}
@@ -1,6 +1,25 @@
 import { describe, expect, it } from "vitest";
 
-import { stripLeadingTitleHeading } from "@/lib/utils/markdown";
+import { parseIngredientLine } from "@/lib/utils/ingredients";
+import {
+  formatRecipeBodyAsMarkdown,
+  stripLeadingTitleHeading,
+} from "@/lib/utils/markdown";
+
+describe("formatRecipeBodyAsMarkdown", () => {
+  it("renders structured ingredients under group sub-headings", () => {
+    const body = formatRecipeBodyAsMarkdown({
+      ingredients: [
+        parseIngredientLine("1 cup rice"),
+        { ...parseIngredientLine("2 tbsp soy sauce"), group: "Sauce" },
+      ],
+    });
+
+    expect(body).toBe(
+      "\n## Ingredients\n- 1 cup rice\n\n### Sauce\n- 2 tbsp soy sauce\n"
+    );
+  });
+});
 
 describe("stripLeadingTitleHeading", () => {
   it("removes a leading '# <title>' heading matching the title", () => {
@@ -1,4 +1,5 @@
-import type { RecipeStructure } from "../schemas/recipe";
+import type { RecipeStructure, StructuredIngredient } from "../schemas/recipe";
+import { formatIngredientLine, groupIngredients } from "./ingredients";
 
 /**
  * Markdown utilities for recipe content.
@@ -51,10 +52,9 @@ export function formatRecipeBodyAsMarkdown(recipe: RecipeStructure): string {
   }
 
   if (recipe.ingredients && recipe.ingredients.length > 0) {
-    const ingredientsList = recipe.ingredients
-      .map((ing) => `- ${ing}`)
-      .join("\n");
-    sections.push(`\n## Ingredients\n${ingredientsList}\n`);
+    sections.push(
+      `\n## Ingredients\n${formatIngredientsList(recipe.ingredients)}\n`
+    );
   }
 
   if (recipe.instructions && recipe.instructions.length > 0) {
@@ -74,6 +74,22 @@ export function formatRecipeBodyAsMarkdown(recipe: RecipeStructure): string {
   return sections.join("");
 }
 
+/**
+ * Formats ingredients as a markdown list.
+ * Grouped ingredients get a `### <group>` sub-heading; ungrouped ones lead.
+ */
+function formatIngredientsList(ingredients: StructuredIngredient[]): string {
+  return groupIngredients(ingredients)
+    .map(({ group, ingredients: groupItems }) => {
+      const list = groupItems
+        .map((ingredient) => `- ${formatIngredientLine(ingredient)}`)
+        .join("\n");
+      return group ? `\n### ${group}\n${list}` : list;
+    })
+    .join("\n")
+    .trimStart();
+}
+
 // ============================================================================
 // TITLE HEADING HANDLING
 // ============================================================================
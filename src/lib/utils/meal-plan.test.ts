@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+
+import type { Recipe } from "@/lib/schemas/recipe";
+import { parseIngredientLine } from "@/lib/utils/ingredients";
+import {
+  addMealPlanEntry,
+  formatWeekRange,
+  getMealPlanNutritionTotals,
+  getMealPlanShoppingSources,
+  getWeekDays,
+  getWeekStart,
+  removeMealPlanEntry,
+  setMealPlanEntryServings,
+  shiftWeekStart,
+} from "@/lib/utils/meal-plan";
+
+function makeRecipe(overrides: Partial<Recipe> = {}): Recipe {
+  return {
+    id: "oats",
+    userId: "user-id",
+    title: "Overnight Oats",
+    content: "# Overnight Oats",
+    createdAt: { seconds: 1, nanoseconds: 0 } as Recipe["createdAt"],
+    servings: 2,
+    ingredients: [parseIngredientLine("1 cup oats")],
+    instructions: ["Soak overnight."],
+    calories: 350,
+    macros: { protein: "12g", carbs: "55g", fat: "8g" },
+    ...overrides,
+  };
+}
+
+describe("week dates", () => {
+  it("finds the Monday on or before a date", () => {
+    expect(getWeekStart(new Date(2026, 9, 18))).toBe("2026-10-12");
+    expect(getWeekStart(new Date(2026, 9, 12))).toBe("2026-10-12");
+    expect(getWeekStart(new Date(2026, 0, 1))).toBe("2025-12-29");
+  });
+
+  it("shifts across month and year boundaries", () => {
+    expect(shiftWeekStart("2025-12-29", 1)).toBe("2026-01-05");
+    expect(shiftWeekStart("2026-10-12", -2)).toBe("2026-09-28");
+  });
+
+  it("labels the days of a week", () => {
+    const days = getWeekDays("2026-10-12");
+    expect(days).toHaveLength(7);
+    expect(days[0]).toEqual({ day: 0, date: "2026-10-12", label: "Mon 12" });
+    expect(days[6].label).toBe("Sun 18");
+    expect(formatWeekRange("2026-10-12")).toBe("Oct 12 – Oct 18, 2026");
+  });
+});
+
+describe("meal plan entries", () => {
+  it("adds a recipe once per slot and clamps servings", () => {
+    const recipe = makeRecipe();
+    const once = addMealPlanEntry([], { day: 1, slot: "breakfast", recipe, servings: 40 });
+    const twice = addMealPlanEntry(once, { day: 1, slot: "breakfast", recipe, servings: 2 });
+
+    expect(twice).toEqual([
+      {
+        id: "1:breakfast:oats",
+        day: 1,
+        slot: "breakfast",
+        recipeId: "oats",
+        recipeTitle: "Overnight Oats",
+        servings: 12,
+      },
+    ]);
+    expect(setMealPlanEntryServings(twice, "1:breakfast:oats", 0)[0].servings).toBe(1);
+    expect(removeMealPlanEntry(twice, "1:breakfast:oats")).toEqual([]);
+  });
+});
+
+describe("getMealPlanNutritionTotals", () => {
+  it("sums one serving per meal per day and for the week", () => {
+    const oats = makeRecipe();
+    const soup = makeRecipe({ id: "soup", title: "Soup", calories: null, macros: null });
+    const recipesById = new Map([
+      [oats.id, oats],
+      [soup.id, soup],
+    ]);
+    let entries = addMealPlanEntry([], { day: 0, slot: "breakfast", recipe: oats, servings: 4 });
+    entries = addMealPlanEntry(entries, { day: 0, slot: "lunch", recipe: oats, servings: 1 });
+    entries = addMealPlanEntry(entries, { day: 2, slot: "dinner", recipe: soup, servings: 2 });
+
+    const { daily, weekly } = getMealPlanNutritionTotals(entries, recipesById);
+
+    expect(daily[0]).toEqual({
+      calories: 700,
+      protein: 24,
+      carbs: 110,
+      fat: 16,
+      missingCount: 0,
+    });
+    expect(daily[2].missingCount).toBe(1);
+    expect(weekly).toMatchObject({ calories: 700, missingCount: 1 });
+  });
+});
+
+describe("getMealPlanShoppingSources", () => {
+  it("uses each slot's servings and skips deleted recipes", () => {
+    const oats = makeRecipe();
+    const entries = addMealPlanEntry(
+      addMealPlanEntry([], { day: 0, slot: "breakfast", recipe: oats, servings: 4 }),
+      { day: 1, slot: "breakfast", recipe: makeRecipe({ id: "gone" }), servings: 2 }
+    );
+
+    expect(getMealPlanShoppingSources(entries, new Map([[oats.id, oats]]))).toEqual([
+      { recipe: oats, servings: 4 },
+    ]);
+  });
+});
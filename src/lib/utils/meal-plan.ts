@@ -0,0 +1,203 @@
+/**
+ * Weekly meal plan utilities: week dates, entry editing, nutrition totals,
+ * and shopping list sources.
+ *
+ * Weeks start on Monday and are identified by the ISO date (YYYY-MM-DD) of
+ * that Monday in the user's local time zone.
+ */
+
+import { NUMBER_INPUT } from "@/lib/constants/ui";
+import type { MealSlot } from "@/lib/constants/domain";
+import type { MealPlanEntry } from "@/lib/schemas/meal-plan";
+import type { Recipe } from "@/lib/schemas/recipe";
+import { extractNutritionSummary, parseMacroGrams } from "@/lib/utils/nutrition";
+import type { ShoppingListSource } from "@/lib/utils/shopping-list";
+
+export const DAYS_PER_WEEK = 7;
+
+export interface WeekDay {
+  /** Offset from the week start (0 = Monday). */
+  day: number;
+  date: string;
+  /** Short label such as "Mon 12". */
+  label: string;
+}
+
+/**
+ * Per-person nutrition totals: one serving of each planned meal.
+ */
+export interface NutritionTotals {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  /** Planned meals whose recipe has no nutrition data. */
+  missingCount: number;
+}
+
+interface AddMealPlanEntryParams {
+  day: number;
+  slot: MealSlot;
+  recipe: Recipe;
+  servings: number;
+}
+
+function parseIsoDate(isoDate: string): Date {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function toIsoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function addDays(isoDate: string, days: number): Date {
+  const date = parseIsoDate(isoDate);
+  date.setDate(date.getDate() + days);
+  return date;
+}
+
+/**
+ * Returns the ISO date of the Monday on or before `date`.
+ */
+export function getWeekStart(date: Date = new Date()): string {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % DAYS_PER_WEEK));
+  return toIsoDate(monday);
+}
+
+/**
+ * Moves a week start forward (positive) or back (negative) by whole weeks.
+ */
+export function shiftWeekStart(weekStart: string, weeks: number): string {
+  return toIsoDate(addDays(weekStart, weeks * DAYS_PER_WEEK));
+}
+
+/**
+ * Lists the seven days of a week with display labels.
+ */
+export function getWeekDays(weekStart: string): WeekDay[] {
+  return Array.from({ length: DAYS_PER_WEEK }, (_, day) => {
+    const date = addDays(weekStart, day);
+    return {
+      day,
+      date: toIsoDate(date),
+      label: `${date.toLocaleDateString("en-US", { weekday: "short" })} ${date.getDate()}`,
+    };
+  });
+}
+
+/**
+ * Formats a week as "Oct 12 – Oct 18, 2026".
+ */
+export function formatWeekRange(weekStart: string): string {
+  const start = parseIsoDate(weekStart);
+  const end = addDays(weekStart, DAYS_PER_WEEK - 1);
+  const format = (date: Date) =>
+    date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+  return `${format(start)} – ${format(end)}, ${end.getFullYear()}`;
+}
+
+function clampServings(servings: number): number {
+  return Math.min(
+    Math.max(Math.round(servings), NUMBER_INPUT.SERVING_SIZE_MIN),
+    NUMBER_INPUT.SERVING_SIZE_MAX
+  );
+}
+
+/**
+ * Places a recipe in a day/slot. A recipe appears at most once per slot, so
+ * dropping it again leaves the plan unchanged.
+ */
+export function addMealPlanEntry(
+  entries: readonly MealPlanEntry[],
+  { day, slot, recipe, servings }: AddMealPlanEntryParams
+): MealPlanEntry[] {
+  const id = `${day}:${slot}:${recipe.id}`;
+  if (entries.some((entry) => entry.id === id)) return [...entries];
+
+  return [
+    ...entries,
+    {
+      id,
+      day,
+      slot,
+      recipeId: recipe.id,
+      recipeTitle: recipe.title,
+      servings: clampServings(servings),
+    },
+  ];
+}
+
+export function removeMealPlanEntry(
+  entries: readonly MealPlanEntry[],
+  entryId: string
+): MealPlanEntry[] {
+  return entries.filter((entry) => entry.id !== entryId);
+}
+
+/**
+ * Sets an entry's servings, clamped to the serving-scale range.
+ */
+export function setMealPlanEntryServings(
+  entries: readonly MealPlanEntry[],
+  entryId: string,
+  servings: number
+): MealPlanEntry[] {
+  return entries.map((entry) =>
+    entry.id === entryId ? { ...entry, servings: clampServings(servings) } : entry
+  );
+}
+
+function emptyTotals(): NutritionTotals {
+  return { calories: 0, protein: 0, carbs: 0, fat: 0, missingCount: 0 };
+}
+
+function addEntryNutrition(totals: NutritionTotals, recipe: Recipe | undefined): void {
+  const summary = extractNutritionSummary(recipe);
+  if (!summary) {
+    totals.missingCount += 1;
+    return;
+  }
+
+  totals.calories += summary.calories ?? 0;
+  totals.protein += parseMacroGrams(summary.protein) ?? 0;
+  totals.carbs += parseMacroGrams(summary.carbs) ?? 0;
+  totals.fat += parseMacroGrams(summary.fat) ?? 0;
+}
+
+/**
+ * Sums per-serving nutrition for each day and for the whole week.
+ * Totals are per person, so slot serving counts do not change them.
+ */
+export function getMealPlanNutritionTotals(
+  entries: readonly MealPlanEntry[],
+  recipesById: ReadonlyMap<string, Recipe>
+): { daily: NutritionTotals[]; weekly: NutritionTotals } {
+  const daily = Array.from({ length: DAYS_PER_WEEK }, emptyTotals);
+  const weekly = emptyTotals();
+
+  for (const entry of entries) {
+    const recipe = recipesById.get(entry.recipeId);
+    addEntryNutrition(daily[entry.day], recipe);
+    addEntryNutrition(weekly, recipe);
+  }
+
+  return { daily, weekly };
+}
+
+/**
+ * Turns planned meals into shopping list sources, each scaled to its slot's
+ * servings. Entries whose recipe no longer exists are skipped.
+ */
+export function getMealPlanShoppingSources(
+  entries: readonly MealPlanEntry[],
+  recipesById: ReadonlyMap<string, Recipe>
+): ShoppingListSource[] {
+  return entries.flatMap((entry) => {
+    const recipe = recipesById.get(entry.recipeId);
+    return recipe ? [{ recipe, servings: entry.servings }] : [];
+  });
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+
+import type { StructuredIngredient } from "@/lib/schemas/recipe";
+import { calculateRecipeNutrition } from "@/lib/utils/nutrition-calculator";
+
+function ingredient(overrides: Partial<StructuredIngredient>): StructuredIngredient {
+  return {
+    quantity: null,
+    unit: null,
+    item: "",
+    preparation: null,
+    optional: false,
+    group: null,
+    ...overrides,
+  };
+}
+
+describe("calculateRecipeNutrition", () => {
+  it("weighs mass, volume, and counted ingredients per serving", () => {
+    const result = calculateRecipeNutrition({
+      servings: 2,
+      ingredients: [
+        ingredient({ quantity: 200, unit: "g", item: "all-purpose flour" }),
+        ingredient({ quantity: 2, unit: null, item: "large eggs" }),
+        ingredient({ quantity: 1, unit: "tbsp", item: "olive oil" }),
+      ],
+    });
+
+    expect(result).toEqual({
+      calories: 496,
+      protein: 16.3,
+      carbs: 76.4,
+      fat: 12.6,
+      sodium: 73,
+      unmatched: [],
+      matchedCount: 3,
+    });
+  });
+
+  it("matches the most specific food and converts cups with the density table", () => {
+    const result = calculateRecipeNutrition({
+      servings: 1,
+      ingredients: [
+        ingredient({ quantity: 1, unit: "cup", item: "coconut milk" }),
+        ingredient({ quantity: 2, unit: "tbsp", item: "unsalted butter" }),
+      ],
+    });
+
+    expect(result?.calories).toBe(731);
+    expect(result?.sodium).toBe(38);
+  });
+
+  it("prefers the matched food's own density for volume measures", () => {
+    const result = calculateRecipeNutrition({
+      servings: 1,
+      ingredients: [ingredient({ quantity: 1, unit: "cup", item: "crumbled goats cheese" })],
+    });
+
+    expect(result?.calories).toBe(389);
+    expect(result?.sodium).toBe(667);
+  });
+
+  it("lists unweighable and unknown lines and skips optional ones", () => {
+    const result = calculateRecipeNutrition({
+      servings: 4,
+      ingredients: [
+        ingredient({ quantity: 3, unit: "cloves", item: "garlic" }),
+        ingredient({ item: "salt", preparation: "to taste" }),
+        ingredient({ quantity: 1, unit: "tsp", item: "saffron threads" }),
+        ingredient({ quantity: 50, unit: "g", item: "walnuts", optional: true }),
+      ],
+    });
+
+    expect(result?.matchedCount).toBe(1);
+    expect(result?.unmatched).toEqual(["salt, to taste", "1 tsp saffron threads"]);
+  });
+
+  it("returns null without servings or any matched ingredient", () => {
+    const lines = [ingredient({ quantity: 1, unit: "cup", item: "flour" })];
+    expect(calculateRecipeNutrition({ ingredients: lines })).toBeNull();
+    expect(
+      calculateRecipeNutrition({
+        servings: 2,
+        ingredients: [ingredient({ quantity: 1, item: "dragon fruit" })],
+      })
+    ).toBeNull();
+  });
+});
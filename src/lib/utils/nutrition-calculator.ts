@@ -0,0 +1,290 @@
+/**
+ * Deterministic nutrition calculation from a bundled nutrient table.
+ *
+ * Each ingredient line is matched against an offline table of common foods
+ * (per 100 g, rounded from USDA FoodData Central), converted to grams, and
+ * summed. The result is divided by the recipe's servings so it can sit next
+ * to the model's own estimate. Lines that cannot be matched or weighed are
+ * reported instead of guessed.
+ */
+
+import type { StructuredIngredient } from "@/lib/schemas/recipe";
+import { formatIngredientLine } from "./ingredients";
+import type { NutritionSummary } from "./nutrition";
+import {
+  convertQuantity,
+  getIngredientDensity,
+  getUnitKind,
+  normalizeUnit,
+} from "./unit-conversion";
+
+export interface CalculatedNutrition {
+  /** Kilocalories per serving, rounded to a whole number. */
+  calories: number;
+  /** Grams per serving, rounded to one decimal place. */
+  protein: number;
+  carbs: number;
+  fat: number;
+  /** Milligrams per serving, rounded to a whole number. */
+  sodium: number;
+  /** Ingredient lines left out of the totals, as written. */
+  unmatched: string[];
+  matchedCount: number;
+}
+
+interface NutritionSourceRecipe {
+  ingredients?: StructuredIngredient[] | null;
+  servings?: number | null;
+}
+
+interface FoodEntry {
+  /** Whole-word names, matched in order; plurals match too. */
+  names: readonly string[];
+  /** Per 100 g: kcal, protein g, carbs g, fat g, sodium mg. */
+  per100g: readonly [number, number, number, number, number];
+  /** Grams per ml for volume measures; unset entries use the shared density table. */
+  density?: number;
+  /** Grams per piece, for counted items ("2 eggs", "3 cloves garlic"). */
+  each?: number;
+}
+
+/**
+ * Ordered most-specific first: the first entry with a name in the item wins,
+ * so "coconut milk" precedes "milk" and "peanut butter" precedes "butter".
+ */
+const FOOD_TABLE: readonly FoodEntry[] = [
+  { names: ["water"], per100g: [0, 0, 0, 0, 0], density: 1 },
+  { names: ["salt"], per100g: [0, 0, 0, 0, 38758], density: 1.2 },
+  { names: ["baking soda", "bicarbonate of soda"], per100g: [0, 0, 0, 0, 27360], density: 0.9 },
+  { names: ["baking powder"], per100g: [53, 0, 28, 0, 10600], density: 0.9 },
+  { names: ["olive oil", "vegetable oil", "canola oil", "sesame oil", "coconut oil", "oil"], per100g: [884, 0, 0, 100, 0], density: 0.92 },
+  { names: ["peanut butter"], per100g: [588, 25, 20, 50, 426], density: 1.09 },
+  { names: ["ghee"], per100g: [876, 0.3, 0, 99.5, 2], density: 0.91 },
+  { names: ["butter"], per100g: [717, 0.9, 0.1, 81, 11] },
+  { names: ["coconut milk", "coconut cream"], per100g: [230, 2.3, 5.5, 24, 15], density: 0.97 },
+  { names: ["sour cream"], per100g: [198, 2.4, 4.6, 19, 31], density: 1 },
+  { names: ["cream cheese"], per100g: [342, 6, 4, 34, 321], density: 1 },
+  { names: ["heavy cream", "double cream", "whipping cream", "cream"], per100g: [340, 2.8, 2.7, 36, 27], density: 1 },
+  { names: ["greek yogurt"], per100g: [97, 9, 3.9, 5, 35], density: 1.03 },
+  { names: ["yogurt", "yoghurt"], per100g: [61, 3.5, 4.7, 3.3, 46], density: 1.03 },
+  { names: ["buttermilk"], per100g: [40, 3.3, 4.8, 0.9, 105], density: 1.03 },
+  { names: ["milk"], per100g: [61, 3.2, 4.8, 3.3, 43], density: 1.03 },
+  { names: ["parmesan"], per100g: [431, 38, 4.1, 29, 1529], density: 0.42 },
+  { names: ["mozzarella"], per100g: [280, 28, 3.1, 17, 627], density: 0.47 },
+  { names: ["cheddar"], per100g: [403, 25, 1.3, 33, 621], density: 0.47 },
+  { names: ["feta"], per100g: [264, 14, 4.1, 21, 917], density: 0.63 },
+  { names: ["cheese"], per100g: [350, 25, 2, 28, 600], density: 0.47 },
+  { names: ["egg yolk"], per100g: [322, 16, 3.6, 27, 48], each: 17 },
+  { names: ["egg white"], per100g: [52, 11, 0.7, 0.2, 166], each: 33 },
+  { names: ["egg"], per100g: [143, 12.6, 0.7, 9.5, 142], each: 50 },
+  { names: ["chicken stock", "chicken broth", "beef stock", "beef broth", "vegetable stock", "vegetable broth", "stock", "broth"], per100g: [6, 0.6, 0.4, 0.2, 350], density: 1 },
+  { names: ["chicken breast"], per100g: [120, 22.5, 0, 2.6, 45], each: 200 },
+  { names: ["chicken thigh"], per100g: [144, 19, 0, 7.5, 84], each: 110 },
+  { names: ["chicken"], per100g: [143, 18, 0, 7.5, 75] },
+  { names: ["ground beef", "minced beef", "beef mince"], per100g: [254, 17, 0, 20, 66] },
+  { names: ["beef", "steak"], per100g: [198, 19, 0, 13, 55] },
+  { names: ["bacon"], per100g: [417, 13, 1.4, 40, 833], each: 25 },
+  { names: ["sausage"], per100g: [301, 12, 2, 27, 800], each: 75 },
+  { names: ["ham"], per100g: [145, 21, 1.5, 5.5, 1200] },
+  { names: ["pork"], per100g: [190, 19, 0, 12, 58] },
+  { names: ["lamb"], per100g: [282, 16.6, 0, 23.4, 59] },
+  { names: ["turkey"], per100g: [148, 19.5, 0, 7.7, 70] },
+  { names: ["fish sauce"], per100g: [35, 5, 3.6, 0, 7851], density: 1.2 },
+  { names: ["soy sauce", "tamari"], per100g: [53, 8.1, 4.9, 0.6, 5493], density: 1.15 },
+  { names: ["salmon"], per100g: [208, 20, 0, 13, 59], each: 170 },
+  { names: ["tuna"], per100g: [116, 26, 0, 0.8, 247] },
+  { names: ["shrimp", "prawn"], per100g: [85, 20, 0, 0.5, 119] },
+  { names: ["cod", "white fish", "haddock"], per100g: [82, 18, 0, 0.7, 54], each: 170 },
+  { names: ["tofu"], per100g: [76, 8, 1.9, 4.8, 7] },
+  { names: ["vinegar"], per100g: [18, 0, 0.04, 0, 2], density: 1.01 },
+  { names: ["breadcrumb", "panko"], per100g: [395, 13, 72, 5.3, 732], density: 0.45 },
+  { names: ["flour"], per100g: [364, 10, 76, 1, 2] },
+  { names: ["bread"], per100g: [265, 9, 49, 3.2, 491], each: 30 },
+  { names: ["tortilla"], per100g: [306, 8, 51, 8, 450], each: 45 },
+  { names: ["spaghetti", "pasta", "penne", "linguine", "macaroni", "noodle"], per100g: [371, 13, 75, 1.5, 6], density: 0.42 },
+  { names: ["rice"], per100g: [365, 7.1, 80, 0.7, 5] },
+  { names: ["quinoa"], per100g: [368, 14, 64, 6, 5], density: 0.72 },
+  { names: ["couscous"], per100g: [376, 13, 77, 0.6, 10], density: 0.73 },
+  { names: ["oat"], per100g: [389, 17, 66, 7, 2] },
+  { names: ["cornstarch", "cornflour"], per100g: [381, 0.3, 91, 0.1, 9] },
+  { names: ["cocoa"], per100g: [228, 20, 58, 14, 21] },
+  { names: ["chocolate chip", "chocolate"], per100g: [546, 4.9, 61, 31, 24], density: 0.72 },
+  { names: ["brown sugar"], per100g: [380, 0.1, 98, 0, 28] },
+  { names: ["powdered sugar", "icing sugar", "confectioners' sugar"], per100g: [389, 0, 100, 0, 2] },
+  { names: ["sugar"], per100g: [387, 0, 100, 0, 1] },
+  { names: ["honey"], per100g: [304, 0.3, 82, 0, 4] },
+  { names: ["maple syrup"], per100g: [260, 0, 67, 0.1, 12], density: 1.32 },
+  { names: ["mayonnaise", "mayo"], per100g: [680, 1, 0.6, 75, 635], density: 0.91 },
+  { names: ["ketchup"], per100g: [101, 1, 27, 0.1, 907], density: 1.15 },
+  { names: ["mustard"], per100g: [60, 3.7, 5.8, 3.3, 1135], density: 1.05 },
+  { names: ["tomato paste"], per100g: [82, 4.3, 19, 0.5, 59], density: 1.1 },
+  { names: ["canned tomato", "diced tomato", "crushed tomato", "chopped tomato", "tomato sauce", "passata"], per100g: [32, 1.6, 7, 0.3, 132], density: 1.03 },
+  {
+    names: [
+      "garlic powder", "onion powder", "chili powder", "curry powder", "garam masala",
+      "paprika", "cumin", "coriander", "turmeric", "cinnamon", "nutmeg", "oregano",
+      "thyme", "rosemary", "basil", "parsley", "cilantro", "dill", "bay leaf", "bay leaves",
+      "black pepper", "red pepper flake", "chili flake", "ginger",
+    ],
+    per100g: [280, 11, 55, 9, 60],
+    density: 0.5,
+    each: 1,
+  },
+  { names: ["green onion", "spring onion", "scallion"], per100g: [32, 1.8, 7.3, 0.2, 16], each: 15 },
+  { names: ["onion", "shallot"], per100g: [40, 1.1, 9.3, 0.1, 4], density: 0.6, each: 110 },
+  { names: ["garlic"], per100g: [149, 6.4, 33, 0.5, 17], density: 0.6, each: 3 },
+  { names: ["tomato"], per100g: [18, 0.9, 3.9, 0.2, 5], density: 0.75, each: 120 },
+  { names: ["sweet potato"], per100g: [86, 1.6, 20, 0.1, 55], each: 130 },
+  { names: ["potato"], per100g: [77, 2, 17, 0.1, 6], density: 0.65, each: 170 },
+  { names: ["carrot"], per100g: [41, 0.9, 9.6, 0.2, 69], density: 0.55, each: 60 },
+  { names: ["celery"], per100g: [16, 0.7, 3, 0.2, 80], density: 0.5, each: 40 },
+  { names: ["bell pepper"], per100g: [26, 1, 6, 0.3, 4], density: 0.6, each: 120 },
+  { names: ["spinach"], per100g: [23, 2.9, 3.6, 0.4, 79], density: 0.13 },
+  { names: ["broccoli"], per100g: [34, 2.8, 6.6, 0.4, 33], density: 0.38 },
+  { names: ["mushroom"], per100g: [22, 3.1, 3.3, 0.3, 5], density: 0.3, each: 18 },
+  { names: ["zucchini", "courgette"], per100g: [17, 1.2, 3.1, 0.3, 8], each: 200 },
+  { names: ["lemon juice"], per100g: [22, 0.4, 6.9, 0.2, 1], density: 1.03 },
+  { names: ["lemon"], per100g: [29, 1.1, 9.3, 0.3, 2], each: 60 },
+  { names: ["lime juice"], per100g: [25, 0.4, 8.4, 0.1, 2], density: 1.03 },
+  { names: ["lime"], per100g: [30, 0.7, 10.5, 0.2, 2], each: 45 },
+  { names: ["avocado"], per100g: [160, 2, 8.5, 14.7, 7], each: 150 },
+  { names: ["banana"], per100g: [89, 1.1, 22.8, 0.3, 1], each: 118 },
+  { names: ["apple"], per100g: [52, 0.3, 13.8, 0.2, 1], density: 0.5, each: 180 },
+  { names: ["chickpea", "garbanzo"], per100g: [164, 8.9, 27, 2.6, 7], density: 0.65 },
+  { names: ["lentil"], per100g: [352, 24.6, 63, 1.1, 6], density: 0.8 },
+  { names: ["black bean", "kidney bean", "bean"], per100g: [132, 8.9, 23.7, 0.5, 1], density: 0.7 },
+  { names: ["almond"], per100g: [579, 21, 22, 50, 1], density: 0.6 },
+  { names: ["walnut", "pecan"], per100g: [654, 15, 14, 65, 2], density: 0.5 },
+];
+
+/** Units that count pieces rather than measure them. */
+const COUNT_UNITS = new Set([
+  "clove", "slice", "piece", "whole", "large", "medium", "small", "fillet",
+  "breast", "thigh", "stalk", "sprig", "leaf", "head",
+]);
+
+/** Typical weights for package and pinch units the unit engine does not cover. */
+const FIXED_UNIT_GRAMS: Record<string, number> = {
+  can: 400,
+  stick: 113,
+  pinch: 0.4,
+  dash: 0.6,
+};
+
+const FOOD_PATTERNS = FOOD_TABLE.map((food) => ({
+  food,
+  patterns: food.names.map(
+    (name) => new RegExp(`(?<![a-z])${name}(?:s|es)?(?![a-z])`)
+  ),
+}));
+
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+}
+
+function singularUnit(unit: string): string {
+  return unit.trim().toLowerCase().replace(/\.$/, "").replace(/(?:(?<=[cs]h)es|s)$/, "");
+}
+
+function findFood(item: string): FoodEntry | null {
+  const text = normalizeText(item);
+  const match = FOOD_PATTERNS.find(({ patterns }) =>
+    patterns.some((pattern) => pattern.test(text))
+  );
+  return match?.food ?? null;
+}
+
+/** Weighs an ingredient line, or returns null when it cannot be weighed. */
+function toGrams(ingredient: StructuredIngredient, food: FoodEntry): number | null {
+  const { quantity } = ingredient;
+  if (quantity == null || quantity <= 0) return null;
+
+  const unit = normalizeUnit(ingredient.unit);
+  if (unit) {
+    if (getUnitKind(unit) === "mass") return convertQuantity(quantity, unit, "g");
+    const millilitres = convertQuantity(quantity, unit, "ml");
+    const density = food.density ?? getIngredientDensity(ingredient.item);
+    return millilitres == null || density == null ? null : millilitres * density;
+  }
+
+  if (!ingredient.unit?.trim()) {
+    return food.each != null ? quantity * food.each : null;
+  }
+
+  const label = singularUnit(ingredient.unit);
+  if (label in FIXED_UNIT_GRAMS) return quantity * FIXED_UNIT_GRAMS[label];
+  if (COUNT_UNITS.has(label) && food.each != null) return quantity * food.each;
+  return null;
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Calculates per-serving nutrition from a recipe's ingredient lines.
+ * Optional ingredients are left out. Lines with no known food, or no amount
+ * that can be weighed ("salt to taste"), are listed in `unmatched`.
+ * @returns Null when the recipe has no servings or no ingredient matched
+ */
+export function calculateRecipeNutrition(
+  recipe: NutritionSourceRecipe | null | undefined
+): CalculatedNutrition | null {
+  const servings = recipe?.servings;
+  const ingredients = recipe?.ingredients ?? [];
+  if (!servings || servings <= 0 || ingredients.length === 0) return null;
+
+  const totals = [0, 0, 0, 0, 0];
+  const unmatched: string[] = [];
+  let matchedCount = 0;
+
+  for (const ingredient of ingredients) {
+    if (ingredient.optional) continue;
+
+    const food = findFood(ingredient.item);
+    const grams = food ? toGrams(ingredient, food) : null;
+    if (!food || grams == null) {
+      unmatched.push(formatIngredientLine(ingredient));
+      continue;
+    }
+
+    food.per100g.forEach((amount, index) => {
+      totals[index] += (amount * grams) / 100;
+    });
+    matchedCount += 1;
+  }
+
+  if (matchedCount === 0) return null;
+
+  const [calories, protein, carbs, fat, sodium] = totals.map(
+    (total) => total / servings
+  );
+
+  return {
+    calories: Math.round(calories),
+    protein: roundTo(protein, 1),
+    carbs: roundTo(carbs, 1),
+    fat: roundTo(fat, 1),
+    sodium: Math.round(sodium),
+    unmatched,
+    matchedCount,
+  };
+}
+
+/**
+ * Formats calculated nutrition as a display summary, so it renders and
+ * compares against targets like the model's estimate.
+ */
+export function toNutritionSummary(nutrition: CalculatedNutrition): NutritionSummary {
+  return {
+    calories: nutrition.calories,
+    protein: `${nutrition.protein} g`,
+    carbs: `${nutrition.carbs} g`,
+    fat: `${nutrition.fat} g`,
+    sodium: `${nutrition.sodium} mg`,
+  };
+}
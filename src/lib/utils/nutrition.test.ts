@@ -1,11 +1,17 @@
 import { describe, expect, it } from "vitest";
 
 import {
+  compareNutritionToTargets,
   extractNutritionFromMarkdown,
   extractNutritionSummary,
+  getPerMealNutritionBudget,
   hasNutritionSummary,
+  parseMacroGrams,
+  parseNutrientAmount,
 } from "@/lib/utils/nutrition";
 
+const TARGETS = { calories: 2000, protein: 120, carbs: null, fat: 70, sodium: 2300 };
+
 describe("nutrition utilities", () => {
   it("returns null when all nutrition fields are empty", () => {
     expect(extractNutritionSummary({ calories: null, macros: null })).toBeNull();
@@ -106,3 +112,63 @@ describe("nutrition utilities", () => {
     ).toBeNull();
   });
 });
+
+describe("parseMacroGrams", () => {
+  it("reads the number from macro strings", () => {
+    expect(parseMacroGrams("25g")).toBe(25);
+    expect(parseMacroGrams("12.5 g")).toBe(12.5);
+    expect(parseMacroGrams("unknown")).toBeNull();
+    expect(parseMacroGrams(null)).toBeNull();
+  });
+});
+
+describe("parseNutrientAmount", () => {
+  it("normalises units, wording, and ranges", () => {
+    expect(parseNutrientAmount("about 30 grams", "g")).toBe(30);
+    expect(parseNutrientAmount("20-25 g", "g")).toBe(22.5);
+    expect(parseNutrientAmount("1,200 mg", "mg")).toBe(1200);
+    expect(parseNutrientAmount("1.2 g", "mg")).toBe(1200);
+    expect(parseNutrientAmount("450", "mg")).toBe(450);
+    expect(parseNutrientAmount("n/a", "g")).toBeNull();
+  });
+});
+
+describe("extractNutritionSummary sodium", () => {
+  it("reads sodium from macros or markdown only when present", () => {
+    expect(
+      extractNutritionSummary({
+        calories: 400,
+        macros: { protein: "20g", carbs: null, fat: null, sodium: "600mg" },
+      })?.sodium
+    ).toBe("600mg");
+    expect(extractNutritionFromMarkdown("- Sodium: 900 mg")?.sodium).toBe("900 mg");
+    expect(extractNutritionSummary({ calories: 400 })).not.toHaveProperty("sodium");
+  });
+});
+
+describe("getPerMealNutritionBudget", () => {
+  it("splits daily targets across three meals", () => {
+    expect(getPerMealNutritionBudget(TARGETS)).toEqual({
+      calories: 667,
+      protein: 40,
+      carbs: null,
+      fat: 23,
+      sodium: 767,
+    });
+  });
+});
+
+describe("compareNutritionToTargets", () => {
+  it("reports each serving's share of the daily targets that are set", () => {
+    const comparisons = compareNutritionToTargets(
+      { calories: 500, protein: "about 30 grams", carbs: "60g", fat: "n/a", sodium: "1.15 g" },
+      TARGETS
+    );
+
+    expect(comparisons).toEqual([
+      { key: "calories", amount: 500, dailyTarget: 2000, percentOfDaily: 25 },
+      { key: "protein", amount: 30, dailyTarget: 120, percentOfDaily: 25 },
+      { key: "sodium", amount: 1150, dailyTarget: 2300, percentOfDaily: 50 },
+    ]);
+  });
+});
@@ -2,11 +2,28 @@
  * Nutrition summary utilities for recipe display.
  */
 
+import { NUTRITION_TARGETS } from "@/lib/constants/domain";
+import type { NutritionTargets } from "@/lib/schemas/user";
+
 export interface NutritionSummary {
   calories: number | null;
   protein: string | null;
   carbs: string | null;
   fat: string | null;
+  /** Only set when known; recipes saved before sodium was tracked omit it. */
+  sodium?: string | null;
+}
+
+export type NutrientKey = keyof NutritionTargets;
+
+/** A recipe's nutrient amount per serving against the daily target. */
+export interface NutrientTargetComparison {
+  key: NutrientKey;
+  /** Amount per serving in the target's unit (kcal, g, or mg). */
+  amount: number;
+  dailyTarget: number;
+  /** Share of the daily target, rounded to a whole percent. */
+  percentOfDaily: number;
 }
 
 interface NutritionSource {
@@ -16,10 +33,11 @@ interface NutritionSource {
     protein?: string | null;
     carbs?: string | null;
     fat?: string | null;
+    sodium?: string | null;
   } | null;
 }
 
-type NutritionKey = "protein" | "carbs" | "fat";
+type NutritionKey = "protein" | "carbs" | "fat" | "sodium";
 
 function hasValue(value: string | number | null | undefined): boolean {
   if (value == null) return false;
@@ -64,7 +82,7 @@ function parseCalories(value: string): number | null {
 
 function parseMacroLine(line: string): [NutritionKey, string] | null {
   const match = line.match(
-    /^(protein|carbs?|carbohydrates?|total fat|fat)(?:\s+per serving)?\s*:\s*(.+)$/i
+    /^(protein|carbs?|carbohydrates?|total fat|fat|sodium)(?:\s+per serving)?\s*:\s*(.+)$/i
   );
   if (!match) return null;
 
@@ -74,6 +92,7 @@ function parseMacroLine(line: string): [NutritionKey, string] | null {
 
   if (label.startsWith("protein")) return ["protein", value];
   if (label.startsWith("carb")) return ["carbs", value];
+  if (label === "sodium") return ["sodium", value];
   return ["fat", value];
 }
 
@@ -111,7 +130,7 @@ export function extractNutritionFromMarkdown(
     }
   }
 
-  return hasNutritionSummary(summary) ? summary : null;
+  return hasNutritionSummary(summary) ? withoutEmptySodium(summary) : null;
 }
 
 /**
@@ -136,9 +155,19 @@ export function extractNutritionSummary(
     protein: coalesceText(summary.protein, markdownSummary?.protein),
     carbs: coalesceText(summary.carbs, markdownSummary?.carbs),
     fat: coalesceText(summary.fat, markdownSummary?.fat),
+    sodium: coalesceText(source.macros?.sodium, markdownSummary?.sodium),
   };
 
-  return hasNutritionSummary(summaryWithFallback) ? summaryWithFallback : null;
+  return hasNutritionSummary(summaryWithFallback)
+    ? withoutEmptySodium(summaryWithFallback)
+    : null;
+}
+
+/** Drops a missing sodium value so summaries without one keep their shape. */
+function withoutEmptySodium(summary: NutritionSummary): NutritionSummary {
+  if (summary.sodium != null) return summary;
+  const { calories, protein, carbs, fat } = summary;
+  return { calories, protein, carbs, fat };
 }
 
 /**
@@ -149,6 +178,103 @@ export function hasNutritionSummary(summary: NutritionSummary): boolean {
     hasValue(summary.calories) ||
     hasValue(summary.protein) ||
     hasValue(summary.carbs) ||
-    hasValue(summary.fat)
+    hasValue(summary.fat) ||
+    hasValue(summary.sodium)
   );
 }
+
+/** Mass units in macro strings, in milligrams. */
+const MASS_UNIT_MILLIGRAMS: Readonly<Record<string, number>> = {
+  kg: 1_000_000,
+  g: 1000,
+  gram: 1000,
+  grams: 1000,
+  mg: 1,
+  milligram: 1,
+  milligrams: 1,
+  mcg: 0.001,
+  "µg": 0.001,
+};
+
+const NUTRIENT_AMOUNT_PATTERN =
+  /([0-9][0-9,]*(?:\.\d+)?)(?:\s*(?:-|–|to)\s*([0-9][0-9,]*(?:\.\d+)?))?(?:\s*(kg|mg|milligrams?|mcg|µg|g|grams?)(?![a-z]))?/i;
+
+/**
+ * Normalises a free-text nutrient amount ("25g", "about 30 grams",
+ * "1.2 g", "20-25 g") to a number in `unit`. Ranges use their midpoint and a
+ * missing unit is taken to be `unit` already.
+ * @returns The amount, or null when no number is present
+ */
+export function parseNutrientAmount(
+  value: string | null | undefined,
+  unit: "g" | "mg"
+): number | null {
+  if (!value) return null;
+
+  const match = value.replace(/(\d),(\d{3})/g, "$1$2").match(NUTRIENT_AMOUNT_PATTERN);
+  if (!match) return null;
+
+  const low = Number(match[1]);
+  const high = match[2] != null ? Number(match[2]) : low;
+  const amount = (low + high) / 2;
+  if (!Number.isFinite(amount)) return null;
+
+  const sourceUnit = match[3]?.toLowerCase();
+  if (!sourceUnit) return amount;
+  return (amount * MASS_UNIT_MILLIGRAMS[sourceUnit]) / MASS_UNIT_MILLIGRAMS[unit];
+}
+
+/**
+ * Reads the gram amount from a macro string such as "25g" or "12.5 g".
+ * Returns null when no number is present.
+ */
+export function parseMacroGrams(value: string | null | undefined): number | null {
+  return parseNutrientAmount(value, "g");
+}
+
+/**
+ * Splits daily targets into a per-meal budget
+ * (`NUTRITION_TARGETS.MEALS_PER_DAY` meals), rounded to whole units.
+ */
+export function getPerMealNutritionBudget(targets: NutritionTargets): NutritionTargets {
+  const perMeal = (target: number | null) =>
+    target == null ? null : Math.round(target / NUTRITION_TARGETS.MEALS_PER_DAY);
+  return {
+    calories: perMeal(targets.calories),
+    protein: perMeal(targets.protein),
+    carbs: perMeal(targets.carbs),
+    fat: perMeal(targets.fat),
+    sodium: perMeal(targets.sodium),
+  };
+}
+
+/**
+ * Compares one serving of a recipe with the user's daily targets. Nutrients
+ * without a target or a readable amount are left out.
+ */
+export function compareNutritionToTargets(
+  summary: NutritionSummary,
+  targets: NutritionTargets
+): NutrientTargetComparison[] {
+  const amounts: Record<NutrientKey, number | null> = {
+    calories: summary.calories,
+    protein: parseNutrientAmount(summary.protein, "g"),
+    carbs: parseNutrientAmount(summary.carbs, "g"),
+    fat: parseNutrientAmount(summary.fat, "g"),
+    sodium: parseNutrientAmount(summary.sodium, "mg"),
+  };
+
+  return (Object.keys(amounts) as NutrientKey[]).flatMap((key) => {
+    const amount = amounts[key];
+    const dailyTarget = targets[key];
+    if (amount == null || dailyTarget == null || dailyTarget <= 0) return [];
+    return [
+      {
+        key,
+        amount,
+        dailyTarget,
+        percentOfDaily: Math.round((amount / dailyTarget) * 100),
+      },
+    ];
+  });
+}
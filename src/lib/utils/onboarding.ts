@@ -50,3 +50,13 @@ export function isProfileWelcomeSearchParam(
 ): boolean {
   return value === PROFILE_WELCOME_VALUE;
 }
+
+export function clearProfileOnboardingDismissal(userId: string): void {
+  const storage = getLocalStorage();
+  if (!storage) return;
+  try {
+    storage.removeItem(getOnboardingDismissedKey(userId));
+  } catch {
+    // Ignore storage errors
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+
+import type { PantryItem } from "@/lib/schemas/pantry";
+import { parseIngredientLine } from "@/lib/utils/ingredients";
+import {
+  buildPantryIngredientsText,
+  findPantryItemsUsed,
+  getDaysUntilExpiry,
+  getExpiringPantryItems,
+  sortPantryItems,
+} from "@/lib/utils/pantry";
+
+const TODAY = new Date(2026, 9, 18, 15, 30);
+
+function makeItem(overrides: Partial<PantryItem>): PantryItem {
+  return {
+    id: overrides.name ?? "item",
+    name: "rice",
+    quantity: null,
+    unit: null,
+    expiresOn: null,
+    ...overrides,
+  };
+}
+
+describe("getDaysUntilExpiry", () => {
+  it("counts whole local days", () => {
+    expect(getDaysUntilExpiry("2026-10-18", TODAY)).toBe(0);
+    expect(getDaysUntilExpiry("2026-10-21", TODAY)).toBe(3);
+    expect(getDaysUntilExpiry("2026-10-17", TODAY)).toBe(-1);
+    expect(getDaysUntilExpiry(null, TODAY)).toBeNull();
+  });
+});
+
+describe("getExpiringPantryItems", () => {
+  it("keeps unexpired items within the window, soonest first", () => {
+    const items = [
+      makeItem({ name: "milk", expiresOn: "2026-10-20" }),
+      makeItem({ name: "spinach", expiresOn: "2026-10-18" }),
+      makeItem({ name: "yogurt", expiresOn: "2026-10-17" }),
+      makeItem({ name: "cheese", expiresOn: "2026-11-30" }),
+      makeItem({ name: "rice" }),
+    ];
+
+    expect(getExpiringPantryItems(items, TODAY).map((item) => item.name)).toEqual([
+      "spinach",
+      "milk",
+    ]);
+  });
+});
+
+describe("sortPantryItems", () => {
+  it("puts items without expiry last", () => {
+    const sorted = sortPantryItems([
+      makeItem({ name: "rice" }),
+      makeItem({ name: "beans" }),
+      makeItem({ name: "milk", expiresOn: "2026-10-20" }),
+    ]);
+    expect(sorted.map((item) => item.name)).toEqual(["milk", "beans", "rice"]);
+  });
+});
+
+describe("buildPantryIngredientsText", () => {
+  it("lists items with quantities and respects the length limit", () => {
+    const items = [
+      makeItem({ name: "rice", quantity: 2, unit: "cups" }),
+      makeItem({ name: "spinach", expiresOn: "2026-10-19" }),
+    ];
+
+    expect(buildPantryIngredientsText(items, 100)).toBe("spinach, 2 cups rice");
+    expect(buildPantryIngredientsText(items, 10)).toBe("spinach");
+  });
+});
+
+describe("findPantryItemsUsed", () => {
+  it("matches ingredient names in either direction as whole words", () => {
+    const ingredients = [
+      parseIngredientLine("1 cup jasmine rice"),
+      parseIngredientLine("2 chicken breasts"),
+      parseIngredientLine("1 tbsp soy sauce"),
+    ];
+    const items = [
+      makeItem({ name: "rice" }),
+      makeItem({ name: "chicken breast" }),
+      makeItem({ name: "Soy" }),
+      makeItem({ name: "ice" }),
+    ];
+
+    expect(findPantryItemsUsed(ingredients, items).map((item) => item.name)).toEqual([
+      "rice",
+      "chicken breast",
+      "Soy",
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Pantry utilities: expiry checks, ingredient-mode prompt text, and matching
+ * recipe ingredients back to pantry items.
+ *
+ * Expiry dates are ISO dates (YYYY-MM-DD) compared in the user's local time.
+ */
+
+import { PANTRY } from "@/lib/constants/domain";
+import type { PantryItem } from "@/lib/schemas/pantry";
+import type { StructuredIngredient } from "@/lib/schemas/recipe";
+import { formatScaledQuantity } from "@/lib/utils/recipe-servings";
+import { getIngredientMergeKey } from "@/lib/utils/shopping-list";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function startOfLocalDay(date: Date): number {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
+
+/**
+ * Whole days from `today` until the item expires (0 = today, negative = expired).
+ * Returns null for items without an expiry date.
+ */
+export function getDaysUntilExpiry(
+  expiresOn: string | null,
+  today: Date = new Date()
+): number | null {
+  if (!expiresOn) return null;
+
+  const [year, month, day] = expiresOn.split("-").map(Number);
+  const expiry = new Date(year, month - 1, day).getTime();
+  return Math.round((expiry - startOfLocalDay(today)) / MS_PER_DAY);
+}
+
+/**
+ * Items that have not expired yet but will within `withinDays`.
+ */
+export function getExpiringPantryItems(
+  items: readonly PantryItem[],
+  today: Date = new Date(),
+  withinDays: number = PANTRY.EXPIRING_SOON_DAYS
+): PantryItem[] {
+  return sortPantryItems(
+    items.filter((item) => {
+      const days = getDaysUntilExpiry(item.expiresOn, today);
+      return days != null && days >= 0 && days <= withinDays;
+    })
+  );
+}
+
+/**
+ * Soonest expiry first, items without an expiry last, then by name.
+ */
+export function sortPantryItems(items: readonly PantryItem[]): PantryItem[] {
+  return [...items].sort((a, b) => {
+    if (a.expiresOn !== b.expiresOn) {
+      if (!a.expiresOn) return 1;
+      if (!b.expiresOn) return -1;
+      return a.expiresOn.localeCompare(b.expiresOn);
+    }
+    return a.name.localeCompare(b.name);
+  });
+}
+
+/**
+ * Formats an item as "2 cups rice".
+ */
+export function formatPantryItem(item: PantryItem): string {
+  const parts: string[] = [];
+  if (item.quantity != null) parts.push(formatScaledQuantity(item.quantity));
+  if (item.unit) parts.push(item.unit);
+  parts.push(item.name);
+  return parts.join(" ");
+}
+
+/**
+ * Builds the ingredient-mode input from pantry items, soonest expiry first,
+ * stopping before the text would exceed `maxLength`.
+ */
+export function buildPantryIngredientsText(
+  items: readonly PantryItem[],
+  maxLength: number
+): string {
+  let text = "";
+  for (const item of sortPantryItems(items)) {
+    const next = text ? `${text}, ${formatPantryItem(item)}` : formatPantryItem(item);
+    if (next.length > maxLength) break;
+    text = next;
+  }
+  return text;
+}
+
+function containsWords(haystack: string, needle: string): boolean {
+  return ` ${haystack} `.includes(` ${needle} `);
+}
+
+/**
+ * Pantry items a recipe uses. An ingredient matches when its name contains
+ * the pantry item's name as whole words or vice versa ("jasmine rice" uses
+ * "rice"; "chicken" uses "chicken thighs").
+ */
+export function findPantryItemsUsed(
+  ingredients: readonly StructuredIngredient[],
+  items: readonly PantryItem[]
+): PantryItem[] {
+  const ingredientKeys = ingredients.map((ingredient) =>
+    getIngredientMergeKey(ingredient.item)
+  );
+
+  return items.filter((item) => {
+    const itemKey = getIngredientMergeKey(item.name);
+    return ingredientKeys.some(
+      (key) => containsWords(key, itemKey) || containsWords(itemKey, key)
+    );
+  });
+}
@@ -1,65 +1,77 @@
 import { describe, expect, it } from "vitest";
 
-import type { RateLimitBucket } from "@/lib/utils/rate-limit";
-import { consumeRateLimit } from "@/lib/utils/rate-limit";
+import type { RateLimitRule } from "@/lib/utils/rate-limit";
+import {
+  formatQuotaRemaining,
+  getRateLimitWindow,
+  getWeightedRequestCount,
+  toRateLimitStatus,
+} from "@/lib/utils/rate-limit";
 
-const config = {
+const sliding: RateLimitRule = {
+  id: "burst",
+  window: "sliding",
   maxRequests: 2,
   windowMs: 1000,
 };
+const daily: RateLimitRule = { id: "daily", window: "day", maxRequests: 20 };
+const monthly: RateLimitRule = { id: "monthly", window: "month", maxRequests: 300 };
 
-describe("consumeRateLimit", () => {
-  it("allows requests until the configured limit is reached", () => {
-    const buckets = new Map<string, RateLimitBucket>();
-
-    expect(consumeRateLimit(buckets, "user-1", config, 0)).toMatchObject({
-      allowed: true,
-      remaining: 1,
-      resetAt: 1000,
-    });
-    expect(consumeRateLimit(buckets, "user-1", config, 100)).toMatchObject({
-      allowed: true,
-      remaining: 0,
-      resetAt: 1000,
+describe("getRateLimitWindow", () => {
+  it("aligns sliding windows to multiples of the window length", () => {
+    expect(getRateLimitWindow(sliding, 2500)).toEqual({
+      start: 2000,
+      end: 3000,
+      previousStart: 1000,
     });
   });
 
-  it("blocks requests beyond the configured limit", () => {
-    const buckets = new Map<string, RateLimitBucket>();
-
-    consumeRateLimit(buckets, "user-1", config, 0);
-    consumeRateLimit(buckets, "user-1", config, 100);
+  it("uses UTC calendar days and months", () => {
+    const now = Date.UTC(2026, 1, 28, 15, 30);
 
-    expect(consumeRateLimit(buckets, "user-1", config, 200)).toMatchObject({
-      allowed: false,
-      remaining: 0,
-      resetAt: 1000,
+    expect(getRateLimitWindow(daily, now)).toEqual({
+      start: Date.UTC(2026, 1, 28),
+      end: Date.UTC(2026, 2, 1),
+      previousStart: null,
+    });
+    expect(getRateLimitWindow(monthly, now)).toEqual({
+      start: Date.UTC(2026, 1, 1),
+      end: Date.UTC(2026, 2, 1),
+      previousStart: null,
     });
   });
+});
 
-  it("resets after the window expires", () => {
-    const buckets = new Map<string, RateLimitBucket>();
+describe("getWeightedRequestCount", () => {
+  it("weights the previous sliding window by its remaining overlap", () => {
+    expect(getWeightedRequestCount(sliding, 1, 2, 2250)).toBe(2.5);
+    expect(getWeightedRequestCount(sliding, 1, 2, 2999)).toBeCloseTo(1.002);
+  });
 
-    consumeRateLimit(buckets, "user-1", config, 0);
-    consumeRateLimit(buckets, "user-1", config, 100);
+  it("ignores the previous window for calendar quotas", () => {
+    expect(getWeightedRequestCount(daily, 4, 10, 0)).toBe(4);
+  });
+});
 
-    expect(consumeRateLimit(buckets, "user-1", config, 1000)).toMatchObject({
-      allowed: true,
-      remaining: 1,
-      resetAt: 2000,
+describe("toRateLimitStatus", () => {
+  it("rounds partial usage up and never reports negative remaining", () => {
+    expect(toRateLimitStatus(sliding, 1.4, 2250)).toEqual({
+      ruleId: "burst",
+      limit: 2,
+      used: 2,
+      remaining: 0,
+      resetAt: 3000,
     });
   });
+});
 
-  it("tracks keys independently", () => {
-    const buckets = new Map<string, RateLimitBucket>();
-
-    consumeRateLimit(buckets, "user-1", config, 0);
-    consumeRateLimit(buckets, "user-1", config, 100);
-
-    expect(consumeRateLimit(buckets, "user-2", config, 200)).toMatchObject({
-      allowed: true,
-      remaining: 1,
-      resetAt: 1200,
-    });
+describe("formatQuotaRemaining", () => {
+  it("describes the remaining daily or monthly quota", () => {
+    expect(
+      formatQuotaRemaining({ period: "day", limit: 20, remaining: 3, resetAt: 0 })
+    ).toBe("3 of 20 generations left today");
+    expect(
+      formatQuotaRemaining({ period: "month", limit: 1, remaining: 0, resetAt: 0 })
+    ).toBe("0 of 1 generation left this month");
   });
 });
@@ -1,60 +1,130 @@
-export interface RateLimitConfig {
-  maxRequests: number;
-  windowMs: number;
+/**
+ * Pure rate-limit window math shared by every rate-limit store.
+ *
+ * Window types:
+ * - sliding: sliding-window counter (current fixed window plus a weighted share
+ *   of the previous one), smooth bursts without storing every timestamp
+ * - day / month: calendar quotas in UTC that reset at midnight / on the 1st
+ */
+
+export type RateLimitRule =
+  | {
+      /** Stable id used in storage keys (e.g. "burst"). */
+      id: string;
+      window: "sliding";
+      maxRequests: number;
+      windowMs: number;
+    }
+  | {
+      id: string;
+      window: "day" | "month";
+      maxRequests: number;
+    };
+
+export interface RateLimitWindowBounds {
+  start: number;
+  end: number;
+  /** Start of the previous window (sliding windows only). */
+  previousStart: number | null;
 }
 
-export interface RateLimitBucket {
-  count: number;
-  windowStart: number;
+export interface RateLimitStatus {
+  ruleId: string;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: number;
 }
 
-export interface RateLimitResult {
-  allowed: boolean;
+/** Remaining calendar quota shown to users (e.g. on /generate). */
+export interface QuotaStatus {
+  period: "day" | "month";
+  limit: number;
   remaining: number;
   resetAt: number;
 }
 
 /**
- * In-memory fixed-window rate limiter for dependency-light server guards.
+ * Returns the fixed window containing `now` for a rule.
  */
-export function consumeRateLimit(
-  buckets: Map<string, RateLimitBucket>,
-  key: string,
-  config: RateLimitConfig,
-  now: number = Date.now()
-): RateLimitResult {
-  const existing = buckets.get(key);
-  const shouldReset =
-    !existing || now - existing.windowStart >= config.windowMs;
-
-  if (shouldReset) {
-    buckets.set(key, {
-      count: 1,
-      windowStart: now,
-    });
-
+export function getRateLimitWindow(
+  rule: RateLimitRule,
+  now: number
+): RateLimitWindowBounds {
+  if (rule.window === "sliding") {
+    const start = Math.floor(now / rule.windowMs) * rule.windowMs;
     return {
-      allowed: true,
-      remaining: Math.max(0, config.maxRequests - 1),
-      resetAt: now + config.windowMs,
+      start,
+      end: start + rule.windowMs,
+      previousStart: start - rule.windowMs,
     };
   }
 
-  const resetAt = existing.windowStart + config.windowMs;
-
-  if (existing.count >= config.maxRequests) {
+  const date = new Date(now);
+  if (rule.window === "day") {
+    const start = Date.UTC(
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate()
+    );
     return {
-      allowed: false,
-      remaining: 0,
-      resetAt,
+      start,
+      end: Date.UTC(
+        date.getUTCFullYear(),
+        date.getUTCMonth(),
+        date.getUTCDate() + 1
+      ),
+      previousStart: null,
     };
   }
 
-  existing.count += 1;
+  return {
+    start: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1),
+    end: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1),
+    previousStart: null,
+  };
+}
 
+/**
+ * Requests counted against a rule: the current window count plus, for sliding
+ * windows, the share of the previous window that still overlaps `now - windowMs`.
+ */
+export function getWeightedRequestCount(
+  rule: RateLimitRule,
+  currentCount: number,
+  previousCount: number,
+  now: number
+): number {
+  if (rule.window !== "sliding") return currentCount;
+
+  const { start } = getRateLimitWindow(rule, now);
+  const previousWeight = 1 - (now - start) / rule.windowMs;
+  return currentCount + previousCount * previousWeight;
+}
+
+/**
+ * Builds the status for a rule from its weighted usage.
+ */
+export function toRateLimitStatus(
+  rule: RateLimitRule,
+  used: number,
+  now: number
+): RateLimitStatus {
+  const roundedUsed = Math.ceil(used);
   return {
-    allowed: true,
-    remaining: Math.max(0, config.maxRequests - existing.count),
-    resetAt,
+    ruleId: rule.id,
+    limit: rule.maxRequests,
+    used: roundedUsed,
+    remaining: Math.max(0, rule.maxRequests - roundedUsed),
+    resetAt: getRateLimitWindow(rule, now).end,
   };
 }
+
+/**
+ * Formats a quota for display, e.g. "3 of 20 generations left today".
+ */
+export function formatQuotaRemaining(quota: QuotaStatus): string {
+  const noun = quota.limit === 1 ? "generation" : "generations";
+  const period = quota.period === "day" ? "today" : "this month";
+  return `${quota.remaining} of ${quota.limit} ${noun} left ${period}`;
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+
+import type { Recipe } from "@/lib/schemas/recipe";
+import { parseIngredientLine } from "@/lib/utils/ingredients";
+import {
+  applyBulkLabelChange,
+  buildCombinedIngredientsText,
+  buildRecipesJsonExport,
+  buildRecipesMarkdownExport,
+  chunkItems,
+  getBulkExportFileName,
+} from "@/lib/utils/recipe-bulk";
+
+function makeRecipe(title: string, lines: string[]): Recipe {
+  return {
+    id: title.toLowerCase(),
+    userId: "user-id",
+    title,
+    content: `# ${title}\n`,
+    createdAt: { seconds: 1_700_000_000, nanoseconds: 0 } as Recipe["createdAt"],
+    preparationTime: "10 mins",
+    cookingTime: "20 mins",
+    servings: 4,
+    difficulty: "Easy",
+    ingredients: lines.map(parseIngredientLine),
+    instructions: ["Cook."],
+  };
+}
+
+describe("chunkItems", () => {
+  it("splits items into chunks of at most the given size", () => {
+    expect(chunkItems([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunkItems([], 2)).toEqual([]);
+  });
+});
+
+describe("applyBulkLabelChange", () => {
+  it("adds a trimmed label unless it is already present in any case", () => {
+    expect(
+      applyBulkLabelChange(["Dinner"], { field: "tags", label: " quick ", action: "add" })
+    ).toEqual(["Dinner", "quick"]);
+    expect(
+      applyBulkLabelChange(["Dinner"], { field: "tags", label: "dinner", action: "add" })
+    ).toBeNull();
+    expect(
+      applyBulkLabelChange(undefined, { field: "collections", label: "Holidays", action: "add" })
+    ).toEqual(["Holidays"]);
+  });
+
+  it("removes a label case-insensitively and reports no-ops as null", () => {
+    expect(
+      applyBulkLabelChange(["Dinner", "Quick"], { field: "tags", label: "quick", action: "remove" })
+    ).toEqual(["Dinner"]);
+    expect(
+      applyBulkLabelChange(["Dinner"], { field: "tags", label: "quick", action: "remove" })
+    ).toBeNull();
+    expect(applyBulkLabelChange(["Dinner"], { field: "tags", label: "  ", action: "add" })).toBeNull();
+  });
+});
+
+describe("bulk exports", () => {
+  const recipes = [makeRecipe("Soup", ["1 onion"]), makeRecipe("Stew", ["2 carrots"])];
+  const exportedAt = new Date("2026-10-18T12:00:00.000Z");
+
+  it("joins recipes into one markdown document", () => {
+    expect(buildRecipesMarkdownExport(recipes)).toBe("# Soup\n\n---\n\n# Stew\n");
+  });
+
+  it("serializes recipes as JSON with ISO timestamps", () => {
+    const parsed = JSON.parse(buildRecipesJsonExport(recipes, exportedAt));
+    expect(parsed.exportedAt).toBe("2026-10-18T12:00:00.000Z");
+    expect(parsed.recipes.map((recipe: Recipe) => recipe.title)).toEqual(["Soup", "Stew"]);
+    expect(parsed.recipes[0].createdAt).toBe("2023-11-14T22:13:20.000Z");
+  });
+
+  it("names export files by format and date", () => {
+    expect(getBulkExportFileName("markdown", exportedAt)).toBe("bakeme-recipes-2026-10-18.md");
+    expect(getBulkExportFileName("json", exportedAt)).toBe("bakeme-recipes-2026-10-18.json");
+  });
+});
+
+describe("buildCombinedIngredientsText", () => {
+  it("merges ingredients across recipes like a shopping list", () => {
+    const text = buildCombinedIngredientsText([
+      makeRecipe("Soup", ["1 onion", "2 cups water"]),
+      makeRecipe("Stew", ["2 onions"]),
+    ]);
+
+    expect(text).toContain("Soup");
+    expect(text).toContain("Stew");
+    expect(text.match(/onion/gi)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Pure helpers for bulk actions on selected saved recipes: label changes,
+ * exports, and combined ingredients.
+ */
+
+import type { Recipe } from "@/lib/schemas/recipe";
+import { serializeRecipeForExport } from "@/lib/utils/account-export";
+import {
+  buildShoppingListItems,
+  buildShoppingListTitle,
+  formatShoppingListAsText,
+} from "@/lib/utils/shopping-list";
+
+export interface BulkLabelChange {
+  field: "tags" | "collections";
+  label: string;
+  action: "add" | "remove";
+}
+
+export type BulkExportFormat = "markdown" | "json";
+
+/**
+ * Splits items into consecutive chunks of at most `size`.
+ */
+export function chunkItems<T>(items: readonly T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    chunks.push(items.slice(start, start + size));
+  }
+  return chunks;
+}
+
+/**
+ * Applies a bulk add or remove to one recipe's labels, matching labels
+ * case-insensitively like the rest of the library.
+ * @returns The new labels, or null when the recipe is unchanged
+ */
+export function applyBulkLabelChange(
+  labels: readonly string[] | undefined,
+  { label, action }: BulkLabelChange
+): string[] | null {
+  const current = labels ?? [];
+  const key = label.trim().replace(/\s+/g, " ").toLowerCase();
+  if (!key) return null;
+
+  const hasLabel = current.some((existing) => existing.toLowerCase() === key);
+  if (action === "add") {
+    return hasLabel ? null : [...current, label.trim()];
+  }
+  return hasLabel ? current.filter((existing) => existing.toLowerCase() !== key) : null;
+}
+
+/**
+ * One markdown document with every recipe, separated by horizontal rules.
+ */
+export function buildRecipesMarkdownExport(recipes: readonly Recipe[]): string {
+  return `${recipes.map((recipe) => recipe.content.trim()).join("\n\n---\n\n")}\n`;
+}
+
+/**
+ * JSON export of the recipes with ISO timestamps, as in the account export.
+ */
+export function buildRecipesJsonExport(recipes: readonly Recipe[], exportedAt: Date): string {
+  return JSON.stringify(
+    { exportedAt: exportedAt.toISOString(), recipes: recipes.map(serializeRecipeForExport) },
+    null,
+    2
+  );
+}
+
+/**
+ * File name for a bulk export, e.g. "bakeme-recipes-2026-10-18.md".
+ */
+export function getBulkExportFileName(format: BulkExportFormat, exportedAt: Date): string {
+  const extension = format === "markdown" ? "md" : "json";
+  return `bakeme-recipes-${exportedAt.toISOString().slice(0, 10)}.${extension}`;
+}
+
+/**
+ * Every ingredient across the recipes, merged and grouped by aisle like a
+ * shopping list, as plain text.
+ */
+export function buildCombinedIngredientsText(recipes: readonly Recipe[]): string {
+  return formatShoppingListAsText(
+    buildShoppingListTitle(recipes.map((recipe) => recipe.title)),
+    buildShoppingListItems(recipes.map((recipe) => ({ recipe })))
+  );
+}
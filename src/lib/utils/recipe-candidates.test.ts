@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+
+import type { StructuredIngredient } from "@/lib/schemas/recipe";
+import { getKeyIngredients, summarizeRecipeCandidate } from "@/lib/utils/recipe-candidates";
+
+function ingredient(item: string, optional = false): StructuredIngredient {
+  return { quantity: 1, unit: null, item, preparation: null, optional, group: null };
+}
+
+describe("getKeyIngredients", () => {
+  it("skips staples and optional ingredients and caps the list", () => {
+    const ingredients = [
+      ingredient("chicken thighs"),
+      ingredient("olive oil"),
+      ingredient("Kosher salt"),
+      ingredient("lemon"),
+      ingredient("parsley", true),
+      ingredient("garlic"),
+      ingredient("black pepper"),
+      ingredient("bell pepper"),
+    ];
+
+    expect(getKeyIngredients(ingredients, 3)).toEqual(["chicken thighs", "lemon", "garlic"]);
+    expect(getKeyIngredients(ingredients)).toEqual([
+      "chicken thighs",
+      "lemon",
+      "garlic",
+      "bell pepper",
+    ]);
+  });
+});
+
+describe("summarizeRecipeCandidate", () => {
+  it("totals the time and falls back to calculated calories", () => {
+    expect(
+      summarizeRecipeCandidate({
+        title: " Shakshuka ",
+        preparationTime: "10 mins",
+        cookingTime: "25 mins",
+        difficulty: "Easy",
+        servings: 2,
+        calories: null,
+        ingredients: [{ ...ingredient("eggs"), quantity: 4 }],
+      })
+    ).toEqual({
+      title: "Shakshuka",
+      totalTime: "35 mins",
+      difficulty: "Easy",
+      calories: 143,
+      keyIngredients: ["eggs"],
+    });
+  });
+
+  it("handles a candidate that has not streamed anything yet", () => {
+    expect(summarizeRecipeCandidate({})).toEqual({
+      title: null,
+      totalTime: null,
+      difficulty: null,
+      calories: null,
+      keyIngredients: [],
+    });
+  });
+});
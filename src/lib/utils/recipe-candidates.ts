@@ -0,0 +1,54 @@
+/**
+ * Summaries for comparing candidate recipes generated side by side.
+ */
+
+import { RECIPE_CANDIDATES } from "@/lib/constants/domain";
+import type { RecipeStructure, StructuredIngredient } from "@/lib/schemas/recipe";
+import { formatDurationText, getTotalTimeMinutes } from "./duration";
+import { calculateRecipeNutrition } from "./nutrition-calculator";
+
+export interface RecipeCandidateSummary {
+  title: string | null;
+  /** Prep plus cook time, e.g. "1 hr 5 mins". */
+  totalTime: string | null;
+  difficulty: string | null;
+  /** Calories per serving; calculated from the ingredients when the model gave none. */
+  calories: number | null;
+  keyIngredients: string[];
+}
+
+/** Seasonings and cooking basics that say nothing about how a dish differs. */
+const STAPLE_INGREDIENT_PATTERN =
+  /^(?:(?:kosher |sea |table |fine )?salt|(?:freshly )?(?:ground )?(?:black )?pepper|salt and (?:black )?pepper|water|ice|(?:olive|vegetable|canola|neutral|cooking) oil|oil|cooking spray)$/i;
+
+/**
+ * Picks the ingredients that characterise a recipe: required ones in listed
+ * order, skipping salt, pepper, water, and cooking oil.
+ */
+export function getKeyIngredients(
+  ingredients: readonly StructuredIngredient[],
+  limit: number = RECIPE_CANDIDATES.KEY_INGREDIENT_COUNT
+): string[] {
+  return ingredients
+    .filter(
+      (ingredient) =>
+        !ingredient.optional && !STAPLE_INGREDIENT_PATTERN.test(ingredient.item.trim())
+    )
+    .map((ingredient) => ingredient.item.trim())
+    .slice(0, limit);
+}
+
+/**
+ * Summarises a (possibly still streaming) candidate for its comparison card.
+ */
+export function summarizeRecipeCandidate(recipe: RecipeStructure): RecipeCandidateSummary {
+  const totalMinutes = getTotalTimeMinutes(recipe);
+
+  return {
+    title: recipe.title?.trim() || null,
+    totalTime: totalMinutes == null ? null : formatDurationText(totalMinutes),
+    difficulty: recipe.difficulty ?? null,
+    calories: recipe.calories ?? calculateRecipeNutrition(recipe)?.calories ?? null,
+    keyIngredients: getKeyIngredients(recipe.ingredients ?? []),
+  };
+}
@@ -53,6 +53,7 @@ function formatMacrosSection(nutrition: NutritionSummary): string {
   if (hasText(nutrition.protein)) lines.push(`- Protein: ${nutrition.protein}`);
   if (hasText(nutrition.carbs)) lines.push(`- Carbs: ${nutrition.carbs}`);
   if (hasText(nutrition.fat)) lines.push(`- Fat: ${nutrition.fat}`);
+  if (hasText(nutrition.sodium)) lines.push(`- Sodium: ${nutrition.sodium}`);
 
   if (lines.length === 0) return "";
   return `## Nutrition\n${lines.join("\n")}`;
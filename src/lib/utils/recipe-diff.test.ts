@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+
+import type { RecipeSnapshot } from "@/lib/schemas/recipe-version";
+import { parseIngredientLine } from "@/lib/utils/ingredients";
+import { diffLines, diffRecipeSnapshots } from "@/lib/utils/recipe-diff";
+
+function makeSnapshot(overrides: Partial<RecipeSnapshot> = {}): RecipeSnapshot {
+  return {
+    title: "Pancakes",
+    content: "# Pancakes",
+    ingredients: [parseIngredientLine("1 cup flour"), parseIngredientLine("1 egg")],
+    instructions: ["Mix.", "Cook."],
+    tips: [],
+    preparationTime: "5 mins",
+    cookingTime: "10 mins",
+    servings: 2,
+    difficulty: "Easy",
+    cuisine: null,
+    ...overrides,
+  };
+}
+
+describe("diffLines", () => {
+  it("marks added, removed, and unchanged lines", () => {
+    expect(diffLines(["a", "b", "c"], ["a", "x", "c", "d"])).toEqual([
+      { type: "unchanged", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "added", text: "x" },
+      { type: "unchanged", text: "c" },
+      { type: "added", text: "d" },
+    ]);
+  });
+});
+
+describe("diffRecipeSnapshots", () => {
+  it("returns only the fields that changed", () => {
+    const diffs = diffRecipeSnapshots(
+      makeSnapshot(),
+      makeSnapshot({
+        cuisine: "American",
+        ingredients: [parseIngredientLine("1 cup flour"), parseIngredientLine("2 eggs")],
+      })
+    );
+
+    expect(diffs.map((diff) => diff.label)).toEqual(["Cuisine", "Ingredients"]);
+    expect(diffs[1].changes).toEqual([
+      { type: "unchanged", text: "1 cup flour" },
+      { type: "removed", text: "1 egg" },
+      { type: "added", text: "2 eggs" },
+    ]);
+  });
+
+  it("is empty for identical snapshots", () => {
+    expect(diffRecipeSnapshots(makeSnapshot(), makeSnapshot())).toEqual([]);
+  });
+});
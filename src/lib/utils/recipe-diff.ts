@@ -0,0 +1,90 @@
+/**
+ * Line-level diffs between saved recipe versions.
+ */
+
+import type { RecipeSnapshot } from "@/lib/schemas/recipe-version";
+import { formatIngredientsForEditing, splitEditedLines } from "@/lib/utils/recipe-edit";
+
+export interface LineChange {
+  type: "unchanged" | "added" | "removed";
+  text: string;
+}
+
+export interface RecipeFieldDiff {
+  label: string;
+  changes: LineChange[];
+}
+
+/**
+ * Longest-common-subsequence diff of two line lists.
+ * Removed lines are listed before added lines at each change.
+ */
+export function diffLines(
+  before: readonly string[],
+  after: readonly string[]
+): LineChange[] {
+  // lengths[i][j] = LCS length of before[i:] and after[j:]
+  const lengths = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        before[i] === after[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const changes: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      changes.push({ type: "unchanged", text: before[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      changes.push({ type: "removed", text: before[i++] });
+    } else {
+      changes.push({ type: "added", text: after[j++] });
+    }
+  }
+  while (i < before.length) changes.push({ type: "removed", text: before[i++] });
+  while (j < after.length) changes.push({ type: "added", text: after[j++] });
+
+  return changes;
+}
+
+function toLines(value: string | null): string[] {
+  return value ? [value] : [];
+}
+
+/**
+ * Diffs each editable field, returning only fields that changed.
+ */
+export function diffRecipeSnapshots(
+  before: RecipeSnapshot,
+  after: RecipeSnapshot
+): RecipeFieldDiff[] {
+  const fields: Array<[string, string[], string[]]> = [
+    ["Title", [before.title], [after.title]],
+    ["Preparation time", toLines(before.preparationTime), toLines(after.preparationTime)],
+    ["Cooking time", toLines(before.cookingTime), toLines(after.cookingTime)],
+    ["Cuisine", toLines(before.cuisine), toLines(after.cuisine)],
+    [
+      "Ingredients",
+      splitEditedLines(formatIngredientsForEditing(before.ingredients)),
+      splitEditedLines(formatIngredientsForEditing(after.ingredients)),
+    ],
+    ["Instructions", before.instructions, after.instructions],
+    ["Tips", before.tips, after.tips],
+  ];
+
+  return fields.flatMap(([label, beforeLines, afterLines]) => {
+    const changes = diffLines(beforeLines, afterLines);
+    return changes.some((change) => change.type !== "unchanged")
+      ? [{ label, changes }]
+      : [];
+  });
+}
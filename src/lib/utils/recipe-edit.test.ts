@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+
+import type { Recipe } from "@/lib/schemas/recipe";
+import { completeRecipeStructureSchema } from "@/lib/schemas/recipe";
+import { parseIngredientLine } from "@/lib/utils/ingredients";
+import {
+  applyRecipeEditDraft,
+  applyRecipeSnapshot,
+  canEditRecipe,
+  createRecipeEditDraft,
+  formatIngredientsForEditing,
+  getRecipeSnapshot,
+  parseEditedIngredients,
+} from "@/lib/utils/recipe-edit";
+
+function makeRecipe(overrides: Partial<Recipe> = {}): Recipe {
+  return {
+    id: "recipe-id",
+    userId: "user-id",
+    title: "Noodle Bowl",
+    content: "# Noodle Bowl",
+    createdAt: { seconds: 1, nanoseconds: 0 } as Recipe["createdAt"],
+    preparationTime: "10 mins",
+    cookingTime: "15 mins",
+    servings: 2,
+    difficulty: "Easy",
+    ingredients: [
+      parseIngredientLine("200 g noodles"),
+      { ...parseIngredientLine("2 tbsp soy sauce"), group: "Sauce" },
+    ],
+    instructions: ["Boil noodles.", "Toss with sauce."],
+    calories: 480,
+    ...overrides,
+  };
+}
+
+describe("ingredient editing text", () => {
+  it("round-trips groups as heading lines", () => {
+    const { ingredients } = makeRecipe();
+    const text = formatIngredientsForEditing(ingredients ?? []);
+
+    expect(text).toBe("200 g noodles\nSauce:\n2 tbsp soy sauce");
+    expect(parseEditedIngredients(text)).toEqual(ingredients);
+  });
+});
+
+describe("applyRecipeEditDraft", () => {
+  it("produces a complete structure that keeps servings and nutrition", () => {
+    const recipe = makeRecipe();
+    const draft = {
+      ...createRecipeEditDraft(recipe),
+      title: "  Spicy Noodle Bowl ",
+      cuisine: "Japanese",
+      instructions: "Boil noodles.\n\nAdd chili oil.\n",
+      tips: "",
+    };
+
+    const { structure, cuisine } = applyRecipeEditDraft(recipe, draft);
+
+    expect(cuisine).toBe("Japanese");
+    expect(structure).toMatchObject({
+      title: "Spicy Noodle Bowl",
+      servings: 2,
+      difficulty: "Easy",
+      calories: 480,
+      instructions: ["Boil noodles.", "Add chili oil."],
+      tips: undefined,
+    });
+    expect(completeRecipeStructureSchema.safeParse(structure).success).toBe(true);
+  });
+
+  it("fails validation when required lists are emptied", () => {
+    const recipe = makeRecipe();
+    const { structure } = applyRecipeEditDraft(recipe, {
+      ...createRecipeEditDraft(recipe),
+      ingredients: "",
+    });
+
+    expect(completeRecipeStructureSchema.safeParse(structure).success).toBe(false);
+  });
+});
+
+describe("canEditRecipe / getRecipeSnapshot", () => {
+  it("rejects legacy recipes and snapshots missing fields as null", () => {
+    const legacy = makeRecipe({ difficulty: undefined, servings: undefined });
+
+    expect(canEditRecipe(makeRecipe())).toBe(true);
+    expect(canEditRecipe(legacy)).toBe(false);
+    expect(getRecipeSnapshot(legacy)).toMatchObject({
+      servings: null,
+      difficulty: null,
+      cuisine: null,
+      tips: [],
+    });
+  });
+});
+
+describe("applyRecipeSnapshot", () => {
+  it("round-trips a snapshot and drops null fields", () => {
+    const recipe = makeRecipe({ cuisine: "Thai" });
+    const snapshot = { ...getRecipeSnapshot(recipe), title: "Old Bowl", cuisine: null };
+    const restored = applyRecipeSnapshot(recipe, snapshot);
+
+    expect(restored).toMatchObject({ id: "recipe-id", title: "Old Bowl", servings: 2 });
+    expect(restored.cuisine).toBeUndefined();
+    expect(getRecipeSnapshot(restored)).toEqual(snapshot);
+  });
+});
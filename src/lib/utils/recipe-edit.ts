@@ -0,0 +1,158 @@
+/**
+ * Saved recipe editing helpers.
+ *
+ * Ingredients, instructions, and tips are edited as one entry per line.
+ * Ingredient group headings are lines ending in ":" (e.g. "For the sauce:").
+ */
+
+import type {
+  Recipe,
+  RecipeStructure,
+  StructuredIngredient,
+} from "@/lib/schemas/recipe";
+import type { RecipeSnapshot } from "@/lib/schemas/recipe-version";
+import { formatIngredientLine, groupIngredients, parseIngredientLine } from "@/lib/utils/ingredients";
+import { getCompleteStructureFromSavedRecipe } from "@/lib/utils/saved-recipe";
+
+/** Form state for editing a saved recipe. */
+export interface RecipeEditDraft {
+  title: string;
+  preparationTime: string;
+  cookingTime: string;
+  cuisine: string;
+  ingredients: string;
+  instructions: string;
+  tips: string;
+}
+
+const GROUP_HEADING_PATTERN = /^(.+):$/;
+
+/**
+ * Splits multi-line text into trimmed, non-empty lines.
+ */
+export function splitEditedLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Formats ingredients one per line, with "Group:" headings for grouped items.
+ */
+export function formatIngredientsForEditing(
+  ingredients: readonly StructuredIngredient[]
+): string {
+  return groupIngredients([...ingredients])
+    .flatMap(({ group, ingredients: groupItems }) => [
+      ...(group ? [`${group}:`] : []),
+      ...groupItems.map(formatIngredientLine),
+    ])
+    .join("\n");
+}
+
+/**
+ * Parses edited ingredient lines; "Group:" headings apply to the lines below.
+ */
+export function parseEditedIngredients(text: string): StructuredIngredient[] {
+  let group: string | null = null;
+  const ingredients: StructuredIngredient[] = [];
+
+  for (const line of splitEditedLines(text)) {
+    const heading = line.match(GROUP_HEADING_PATTERN);
+    if (heading) {
+      group = heading[1].trim();
+      continue;
+    }
+    ingredients.push({ ...parseIngredientLine(line), group });
+  }
+
+  return ingredients;
+}
+
+/**
+ * Saved recipes can be edited once they have complete structured fields;
+ * legacy markdown-only recipes cannot.
+ */
+export function canEditRecipe(recipe: Recipe): boolean {
+  return getCompleteStructureFromSavedRecipe(recipe) != null;
+}
+
+/**
+ * Captures the editable fields of a saved recipe for version history.
+ */
+export function getRecipeSnapshot(recipe: Recipe): RecipeSnapshot {
+  return {
+    title: recipe.title,
+    content: recipe.content,
+    ingredients: recipe.ingredients ?? [],
+    instructions: recipe.instructions ?? [],
+    tips: recipe.tips ?? [],
+    preparationTime: recipe.preparationTime ?? null,
+    cookingTime: recipe.cookingTime ?? null,
+    servings: recipe.servings ?? null,
+    difficulty: recipe.difficulty ?? null,
+    cuisine: recipe.cuisine ?? null,
+  };
+}
+
+export function createRecipeEditDraft(recipe: Recipe): RecipeEditDraft {
+  return {
+    title: recipe.title,
+    preparationTime: recipe.preparationTime ?? "",
+    cookingTime: recipe.cookingTime ?? "",
+    cuisine: recipe.cuisine ?? "",
+    ingredients: formatIngredientsForEditing(recipe.ingredients ?? []),
+    instructions: (recipe.instructions ?? []).join("\n"),
+    tips: (recipe.tips ?? []).join("\n"),
+  };
+}
+
+/**
+ * Applies a draft to the recipe's structured data. The result is not yet
+ * validated; callers check it with completeRecipeStructureSchema.
+ * Servings, difficulty, and nutrition are kept as saved.
+ */
+export function applyRecipeEditDraft(
+  recipe: Recipe,
+  draft: RecipeEditDraft
+): { structure: RecipeStructure; cuisine: string | null } {
+  const saved = getCompleteStructureFromSavedRecipe(recipe);
+  const tips = splitEditedLines(draft.tips);
+
+  return {
+    structure: {
+      ...saved,
+      title: draft.title.trim(),
+      preparationTime: draft.preparationTime.trim(),
+      cookingTime: draft.cookingTime.trim(),
+      ingredients: parseEditedIngredients(draft.ingredients),
+      instructions: splitEditedLines(draft.instructions),
+      tips: tips.length > 0 ? tips : undefined,
+    },
+    cuisine: draft.cuisine.trim() || null,
+  };
+}
+
+/**
+ * Applies a snapshot to a saved recipe for local state after an edit or
+ * restore. Null snapshot fields become undefined, matching recipeSchema.
+ */
+export function applyRecipeSnapshot(
+  recipe: Recipe,
+  snapshot: RecipeSnapshot
+): Recipe {
+  return {
+    ...recipe,
+    title: snapshot.title,
+    content: snapshot.content,
+    ingredients: snapshot.ingredients,
+    instructions: snapshot.instructions,
+    tips: snapshot.tips,
+    preparationTime: snapshot.preparationTime ?? undefined,
+    cookingTime: snapshot.cookingTime ?? undefined,
+    servings: snapshot.servings ?? undefined,
+    difficulty: snapshot.difficulty ?? undefined,
+    cuisine: snapshot.cuisine ?? undefined,
+  };
+}
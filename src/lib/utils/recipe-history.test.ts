@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 
 import type { RecipeStructure } from "@/lib/schemas/recipe";
+import { parseIngredientLine } from "@/lib/utils/ingredients";
 import { addRecipeToGenerationHistory } from "@/lib/utils/recipe-history";
 
 function makeRecipe(title: string): RecipeStructure {
@@ -10,7 +11,7 @@ function makeRecipe(title: string): RecipeStructure {
     cookingTime: "20 mins",
     servings: 2,
     difficulty: "Easy",
-    ingredients: [`1 cup ${title}`],
+    ingredients: [parseIngredientLine(`1 cup ${title}`)],
     instructions: [`Cook ${title}.`],
   };
 }
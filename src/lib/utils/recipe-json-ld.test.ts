@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+
+import type { CompleteRecipeStructure } from "@/lib/schemas/recipe";
+import { parseIngredientLine } from "@/lib/utils/ingredients";
+import { buildRecipeJsonLd, parseRecipeJsonLd } from "@/lib/utils/recipe-json-ld";
+
+const recipe: CompleteRecipeStructure = {
+  title: "Lemon Pasta",
+  preparationTime: "10 mins",
+  cookingTime: "1 hr 5 mins",
+  servings: 4,
+  difficulty: "Moderate",
+  ingredients: [parseIngredientLine("200 g spaghetti"), parseIngredientLine("1 lemon")],
+  instructions: ["Boil pasta.", "Toss with lemon."],
+  tips: ["Save some pasta water."],
+  calories: 520,
+  macros: { protein: "18g", carbs: "80g", fat: "12g" },
+};
+
+describe("buildRecipeJsonLd", () => {
+  it("maps fields to schema.org Recipe properties", () => {
+    expect(buildRecipeJsonLd(recipe, { cuisine: "Italian" })).toEqual({
+      "@context": "https://schema.org",
+      "@type": "Recipe",
+      name: "Lemon Pasta",
+      recipeCuisine: "Italian",
+      recipeYield: "4 servings",
+      prepTime: "PT10M",
+      cookTime: "PT1H5M",
+      totalTime: "PT1H15M",
+      recipeIngredient: ["200 g spaghetti", "1 lemon"],
+      recipeInstructions: [
+        { "@type": "HowToStep", text: "Boil pasta." },
+        { "@type": "HowToStep", text: "Toss with lemon." },
+        { "@type": "HowToTip", text: "Save some pasta water." },
+      ],
+      nutrition: {
+        "@type": "NutritionInformation",
+        calories: "520 calories",
+        proteinContent: "18g",
+        carbohydrateContent: "80g",
+        fatContent: "12g",
+      },
+    });
+  });
+});
+
+describe("parseRecipeJsonLd", () => {
+  it("round-trips an exported recipe", () => {
+    const text = JSON.stringify(buildRecipeJsonLd(recipe, { cuisine: "Italian" }));
+
+    expect(parseRecipeJsonLd(text)).toEqual({
+      success: true,
+      recipe,
+      cuisine: "Italian",
+    });
+  });
+
+  it("finds recipes in @graph and reads sections and plain strings", () => {
+    const result = parseRecipeJsonLd(
+      JSON.stringify({
+        "@context": "https://schema.org",
+        "@graph": [
+          { "@type": "WebPage", name: "Blog" },
+          {
+            "@type": ["Recipe"],
+            name: "Toast",
+            recipeYield: ["2", "2 slices"],
+            recipeIngredient: "2 slices bread",
+            recipeInstructions: [
+              {
+                "@type": "HowToSection",
+                name: "Cook",
+                itemListElement: [{ "@type": "HowToStep", text: "<p>Toast bread.</p>" }],
+              },
+              "Serve warm.",
+            ],
+          },
+        ],
+      })
+    );
+
+    expect(result).toMatchObject({
+      success: true,
+      recipe: {
+        title: "Toast",
+        servings: 2,
+        preparationTime: "",
+        instructions: ["Toast bread.", "Serve warm."],
+      },
+      cuisine: null,
+    });
+  });
+
+  it("reports every problem in malformed input", () => {
+    expect(parseRecipeJsonLd("{not json")).toEqual({
+      success: false,
+      errors: ["The file is not valid JSON."],
+    });
+    expect(parseRecipeJsonLd(JSON.stringify({ "@type": "Person" }))).toMatchObject({
+      success: false,
+    });
+
+    const result = parseRecipeJsonLd(
+      JSON.stringify({ "@type": "Recipe", prepTime: "ten minutes" })
+    );
+    expect(result.success).toBe(false);
+    expect(!result.success && result.errors).toHaveLength(4);
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Conversion between recipes and schema.org Recipe JSON-LD.
+ *
+ * Export maps ingredients to `recipeIngredient` lines, instructions to
+ * HowToStep and tips to HowToTip entries, and times to ISO-8601 durations.
+ * Import accepts the shapes other tools commonly publish (a bare Recipe,
+ * an array, or an `@graph`) and validates the result against
+ * completeRecipeStructureSchema.
+ */
+
+import type { CompleteRecipeStructure, RecipeStructure } from "@/lib/schemas/recipe";
+import { completeRecipeStructureSchema } from "@/lib/schemas/recipe";
+import { RECIPE_IMPORT } from "@/lib/constants/domain";
+import { NUMBER_INPUT } from "@/lib/constants/ui";
+import {
+  formatDurationText,
+  formatIsoDuration,
+  parseDurationText,
+  parseIsoDuration,
+} from "@/lib/utils/duration";
+import { formatIngredientLine, parseIngredientLine } from "@/lib/utils/ingredients";
+
+interface JsonLdInstruction {
+  "@type": "HowToStep" | "HowToTip";
+  text: string;
+}
+
+interface JsonLdNutrition {
+  "@type": "NutritionInformation";
+  calories?: string;
+  proteinContent?: string;
+  carbohydrateContent?: string;
+  fatContent?: string;
+  sodiumContent?: string;
+}
+
+export interface RecipeJsonLd {
+  "@context": "https://schema.org";
+  "@type": "Recipe";
+  name: string;
+  recipeCuisine?: string;
+  recipeYield?: string;
+  prepTime?: string;
+  cookTime?: string;
+  totalTime?: string;
+  recipeIngredient: string[];
+  recipeInstructions: JsonLdInstruction[];
+  nutrition?: JsonLdNutrition;
+}
+
+export type RecipeJsonLdImportResult =
+  | { success: true; recipe: CompleteRecipeStructure; cuisine: string | null }
+  | { success: false; errors: string[] };
+
+type JsonObject = Record<string, unknown>;
+
+/** Maximum nesting searched for a Recipe node (arrays, @graph, sections). */
+const MAX_SEARCH_DEPTH = 5;
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Builds schema.org Recipe JSON-LD from a recipe structure.
+ * Ingredient groups are flattened; times that cannot be read are omitted.
+ */
+export function buildRecipeJsonLd(
+  recipe: RecipeStructure,
+  options: { cuisine?: string | null } = {}
+): RecipeJsonLd {
+  const prepMinutes = recipe.preparationTime
+    ? parseDurationText(recipe.preparationTime)
+    : null;
+  const cookMinutes = recipe.cookingTime ? parseDurationText(recipe.cookingTime) : null;
+
+  const nutrition: JsonLdNutrition = { "@type": "NutritionInformation" };
+  if (recipe.calories != null) nutrition.calories = `${recipe.calories} calories`;
+  if (recipe.macros?.protein) nutrition.proteinContent = recipe.macros.protein;
+  if (recipe.macros?.carbs) nutrition.carbohydrateContent = recipe.macros.carbs;
+  if (recipe.macros?.fat) nutrition.fatContent = recipe.macros.fat;
+  if (recipe.macros?.sodium) nutrition.sodiumContent = recipe.macros.sodium;
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "Recipe",
+    name: recipe.title ?? "",
+    ...(options.cuisine ? { recipeCuisine: options.cuisine } : {}),
+    ...(recipe.servings != null ? { recipeYield: `${recipe.servings} servings` } : {}),
+    ...(prepMinutes != null ? { prepTime: formatIsoDuration(prepMinutes) } : {}),
+    ...(cookMinutes != null ? { cookTime: formatIsoDuration(cookMinutes) } : {}),
+    ...(prepMinutes != null && cookMinutes != null
+      ? { totalTime: formatIsoDuration(prepMinutes + cookMinutes) }
+      : {}),
+    recipeIngredient: (recipe.ingredients ?? []).map(formatIngredientLine),
+    recipeInstructions: [
+      ...(recipe.instructions ?? []).map((text) => ({
+        "@type": "HowToStep" as const,
+        text,
+      })),
+      ...(recipe.tips ?? []).map((text) => ({ "@type": "HowToTip" as const, text })),
+    ],
+    ...(Object.keys(nutrition).length > 1 ? { nutrition } : {}),
+  };
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function hasType(node: JsonObject, type: string): boolean {
+  const value = node["@type"];
+  return Array.isArray(value) ? value.includes(type) : value === type;
+}
+
+function findRecipeNode(value: unknown, depth = 0): JsonObject | null {
+  if (depth > MAX_SEARCH_DEPTH) return null;
+
+  if (Array.isArray(value)) {
+    for (const entry of value) {
+      const found = findRecipeNode(entry, depth + 1);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  if (!isObject(value)) return null;
+  if (hasType(value, "Recipe")) return value;
+  return findRecipeNode(value["@graph"], depth + 1);
+}
+
+/** Reads a plain-text value, stripping any HTML markup. */
+function readText(value: unknown): string | null {
+  if (typeof value === "number") return String(value);
+  if (typeof value !== "string") return null;
+  const text = value.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
+  return text || null;
+}
+
+function readTextList(value: unknown): string[] {
+  const entries = Array.isArray(value) ? value : [value];
+  return entries.flatMap((entry) => {
+    const text = readText(entry);
+    return text ? [text] : [];
+  });
+}
+
+function collectInstructions(
+  value: unknown,
+  steps: string[],
+  tips: string[],
+  depth = 0
+): void {
+  if (depth > MAX_SEARCH_DEPTH || value == null) return;
+
+  if (typeof value === "string") {
+    // A single block of text usually holds one step per line
+    steps.push(...value.split(/\r?\n/).flatMap((line) => readTextList(line)));
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((entry) => collectInstructions(entry, steps, tips, depth + 1));
+    return;
+  }
+
+  if (!isObject(value)) return;
+
+  if (hasType(value, "HowToSection") || Array.isArray(value.itemListElement)) {
+    collectInstructions(value.itemListElement, steps, tips, depth + 1);
+    return;
+  }
+
+  const text = readText(value.text) ?? readText(value.name);
+  if (!text) return;
+  (hasType(value, "HowToTip") ? tips : steps).push(text);
+}
+
+function readDuration(
+  node: JsonObject,
+  key: string,
+  errors: string[]
+): string {
+  const value = node[key];
+  if (value == null || value === "") return "";
+
+  const minutes = typeof value === "string" ? parseIsoDuration(value) : null;
+  if (minutes == null) {
+    errors.push(`"${key}" must be an ISO-8601 duration such as "PT30M".`);
+    return "";
+  }
+  return formatDurationText(minutes);
+}
+
+function readServings(value: unknown): number {
+  const first = Array.isArray(value) ? value[0] : value;
+  const match = readText(first)?.match(/\d+/);
+  const servings = match ? Number(match[0]) : NaN;
+  return Number.isFinite(servings) && servings > 0
+    ? servings
+    : NUMBER_INPUT.SERVING_SIZE_DEFAULT;
+}
+
+function readCalories(value: unknown): number | null {
+  const match = readText(value)?.match(/\d+(?:\.\d+)?/);
+  return match ? Math.round(Number(match[0])) : null;
+}
+
+/**
+ * Parses schema.org Recipe JSON-LD text into a complete recipe structure.
+ * Missing times are left blank and a missing yield uses the default serving
+ * size; difficulty, which schema.org lacks, starts at RECIPE_IMPORT.DEFAULT_DIFFICULTY.
+ * @returns The recipe and cuisine, or every problem found in the input
+ */
+export function parseRecipeJsonLd(text: string): RecipeJsonLdImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { success: false, errors: ["The file is not valid JSON."] };
+  }
+
+  const node = findRecipeNode(parsed);
+  if (!node) {
+    return {
+      success: false,
+      errors: ['No schema.org Recipe ("@type": "Recipe") was found in the file.'],
+    };
+  }
+
+  const errors: string[] = [];
+
+  const title = readText(node.name);
+  if (!title) errors.push('The recipe is missing a "name".');
+
+  const ingredients = readTextList(node.recipeIngredient ?? node.ingredients).map(
+    parseIngredientLine
+  );
+  if (ingredients.length === 0) errors.push('The recipe has no "recipeIngredient" entries.');
+
+  const instructions: string[] = [];
+  const tips: string[] = [];
+  collectInstructions(node.recipeInstructions, instructions, tips);
+  if (instructions.length === 0) {
+    errors.push('The recipe has no "recipeInstructions" steps.');
+  }
+
+  const preparationTime = readDuration(node, "prepTime", errors);
+  const cookingTime = readDuration(node, "cookTime", errors);
+
+  if (errors.length > 0) return { success: false, errors };
+
+  const nutrition = isObject(node.nutrition) ? node.nutrition : {};
+  const sodium = readText(nutrition.sodiumContent);
+  const macros = {
+    protein: readText(nutrition.proteinContent),
+    carbs: readText(nutrition.carbohydrateContent),
+    fat: readText(nutrition.fatContent),
+    ...(sodium ? { sodium } : {}),
+  };
+
+  const result = completeRecipeStructureSchema.safeParse({
+    title,
+    preparationTime,
+    cookingTime,
+    servings: readServings(node.recipeYield),
+    difficulty: RECIPE_IMPORT.DEFAULT_DIFFICULTY,
+    ingredients,
+    instructions,
+    ...(tips.length > 0 ? { tips } : {}),
+    calories: readCalories(nutrition.calories),
+    macros: macros.protein || macros.carbs || macros.fat || sodium ? macros : null,
+  });
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map((issue) => issue.message),
+    };
+  }
+
+  return {
+    success: true,
+    recipe: result.data,
+    cuisine: readTextList(node.recipeCuisine)[0] ?? null,
+  };
+}
@@ -1,10 +1,18 @@
 import { describe, expect, it } from "vitest";
 
 import type { Recipe } from "@/lib/schemas/recipe";
+import { parseIngredientLine } from "@/lib/utils/ingredients";
 import {
+  appendRecipePage,
   filterRecipes,
   filterRecipesBySearch,
+  getRecipeLabelOptions,
   getRecipeMetadataOptions,
+  mergeLiveRecipePage,
+  mergeRestoredRecipes,
+  normalizeRecipeLabels,
+  requiresFullRecipeLibrary,
+  sortRecipes,
   sortRecipesByCreatedAtDesc,
 } from "@/lib/utils/recipe-library";
 
@@ -15,7 +23,7 @@ function makeRecipe(overrides: Partial<Recipe>): Recipe {
     title: "Pasta",
     content: "# Pasta",
     createdAt: { seconds: 1, nanoseconds: 0 } as Recipe["createdAt"],
-    ingredients: ["noodles"],
+    ingredients: [parseIngredientLine("noodles")],
     difficulty: "Easy",
     cuisine: "Italian",
     ...overrides,
@@ -39,8 +47,11 @@ describe("filterRecipesBySearch", () => {
 
   it("matches ingredient text case-insensitively", () => {
     const recipes = [
-      makeRecipe({ id: "1", ingredients: ["eggs", "spinach"] }),
-      makeRecipe({ id: "2", ingredients: ["rice"] }),
+      makeRecipe({
+        id: "1",
+        ingredients: ["eggs", "spinach"].map(parseIngredientLine),
+      }),
+      makeRecipe({ id: "2", ingredients: [parseIngredientLine("rice")] }),
     ];
 
     expect(filterRecipesBySearch(recipes, "SPIN")).toEqual([recipes[0]]);
@@ -88,6 +99,62 @@ describe("filterRecipes", () => {
     ).toEqual([recipes[0]]);
   });
 
+  it("filters by tag, collection, and favorites", () => {
+    const recipes = [
+      makeRecipe({
+        id: "1",
+        tags: ["weeknight"],
+        collections: ["Holiday"],
+        favorite: true,
+      }),
+      makeRecipe({ id: "2", tags: ["weeknight"], collections: ["Holiday"] }),
+      makeRecipe({ id: "3", tags: ["spicy"], favorite: true }),
+    ];
+
+    expect(filterRecipes(recipes, { tag: "weeknight" })).toEqual([
+      recipes[0],
+      recipes[1],
+    ]);
+    expect(filterRecipes(recipes, { collection: "Holiday" })).toEqual([
+      recipes[0],
+      recipes[1],
+    ]);
+    expect(filterRecipes(recipes, { favoritesOnly: true })).toEqual([
+      recipes[0],
+      recipes[2],
+    ]);
+    expect(
+      filterRecipes(recipes, { tag: "weeknight", favoritesOnly: true })
+    ).toEqual([recipes[0]]);
+  });
+
+  it("applies total time, calorie, and serving ranges", () => {
+    const recipes = [
+      makeRecipe({
+        id: "1",
+        preparationTime: "10 mins",
+        cookingTime: "15-20 mins",
+        calories: 450,
+        servings: 4,
+      }),
+      makeRecipe({
+        id: "2",
+        preparationTime: "20 mins",
+        cookingTime: "1 hr",
+        calories: 800,
+        servings: 6,
+      }),
+      makeRecipe({ id: "3", servings: 2 }),
+    ];
+
+    expect(filterRecipes(recipes, { maxTotalMinutes: 30 })).toEqual([recipes[0]]);
+    expect(filterRecipes(recipes, { maxCalories: 500 })).toEqual([recipes[0]]);
+    expect(filterRecipes(recipes, { minServings: 4 })).toEqual([
+      recipes[0],
+      recipes[1],
+    ]);
+  });
+
   it("returns all recipes when filters are empty", () => {
     const recipes = [
       makeRecipe({ id: "1" }),
@@ -117,6 +184,100 @@ describe("getRecipeMetadataOptions", () => {
   });
 });
 
+describe("getRecipeLabelOptions", () => {
+  it("returns sorted unique labels and ignores recipes without them", () => {
+    const recipes = [
+      makeRecipe({ id: "1", tags: ["spicy", "weeknight"] }),
+      makeRecipe({ id: "2", tags: ["weeknight"], collections: ["Lunchbox"] }),
+      makeRecipe({ id: "3" }),
+    ];
+
+    expect(getRecipeLabelOptions(recipes, "tags")).toEqual([
+      "spicy",
+      "weeknight",
+    ]);
+    expect(getRecipeLabelOptions(recipes, "collections")).toEqual([
+      "Lunchbox",
+    ]);
+    expect(getRecipeLabelOptions(null, "tags")).toEqual([]);
+  });
+});
+
+describe("normalizeRecipeLabels", () => {
+  it("trims, collapses whitespace, and drops case-insensitive duplicates", () => {
+    expect(
+      normalizeRecipeLabels(["  Make  ahead ", "make ahead", "", "Spicy"], {
+        maxCount: 10,
+        maxLength: 20,
+      })
+    ).toEqual(["Make ahead", "Spicy"]);
+  });
+
+  it("drops over-long labels and caps the count", () => {
+    expect(
+      normalizeRecipeLabels(["a", "far too long a label", "b", "c"], {
+        maxCount: 2,
+        maxLength: 10,
+      })
+    ).toEqual(["a", "b"]);
+  });
+});
+
+describe("sortRecipes", () => {
+  const quick = makeRecipe({
+    id: "quick",
+    title: "Salad",
+    cookingTime: "10 mins",
+    calories: 300,
+    difficulty: "Easy",
+    createdAt: { seconds: 30, nanoseconds: 0 } as Recipe["createdAt"],
+  });
+  const slow = makeRecipe({
+    id: "slow",
+    title: "Braise",
+    cookingTime: "2 hrs",
+    calories: 700,
+    difficulty: "Advanced",
+    createdAt: { seconds: 10, nanoseconds: 0 } as Recipe["createdAt"],
+  });
+  const unknown = makeRecipe({
+    id: "unknown",
+    title: "Mystery",
+    difficulty: undefined,
+    createdAt: { seconds: 20, nanoseconds: 0 } as Recipe["createdAt"],
+  });
+  const recipes = [unknown, slow, quick];
+  const ids = (sorted: Recipe[]) => sorted.map((recipe) => recipe.id);
+
+  it("keeps the given order without a sort", () => {
+    expect(sortRecipes(recipes, "")).toBe(recipes);
+  });
+
+  it("sorts by date and title", () => {
+    expect(ids(sortRecipes(recipes, "newest"))).toEqual(["quick", "unknown", "slow"]);
+    expect(ids(sortRecipes(recipes, "oldest"))).toEqual(["slow", "unknown", "quick"]);
+    expect(ids(sortRecipes(recipes, "title"))).toEqual(["slow", "unknown", "quick"]);
+  });
+
+  it("sorts by time, calories, and difficulty with missing values last", () => {
+    expect(ids(sortRecipes(recipes, "totalTime"))).toEqual(["quick", "slow", "unknown"]);
+    expect(ids(sortRecipes(recipes, "calories"))).toEqual(["quick", "slow", "unknown"]);
+    expect(ids(sortRecipes(recipes, "difficulty"))).toEqual(["quick", "slow", "unknown"]);
+    expect(ids(recipes)).toEqual(["unknown", "slow", "quick"]);
+  });
+});
+
+describe("requiresFullRecipeLibrary", () => {
+  it("needs every page for a search, filter, or non-default sort", () => {
+    expect(requiresFullRecipeLibrary({}, "")).toBe(false);
+    expect(requiresFullRecipeLibrary({ searchTerm: "  " }, "newest")).toBe(false);
+    expect(requiresFullRecipeLibrary({ searchTerm: "soup" }, "")).toBe(true);
+    expect(requiresFullRecipeLibrary({ maxCalories: 500 }, "")).toBe(true);
+    expect(requiresFullRecipeLibrary({ favoritesOnly: true }, "")).toBe(true);
+    expect(requiresFullRecipeLibrary({}, "title")).toBe(true);
+  });
+});
+
 describe("sortRecipesByCreatedAtDesc", () => {
   it("returns newest recipes first without mutating the input", () => {
     const older = makeRecipe({
@@ -133,3 +294,77 @@ describe("sortRecipesByCreatedAtDesc", () => {
     expect(recipes).toEqual([older, newer]);
   });
 });
+
+describe("mergeLiveRecipePage", () => {
+  const at = (id: string, seconds: number) =>
+    makeRecipe({ id, createdAt: { seconds, nanoseconds: 0 } as Recipe["createdAt"] });
+
+  it("keeps recipes pushed past a full page and drops deleted ones", () => {
+    const current = [at("c", 30), at("b", 20), at("a", 10), at("older", 5)];
+    const page = [at("d", 40), at("c", 30)];
+
+    // "b" was pushed out by "d"; "a" and "older" were loaded from later pages.
+    expect(mergeLiveRecipePage(current, page, true).map((r) => r.id)).toEqual([
+      "d",
+      "c",
+      "b",
+      "a",
+      "older",
+    ]);
+
+    // "c" was deleted elsewhere, so "b" moved up onto the page.
+    const afterDelete = [at("d", 40), at("b", 20)];
+    expect(
+      mergeLiveRecipePage([at("d", 40), at("c", 30), at("b", 20)], afterDelete, true).map(
+        (r) => r.id
+      )
+    ).toEqual(["d", "b"]);
+  });
+
+  it("measures a full page to its last document when trashed recipes were hidden", () => {
+    const current = [at("c", 30), at("t", 27), at("b", 20), at("older", 5)];
+
+    // The page read "c", then a trashed recipe at 25: "t" was trashed
+    // elsewhere, while "b" was only pushed past the end of the page.
+    expect(
+      mergeLiveRecipePage(current, [at("c", 30)], true, at("x", 25).createdAt).map((r) => r.id)
+    ).toEqual(["c", "b", "older"]);
+
+    // Every recipe on the page is trashed; older loaded recipes stay.
+    expect(
+      mergeLiveRecipePage(current.slice(2), [], true, at("x", 25).createdAt).map((r) => r.id)
+    ).toEqual(["b", "older"]);
+  });
+
+  it("replaces the list with a short page", () => {
+    const page = [at("b", 20)];
+    expect(mergeLiveRecipePage([at("b", 20), at("a", 10)], page, false)).toEqual(page);
+  });
+});
+
+describe("mergeRestoredRecipes", () => {
+  const at = (id: string, seconds: number) =>
+    makeRecipe({ id, createdAt: { seconds, nanoseconds: 0 } as Recipe["createdAt"] });
+
+  it("puts restored recipes back in newest-first order without duplicates", () => {
+    const current = [at("c", 30), at("a", 10)];
+
+    expect(mergeRestoredRecipes(current, [at("b", 20), at("c", 30)]).map((r) => r.id)).toEqual([
+      "c",
+      "b",
+      "a",
+    ]);
+    expect(mergeRestoredRecipes(current, [at("c", 30)])).toBe(current);
+    expect(mergeRestoredRecipes(null, [at("b", 20)]).map((r) => r.id)).toEqual(["b"]);
+  });
+});
+
+describe("appendRecipePage", () => {
+  it("appends older recipes without duplicating loaded ones", () => {
+    const current = [makeRecipe({ id: "1" }), makeRecipe({ id: "2" })];
+    const page = [makeRecipe({ id: "2" }), makeRecipe({ id: "3" })];
+
+    expect(appendRecipePage(current, page).map((r) => r.id)).toEqual(["1", "2", "3"]);
+    expect(appendRecipePage(null, page)).toEqual(page);
+  });
+});
@@ -1,13 +1,27 @@
+import type { RecipeSortOption } from "@/lib/constants/domain";
 import type { Recipe } from "@/lib/schemas/recipe";
+import { getTotalTimeMinutes } from "./duration";
+import { buildRecipeSearchIndex, searchRecipeIndex } from "./recipe-search";
 
 export interface RecipeLibraryFilters {
   searchTerm?: string;
   difficulty?: string;
   cuisine?: string;
+  tag?: string;
+  collection?: string;
+  favoritesOnly?: boolean;
+  /** Range bounds; recipes missing the value are excluded while set. */
+  maxTotalMinutes?: number | null;
+  maxCalories?: number | null;
+  minServings?: number | null;
 }
 
+export type RecipeLabelField = "tags" | "collections";
+
+const DIFFICULTY_ORDER = ["Easy", "Moderate", "Advanced"];
+
 /**
- * Filters saved recipes by title or ingredient text.
+ * Filters saved recipes by a full-text query, ranked by relevance.
  */
 export function filterRecipesBySearch(
   recipes: Recipe[] | null | undefined,
@@ -18,6 +32,8 @@ export function filterRecipesBySearch(
 
 /**
  * Filters saved recipes by text and structured metadata.
+ * A search term ranks results by relevance (see recipe-search.ts); callers
+ * that re-filter often should search a memoized index and omit the term.
  */
 export function filterRecipes(
   recipes: Recipe[] | null | undefined,
@@ -25,16 +41,79 @@ export function filterRecipes(
 ): Recipe[] {
   if (!recipes) return [];
 
-  const searchLower = filters.searchTerm?.trim().toLowerCase() ?? "";
+  const searchTerm = filters.searchTerm?.trim() ?? "";
+  const matches = searchTerm
+    ? searchRecipeIndex(buildRecipeSearchIndex(recipes), searchTerm).map(
+        (result) => result.recipe
+      )
+    : recipes;
   const difficulty = filters.difficulty?.trim() ?? "";
   const cuisine = filters.cuisine?.trim() ?? "";
+  const tag = filters.tag?.trim() ?? "";
+  const collection = filters.collection?.trim() ?? "";
 
-  return recipes.filter(
+  return matches.filter(
     (recipe) =>
-      matchesSearch(recipe, searchLower) &&
       matchesExact(recipe.difficulty, difficulty) &&
-      matchesExact(recipe.cuisine, cuisine)
+      matchesExact(recipe.cuisine, cuisine) &&
+      matchesLabel(recipe.tags, tag) &&
+      matchesLabel(recipe.collections, collection) &&
+      (!filters.favoritesOnly || recipe.favorite === true) &&
+      matchesRange(getTotalTimeMinutes(recipe), null, filters.maxTotalMinutes) &&
+      matchesRange(recipe.calories, null, filters.maxCalories) &&
+      matchesRange(recipe.servings, filters.minServings, null)
+  );
+}
+
+/**
+ * Sorts saved recipes without mutating the input. An empty sort keeps the
+ * given order; recipes missing the sorted value (time, calories,
+ * difficulty) go last.
+ */
+export function sortRecipes(
+  recipes: Recipe[],
+  sort: RecipeSortOption | ""
+): Recipe[] {
+  switch (sort) {
+    case "":
+      return recipes;
+    case "newest":
+      return sortRecipesByCreatedAtDesc(recipes);
+    case "oldest":
+      return sortRecipesByCreatedAtDesc(recipes).reverse();
+    case "title":
+      return [...recipes].sort((a, b) => a.title.localeCompare(b.title));
+    case "totalTime":
+      return sortByValue(recipes, getTotalTimeMinutes);
+    case "calories":
+      return sortByValue(recipes, (recipe) => recipe.calories ?? null);
+    case "difficulty":
+      return sortByValue(recipes, getDifficultyRank);
+  }
+}
+
+/**
+ * Whether a search, filter, or sort needs every saved recipe rather than the
+ * loaded pages. Sorting newest first without a search is the load order.
+ */
+export function requiresFullRecipeLibrary(
+  filters: RecipeLibraryFilters,
+  sort: RecipeSortOption | ""
+): boolean {
+  const hasSearch = Boolean(filters.searchTerm?.trim());
+  const hasFilter = Boolean(
+    hasSearch ||
+      filters.difficulty?.trim() ||
+      filters.cuisine?.trim() ||
+      filters.tag?.trim() ||
+      filters.collection?.trim() ||
+      filters.favoritesOnly ||
+      filters.maxTotalMinutes != null ||
+      filters.maxCalories != null ||
+      filters.minServings != null
   );
+  const hasSort = sort !== "" && (sort !== "newest" || hasSearch);
+  return hasFilter || hasSort;
 }
 
 /**
@@ -55,6 +134,43 @@ export function getRecipeMetadataOptions(
   return [...values].sort((a, b) => a.localeCompare(b));
 }
 
+/**
+ * Returns sorted unique tags or collections across saved recipes.
+ */
+export function getRecipeLabelOptions(
+  recipes: Recipe[] | null | undefined,
+  field: RecipeLabelField
+): string[] {
+  if (!recipes) return [];
+
+  const values = new Set<string>();
+  recipes.forEach((recipe) => recipe[field]?.forEach((label) => values.add(label)));
+
+  return [...values].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Trims labels, drops empty or over-long ones, removes case-insensitive
+ * duplicates (keeping the first spelling), and caps the count.
+ */
+export function normalizeRecipeLabels(
+  labels: readonly string[],
+  { maxCount, maxLength }: { maxCount: number; maxLength: number }
+): string[] {
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+
+  for (const label of labels) {
+    const trimmed = label.trim().replace(/\s+/g, " ");
+    const key = trimmed.toLowerCase();
+    if (!trimmed || trimmed.length > maxLength || seen.has(key)) continue;
+    seen.add(key);
+    normalized.push(trimmed);
+  }
+
+  return normalized.slice(0, maxCount);
+}
+
 /**
  * Returns recipes sorted newest first by Firestore timestamp seconds.
  */
@@ -64,16 +180,51 @@ export function sortRecipesByCreatedAtDesc(recipes: Recipe[]): Recipe[] {
   );
 }
 
-function matchesSearch(recipe: Recipe, searchLower: string): boolean {
-  if (!searchLower) return true;
+/**
+ * Puts recipes back into the loaded list after a failed delete or an undo,
+ * skipping any a live subscription has already restored.
+ */
+export function mergeRestoredRecipes(current: Recipe[] | null, restored: Recipe[]): Recipe[] {
+  const loadedIds = new Set(current?.map((recipe) => recipe.id));
+  const missing = restored.filter((recipe) => !loadedIds.has(recipe.id));
+  if (missing.length === 0 && current) return current;
+  return sortRecipesByCreatedAtDesc([...(current ?? []), ...missing]);
+}
+
+/**
+ * Merges a fresh live page of the newest recipes into the loaded list.
+ * A loaded recipe missing from a full page was either pushed past its end
+ * by a newer save (no newer than the page's last entry, so it stays) or
+ * deleted elsewhere (dropped). A short page holds every recipe.
+ * @param pageEnd - createdAt of the page's last document when trashed
+ *   recipes were filtered out of `page`; defaults to its last recipe
+ */
+export function mergeLiveRecipePage(
+  current: Recipe[] | null,
+  page: Recipe[],
+  isFullPage: boolean,
+  pageEnd: Recipe["createdAt"] | null = page[page.length - 1]?.createdAt ?? null
+): Recipe[] {
+  if (!current || !isFullPage || pageEnd === null) return page;
 
-  return (
-    recipe.title.toLowerCase().includes(searchLower) ||
-    (recipe.ingredients?.some((ingredient) =>
-      ingredient.toLowerCase().includes(searchLower)
-    ) ??
-      false)
+  const pageIds = new Set(page.map((recipe) => recipe.id));
+  const oldestOnPage = getTimestampSeconds({ createdAt: pageEnd }) ?? 0;
+  const olderRecipes = current.filter(
+    (recipe) =>
+      !pageIds.has(recipe.id) && (getTimestampSeconds(recipe) ?? 0) <= oldestOnPage
   );
+
+  return [...page, ...olderRecipes];
+}
+
+/**
+ * Appends an older page, skipping recipes that are already loaded.
+ */
+export function appendRecipePage(current: Recipe[] | null, page: Recipe[]): Recipe[] {
+  if (!current) return page;
+
+  const loadedIds = new Set(current.map((recipe) => recipe.id));
+  return [...current, ...page.filter((recipe) => !loadedIds.has(recipe.id))];
 }
 
 function matchesExact(value: string | undefined, selected: string): boolean {
@@ -81,7 +232,42 @@ function matchesExact(value: string | undefined, selected: string): boolean {
   return value === selected;
 }
 
-function getTimestampSeconds(recipe: Recipe): number | null {
+function matchesRange(
+  value: number | null | undefined,
+  min: number | null | undefined,
+  max: number | null | undefined
+): boolean {
+  if (min == null && max == null) return true;
+  if (value == null) return false;
+  return (min == null || value >= min) && (max == null || value <= max);
+}
+
+function getDifficultyRank(recipe: Recipe): number | null {
+  const rank = recipe.difficulty ? DIFFICULTY_ORDER.indexOf(recipe.difficulty) : -1;
+  return rank === -1 ? null : rank;
+}
+
+function sortByValue(
+  recipes: Recipe[],
+  getValue: (recipe: Recipe) => number | null
+): Recipe[] {
+  return recipes
+    .map((recipe) => ({ recipe, value: getValue(recipe) }))
+    .sort((a, b) => {
+      if (a.value === null || b.value === null) {
+        return Number(a.value === null) - Number(b.value === null);
+      }
+      return a.value - b.value;
+    })
+    .map(({ recipe }) => recipe);
+}
+
+function matchesLabel(labels: string[] | undefined, selected: string): boolean {
+  if (!selected) return true;
+  return labels?.includes(selected) ?? false;
+}
+
+function getTimestampSeconds(recipe: Pick<Recipe, "createdAt">): number | null {
   const createdAt = recipe.createdAt;
 
   if (typeof createdAt === "number") {
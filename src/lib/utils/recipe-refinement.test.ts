@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+
+import { RECIPE_REFINEMENT } from "@/lib/constants/domain";
+import { FORM_VALIDATION } from "@/lib/constants/ui";
+import { ERROR_MESSAGES } from "@/lib/utils/error-handler";
+import {
+  normalizeRefinementChanges,
+  validateRefinementRequest,
+} from "@/lib/utils/recipe-refinement";
+
+describe("validateRefinementRequest", () => {
+  it("requires a request within the length limit", () => {
+    expect(validateRefinementRequest("make it spicier", [])).toBeNull();
+    expect(validateRefinementRequest("   ", [])).toMatch(/describe what to change/);
+    expect(
+      validateRefinementRequest("a".repeat(FORM_VALIDATION.INPUT_MAX_LENGTH + 1), [])
+    ).toMatch(/too long/);
+  });
+
+  it("stops the conversation at the turn limit", () => {
+    const thread = Array.from({ length: RECIPE_REFINEMENT.MAX_TURNS }, () => ({
+      request: "halve the butter",
+      changes: ["Halved the butter"],
+    }));
+
+    expect(validateRefinementRequest("make it spicier", thread)).toBe(
+      ERROR_MESSAGES.RECIPE.REFINEMENT_LIMIT_REACHED
+    );
+  });
+});
+
+describe("normalizeRefinementChanges", () => {
+  it("trims bullets, drops blanks and repeats", () => {
+    expect(
+      normalizeRefinementChanges(["- Swapped chicken for tofu", " ", "swapped chicken for tofu", "Added chili flakes"])
+    ).toEqual(["Swapped chicken for tofu", "Added chili flakes"]);
+  });
+
+  it("falls back to a generic line when the changelog is empty", () => {
+    expect(normalizeRefinementChanges([])).toEqual(["Updated the recipe."]);
+  });
+});
@@ -0,0 +1,53 @@
+import { z } from "zod";
+
+import { RECIPE_REFINEMENT } from "@/lib/constants/domain";
+import { FORM_VALIDATION } from "@/lib/constants/ui";
+import type { RefinementTurn } from "@/lib/schemas/recipe";
+import { ERROR_MESSAGES } from "@/lib/utils/error-handler";
+
+/**
+ * A chat-style change request for the current recipe
+ * (e.g. "make it spicier", "halve the butter").
+ */
+export const refinementRequestSchema = z
+  .string()
+  .trim()
+  .min(1, "Please describe what to change.")
+  .max(
+    FORM_VALIDATION.INPUT_MAX_LENGTH,
+    `Request is too long (max ${FORM_VALIDATION.INPUT_MAX_LENGTH} characters)`
+  );
+
+/**
+ * Validates a refinement request against the conversation so far.
+ * @returns Error message or null when the request can be sent
+ */
+export function validateRefinementRequest(
+  request: string,
+  thread: readonly RefinementTurn[]
+): string | null {
+  if (thread.length >= RECIPE_REFINEMENT.MAX_TURNS) {
+    return ERROR_MESSAGES.RECIPE.REFINEMENT_LIMIT_REACHED;
+  }
+  const result = refinementRequestSchema.safeParse(request);
+  return result.success ? null : result.error.issues[0].message;
+}
+
+/**
+ * Cleans the model's changelog: trims lines, drops blanks and repeats, and
+ * falls back to a generic line so every turn shows what happened.
+ */
+export function normalizeRefinementChanges(changes: readonly string[]): string[] {
+  const seen = new Set<string>();
+  const lines: string[] = [];
+
+  for (const change of changes) {
+    const line = change.trim().replace(/^[-*•]\s+/, "");
+    const key = line.toLowerCase();
+    if (!line || seen.has(key)) continue;
+    seen.add(key);
+    lines.push(line);
+  }
+
+  return lines.length > 0 ? lines : ["Updated the recipe."];
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+
+import type { Recipe } from "@/lib/schemas/recipe";
+import { parseIngredientLine } from "@/lib/utils/ingredients";
+import {
+  buildRecipeSearchIndex,
+  highlightSearchMatches,
+  parseRecipeQuery,
+  searchRecipeIndex,
+  stemSearchTerm,
+  tokenizeSearchText,
+} from "@/lib/utils/recipe-search";
+
+function makeRecipe(overrides: Partial<Recipe>): Recipe {
+  return {
+    id: "recipe-id",
+    userId: "user-id",
+    title: "Pasta",
+    content: "# Pasta",
+    createdAt: { seconds: 1, nanoseconds: 0 } as Recipe["createdAt"],
+    ingredients: [parseIngredientLine("noodles")],
+    ...overrides,
+  };
+}
+
+function searchIds(recipes: Recipe[], query: string): string[] {
+  return searchRecipeIndex(buildRecipeSearchIndex(recipes), query).map(
+    (result) => result.recipe.id
+  );
+}
+
+describe("tokenizeSearchText", () => {
+  it("lowercases, strips accents, and splits on punctuation", () => {
+    expect(tokenizeSearchText("Crème Brûlée, 2-step!")).toEqual([
+      "creme",
+      "brulee",
+      "2",
+      "step",
+    ]);
+  });
+});
+
+describe("stemSearchTerm", () => {
+  it("folds plurals and verb endings onto a shared stem", () => {
+    expect(stemSearchTerm("tomatoes")).toBe(stemSearchTerm("tomato"));
+    expect(stemSearchTerm("berries")).toBe(stemSearchTerm("berry"));
+    expect(stemSearchTerm("baked")).toBe(stemSearchTerm("baking"));
+    expect(stemSearchTerm("chopped")).toBe(stemSearchTerm("chop"));
+    expect(stemSearchTerm("grilled")).toBe("grill");
+  });
+
+  it("keeps short words and numbers", () => {
+    expect(stemSearchTerm("egg")).toBe("egg");
+    expect(stemSearchTerm("1000")).toBe("1000");
+  });
+});
+
+describe("parseRecipeQuery", () => {
+  it("separates terms, exclusions, and a time filter", () => {
+    expect(parseRecipeQuery("lemon pasta -mushroom time:<30")).toEqual({
+      terms: ["lemon", "pasta"],
+      excluded: ["mushroom"],
+      time: { operator: "<", minutes: 30 },
+    });
+  });
+
+  it("treats a bare time as a maximum and accepts duration units", () => {
+    expect(parseRecipeQuery("time:45").time).toEqual({ operator: "<=", minutes: 45 });
+    expect(parseRecipeQuery("time:>=1h").time).toEqual({ operator: ">=", minutes: 60 });
+  });
+
+  it("searches for an unparseable time operator as text", () => {
+    expect(parseRecipeQuery("time:soon")).toEqual({
+      terms: ["time", "soon"],
+      excluded: [],
+      time: null,
+    });
+  });
+});
+
+describe("searchRecipeIndex", () => {
+  it("ranks title matches above instruction matches", () => {
+    const recipes = [
+      makeRecipe({ id: "steps", title: "Rice Bowl", instructions: ["Add lemon zest"] }),
+      makeRecipe({ id: "title", title: "Lemon Tart" }),
+    ];
+
+    expect(searchIds(recipes, "lemon")).toEqual(["title", "steps"]);
+  });
+
+  it("matches stems, prefixes, and typos", () => {
+    const recipes = [
+      makeRecipe({
+        id: "1",
+        ingredients: ["2 tomatoes", "parmesan", "spinach"].map(parseIngredientLine),
+      }),
+      makeRecipe({ id: "2", ingredients: [parseIngredientLine("rice")] }),
+    ];
+
+    expect(searchIds(recipes, "tomato")).toEqual(["1"]);
+    expect(searchIds(recipes, "spin")).toEqual(["1"]);
+    expect(searchIds(recipes, "parmesean")).toEqual(["1"]);
+  });
+
+  it("requires every term to match", () => {
+    const recipes = [
+      makeRecipe({ id: "1", title: "Lemon Pasta" }),
+      makeRecipe({ id: "2", title: "Lemon Rice" }),
+    ];
+
+    expect(searchIds(recipes, "lemon rice")).toEqual(["2"]);
+  });
+
+  it("excludes recipes mentioning a negated term", () => {
+    const recipes = [
+      makeRecipe({ id: "1", ingredients: [parseIngredientLine("mushrooms")] }),
+      makeRecipe({ id: "2", ingredients: [parseIngredientLine("peppers")] }),
+    ];
+
+    expect(searchIds(recipes, "-mushroom")).toEqual(["2"]);
+  });
+
+  it("filters by total time and drops recipes without times", () => {
+    const recipes = [
+      makeRecipe({ id: "quick", preparationTime: "10 mins", cookingTime: "15 mins" }),
+      makeRecipe({ id: "slow", preparationTime: "20 mins", cookingTime: "1 hr" }),
+      makeRecipe({ id: "unknown" }),
+    ];
+
+    expect(searchIds(recipes, "time:<30")).toEqual(["quick"]);
+    expect(searchIds(recipes, "time:>30")).toEqual(["slow"]);
+  });
+
+  it("reports matched index terms for highlighting", () => {
+    const recipes = [makeRecipe({ id: "1", title: "Baked Tomatoes" })];
+
+    expect(
+      searchRecipeIndex(buildRecipeSearchIndex(recipes), "tomato")[0].matchedTerms
+    ).toEqual([stemSearchTerm("tomatoes")]);
+  });
+});
+
+describe("highlightSearchMatches", () => {
+  it("marks words whose stem matched and merges plain text", () => {
+    expect(
+      highlightSearchMatches("Baked Tomatoes, basil", new Set([stemSearchTerm("tomato")]))
+    ).toEqual([
+      { text: "Baked ", highlighted: false },
+      { text: "Tomatoes", highlighted: true },
+      { text: ", basil", highlighted: false },
+    ]);
+  });
+
+  it("returns the text unchanged without terms", () => {
+    expect(highlightSearchMatches("Pasta", new Set())).toEqual([
+      { text: "Pasta", highlighted: false },
+    ]);
+  });
+});
@@ -0,0 +1,323 @@
+import { RECIPE_SEARCH } from "@/lib/constants/domain";
+import type { Recipe } from "@/lib/schemas/recipe";
+import { getTotalTimeMinutes, parseDurationText } from "./duration";
+import { formatIngredientLine } from "./ingredients";
+
+/**
+ * Client-side full-text search over the saved library.
+ *
+ * An inverted index maps each stemmed term to the recipes containing it,
+ * weighted by field (a title hit outranks an instructions hit). Query terms
+ * match exactly, by prefix (so results update while typing), or within one or
+ * two typos; every term must match. Operators: `-word` excludes recipes that
+ * mention a word, and `time:<30` / `time:>=1h` filter by prep + cook time.
+ */
+
+type SearchField = keyof typeof RECIPE_SEARCH.FIELD_WEIGHTS;
+
+type TimeOperator = "<" | "<=" | ">" | ">=";
+
+export interface ParsedRecipeQuery {
+  terms: string[];
+  excluded: string[];
+  time: { operator: TimeOperator; minutes: number } | null;
+}
+
+export interface RecipeSearchIndex {
+  recipes: Recipe[];
+  /** Stemmed term → recipe position → summed field weight. */
+  postings: Map<string, Map<number, number>>;
+  /** Prep + cook minutes per recipe position; null when unknown. */
+  totalMinutes: (number | null)[];
+}
+
+export interface RecipeSearchResult {
+  recipe: Recipe;
+  score: number;
+  /** Index terms the query matched in this recipe, for highlighting. */
+  matchedTerms: string[];
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const TIME_OPERATOR_PATTERN = /^time:(<=|>=|<|>)?(.+)$/i;
+
+/**
+ * Lowercases, strips accents, and splits text into words.
+ */
+export function tokenizeSearchText(text: string): string[] {
+  return normalizeText(text).match(WORD_PATTERN) ?? [];
+}
+
+/**
+ * Light English stemmer so "tomatoes", "baked", and "chopped" meet
+ * "tomato", "baking", and "chop". Numbers and short words are kept as-is.
+ */
+export function stemSearchTerm(token: string): string {
+  if (token.length <= 3 || /^\d+$/.test(token)) return token;
+
+  let stem = token
+    .replace(/ies$/, "y")
+    .replace(/(o|ch|sh|ss|x)es$/, "$1")
+    .replace(/([^su])s$/, "$1");
+
+  const suffix = stem.match(/^(.{3,}?)(?:ing|ed)$/);
+  if (suffix) {
+    stem = suffix[1];
+    if (/([^aeiouls])\1$/.test(stem)) stem = stem.slice(0, -1);
+  }
+
+  return stem.replace(/e$/, "");
+}
+
+/**
+ * Splits a query into search terms, `-excluded` terms, and a `time:` filter.
+ * A bare `time:30` means at most 30 minutes; units such as `time:<1h` work too.
+ */
+export function parseRecipeQuery(query: string): ParsedRecipeQuery {
+  const parsed: ParsedRecipeQuery = { terms: [], excluded: [], time: null };
+
+  for (const word of query.trim().split(/\s+/)) {
+    if (!word) continue;
+
+    const timeMatch = word.match(TIME_OPERATOR_PATTERN);
+    if (timeMatch) {
+      const [, operator = "<=", value] = timeMatch;
+      const minutes = /^\d+$/.test(value) ? Number(value) : parseDurationText(value);
+      if (minutes !== null) {
+        parsed.time = { operator: operator as TimeOperator, minutes };
+        continue;
+      }
+    }
+
+    if (word.startsWith("-") && word.length > 1) {
+      parsed.excluded.push(...tokenizeSearchText(word.slice(1)));
+      continue;
+    }
+
+    parsed.terms.push(...tokenizeSearchText(word));
+  }
+
+  return parsed;
+}
+
+/**
+ * Builds the inverted index for a recipe list. Rebuild when the list changes.
+ */
+export function buildRecipeSearchIndex(recipes: Recipe[]): RecipeSearchIndex {
+  const postings = new Map<string, Map<number, number>>();
+
+  recipes.forEach((recipe, position) => {
+    for (const [field, text] of getSearchFields(recipe)) {
+      const weight = RECIPE_SEARCH.FIELD_WEIGHTS[field];
+      for (const token of tokenizeSearchText(text)) {
+        const term = stemSearchTerm(token);
+        const recipeWeights = postings.get(term) ?? new Map<number, number>();
+        recipeWeights.set(position, (recipeWeights.get(position) ?? 0) + weight);
+        postings.set(term, recipeWeights);
+      }
+    }
+  });
+
+  return {
+    recipes,
+    postings,
+    totalMinutes: recipes.map(getTotalTimeMinutes),
+  };
+}
+
+/**
+ * Runs a query against an index. Results are ranked by relevance; a query
+ * with only operators keeps the index order.
+ */
+export function searchRecipeIndex(
+  index: RecipeSearchIndex,
+  query: string
+): RecipeSearchResult[] {
+  const parsed = parseRecipeQuery(query);
+  const excluded = new Set<number>();
+
+  for (const token of parsed.excluded) {
+    index.postings.get(stemSearchTerm(token))?.forEach((_, position) => {
+      excluded.add(position);
+    });
+  }
+
+  let candidates = index.recipes
+    .map((_, position) => position)
+    .filter(
+      (position) =>
+        !excluded.has(position) &&
+        matchesTime(index.totalMinutes[position], parsed.time)
+    );
+
+  const scores = new Map<number, number>();
+  const matchedTerms = new Map<number, Set<string>>();
+  const recipeCount = index.recipes.length;
+
+  for (const token of parsed.terms) {
+    const termScores = new Map<number, number>();
+
+    for (const [term, matchWeight] of findMatchingTerms(index, token)) {
+      const recipeWeights = index.postings.get(term);
+      if (!recipeWeights) continue;
+      const idf = Math.log(1 + recipeCount / recipeWeights.size);
+
+      recipeWeights.forEach((fieldWeight, position) => {
+        const score = matchWeight * fieldWeight * idf;
+        termScores.set(position, Math.max(termScores.get(position) ?? 0, score));
+        const terms = matchedTerms.get(position) ?? new Set<string>();
+        terms.add(term);
+        matchedTerms.set(position, terms);
+      });
+    }
+
+    candidates = candidates.filter((position) => termScores.has(position));
+    for (const position of candidates) {
+      scores.set(position, (scores.get(position) ?? 0) + (termScores.get(position) ?? 0));
+    }
+  }
+
+  return candidates
+    .map((position) => ({
+      recipe: index.recipes[position],
+      score: scores.get(position) ?? 0,
+      matchedTerms: [...(matchedTerms.get(position) ?? [])],
+    }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Splits text into segments, flagging words whose stem is a matched term.
+ */
+export function highlightSearchMatches(
+  text: string,
+  matchedTerms: ReadonlySet<string>
+): HighlightSegment[] {
+  if (matchedTerms.size === 0 || !text) return [{ text, highlighted: false }];
+
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+
+  const push = (segmentText: string, highlighted: boolean) => {
+    if (!segmentText) return;
+    const last = segments[segments.length - 1];
+    if (last && last.highlighted === highlighted) last.text += segmentText;
+    else segments.push({ text: segmentText, highlighted });
+  };
+
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = match[0];
+    const start = match.index ?? 0;
+    const isMatch = matchedTerms.has(stemSearchTerm(normalizeText(word)));
+    push(text.slice(cursor, start), false);
+    push(word, isMatch);
+    cursor = start + word.length;
+  }
+  push(text.slice(cursor), false);
+
+  return segments;
+}
+
+function normalizeText(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+function getSearchFields(recipe: Recipe): [SearchField, string][] {
+  return [
+    ["title", recipe.title],
+    ["cuisine", recipe.cuisine ?? ""],
+    ["tags", recipe.tags?.join(" ") ?? ""],
+    ["ingredients", recipe.ingredients?.map(formatIngredientLine).join(" ") ?? ""],
+    ["instructions", recipe.instructions?.join(" ") ?? ""],
+    ["tips", recipe.tips?.join(" ") ?? ""],
+  ];
+}
+
+function matchesTime(
+  minutes: number | null,
+  filter: ParsedRecipeQuery["time"]
+): boolean {
+  if (!filter) return true;
+  if (minutes === null) return false;
+
+  switch (filter.operator) {
+    case "<":
+      return minutes < filter.minutes;
+    case "<=":
+      return minutes <= filter.minutes;
+    case ">":
+      return minutes > filter.minutes;
+    case ">=":
+      return minutes >= filter.minutes;
+  }
+}
+
+/**
+ * Index terms a query token matches, with the multiplier for each match kind.
+ */
+function findMatchingTerms(
+  index: RecipeSearchIndex,
+  token: string
+): Map<string, number> {
+  const stem = stemSearchTerm(token);
+  const matches = new Map<string, number>();
+  if (index.postings.has(stem)) matches.set(stem, 1);
+
+  const maxEdits =
+    token.length >= RECIPE_SEARCH.FUZZY_TWO_EDITS_MIN_LENGTH
+      ? 2
+      : token.length >= RECIPE_SEARCH.FUZZY_ONE_EDIT_MIN_LENGTH
+        ? 1
+        : 0;
+
+  for (const term of index.postings.keys()) {
+    if (matches.has(term)) continue;
+    if (term.startsWith(token) || term.startsWith(stem)) {
+      matches.set(term, RECIPE_SEARCH.PREFIX_MATCH_WEIGHT);
+    } else if (maxEdits > 0 && isWithinEditDistance(stem, term, maxEdits)) {
+      matches.set(term, RECIPE_SEARCH.FUZZY_MATCH_WEIGHT);
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Optimal string alignment distance (edits plus adjacent swaps) ≤ maxEdits.
+ */
+function isWithinEditDistance(a: string, b: string, maxEdits: number): boolean {
+  if (Math.abs(a.length - b.length) > maxEdits) return false;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const beforeRow = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(
+        previousRow[j] + 1,
+        row[j - 1] + 1,
+        previousRow[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforeRow[j - 2] + 1);
+      }
+      row[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+
+    if (rowMin > maxEdits) return false;
+  }
+
+  return row[b.length] <= maxEdits;
+}
@@ -1,12 +1,14 @@
 import { describe, expect, it } from "vitest";
 
 import type { RecipeStructure } from "@/lib/schemas/recipe";
+import { formatIngredientLine, parseIngredientLine } from "@/lib/utils/ingredients";
 import {
   canScaleRecipeServings,
   formatScaledQuantity,
   parseLeadingQuantity,
   scaleQuantityInText,
   scaleAllQuantitiesInText,
+  scaleIngredient,
   scaleRecipeServings,
 } from "@/lib/utils/recipe-servings";
 
@@ -16,7 +18,9 @@ const baseRecipe: RecipeStructure = {
   cookingTime: "20 mins",
   servings: 4,
   difficulty: "Easy",
-  ingredients: ["2 cups broth", "1/2 tsp salt", "salt to taste"],
+  ingredients: ["2 cups broth", "1/2 tsp salt", "salt to taste"].map(
+    parseIngredientLine
+  ),
   instructions: ["Add 2 cups broth to the pot.", "Simmer for 10 minutes."],
   calories: 200,
 };
@@ -34,6 +38,14 @@ describe("recipe-servings utilities", () => {
     expect(scaleQuantityInText("salt to taste", 2)).toBe("salt to taste");
   });
 
+  it("scales structured ingredient quantities", () => {
+    expect(scaleIngredient(parseIngredientLine("3 eggs"), 0.5).quantity).toBe(
+      1.5
+    );
+    const unmeasured = parseIngredientLine("salt to taste");
+    expect(scaleIngredient(unmeasured, 2)).toBe(unmeasured);
+  });
+
   it("formats scaled quantities readably", () => {
     expect(formatScaledQuantity(1.5)).toBe("1 1/2");
     expect(formatScaledQuantity(4)).toBe("4");
@@ -49,7 +61,11 @@ describe("recipe-servings utilities", () => {
     const scaled = scaleRecipeServings(baseRecipe, 8);
 
     expect(scaled.servings).toBe(8);
-    expect(scaled.ingredients?.[0]).toBe("4 cups broth");
+    expect(scaled.ingredients?.map(formatIngredientLine)).toEqual([
+      "4 cups broth",
+      "1 tsp salt",
+      "salt to taste",
+    ]);
     expect(scaled.calories).toBe(400);
     expect(scaled.instructions?.[0]).toContain("adjusted to serve 8");
     expect(scaled.instructions?.[1]).toContain("4 cups broth");
@@ -1,4 +1,7 @@
-import type { RecipeStructure } from "@/lib/schemas/recipe";
+import type {
+  RecipeStructure,
+  StructuredIngredient,
+} from "@/lib/schemas/recipe";
 import { NUMBER_INPUT } from "@/lib/constants/ui";
 
 const UNICODE_FRACTIONS: Record<string, number> = {
@@ -90,7 +93,8 @@ export function formatScaledQuantity(value: number): string {
   return String(rounded);
 }
 
-const MEASUREMENT_UNITS =
+/** Regex alternation of recognised measurement units (case-insensitive). */
+export const MEASUREMENT_UNITS =
   "cups?|tbsp|tablespoons?|tsp|teaspoons?|oz|ounces?|g|grams?|kg|ml|milliliters?|l|liters?|cloves?|pounds?|lbs?|lb|pinches?|slices?|cans?|sticks?";
 
 const EMBEDDED_QUANTITY_PATTERN = new RegExp(
@@ -131,6 +135,24 @@ export function scaleQuantityInText(text: string, factor: number): string {
   return `${formatScaledQuantity(scaled)} ${parsed.rest}`;
 }
 
+/**
+ * Scales a structured ingredient's quantity by a factor.
+ * Unmeasured ingredients (e.g. "salt to taste") are returned unchanged.
+ */
+export function scaleIngredient(
+  ingredient: StructuredIngredient,
+  factor: number
+): StructuredIngredient {
+  if (ingredient.quantity == null || ingredient.quantity <= 0) {
+    return ingredient;
+  }
+
+  const scaled = ingredient.quantity * factor;
+  if (scaled <= 0 || !Number.isFinite(scaled)) return ingredient;
+
+  return { ...ingredient, quantity: Math.round(scaled * 1000) / 1000 };
+}
+
 function buildServingScaleNote(
   originalServings: number,
   targetServings: number
@@ -168,7 +190,7 @@ export function scaleRecipeServings(
   const factor = clampedTarget / currentServings;
 
   const scaledIngredients = (recipe.ingredients ?? []).map((ingredient) =>
-    scaleQuantityInText(ingredient, factor)
+    scaleIngredient(ingredient, factor)
   );
 
   const scaledInstructions = (recipe.instructions ?? []).map((step) =>
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+
+import type { Recipe } from "@/lib/schemas/recipe";
+import {
+  getDaysUntilPurge,
+  getTrashExpiryCutoff,
+  getTrashPurgeDate,
+  isRecipeTrashed,
+  isTrashExpired,
+} from "@/lib/utils/recipe-trash";
+
+const DELETED_AT = new Date("2026-10-01T12:00:00.000Z");
+
+function trashedAt(date: Date): Pick<Recipe, "deletedAt"> {
+  return {
+    deletedAt: { seconds: date.getTime() / 1000, nanoseconds: 0 } as Recipe["deletedAt"],
+  };
+}
+
+describe("isRecipeTrashed", () => {
+  it("is true only while deletedAt is set", () => {
+    expect(isRecipeTrashed(trashedAt(DELETED_AT))).toBe(true);
+    expect(isRecipeTrashed({})).toBe(false);
+  });
+});
+
+describe("getTrashPurgeDate", () => {
+  it("purges 30 days after deletion", () => {
+    expect(getTrashPurgeDate(trashedAt(DELETED_AT))?.toISOString()).toBe(
+      "2026-10-31T12:00:00.000Z"
+    );
+    expect(getTrashPurgeDate({})).toBeNull();
+  });
+});
+
+describe("isTrashExpired", () => {
+  it("expires once the retention period has passed", () => {
+    const recipe = trashedAt(DELETED_AT);
+    expect(isTrashExpired(recipe, new Date("2026-10-31T11:59:59.000Z"))).toBe(false);
+    expect(isTrashExpired(recipe, new Date("2026-10-31T12:00:00.000Z"))).toBe(true);
+    expect(isTrashExpired({}, new Date("2030-01-01"))).toBe(false);
+  });
+});
+
+describe("getTrashExpiryCutoff", () => {
+  it("is the latest deletion time that has expired", () => {
+    const now = new Date("2026-10-31T12:00:00.000Z");
+    const cutoff = getTrashExpiryCutoff(now);
+    expect(cutoff.toISOString()).toBe(DELETED_AT.toISOString());
+    expect(isTrashExpired(trashedAt(cutoff), now)).toBe(true);
+  });
+});
+
+describe("getDaysUntilPurge", () => {
+  it("rounds partial days up and never goes below zero", () => {
+    const recipe = trashedAt(DELETED_AT);
+    expect(getDaysUntilPurge(recipe, DELETED_AT)).toBe(30);
+    expect(getDaysUntilPurge(recipe, new Date("2026-10-31T00:00:00.000Z"))).toBe(1);
+    expect(getDaysUntilPurge(recipe, new Date("2026-11-05T00:00:00.000Z"))).toBe(0);
+  });
+});
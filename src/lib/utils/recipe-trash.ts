@@ -0,0 +1,49 @@
+/**
+ * Pure helpers for the saved recipe trash: which recipes are trashed and
+ * when they are purged.
+ */
+
+import { RECIPE_TRASH } from "@/lib/constants/domain";
+import type { Recipe } from "@/lib/schemas/recipe";
+import { toTimestampMillis } from "@/lib/utils/firestore";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isRecipeTrashed(recipe: Pick<Recipe, "deletedAt">): boolean {
+  return recipe.deletedAt != null;
+}
+
+/**
+ * When a trashed recipe is purged for good.
+ * @returns The purge date, or null when the recipe is not in the trash
+ */
+export function getTrashPurgeDate(recipe: Pick<Recipe, "deletedAt">): Date | null {
+  const deletedAtMillis = toTimestampMillis(recipe.deletedAt);
+  if (deletedAtMillis === null) return null;
+  return new Date(deletedAtMillis + RECIPE_TRASH.RETENTION_DAYS * DAY_MS);
+}
+
+/**
+ * Recipes trashed at or before this time have outlived the retention period.
+ */
+export function getTrashExpiryCutoff(now: Date): Date {
+  return new Date(now.getTime() - RECIPE_TRASH.RETENTION_DAYS * DAY_MS);
+}
+
+/**
+ * Whether a trashed recipe has outlived the retention period.
+ */
+export function isTrashExpired(recipe: Pick<Recipe, "deletedAt">, now: Date): boolean {
+  const purgeDate = getTrashPurgeDate(recipe);
+  return purgeDate !== null && purgeDate.getTime() <= now.getTime();
+}
+
+/**
+ * Whole days left before a trashed recipe is purged, rounded up so the last
+ * day reads "1 day" rather than "0 days".
+ */
+export function getDaysUntilPurge(recipe: Pick<Recipe, "deletedAt">, now: Date): number {
+  const purgeDate = getTrashPurgeDate(recipe);
+  if (!purgeDate) return RECIPE_TRASH.RETENTION_DAYS;
+  return Math.max(0, Math.ceil((purgeDate.getTime() - now.getTime()) / DAY_MS));
+}
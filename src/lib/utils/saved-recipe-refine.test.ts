@@ -2,6 +2,7 @@ import { describe, expect, it } from "vitest";
 
 import { FORM_VALIDATION } from "@/lib/constants/ui";
 import type { Recipe } from "@/lib/schemas/recipe";
+import { parseIngredientLine } from "@/lib/utils/ingredients";
 import { buildSavedRecipeRefinePrompt } from "@/lib/utils/saved-recipe-refine";
 
 function makeRecipe(overrides: Partial<Recipe> = {}): Recipe {
@@ -11,7 +12,7 @@ function makeRecipe(overrides: Partial<Recipe> = {}): Recipe {
     title: "Lemon Pasta",
     content: "# Lemon Pasta",
     createdAt: { seconds: 1, nanoseconds: 0 } as Recipe["createdAt"],
-    ingredients: ["pasta", "lemon", "parmesan"],
+    ingredients: ["pasta", "lemon", "parmesan"].map(parseIngredientLine),
     servings: 2,
     difficulty: "Easy",
     cuisine: "Italian",
@@ -33,7 +34,7 @@ describe("buildSavedRecipeRefinePrompt", () => {
       makeRecipe({
         title: "A".repeat(600),
         ingredients: Array.from({ length: 20 }, (_, index) =>
-          `ingredient-${index}`
+          parseIngredientLine(`ingredient-${index}`)
         ),
       })
     );
@@ -1,9 +1,15 @@
 import { FORM_VALIDATION } from "@/lib/constants/ui";
-import type { Recipe } from "@/lib/schemas/recipe";
+import type { Recipe, StructuredIngredient } from "@/lib/schemas/recipe";
 
-function compactList(items: string[] | undefined, maxItems: number): string {
-  if (!items?.length) return "";
-  return items.slice(0, maxItems).join(", ");
+function compactIngredientList(
+  ingredients: StructuredIngredient[] | undefined,
+  maxItems: number
+): string {
+  if (!ingredients?.length) return "";
+  return ingredients
+    .slice(0, maxItems)
+    .map((ingredient) => ingredient.item)
+    .join(", ");
 }
 
 function truncatePrompt(prompt: string): string {
@@ -23,7 +29,7 @@ export function buildSavedRecipeRefinePrompt(recipe: Recipe): string {
     "Keep the spirit of the saved recipe, but adjust flavors, technique, or presentation.",
   ];
 
-  const ingredients = compactList(recipe.ingredients, 10);
+  const ingredients = compactIngredientList(recipe.ingredients, 10);
   if (ingredients) {
     parts.push(`Reference ingredients: ${ingredients}.`);
   }
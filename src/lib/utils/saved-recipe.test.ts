@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 
 import type { Recipe } from "@/lib/schemas/recipe";
+import { parseIngredientLine } from "@/lib/utils/ingredients";
 import { getCompleteStructureFromSavedRecipe } from "@/lib/utils/saved-recipe";
 
 function makeRecipe(overrides: Partial<Recipe> = {}): Recipe {
@@ -14,7 +15,7 @@ function makeRecipe(overrides: Partial<Recipe> = {}): Recipe {
     cookingTime: "20 mins",
     servings: 4,
     difficulty: "Easy",
-    ingredients: ["2 cups tomatoes"],
+    ingredients: [parseIngredientLine("2 cups tomatoes")],
     instructions: ["Simmer tomatoes."],
     calories: 120,
     macros: {
@@ -36,7 +37,16 @@ describe("getCompleteStructureFromSavedRecipe", () => {
       cookingTime: "20 mins",
       servings: 4,
       difficulty: "Easy",
-      ingredients: ["2 cups tomatoes"],
+      ingredients: [
+        {
+          quantity: 2,
+          unit: "cups",
+          item: "tomatoes",
+          preparation: null,
+          optional: false,
+          group: null,
+        },
+      ],
       instructions: ["Simmer tomatoes."],
       calories: 120,
       macros: {
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+
+import type { Recipe } from "@/lib/schemas/recipe";
+import type { SharedRecipe } from "@/lib/schemas/shared-recipe";
+import { parseIngredientLine } from "@/lib/utils/ingredients";
+import {
+  buildSharedRecipeContent,
+  getSharedRecipeDescription,
+  isValidShareId,
+} from "@/lib/utils/shared-recipe";
+
+const timestamp = { seconds: 1, nanoseconds: 0 } as Recipe["createdAt"];
+
+const recipe: Recipe = {
+  id: "recipe-id",
+  userId: "user-id",
+  title: "Miso Soup",
+  content: "# Miso Soup",
+  createdAt: timestamp,
+  preparationTime: "5 mins",
+  servings: 2,
+  ingredients: [parseIngredientLine("2 tbsp miso"), parseIngredientLine("1 block tofu")],
+  instructions: ["Whisk miso into broth."],
+  calories: 120,
+  shareId: "abcdefghij0123456789",
+};
+
+describe("isValidShareId", () => {
+  it("accepts 20-character alphanumeric ids only", () => {
+    expect(isValidShareId("abcdefghij0123456789")).toBe(true);
+    expect(isValidShareId("short")).toBe(false);
+    expect(isValidShareId("abcdefghij012345678/")).toBe(false);
+  });
+});
+
+describe("buildSharedRecipeContent", () => {
+  it("copies display fields without owner or share metadata", () => {
+    const content = buildSharedRecipeContent(recipe);
+
+    expect(content).toMatchObject({
+      title: "Miso Soup",
+      servings: 2,
+      cookingTime: null,
+      calories: 120,
+      macros: null,
+      tips: [],
+    });
+    expect(content).not.toHaveProperty("userId");
+    expect(content).not.toHaveProperty("shareId");
+  });
+});
+
+describe("getSharedRecipeDescription", () => {
+  it("summarizes the recipe for link previews", () => {
+    const shared: SharedRecipe = {
+      ...buildSharedRecipeContent(recipe),
+      cuisine: "Japanese",
+      id: "abcdefghij0123456789",
+      userId: "user-id",
+      recipeId: "recipe-id",
+      publishedAt: timestamp,
+    };
+
+    expect(getSharedRecipeDescription(shared)).toBe(
+      "Japanese · Serves 2 · Prep 5 mins · 2 ingredients"
+    );
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Public share link helpers.
+ */
+
+import type { Recipe, RecipeStructure } from "@/lib/schemas/recipe";
+import type { SharedRecipe, SharedRecipeContent } from "@/lib/schemas/shared-recipe";
+import { getRecipeSnapshot } from "@/lib/utils/recipe-edit";
+
+/** Firestore auto-generated ids: 20 alphanumeric characters. */
+const SHARE_ID_PATTERN = /^[A-Za-z0-9]{20}$/;
+
+const DESCRIPTION_MAX_LENGTH = 160;
+
+export function isValidShareId(shareId: string): boolean {
+  return SHARE_ID_PATTERN.test(shareId);
+}
+
+export function getSharedRecipePath(shareId: string): string {
+  return `/r/${shareId}`;
+}
+
+/**
+ * Copies the fields a public snapshot shows from a saved recipe.
+ */
+export function buildSharedRecipeContent(recipe: Recipe): SharedRecipeContent {
+  return {
+    ...getRecipeSnapshot(recipe),
+    calories: recipe.calories ?? null,
+    macros: recipe.macros ?? null,
+  };
+}
+
+/**
+ * Structured view of a shared snapshot for JSON-LD metadata.
+ */
+export function getSharedRecipeStructure(shared: SharedRecipe): RecipeStructure {
+  return {
+    title: shared.title,
+    preparationTime: shared.preparationTime ?? undefined,
+    cookingTime: shared.cookingTime ?? undefined,
+    servings: shared.servings ?? undefined,
+    ingredients: shared.ingredients,
+    instructions: shared.instructions,
+    tips: shared.tips,
+    calories: shared.calories,
+    macros: shared.macros,
+  };
+}
+
+/**
+ * One-line summary for link previews, e.g. "Serves 4 · Prep 10 mins · 8 ingredients".
+ */
+export function getSharedRecipeDescription(shared: SharedRecipe): string {
+  const parts = [
+    shared.cuisine,
+    shared.servings != null ? `Serves ${shared.servings}` : null,
+    shared.preparationTime ? `Prep ${shared.preparationTime}` : null,
+    shared.cookingTime ? `Cook ${shared.cookingTime}` : null,
+    shared.ingredients.length > 0
+      ? `${shared.ingredients.length} ingredient${shared.ingredients.length !== 1 ? "s" : ""}`
+      : null,
+  ].filter(Boolean);
+
+  const description = parts.length > 0 ? parts.join(" · ") : `A recipe for ${shared.title}`;
+  return description.length > DESCRIPTION_MAX_LENGTH
+    ? `${description.slice(0, DESCRIPTION_MAX_LENGTH - 1)}…`
+    : description;
+}
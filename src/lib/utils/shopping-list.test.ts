@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+
+import type { Recipe } from "@/lib/schemas/recipe";
+import type { ShoppingListItem } from "@/lib/schemas/shopping-list";
+import { parseIngredientLine } from "@/lib/utils/ingredients";
+import {
+  buildShoppingListDraft,
+  buildShoppingListItems,
+  buildShoppingListTitle,
+  formatShoppingListAsMarkdown,
+  formatShoppingListAsText,
+  getIngredientAisle,
+  getIngredientMergeKey,
+} from "@/lib/utils/shopping-list";
+
+function makeRecipe(title: string, lines: string[], servings = 4): Recipe {
+  return {
+    id: title.toLowerCase(),
+    userId: "user-id",
+    title,
+    content: `# ${title}`,
+    createdAt: { seconds: 1, nanoseconds: 0 } as Recipe["createdAt"],
+    preparationTime: "10 mins",
+    cookingTime: "20 mins",
+    servings,
+    difficulty: "Easy",
+    ingredients: lines.map(parseIngredientLine),
+    instructions: ["Cook."],
+  };
+}
+
+function findItem(items: ShoppingListItem[], name: string): ShoppingListItem {
+  const match = items.find((item) => getIngredientMergeKey(item.item) === name);
+  if (!match) throw new Error(`Missing ${name}`);
+  return match;
+}
+
+describe("getIngredientAisle", () => {
+  it("prefers compound phrases over single keywords", () => {
+    expect(getIngredientAisle("chicken broth")).toBe("Pantry");
+    expect(getIngredientAisle("chicken thighs")).toBe("Meat & Seafood");
+    expect(getIngredientAisle("red bell pepper")).toBe("Produce");
+    expect(getIngredientAisle("black pepper")).toBe("Spices & Seasonings");
+    expect(getIngredientAisle("frozen peas")).toBe("Frozen");
+    expect(getIngredientAisle("unsalted butter")).toBe("Dairy & Eggs");
+    expect(getIngredientAisle("gochujang")).toBe("Other");
+  });
+});
+
+describe("getIngredientMergeKey", () => {
+  it("ignores case, parentheticals, and simple plurals", () => {
+    expect(getIngredientMergeKey("Eggs")).toBe("egg");
+    expect(getIngredientMergeKey("egg (room temperature)")).toBe("egg");
+    expect(getIngredientMergeKey("Cherry Tomatoes")).toBe("cherry tomato");
+    expect(getIngredientMergeKey("berries")).toBe("berry");
+  });
+});
+
+describe("buildShoppingListItems", () => {
+  it("sums compatible units across recipes", () => {
+    const items = buildShoppingListItems([
+      {
+        recipe: makeRecipe("Pancakes", [
+          "500 g sugar",
+          "1 cup milk",
+          "2 eggs",
+          "2 cloves garlic",
+        ]),
+      },
+      {
+        recipe: makeRecipe("Custard", [
+          "1 kg sugar",
+          "2 tbsp milk",
+          "1 egg",
+          "1 clove garlic",
+          "salt to taste",
+        ]),
+      },
+    ]);
+
+    expect(findItem(items, "sugar")).toMatchObject({ quantity: 1.5, unit: "kg" });
+    expect(findItem(items, "milk")).toMatchObject({ quantity: 1.13, unit: "cups" });
+    expect(findItem(items, "egg")).toMatchObject({
+      quantity: 3,
+      unit: null,
+      aisle: "Dairy & Eggs",
+      recipeTitles: ["Pancakes", "Custard"],
+    });
+    expect(findItem(items, "garlic")).toMatchObject({ quantity: 3, unit: "cloves" });
+    expect(findItem(items, "salt to taste")).toMatchObject({ quantity: null });
+  });
+
+  it("folds volume into weight when the density is known", () => {
+    const items = buildShoppingListItems([
+      { recipe: makeRecipe("Bread", ["100 g all-purpose flour"]) },
+      { recipe: makeRecipe("Cake", ["1 cup all-purpose flour"]) },
+    ]);
+
+    expect(items).toHaveLength(1);
+    expect(items[0].unit).toBe("g");
+    expect(items[0].quantity).toBeGreaterThan(200);
+  });
+
+  it("uses the whole ingredient name when looking up the density", () => {
+    const items = buildShoppingListItems([
+      { recipe: makeRecipe("Pancakes", ["100 g buttermilk", "50 g goats cheese"]) },
+      { recipe: makeRecipe("Biscuits", ["1 cup buttermilk", "1 cup goats cheese"]) },
+    ]);
+
+    const buttermilk = findItem(items, "buttermilk");
+    expect(buttermilk.unit).toBe("g");
+    expect(buttermilk.quantity).toBeCloseTo(100 + 236.588 * 1.03, 0);
+    expect(items.filter((item) => item.item === "goats cheese")).toHaveLength(2);
+  });
+
+  it("keeps unrelated units as separate lines", () => {
+    const items = buildShoppingListItems([
+      { recipe: makeRecipe("Stew", ["1 can tomatoes", "2 cups tomatoes"]) },
+    ]);
+
+    expect(items.map((item) => item.unit).sort()).toEqual(["can", "cups"]);
+  });
+
+  it("scales each recipe to the requested servings", () => {
+    const items = buildShoppingListItems([
+      { recipe: makeRecipe("Omelette", ["2 eggs"], 2), servings: 4 },
+    ]);
+
+    expect(items[0].quantity).toBe(4);
+  });
+
+  it("orders items by aisle", () => {
+    const items = buildShoppingListItems([
+      { recipe: makeRecipe("Mix", ["1 tsp cumin", "1 onion", "1 cup rice"]) },
+    ]);
+
+    expect(items.map((item) => item.aisle)).toEqual([
+      "Produce",
+      "Pantry",
+      "Spices & Seasonings",
+    ]);
+  });
+});
+
+describe("buildShoppingListTitle", () => {
+  it("summarizes the selected recipes", () => {
+    expect(buildShoppingListTitle(["Soup"])).toBe("Soup");
+    expect(buildShoppingListTitle(["Soup", "Bread"])).toBe("Soup & Bread");
+    expect(buildShoppingListTitle(["Soup", "Bread", "Salad"])).toBe("Soup + 2 more");
+  });
+});
+
+describe("buildShoppingListDraft", () => {
+  it("lists repeated recipes once", () => {
+    const soup = makeRecipe("Soup", ["1 onion"]);
+    const draft = buildShoppingListDraft([
+      { recipe: soup },
+      { recipe: soup, servings: 2 },
+    ]);
+
+    expect(draft.title).toBe("Soup");
+    expect(draft.recipeIds).toEqual(["soup"]);
+    expect(draft.items[0].quantity).toBe(1.5);
+  });
+});
+
+describe("shopping list export", () => {
+  const items = buildShoppingListItems([
+    { recipe: makeRecipe("Salad", ["1 onion", "2 tbsp olive oil"]) },
+  ]).map((item) => (item.item === "onion" ? { ...item, checked: true } : item));
+
+  it("formats plain text with check marks", () => {
+    expect(formatShoppingListAsText("Salad", items)).toBe(
+      "Salad\n\nProduce\n[x] 1 onion\n\nPantry\n[ ] 2 tbsp olive oil"
+    );
+  });
+
+  it("formats markdown task lists", () => {
+    expect(formatShoppingListAsMarkdown("Salad", items)).toBe(
+      "# Salad\n\n## Produce\n\n- [x] 1 onion\n\n## Pantry\n\n- [ ] 2 tbsp olive oil"
+    );
+  });
+});
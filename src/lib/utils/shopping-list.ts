@@ -0,0 +1,481 @@
+/**
+ * Shopping list building and export.
+ *
+ * Ingredients from several saved recipes are merged by item name, compatible
+ * units are summed (volume with volume, mass with mass, and volume folded into
+ * mass when the ingredient density is known), and items are grouped by aisle.
+ */
+
+import type { ShoppingAisle } from "@/lib/constants/domain";
+import { SHOPPING_AISLES } from "@/lib/constants/domain";
+import type { Recipe, StructuredIngredient } from "@/lib/schemas/recipe";
+import type { ShoppingListItem } from "@/lib/schemas/shopping-list";
+import {
+  canScaleRecipeServings,
+  formatScaledQuantity,
+  scaleRecipeServings,
+} from "@/lib/utils/recipe-servings";
+import { getCompleteStructureFromSavedRecipe } from "@/lib/utils/saved-recipe";
+import type { CanonicalUnit } from "@/lib/utils/unit-conversion";
+import {
+  convertQuantity,
+  getIngredientDensity,
+  getUnitKind,
+  normalizeUnit,
+} from "@/lib/utils/unit-conversion";
+
+export interface ShoppingListSource {
+  recipe: Recipe;
+  /** Target servings; null or undefined keeps the recipe as saved. */
+  servings?: number | null;
+}
+
+/** Fields of a new shopping list, ready to save. */
+export interface ShoppingListDraft {
+  title: string;
+  recipeIds: string[];
+  items: ShoppingListItem[];
+}
+
+export interface ShoppingListAisleGroup {
+  aisle: ShoppingAisle;
+  items: ShoppingListItem[];
+}
+
+/**
+ * Keyword → aisle rules, first match wins. Compound phrases come before the
+ * single words they contain ("chicken broth" is pantry, "black pepper" a spice).
+ */
+const AISLE_RULES: ReadonlyArray<readonly [string, ShoppingAisle]> = [
+  ["frozen", "Frozen"],
+  ["ice cream", "Frozen"],
+  ["peanut butter", "Pantry"],
+  ["coconut milk", "Pantry"],
+  ["baking powder", "Pantry"],
+  ["baking soda", "Pantry"],
+  ["cocoa", "Pantry"],
+  ["broth", "Pantry"],
+  ["stock", "Pantry"],
+  ["sauce", "Pantry"],
+  ["canned", "Pantry"],
+  ["paste", "Pantry"],
+  ["vinegar", "Pantry"],
+  ["oil", "Pantry"],
+  ["eggplant", "Produce"],
+  ["bell pepper", "Produce"],
+  ["chili pepper", "Produce"],
+  ["black pepper", "Spices & Seasonings"],
+  ["powder", "Spices & Seasonings"],
+  ["dried", "Spices & Seasonings"],
+  ["chicken", "Meat & Seafood"],
+  ["beef", "Meat & Seafood"],
+  ["pork", "Meat & Seafood"],
+  ["lamb", "Meat & Seafood"],
+  ["turkey", "Meat & Seafood"],
+  ["bacon", "Meat & Seafood"],
+  ["sausage", "Meat & Seafood"],
+  ["ham", "Meat & Seafood"],
+  ["fish", "Meat & Seafood"],
+  ["salmon", "Meat & Seafood"],
+  ["tuna", "Meat & Seafood"],
+  ["cod", "Meat & Seafood"],
+  ["shrimp", "Meat & Seafood"],
+  ["prawn", "Meat & Seafood"],
+  ["milk", "Dairy & Eggs"],
+  ["butter", "Dairy & Eggs"],
+  ["cheese", "Dairy & Eggs"],
+  ["parmesan", "Dairy & Eggs"],
+  ["mozzarella", "Dairy & Eggs"],
+  ["cream", "Dairy & Eggs"],
+  ["yogurt", "Dairy & Eggs"],
+  ["egg", "Dairy & Eggs"],
+  ["bread", "Bakery"],
+  ["bun", "Bakery"],
+  ["tortilla", "Bakery"],
+  ["pita", "Bakery"],
+  ["baguette", "Bakery"],
+  ["onion", "Produce"],
+  ["scallion", "Produce"],
+  ["shallot", "Produce"],
+  ["garlic", "Produce"],
+  ["ginger", "Produce"],
+  ["tomato", "Produce"],
+  ["potato", "Produce"],
+  ["carrot", "Produce"],
+  ["celery", "Produce"],
+  ["lettuce", "Produce"],
+  ["spinach", "Produce"],
+  ["kale", "Produce"],
+  ["cabbage", "Produce"],
+  ["broccoli", "Produce"],
+  ["cucumber", "Produce"],
+  ["zucchini", "Produce"],
+  ["mushroom", "Produce"],
+  ["avocado", "Produce"],
+  ["lemon", "Produce"],
+  ["lime", "Produce"],
+  ["apple", "Produce"],
+  ["banana", "Produce"],
+  ["berr", "Produce"],
+  ["fresh", "Produce"],
+  ["cilantro", "Produce"],
+  ["parsley", "Produce"],
+  ["basil", "Produce"],
+  ["salt", "Spices & Seasonings"],
+  ["pepper", "Spices & Seasonings"],
+  ["cumin", "Spices & Seasonings"],
+  ["paprika", "Spices & Seasonings"],
+  ["cinnamon", "Spices & Seasonings"],
+  ["nutmeg", "Spices & Seasonings"],
+  ["oregano", "Spices & Seasonings"],
+  ["thyme", "Spices & Seasonings"],
+  ["vanilla", "Spices & Seasonings"],
+  ["spice", "Spices & Seasonings"],
+  ["seasoning", "Spices & Seasonings"],
+  ["flour", "Pantry"],
+  ["sugar", "Pantry"],
+  ["rice", "Pantry"],
+  ["pasta", "Pantry"],
+  ["noodle", "Pantry"],
+  ["bean", "Pantry"],
+  ["lentil", "Pantry"],
+  ["oat", "Pantry"],
+  ["honey", "Pantry"],
+  ["chocolate", "Pantry"],
+  ["nut", "Pantry"],
+  ["wine", "Beverages"],
+  ["beer", "Beverages"],
+  ["juice", "Beverages"],
+  ["coffee", "Beverages"],
+  ["tea", "Beverages"],
+];
+
+const AISLE_RULE_PATTERNS = AISLE_RULES.map(
+  ([keyword, aisle]) => [new RegExp(`\\b${keyword}`, "i"), aisle] as const
+);
+
+/**
+ * Guesses the store aisle for an ingredient name.
+ */
+export function getIngredientAisle(item: string): ShoppingAisle {
+  const match = AISLE_RULE_PATTERNS.find(([pattern]) => pattern.test(item));
+  return match ? match[1] : "Other";
+}
+
+function singularize(word: string): string {
+  if (word.endsWith("ies") && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (/(ches|shes|oes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Key used to merge like ingredients: lowercase, no parentheticals, last word singular.
+ */
+export function getIngredientMergeKey(item: string): string {
+  const words = item
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, " ")
+    .replace(/[^a-z0-9'\s-]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+  if (words.length === 0) return item.trim().toLowerCase();
+
+  words[words.length - 1] = singularize(words[words.length - 1]);
+  return words.join(" ");
+}
+
+/**
+ * Returns the ingredients a source contributes, scaled when servings differ.
+ * Legacy recipes without complete structured data are used as saved.
+ */
+export function getShoppingListSourceIngredients({
+  recipe,
+  servings,
+}: ShoppingListSource): StructuredIngredient[] {
+  if (servings != null) {
+    const structure = getCompleteStructureFromSavedRecipe(recipe);
+    if (
+      structure &&
+      canScaleRecipeServings(structure) &&
+      structure.servings !== servings
+    ) {
+      return scaleRecipeServings(structure, servings).ingredients ?? [];
+    }
+  }
+  return recipe.ingredients ?? [];
+}
+
+const PLURAL_UNITS = new Set<CanonicalUnit>(["cup", "pint", "quart", "gallon"]);
+
+function formatCanonicalUnit(unit: CanonicalUnit, quantity: number): string {
+  return PLURAL_UNITS.has(unit) && quantity > 1 ? `${unit}s` : unit;
+}
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+interface MeasuredTotal {
+  /** Sum in the base unit of `kind` (g or ml). */
+  total: number;
+  /** Largest unit seen, used for display. */
+  displayUnit: CanonicalUnit;
+}
+
+interface IngredientAccumulator {
+  key: string;
+  item: string;
+  recipeTitles: Set<string>;
+  mass: MeasuredTotal | null;
+  volume: MeasuredTotal | null;
+  /** Units that cannot be converted (cloves, cans, ...), keyed by normalized label. */
+  other: Map<string, { unit: string; total: number }>;
+  count: number | null;
+  hasUnmeasured: boolean;
+}
+
+function addMeasured(
+  current: MeasuredTotal | null,
+  quantity: number,
+  unit: CanonicalUnit,
+  baseUnit: CanonicalUnit
+): MeasuredTotal {
+  const amount = convertQuantity(quantity, unit, baseUnit) ?? 0;
+  if (!current) return { total: amount, displayUnit: unit };
+
+  const isLarger =
+    (convertQuantity(1, unit, baseUnit) ?? 0) >
+    (convertQuantity(1, current.displayUnit, baseUnit) ?? 0);
+  return {
+    total: current.total + amount,
+    displayUnit: isLarger ? unit : current.displayUnit,
+  };
+}
+
+function addIngredient(
+  accumulator: IngredientAccumulator,
+  ingredient: StructuredIngredient
+): void {
+  const { quantity, unit } = ingredient;
+  if (quantity == null || quantity <= 0) {
+    accumulator.hasUnmeasured = true;
+    return;
+  }
+
+  if (!unit) {
+    accumulator.count = (accumulator.count ?? 0) + quantity;
+    return;
+  }
+
+  const canonical = normalizeUnit(unit);
+  if (canonical && getUnitKind(canonical) === "mass") {
+    accumulator.mass = addMeasured(accumulator.mass, quantity, canonical, "g");
+    return;
+  }
+  if (canonical) {
+    accumulator.volume = addMeasured(accumulator.volume, quantity, canonical, "ml");
+    return;
+  }
+
+  const otherKey = singularize(unit.trim().toLowerCase());
+  const existing = accumulator.other.get(otherKey);
+  accumulator.other.set(otherKey, {
+    unit: existing?.unit ?? unit.trim(),
+    total: (existing?.total ?? 0) + quantity,
+  });
+}
+
+function toMeasuredItem(
+  accumulator: IngredientAccumulator,
+  measured: MeasuredTotal,
+  baseUnit: CanonicalUnit,
+  idSuffix: string
+): Omit<ShoppingListItem, "aisle" | "checked" | "recipeTitles"> {
+  const quantity = roundQuantity(
+    convertQuantity(measured.total, baseUnit, measured.displayUnit) ?? measured.total
+  );
+  return {
+    id: `${accumulator.key}|${idSuffix}`,
+    item: accumulator.item,
+    quantity,
+    unit: formatCanonicalUnit(measured.displayUnit, quantity),
+  };
+}
+
+function toShoppingListItems(accumulator: IngredientAccumulator): ShoppingListItem[] {
+  // Fold volume into weight when both appear and the density is known
+  const density = getIngredientDensity(accumulator.item);
+  if (accumulator.mass && accumulator.volume && density != null) {
+    accumulator.mass = {
+      ...accumulator.mass,
+      total: accumulator.mass.total + accumulator.volume.total * density,
+    };
+    accumulator.volume = null;
+  }
+
+  const lines: Array<Omit<ShoppingListItem, "aisle" | "checked" | "recipeTitles">> = [];
+  if (accumulator.mass) {
+    lines.push(toMeasuredItem(accumulator, accumulator.mass, "g", "mass"));
+  }
+  if (accumulator.volume) {
+    lines.push(toMeasuredItem(accumulator, accumulator.volume, "ml", "volume"));
+  }
+  for (const [otherKey, { unit, total }] of accumulator.other) {
+    lines.push({
+      id: `${accumulator.key}|${otherKey}`,
+      item: accumulator.item,
+      quantity: roundQuantity(total),
+      unit,
+    });
+  }
+  if (accumulator.count != null) {
+    lines.push({
+      id: `${accumulator.key}|count`,
+      item: accumulator.item,
+      quantity: roundQuantity(accumulator.count),
+      unit: null,
+    });
+  }
+  if (lines.length === 0 && accumulator.hasUnmeasured) {
+    lines.push({
+      id: `${accumulator.key}|unmeasured`,
+      item: accumulator.item,
+      quantity: null,
+      unit: null,
+    });
+  }
+
+  const aisle = getIngredientAisle(accumulator.item);
+  const recipeTitles = [...accumulator.recipeTitles];
+  return lines.map((line) => ({ ...line, aisle, checked: false, recipeTitles }));
+}
+
+/**
+ * Builds consolidated shopping list items from one or more saved recipes.
+ * Items are ordered by aisle (see SHOPPING_AISLES), then alphabetically.
+ */
+export function buildShoppingListItems(
+  sources: readonly ShoppingListSource[]
+): ShoppingListItem[] {
+  const accumulators = new Map<string, IngredientAccumulator>();
+
+  for (const source of sources) {
+    for (const ingredient of getShoppingListSourceIngredients(source)) {
+      const key = getIngredientMergeKey(ingredient.item);
+      let accumulator = accumulators.get(key);
+      if (!accumulator) {
+        accumulator = {
+          key,
+          item: ingredient.item.trim(),
+          recipeTitles: new Set(),
+          mass: null,
+          volume: null,
+          other: new Map(),
+          count: null,
+          hasUnmeasured: false,
+        };
+        accumulators.set(key, accumulator);
+      }
+      accumulator.recipeTitles.add(source.recipe.title);
+      addIngredient(accumulator, ingredient);
+    }
+  }
+
+  return [...accumulators.values()]
+    .flatMap(toShoppingListItems)
+    .sort(
+      (a, b) =>
+        SHOPPING_AISLES.indexOf(a.aisle) - SHOPPING_AISLES.indexOf(b.aisle) ||
+        a.item.localeCompare(b.item)
+    );
+}
+
+/**
+ * Builds a saveable list from sources. The same recipe may appear in several
+ * sources (e.g. planned twice in a week); it is listed once in `recipeIds`.
+ */
+export function buildShoppingListDraft(
+  sources: readonly ShoppingListSource[],
+  title?: string
+): ShoppingListDraft {
+  const recipeIds = [...new Set(sources.map(({ recipe }) => recipe.id))];
+  const recipeTitles = [...new Set(sources.map(({ recipe }) => recipe.title))];
+  return {
+    title: title ?? buildShoppingListTitle(recipeTitles),
+    recipeIds,
+    items: buildShoppingListItems(sources),
+  };
+}
+
+/**
+ * Groups items by aisle in store walking order, skipping empty aisles.
+ */
+export function groupShoppingListItems(
+  items: readonly ShoppingListItem[]
+): ShoppingListAisleGroup[] {
+  return SHOPPING_AISLES.map((aisle) => ({
+    aisle,
+    items: items.filter((item) => item.aisle === aisle),
+  })).filter((group) => group.items.length > 0);
+}
+
+/**
+ * Default list title from the selected recipes, e.g. "Pancakes + 2 more".
+ */
+export function buildShoppingListTitle(recipeTitles: readonly string[]): string {
+  if (recipeTitles.length === 0) return "Shopping list";
+  if (recipeTitles.length === 1) return recipeTitles[0];
+  if (recipeTitles.length === 2) return `${recipeTitles[0]} & ${recipeTitles[1]}`;
+  return `${recipeTitles[0]} + ${recipeTitles.length - 1} more`;
+}
+
+/**
+ * Formats one item as "2 cups all-purpose flour".
+ */
+export function formatShoppingListItem(item: ShoppingListItem): string {
+  const parts: string[] = [];
+  if (item.quantity != null) parts.push(formatScaledQuantity(item.quantity));
+  if (item.unit) parts.push(item.unit);
+  parts.push(item.item);
+  return parts.join(" ");
+}
+
+/**
+ * Plain-text export with "[ ]" / "[x]" check marks under aisle headings.
+ */
+export function formatShoppingListAsText(
+  title: string,
+  items: readonly ShoppingListItem[]
+): string {
+  const sections = groupShoppingListItems(items).map(
+    ({ aisle, items: aisleItems }) =>
+      [
+        aisle,
+        ...aisleItems.map(
+          (item) => `${item.checked ? "[x]" : "[ ]"} ${formatShoppingListItem(item)}`
+        ),
+      ].join("\n")
+  );
+  return [title, ...sections].join("\n\n");
+}
+
+/**
+ * Markdown export using task-list items under "## Aisle" headings.
+ */
+export function formatShoppingListAsMarkdown(
+  title: string,
+  items: readonly ShoppingListItem[]
+): string {
+  const sections = groupShoppingListItems(items).map(
+    ({ aisle, items: aisleItems }) =>
+      [
+        `## ${aisle}`,
+        "",
+        ...aisleItems.map(
+          (item) => `- ${item.checked ? "[x]" : "[ ]"} ${formatShoppingListItem(item)}`
+        ),
+      ].join("\n")
+  );
+  return [`# ${title}`, ...sections].join("\n\n");
+}
@@ -0,0 +1,195 @@
+import { describe, expect, it } from "vitest";
+
+import type { RecipeStructure, StructuredIngredient } from "@/lib/schemas/recipe";
+import {
+  convertIngredientUnits,
+  convertQuantity,
+  convertRecipeUnits,
+  convertTemperaturesInText,
+  getIngredientDensity,
+  getIngredientGrams,
+  normalizeUnit,
+} from "@/lib/utils/unit-conversion";
+
+function makeIngredient(
+  overrides: Partial<StructuredIngredient>
+): StructuredIngredient {
+  return {
+    quantity: null,
+    unit: null,
+    item: "salt",
+    preparation: null,
+    optional: false,
+    group: null,
+    ...overrides,
+  };
+}
+
+describe("normalizeUnit", () => {
+  it("maps aliases and plurals to canonical units", () => {
+    expect(normalizeUnit("Tablespoons")).toBe("tbsp");
+    expect(normalizeUnit("g.")).toBe("g");
+    expect(normalizeUnit("fluid ounces")).toBe("fl oz");
+    expect(normalizeUnit("clove")).toBeNull();
+    expect(normalizeUnit(null)).toBeNull();
+  });
+});
+
+describe("convertQuantity", () => {
+  it("converts within a unit kind only", () => {
+    expect(convertQuantity(3, "tsp", "tbsp")).toBeCloseTo(1, 2);
+    expect(convertQuantity(1, "lb", "oz")).toBeCloseTo(16, 2);
+    expect(convertQuantity(1, "cup", "g")).toBeNull();
+  });
+});
+
+describe("getIngredientDensity", () => {
+  it("prefers the most specific ingredient match", () => {
+    expect(getIngredientDensity("Brown sugar, packed")).toBe(0.93);
+    expect(getIngredientDensity("granulated sugar")).toBe(0.845);
+    expect(getIngredientDensity("carrots")).toBeNull();
+  });
+
+  it("matches whole words only, so longer names keep their own density", () => {
+    expect(getIngredientDensity("goats cheese")).toBeNull();
+    expect(getIngredientDensity("Buttermilk")).toBe(1.03);
+    expect(getIngredientDensity("rice vinegar")).toBe(1.01);
+    expect(getIngredientDensity("sugar snap peas")).toBeNull();
+    expect(getIngredientDensity("unsalted butter, melted")).toBe(0.96);
+    expect(getIngredientDensity("old-fashioned oats")).toBe(0.38);
+  });
+});
+
+describe("getIngredientGrams", () => {
+  it("converts mass directly and volume via density", () => {
+    expect(getIngredientGrams(makeIngredient({ quantity: 100, unit: "g" }))).toBe(100);
+    expect(
+      getIngredientGrams(
+        makeIngredient({ quantity: 2, unit: "cups", item: "all-purpose flour" })
+      )
+    ).toBeCloseTo(250.78, 1);
+    expect(
+      getIngredientGrams(makeIngredient({ quantity: 2, unit: null, item: "eggs" }))
+    ).toBeNull();
+  });
+});
+
+describe("convertIngredientUnits", () => {
+  const flour = makeIngredient({
+    quantity: 2,
+    unit: "cups",
+    item: "all-purpose flour",
+    preparation: "sifted",
+  });
+
+  it("weighs baking ingredients for metric and imperial", () => {
+    expect(convertIngredientUnits(flour, "metric")).toEqual({
+      ...flour,
+      quantity: 250,
+      unit: "g",
+    });
+    expect(convertIngredientUnits(flour, "imperial")).toMatchObject({
+      quantity: 9,
+      unit: "oz",
+    });
+  });
+
+  it("keeps liquids as volume", () => {
+    const milk = makeIngredient({ quantity: 2, unit: "cups", item: "milk" });
+    expect(convertIngredientUnits(milk, "metric")).toMatchObject({
+      quantity: 470,
+      unit: "ml",
+    });
+    expect(
+      convertIngredientUnits({ ...milk, quantity: 1 }, "imperial")
+    ).toMatchObject({ quantity: 8.5, unit: "fl oz" });
+    expect(
+      convertIngredientUnits({ ...milk, quantity: 3 }, "imperial")
+    ).toMatchObject({ quantity: 1.25, unit: "pints" });
+  });
+
+  it("converts metric amounts to US customary", () => {
+    expect(
+      convertIngredientUnits(
+        makeIngredient({ quantity: 250, unit: "ml", item: "milk" }),
+        "us"
+      )
+    ).toMatchObject({ quantity: 1, unit: "cup" });
+    expect(
+      convertIngredientUnits(
+        makeIngredient({ quantity: 200, unit: "grams", item: "sugar" }),
+        "us"
+      )
+    ).toMatchObject({ quantity: 7, unit: "oz" });
+    expect(
+      convertIngredientUnits(
+        makeIngredient({ quantity: 1.5, unit: "kg", item: "potatoes" }),
+        "us"
+      )
+    ).toMatchObject({ quantity: 3.25, unit: "lb" });
+  });
+
+  it("leaves spoons, unknown units, and native units unchanged", () => {
+    const butter = makeIngredient({ quantity: 1, unit: "tbsp", item: "butter" });
+    const garlic = makeIngredient({ quantity: 2, unit: "cloves", item: "garlic" });
+    const eggs = makeIngredient({ quantity: null, unit: null, item: "eggs" });
+
+    expect(convertIngredientUnits(butter, "metric")).toBe(butter);
+    expect(convertIngredientUnits(garlic, "metric")).toBe(garlic);
+    expect(convertIngredientUnits(eggs, "us")).toBe(eggs);
+    expect(convertIngredientUnits(flour, "us")).toBe(flour);
+  });
+});
+
+describe("convertTemperaturesInText", () => {
+  it("converts oven temperatures between scales", () => {
+    expect(convertTemperaturesInText("Preheat oven to 350°F.", "metric")).toBe(
+      "Preheat oven to 175°C."
+    );
+    expect(convertTemperaturesInText("Bake at 180 °C.", "us")).toBe(
+      "Bake at 350°F."
+    );
+    expect(convertTemperaturesInText("Bake at 180°C.", "imperial")).toBe(
+      "Bake at 180°C."
+    );
+  });
+
+  it("accepts temperatures written without a degree sign", () => {
+    expect(convertTemperaturesInText("Heat to 350 F.", "metric")).toBe("Heat to 175°C.");
+    expect(convertTemperaturesInText("Bake at 400 degrees F", "metric")).toBe(
+      "Bake at 205°C"
+    );
+    expect(
+      convertTemperaturesInText("Preheat to 425 degrees Fahrenheit.", "metric")
+    ).toBe("Preheat to 220°C.");
+    expect(convertTemperaturesInText("Roast at 200 C.", "us")).toBe("Roast at 400°F.");
+    expect(convertTemperaturesInText("Bake at 180 degrees Celsius.", "us")).toBe(
+      "Bake at 350°F."
+    );
+    expect(convertTemperaturesInText("Fold in 100 fresh berries.", "metric")).toBe(
+      "Fold in 100 fresh berries."
+    );
+  });
+});
+
+describe("convertRecipeUnits", () => {
+  const recipe: RecipeStructure = {
+    title: "Shortbread",
+    ingredients: [
+      makeIngredient({ quantity: 1, unit: "cup", item: "butter" }),
+    ],
+    instructions: ["Bake at 325°F for 20 minutes."],
+  };
+
+  it("converts ingredients and instructions", () => {
+    const converted = convertRecipeUnits(recipe, "metric");
+
+    expect(converted.ingredients?.[0]).toMatchObject({ quantity: 225, unit: "g" });
+    expect(converted.instructions).toEqual(["Bake at 165°C for 20 minutes."]);
+    expect(converted.title).toBe("Shortbread");
+  });
+
+  it("returns the recipe unchanged without a unit system", () => {
+    expect(convertRecipeUnits(recipe, null)).toBe(recipe);
+  });
+});
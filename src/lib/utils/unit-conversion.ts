@@ -0,0 +1,347 @@
+/**
+ * Unit conversion engine for recipe display.
+ *
+ * Renders structured ingredients in metric, US customary, or UK imperial units.
+ * Volume measures of common baking ingredients (flour, sugar, butter, ...) are
+ * converted to weight via a density table for the metric and imperial systems,
+ * since those cooks weigh dry ingredients. Spoon measures are left as written:
+ * they are used across all three systems and are too small to weigh reliably.
+ */
+
+import type { UnitSystem } from "@/lib/constants/domain";
+import type {
+  RecipeStructure,
+  StructuredIngredient,
+} from "@/lib/schemas/recipe";
+
+export type CanonicalUnit =
+  | "tsp"
+  | "tbsp"
+  | "fl oz"
+  | "cup"
+  | "pint"
+  | "quart"
+  | "gallon"
+  | "ml"
+  | "l"
+  | "g"
+  | "kg"
+  | "oz"
+  | "lb";
+
+export type UnitKind = "volume" | "mass";
+
+interface UnitDefinition {
+  kind: UnitKind;
+  /** Millilitres (volume) or grams (mass) per unit. */
+  toBase: number;
+}
+
+const UNIT_DEFINITIONS: Record<CanonicalUnit, UnitDefinition> = {
+  tsp: { kind: "volume", toBase: 4.929 },
+  tbsp: { kind: "volume", toBase: 14.787 },
+  "fl oz": { kind: "volume", toBase: 29.574 },
+  cup: { kind: "volume", toBase: 236.588 },
+  pint: { kind: "volume", toBase: 473.176 },
+  quart: { kind: "volume", toBase: 946.353 },
+  gallon: { kind: "volume", toBase: 3785.41 },
+  ml: { kind: "volume", toBase: 1 },
+  l: { kind: "volume", toBase: 1000 },
+  g: { kind: "mass", toBase: 1 },
+  kg: { kind: "mass", toBase: 1000 },
+  oz: { kind: "mass", toBase: 28.3495 },
+  lb: { kind: "mass", toBase: 453.592 },
+};
+
+/** UK imperial volume measures differ from their US namesakes. */
+const UK_FLUID_OUNCE_ML = 28.413;
+const UK_PINT_ML = 568.261;
+
+const UNIT_ALIASES: Record<string, CanonicalUnit> = {
+  tsp: "tsp",
+  teaspoon: "tsp",
+  teaspoons: "tsp",
+  tbsp: "tbsp",
+  tbs: "tbsp",
+  tablespoon: "tbsp",
+  tablespoons: "tbsp",
+  "fl oz": "fl oz",
+  "fl. oz": "fl oz",
+  "fluid ounce": "fl oz",
+  "fluid ounces": "fl oz",
+  cup: "cup",
+  cups: "cup",
+  pint: "pint",
+  pints: "pint",
+  quart: "quart",
+  quarts: "quart",
+  gallon: "gallon",
+  gallons: "gallon",
+  ml: "ml",
+  milliliter: "ml",
+  milliliters: "ml",
+  millilitre: "ml",
+  millilitres: "ml",
+  l: "l",
+  liter: "l",
+  liters: "l",
+  litre: "l",
+  litres: "l",
+  g: "g",
+  gram: "g",
+  grams: "g",
+  kg: "kg",
+  kilogram: "kg",
+  kilograms: "kg",
+  oz: "oz",
+  ounce: "oz",
+  ounces: "oz",
+  lb: "lb",
+  lbs: "lb",
+  pound: "lb",
+  pounds: "lb",
+};
+
+/** Units each system already uses; ingredients in these units are left alone. */
+const SYSTEM_UNITS: Record<UnitSystem, readonly CanonicalUnit[]> = {
+  us: ["tsp", "tbsp", "fl oz", "cup", "pint", "quart", "gallon", "oz", "lb"],
+  metric: ["tsp", "tbsp", "ml", "l", "g", "kg"],
+  imperial: ["tsp", "tbsp", "oz", "lb"],
+};
+
+/**
+ * Grams per millilitre for ingredients commonly measured by volume.
+ * Ordered most-specific first: the first key found as a whole word (optionally
+ * plural) in the item name wins. A null density claims compound names such as
+ * "sugar snap peas" so a shorter key ("sugar") cannot match them.
+ */
+const INGREDIENT_DENSITIES: ReadonlyArray<readonly [string, number | null]> = [
+  ["all-purpose flour", 0.53],
+  ["bread flour", 0.55],
+  ["cake flour", 0.48],
+  ["whole wheat flour", 0.51],
+  ["almond flour", 0.41],
+  ["flour", 0.53],
+  ["powdered sugar", 0.51],
+  ["confectioners' sugar", 0.51],
+  ["icing sugar", 0.51],
+  ["brown sugar", 0.93],
+  ["caster sugar", 0.83],
+  ["sugar snap pea", null],
+  ["sugar", 0.845],
+  ["buttermilk", 1.03],
+  ["peanut butter", 1.09],
+  ["butter bean", null],
+  ["butter", 0.96],
+  ["cocoa", 0.42],
+  ["cornstarch", 0.54],
+  ["rolled oats", 0.38],
+  ["oats", 0.38],
+  ["chocolate chips", 0.72],
+  ["rice vinegar", 1.01],
+  ["rice wine", 0.98],
+  ["rice noodle", null],
+  ["rice", 0.85],
+  ["honey", 1.42],
+];
+
+const DENSITY_PATTERNS = INGREDIENT_DENSITIES.map(([key, density]) => ({
+  density,
+  pattern: new RegExp(`(?<![a-z])${key}(?:s|es)?(?![a-z])`),
+}));
+
+/**
+ * Maps a free-text unit label (e.g. "Tablespoons", "g.") to a canonical unit.
+ * @returns Canonical unit or null when the unit is not convertible
+ */
+export function normalizeUnit(unit: string | null | undefined): CanonicalUnit | null {
+  if (!unit) return null;
+  const key = unit.trim().toLowerCase().replace(/\.$/, "");
+  return UNIT_ALIASES[key] ?? null;
+}
+
+/**
+ * Returns whether a canonical unit measures volume or mass.
+ */
+export function getUnitKind(unit: CanonicalUnit): UnitKind {
+  return UNIT_DEFINITIONS[unit].kind;
+}
+
+/**
+ * Converts a quantity between two units of the same kind.
+ * @returns Converted quantity, or null when the units measure different things
+ */
+export function convertQuantity(
+  quantity: number,
+  from: CanonicalUnit,
+  to: CanonicalUnit
+): number | null {
+  const source = UNIT_DEFINITIONS[from];
+  const target = UNIT_DEFINITIONS[to];
+  if (source.kind !== target.kind) return null;
+  return (quantity * source.toBase) / target.toBase;
+}
+
+/**
+ * Returns grams per millilitre for a known ingredient, or null.
+ */
+export function getIngredientDensity(item: string): number | null {
+  const lower = item.toLowerCase();
+  const match = DENSITY_PATTERNS.find(({ pattern }) => pattern.test(lower));
+  return match ? match.density : null;
+}
+
+/**
+ * Converts an ingredient amount to grams when possible.
+ * Mass units convert directly; volume units need a known density.
+ */
+export function getIngredientGrams(ingredient: StructuredIngredient): number | null {
+  const unit = normalizeUnit(ingredient.unit);
+  if (ingredient.quantity == null || !unit) return null;
+
+  const definition = UNIT_DEFINITIONS[unit];
+  const base = ingredient.quantity * definition.toBase;
+  if (definition.kind === "mass") return base;
+
+  const density = getIngredientDensity(ingredient.item);
+  return density == null ? null : base * density;
+}
+
+function roundTo(value: number, step: number): number {
+  const rounded = Math.round(value / step) * step;
+  return rounded > 0 ? Math.round(rounded * 1000) / 1000 : step;
+}
+
+function pluralize(unit: string, quantity: number): string {
+  return quantity > 1 ? `${unit}s` : unit;
+}
+
+interface ConvertedAmount {
+  quantity: number;
+  unit: string;
+}
+
+function formatMass(grams: number, system: UnitSystem): ConvertedAmount {
+  if (system === "metric") {
+    if (grams >= 1000) return { quantity: roundTo(grams / 1000, 0.05), unit: "kg" };
+    return { quantity: roundTo(grams, grams >= 100 ? 5 : 1), unit: "g" };
+  }
+
+  const ounces = grams / UNIT_DEFINITIONS.oz.toBase;
+  if (ounces >= 16) return { quantity: roundTo(ounces / 16, 0.25), unit: "lb" };
+  return { quantity: roundTo(ounces, ounces >= 4 ? 0.5 : 0.25), unit: "oz" };
+}
+
+function formatVolume(ml: number, system: UnitSystem): ConvertedAmount {
+  if (system === "metric") {
+    if (ml >= 1000) return { quantity: roundTo(ml / 1000, 0.05), unit: "l" };
+    return { quantity: roundTo(ml, ml >= 100 ? 10 : 5), unit: "ml" };
+  }
+
+  if (system === "us") {
+    if (ml < UNIT_DEFINITIONS.tbsp.toBase) {
+      return { quantity: roundTo(ml / UNIT_DEFINITIONS.tsp.toBase, 0.25), unit: "tsp" };
+    }
+    if (ml < UNIT_DEFINITIONS.cup.toBase / 4) {
+      return { quantity: roundTo(ml / UNIT_DEFINITIONS.tbsp.toBase, 0.5), unit: "tbsp" };
+    }
+    const cups = roundTo(ml / UNIT_DEFINITIONS.cup.toBase, 0.25);
+    return { quantity: cups, unit: pluralize("cup", cups) };
+  }
+
+  if (ml < 15) return { quantity: roundTo(ml / 5, 0.25), unit: "tsp" };
+  if (ml < 45) return { quantity: roundTo(ml / 15, 0.5), unit: "tbsp" };
+  if (ml < UK_PINT_ML) {
+    return { quantity: roundTo(ml / UK_FLUID_OUNCE_ML, 0.5), unit: "fl oz" };
+  }
+  const pints = roundTo(ml / UK_PINT_ML, 0.25);
+  return { quantity: pints, unit: pluralize("pint", pints) };
+}
+
+/**
+ * Converts one ingredient to the target unit system.
+ * Ingredients without a quantity, with unknown units, or already in the
+ * target system's units are returned unchanged.
+ */
+export function convertIngredientUnits(
+  ingredient: StructuredIngredient,
+  system: UnitSystem
+): StructuredIngredient {
+  const unit = normalizeUnit(ingredient.unit);
+  if (ingredient.quantity == null || ingredient.quantity <= 0 || !unit) {
+    return ingredient;
+  }
+  if (unit === "tsp" || unit === "tbsp") return ingredient;
+
+  const definition = UNIT_DEFINITIONS[unit];
+  const density =
+    definition.kind === "volume" && system !== "us"
+      ? getIngredientDensity(ingredient.item)
+      : null;
+
+  if (density == null && SYSTEM_UNITS[system].includes(unit)) {
+    return ingredient;
+  }
+
+  const base = ingredient.quantity * definition.toBase;
+  const converted =
+    definition.kind === "mass"
+      ? formatMass(base, system)
+      : density != null
+        ? formatMass(base * density, system)
+        : formatVolume(base, system);
+
+  return { ...ingredient, ...converted };
+}
+
+// Matches "350°F", "350 F", "350 degrees F" and "350 degrees Fahrenheit"
+const FAHRENHEIT_PATTERN = /(\d{2,3})\s*(?:°\s*|[Dd]egrees?\s+)?(?:F|[Ff]ahrenheit)\b/g;
+const CELSIUS_PATTERN = /(\d{2,3})\s*(?:°\s*|[Dd]egrees?\s+)?(?:C|[Cc]elsius)\b/g;
+
+/**
+ * Converts oven temperatures in instruction text (°F ↔ °C).
+ * US customary uses Fahrenheit; metric and UK imperial use Celsius.
+ */
+export function convertTemperaturesInText(text: string, system: UnitSystem): string {
+  if (system === "us") {
+    return text.replace(CELSIUS_PATTERN, (_, celsius: string) => {
+      // Fahrenheit ovens are set in 25° steps (325, 350, 375, ...)
+      const fahrenheit = roundTo((Number(celsius) * 9) / 5 + 32, 25);
+      return `${fahrenheit}°F`;
+    });
+  }
+
+  return text.replace(FAHRENHEIT_PATTERN, (_, fahrenheit: string) => {
+    const celsius = roundTo(((Number(fahrenheit) - 32) * 5) / 9, 5);
+    return `${celsius}°C`;
+  });
+}
+
+/**
+ * Returns a display copy of the recipe in the requested unit system.
+ * A null system returns the recipe unchanged (shown as written).
+ */
+export function convertRecipeUnits(
+  recipe: RecipeStructure,
+  system: UnitSystem | null
+): RecipeStructure {
+  if (!system) return recipe;
+
+  return {
+    ...recipe,
+    ...(recipe.ingredients
+      ? {
+          ingredients: recipe.ingredients.map((ingredient) =>
+            convertIngredientUnits(ingredient, system)
+          ),
+        }
+      : {}),
+    ...(recipe.instructions
+      ? {
+          instructions: recipe.instructions.map((step) =>
+            convertTemperaturesInText(step, system)
+          ),
+        }
+      : {}),
+  };
+}
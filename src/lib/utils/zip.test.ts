@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+
+import { crc32, createZipArchive } from "@/lib/utils/zip";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    expect(crc32(encoder.encode("123456789"))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe("createZipArchive", () => {
+  it("stores each entry uncompressed with a central directory", () => {
+    const archive = createZipArchive(
+      [
+        { name: "data/profile.json", content: "{}" },
+        { name: "data/recipes/crème-brûlée.md", content: "# Crème brûlée\n" },
+      ],
+      new Date(2026, 9, 18, 12, 30)
+    );
+    const view = new DataView(archive.buffer);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    const firstNameLength = view.getUint16(26, true);
+    const firstName = decoder.decode(archive.subarray(30, 30 + firstNameLength));
+    const firstSize = view.getUint32(18, true);
+    const firstData = archive.subarray(30 + firstNameLength, 30 + firstNameLength + firstSize);
+    expect(firstName).toBe("data/profile.json");
+    expect(decoder.decode(firstData)).toBe("{}");
+    expect(view.getUint32(14, true)).toBe(crc32(firstData));
+
+    const end = archive.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+
+    const centralOffset = view.getUint32(end + 16, true);
+    const names: string[] = [];
+    let position = centralOffset;
+    while (position < end) {
+      expect(view.getUint32(position, true)).toBe(0x02014b50);
+      const nameLength = view.getUint16(position + 28, true);
+      names.push(decoder.decode(archive.subarray(position + 46, position + 46 + nameLength)));
+      position += 46 + nameLength;
+    }
+    expect(names).toEqual(["data/profile.json", "data/recipes/crème-brûlée.md"]);
+  });
+
+  it("writes an empty archive as just the end record", () => {
+    expect(createZipArchive([])).toHaveLength(22);
+  });
+});
@@ -197,6 +197,9 @@ export const config = {
     "/generate/:path*",
     "/profile/:path*",
     "/saved/:path*",
+    "/plan/:path*",
+    "/pantry/:path*",
+    "/shopping-list/:path*",
     "/login",
     "/signup",
     "/reset-password",